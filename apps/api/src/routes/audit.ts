@@ -3,8 +3,10 @@ import rateLimit from 'express-rate-limit';
 import { redisClient } from '../index.js';
 import { 
   analyzeUrlWithRules, 
+  applyProjectConfig,
   calculateAIReadiness, 
-  exportAuditReport
+  exportAuditReport,
+  loadProjectConfig
 } from '../../../../packages/scanner/src/exports.js';
 import { auditRequestSchema, validateRequest } from '../validation/schemas.js';
 import { logger, logAuditStart, logAuditComplete, logAuditError, logRateLimitHit } from '../utils/logger.js';
@@ -13,6 +15,12 @@ import { ErrorTypes, estimateScanDuration, formatDuration } from '../utils/error
 
 export const auditRouter = express.Router();
 
+// Project config (.ailighthouserc in the server's working directory), loaded once
+const projectConfig = loadProjectConfig().catch(error => {
+  logger.error('Failed to load project config', { error: error instanceof Error ? error.message : String(error) });
+  return undefined;
+});
+
 // Helper functions for Redis-based job storage
 async function setAuditJob(jobId: string, jobData: any) {
   try {
@@ -38,8 +46,8 @@ async function getAuditJob(jobId: string) {
 const llmRateLimiter = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
   const { enableLLM, llmProvider } = req.body;
   
-  // Only apply rate limiting for OpenRouter
-  if (!enableLLM || llmProvider !== 'openrouter') {
+  // Only apply rate limiting for OpenRouter (also the default when no provider is given)
+  if (!enableLLM || (llmProvider && llmProvider !== 'openrouter')) {
     return next();
   }
 
@@ -96,61 +104,72 @@ auditRouter.post('/', cacheMiddleware(1800), validateRequest(auditRequestSchema)
     const validatedData = (req as any).validatedData;
     const { 
       url, 
-      enableLLM = false,
-      llmProvider = 'openrouter',
-      llmModel = 'meta-llama/llama-3.3-70b-instruct:free',
+      enableLLM,
+      llmProvider,
+      llmModel,
       llmApiKey,
       llmBaseUrl,
-      minImpactScore = 5,
+      minImpactScore,
       maxChunkTokens = 1200,
+      tokenizer,
       async = false
     } = validatedData;
 
+    // Configure scan options
+    const scanOptions: any = {
+      maxChunkTokens,
+      tokenizer,
+      enableChunking: true,
+      enableExtractability: true,
+      enableLLM,
+      minImpactScore,
+      llmConfig: llmProvider ? {
+        provider: llmProvider,
+        model: llmModel,
+        baseUrl: llmBaseUrl,
+        apiKey: llmApiKey,
+      } : undefined,
+    };
+
+    // Rule settings, plugins, thresholds and LLM settings the request leaves open come from the project config
+    Object.assign(scanOptions, applyProjectConfig(scanOptions, (await projectConfig)?.config));
+    scanOptions.enableLLM ??= false;
+    scanOptions.minImpactScore ??= 5;
+    scanOptions.minConfidence ??= 0.7;
+    scanOptions.enableHallucinationDetection = scanOptions.enableLLM;
+
     // Log audit start
-    logAuditStart(url, enableLLM, ip);
+    logAuditStart(url, scanOptions.enableLLM, ip);
 
     // Estimate scan duration
     const timeEstimate = estimateScanDuration({
-      enableLLM,
+      enableLLM: scanOptions.enableLLM,
       enableChunking: true,
       enableExtractability: true,
-      enableHallucinationDetection: enableLLM,
+      enableHallucinationDetection: scanOptions.enableLLM,
     });
 
     logger.info('Scan time estimate', {
       url,
       estimate: timeEstimate,
-      enableLLM,
+      enableLLM: scanOptions.enableLLM,
     });
 
-    // Configure scan options
-    const scanOptions: any = {
-      maxChunkTokens,
-      enableChunking: true,
-      enableExtractability: true,
-      enableHallucinationDetection: enableLLM,
-      enableLLM,
-      minImpactScore,
-      minConfidence: 0.7,
-    };
-
-    if (enableLLM) {
-      scanOptions.llmConfig = {
-        provider: llmProvider,
-        model: llmModel,
-      };
+    if (scanOptions.enableLLM) {
+      scanOptions.llmConfig = { provider: 'openrouter', ...scanOptions.llmConfig };
+      scanOptions.llmConfig.model ??= 'meta-llama/llama-3.3-70b-instruct:free';
+      const { provider, model } = scanOptions.llmConfig;
 
-      logger.info('Configuring LLM', { provider: llmProvider, model: llmModel });
+      logger.info('Configuring LLM', { provider, model });
 
       // Add API key configuration
-      if (llmProvider === 'ollama') {
+      if (provider === 'ollama') {
         // Ollama runs locally, no API key needed
-        scanOptions.llmConfig.baseUrl = llmBaseUrl || 'http://localhost:11434';
+        scanOptions.llmConfig.baseUrl ??= 'http://localhost:11434';
         logger.info('Using Ollama', { baseUrl: scanOptions.llmConfig.baseUrl });
-      } else if (llmApiKey) {
-        scanOptions.llmConfig.apiKey = llmApiKey;
-        logger.info('Using provided API key', { provider: llmProvider, keyLength: llmApiKey.length });
-      } else if (llmProvider === 'openrouter') {
+      } else if (scanOptions.llmConfig.apiKey) {
+        logger.info('Using provided API key', { provider, keyLength: scanOptions.llmConfig.apiKey.length });
+      } else if (provider === 'openrouter') {
         // Use environment variable for OpenRouter if no key provided
         const defaultKey = process.env.OPENROUTER_API_KEY;
         if (defaultKey) {
@@ -163,8 +182,8 @@ auditRouter.post('/', cacheMiddleware(1800), validateRequest(auditRequestSchema)
         }
       } else {
         // For other cloud providers (OpenAI, Anthropic, Gemini)
-        logger.error('API key required for provider', { provider: llmProvider });
-        const error = ErrorTypes.LLM_API_KEY_REQUIRED(llmProvider);
+        logger.error('API key required for provider', { provider });
+        const error = ErrorTypes.LLM_API_KEY_REQUIRED(provider);
         return res.status(error.statusCode).json(error.toJSON());
       }
     }
@@ -198,7 +217,7 @@ auditRouter.post('/', cacheMiddleware(1800), validateRequest(auditRequestSchema)
     }
 
     // Synchronous mode - wait for completion
-    logger.info('Starting synchronous audit', { url, enableLLM, provider: llmProvider, model: llmModel });
+    logger.info('Starting synchronous audit', { url, enableLLM: scanOptions.enableLLM, provider: scanOptions.llmConfig?.provider, model: scanOptions.llmConfig?.model });
     
     // Check if rate limiter set a warning
     let llmWarning = (req as any).llmRateLimitWarning || null;
@@ -248,6 +267,8 @@ auditRouter.post('/', cacheMiddleware(1800), validateRequest(auditRequestSchema)
           llm: result.llm,
           chunking: result.chunking,
           extractability: result.extractability,
+          robots: result.robots,
+          aiPolicy: result.aiPolicy,
           hallucinationReport: result.hallucinationReport,
           mirrorReport: result.mirrorReport,
           scoring: result.scoring,
@@ -332,6 +353,8 @@ async function runAudit(jobId: string, url: string, scanOptions: any) {
           llm: result.llm,
           chunking: result.chunking,
           extractability: result.extractability,
+          robots: result.robots,
+          aiPolicy: result.aiPolicy,
           hallucinationReport: result.hallucinationReport,
           mirrorReport: result.mirrorReport,
           scoring: result.scoring,
@@ -38,13 +38,12 @@ const llmProviderSchema = z.enum(['openai', 'anthropic', 'gemini', 'openrouter',
 // Audit request schema
 export const auditRequestSchema = z.object({
   url: urlSchema,
-  enableLLM: z.boolean().optional().default(false),
+  enableLLM: z.boolean().optional(),
   minImpactScore: z.number()
     .int('Impact score must be an integer')
     .min(0, 'Impact score must be at least 0')
     .max(100, 'Impact score cannot exceed 100')
-    .optional()
-    .default(5),
+    .optional(),
   llmProvider: llmProviderSchema.optional(),
   llmModel: z.string()
     .min(1, 'LLM model name is required when provider is specified')
@@ -61,13 +60,13 @@ export const auditRequestSchema = z.object({
     .int('Max chunk tokens must be an integer')
     .min(100, 'Max chunk tokens must be at least 100')
     .max(4000, 'Max chunk tokens cannot exceed 4000')
-    .optional()
+    .optional(),
+  tokenizer: z.enum(['cl100k', 'o200k', 'llama3'], {
+    message: 'Invalid tokenizer. Must be one of: cl100k, o200k, llama3'
+  }).optional()
 }).refine((data) => {
-  // If LLM is enabled, require provider and model
-  if (data.enableLLM) {
-    if (!data.llmProvider) {
-      return false;
-    }
+  // Without a provider, the project config's llm settings (or OpenRouter) are used
+  if (data.enableLLM && data.llmProvider) {
     if (!data.llmModel) {
       return false;
     }
@@ -78,8 +77,8 @@ export const auditRequestSchema = z.object({
   }
   return true;
 }, {
-  message: 'When LLM is enabled, provider and model are required. API key required for non-OpenRouter providers (except Ollama).',
-  path: ['enableLLM']
+  message: 'When an LLM provider is given, a model is required. API key required for non-OpenRouter providers (except Ollama).',
+  path: ['llmProvider']
 });
 
 // Type inference
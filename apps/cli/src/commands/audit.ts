@@ -1,7 +1,7 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { analyzeUrlWithRules } from 'scanner';
+import { analyzeUrlWithRules, applyProjectConfig } from 'scanner';
 import { calculateAIReadiness, formatAIReadinessReport } from 'scanner';
 import { exportAuditReport, generateScoringSummary } from 'scanner';
 import type { ScanOptions } from 'scanner';
@@ -10,23 +10,32 @@ import { join, resolve } from 'path';
 import { existsSync } from 'fs';
 import html_to_pdf from 'html-pdf-node';
 import { formatComprehensiveReport, formatDetailedIssues } from '../utils/comprehensive-formatter.js';
+import { loadCliConfig } from '../utils/config.js';
+import { baselineIssues, baselinePath, loadCliBaseline, updateCliBaseline } from '../utils/baseline.js';
 
 interface AuditOptions {
   output?: string;
   rules?: string;
+  config?: string;
   depth?: number;
   pages?: string;
   cacheTtl?: number;
   threshold?: number;
   maxChunkTokens?: number;
   chunkingStrategy?: 'auto' | 'heading-based' | 'paragraph-based';
+  tokenizer?: string;
   enableChunking?: boolean;
   enableExtractability?: boolean;
   enableHallucination?: boolean;
   enableLlm?: boolean;
+  detectCloaking?: boolean;
   minImpact?: number;
   minConfidence?: number;
   maxIssues?: number;
+  ruleConcurrency?: number;
+  ruleTimeout?: number;
+  baseline?: string;
+  updateBaseline?: boolean;
   llmProvider?: string;
   llmModel?: string;
   llmBaseUrl?: string;
@@ -37,22 +46,29 @@ export function auditCommand(program: Command) {
   program
     .command('audit')
     .description('Audit a website for AI readiness')
-    .argument('<url>', 'URL to audit')
+    .argument('<url>', 'URL to audit (file:// URLs are scanned offline)')
     .option('-o, --output <format>', 'Output format: json, html, pdf, lhr, csv', 'json')
-    .option('-r, --rules <preset>', 'Rule preset: default, strict, minimal', 'default')
+    .option('-r, --rules <preset>', 'Rule preset applied over the project config: default, strict, verbose')
+    .option('--config <path>', 'Config file to use instead of the nearest .ailighthouserc')
     .option('-d, --depth <number>', 'Crawl depth (for multi-page audits)', parseInt, 1)
     .option('-p, --pages <urls>', 'Comma-separated list of specific pages to audit')
     .option('--cache-ttl <seconds>', 'Cache TTL in seconds to avoid re-fetching', parseInt)
     .option('--threshold <score>', 'Minimum score threshold (exit 1 if below)', parseInt)
     .option('--max-chunk-tokens <number>', 'Maximum tokens per content chunk', parseInt, 1200)
     .option('--chunking-strategy <strategy>', 'Chunking strategy: auto, heading-based, paragraph-based', 'auto')
+    .option('--tokenizer <name>', 'Tokenizer for chunk sizes and token budgets: cl100k, o200k, llama3 (default: config or cl100k)')
     .option('--enable-chunking', 'Enable detailed content chunking analysis', false)
     .option('--enable-extractability', 'Enable extractability mapping', false)
     .option('--enable-hallucination', 'Enable hallucination detection', false)
-    .option('--enable-llm', 'Enable LLM comprehension analysis', false)
-    .option('--min-impact <number>', 'Minimum impact score to include', parseInt, 8)
-    .option('--min-confidence <number>', 'Minimum confidence to include (0-1)', parseFloat, 0.7)
-    .option('--max-issues <number>', 'Maximum issues to return', parseInt, 20)
+    .option('--enable-llm', 'Enable LLM comprehension analysis (default: llm.enabled in the config)')
+    .option('--detect-cloaking', 'Compare responses served to a browser and to AI crawlers', false)
+    .option('--min-impact <number>', 'Minimum impact score to include (default: config or 8)', parseInt)
+    .option('--min-confidence <number>', 'Minimum confidence to include, 0-1 (default: config or 0.7)', parseFloat)
+    .option('--max-issues <number>', 'Maximum issues to return (default: config or 20)', parseInt)
+    .option('--rule-concurrency <number>', 'Rules executed at the same time (default: config or 4)', parseInt)
+    .option('--baseline <path>', 'Hide issues recorded in this baseline file (default: baseline in the config)')
+    .option('--update-baseline', 'Write the issues of this run to the baseline file (default: ai-lighthouse-baseline.json)', false)
+    .option('--rule-timeout <ms>', 'Abandon a rule that runs longer than this, 0 to disable (default: config or 30000)', parseInt)
     .option('--llm-provider <provider>', 'LLM provider: openai, anthropic, ollama, local')
     .option('--llm-model <model>', 'LLM model name')
     .option('--llm-base-url <url>', 'LLM API base URL')
@@ -65,28 +81,36 @@ export function auditCommand(program: Command) {
         const urlObj = new URL(url);
         spinner.text = `Auditing ${chalk.cyan(urlObj.href)}...`;
 
-        // Build scan options
-        const scanOptions: ScanOptions = {
+        // Build scan options: command-line flags, then the project config, then built-in defaults
+        const config = await loadCliConfig({ config: options.config, preset: options.rules });
+        const scanOptions: ScanOptions = applyProjectConfig({
           maxChunkTokens: options.maxChunkTokens,
           chunkingStrategy: options.chunkingStrategy,
+          tokenizer: options.tokenizer,
           enableChunking: options.enableChunking,
           enableExtractability: options.enableExtractability,
           enableHallucinationDetection: options.enableHallucination,
           enableLLM: options.enableLlm,
+          enableCloakingDetection: options.detectCloaking,
           minImpactScore: options.minImpact,
           minConfidence: options.minConfidence,
           maxIssues: options.maxIssues,
-        };
-
-        // Configure LLM if enabled
-        if (options.enableLlm && options.llmProvider) {
-          scanOptions.llmConfig = {
+          ruleConcurrency: options.ruleConcurrency,
+          ruleTimeoutMs: options.ruleTimeout,
+          llmConfig: options.llmProvider ? {
             provider: options.llmProvider as any,
             model: options.llmModel,
             baseUrl: options.llmBaseUrl,
             apiKey: options.llmApiKey,
-          };
-        }
+          } : undefined,
+        }, config);
+        scanOptions.minImpactScore ??= 8;
+        scanOptions.minConfidence ??= 0.7;
+        scanOptions.maxIssues ??= 20;
+
+        const baselineFile = baselinePath(options.baseline, config, options.updateBaseline);
+        scanOptions.baseline = await loadCliBaseline(baselineFile, options.updateBaseline);
+        scanOptions.keepAllIssues = options.updateBaseline;
 
         // Run the audit
         spinner.text = 'Scanning page...';
@@ -107,7 +131,7 @@ export function auditCommand(program: Command) {
         }
 
         const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
-        const baseFilename = `audit_${new URL(url).hostname}_${timestamp}`;
+        const baseFilename = `audit_${new URL(url).hostname || 'local'}_${timestamp}`;
 
         // Handle different output formats
         if (options.output === 'json') {
@@ -170,6 +194,16 @@ export function auditCommand(program: Command) {
           console.log('\n' + formatDetailedIssues(result.issues));
         }
 
+        const suppressed = result.suppressedIssues ?? [];
+        if (suppressed.length > 0) {
+          const inline = suppressed.filter(issue => issue.suppressedBy === 'inline').length;
+          console.log(chalk.dim(`\n${suppressed.length} suppressed issues (${inline} inline, ${suppressed.length - inline} baseline) are not scored`));
+        }
+
+        if (options.updateBaseline && baselineFile) {
+          await updateCliBaseline(baselineFile, baselineIssues(result));
+        }
+
         // Check threshold
         if (options.threshold !== undefined) {
           const overallScore = (auditReport as any)?.scores?.overall;
@@ -549,6 +583,7 @@ function generateHTMLReport(report: any, aiReadiness: any, scanResult: any): str
     <div style="background: #f0fdf4; border: 2px solid #10b981; padding: 20px; border-radius: 8px; margin: 20px 0;">
       <div style="display: grid; grid-template-columns: repeat(auto-fit, minmax(200px, 1fr)); gap: 15px;">
         <div><strong>Strategy:</strong> ${scanResult.chunking.chunkingStrategy}</div>
+        <div><strong>Tokenizer:</strong> ${scanResult.chunking.tokenizer}</div>
         <div><strong>Total Chunks:</strong> ${scanResult.chunking.totalChunks}</div>
         <div><strong>Avg Tokens/Chunk:</strong> ${scanResult.chunking.averageTokensPerChunk}</div>
         <div><strong>Avg Noise:</strong> ${(scanResult.chunking.averageNoiseRatio * 100).toFixed(1)}%</div>
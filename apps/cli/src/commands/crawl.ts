@@ -1,12 +1,14 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { analyzeUrlWithRules } from 'scanner';
-import { exportAuditReport } from 'scanner';
-import type { ScanOptions } from 'scanner';
-import { writeFile, mkdir, readFile } from 'fs/promises';
+import { crawlSite, scanHtml, discoverStaticPages, readLocalHtml, createUrlFilter, discoverSitemaps, auditSite, buildLinkGraph, exportLinkGraph, extractLinks } from 'scanner';
+import { exportAuditReport, applyProjectConfig, applySuppressions } from 'scanner';
+import type { ScanOptions, CrawledPage, CrawlFrontier, SitemapSource, Issue, SitePageInput, LinkGraph, SuppressedIssue, IssueBaseline } from 'scanner';
+import { writeFile, mkdir, readFile, appendFile, rename, rm } from 'fs/promises';
 import { join, resolve } from 'path';
 import { existsSync } from 'fs';
+import { loadCliConfig } from '../utils/config.js';
+import { baselineIssues, baselinePath, loadCliBaseline, updateCliBaseline } from '../utils/baseline.js';
 
 interface CrawlOptions {
   depth?: number;
@@ -14,95 +16,261 @@ interface CrawlOptions {
   maxPages?: number;
   output?: string;
   followExternal?: boolean;
+  include?: string[];
+  exclude?: string[];
+  respectNofollow?: boolean;
   respectRobots?: boolean;
+  concurrency?: number;
+  delay?: number;
+  dir?: string;
+  resume?: string;
+  graph?: string;
+  tokenizer?: string;
+  rules?: string;
+  config?: string;
+  baseline?: string;
+  updateBaseline?: boolean;
+}
+
+const GRAPH_FORMATS = ['graphml', 'dot', 'json'] as const;
+
+/**
+ * On-disk crawl checkpoint: settings and frontier in frontier.json,
+ * completed pages appended to pages.jsonl
+ */
+interface CrawlCheckpoint {
+  crawl_id: string;
+  started_at: string;
+  start_url: string;
+  options: CrawlOptions;
+  sitemaps?: SitemapSource[];   // Sitemaps read before the crawl (--sitemap), for the report
+  frontier: CrawlFrontier;
 }
 
 export function crawlCommand(program: Command) {
   program
     .command('crawl')
     .description('Crawl and audit multiple pages from a website')
-    .argument('<url>', 'Starting URL to crawl from')
+    .argument('[url]', 'Starting URL to crawl from (omit with --resume)')
     .option('-d, --depth <number>', 'Maximum crawl depth', (val) => parseInt(val, 10), 2)
-    .option('--sitemap', 'Parse sitemap.xml for URLs', false)
+    .option('--sitemap', 'Crawl the URLs listed in the site\'s sitemaps (robots.txt Sitemap directives or /sitemap.xml), most recently changed first', false)
     .option('--max-pages <number>', 'Maximum number of pages to crawl', (val) => parseInt(val, 10), 50)
     .option('-o, --output <format>', 'Output format: json, html', 'json')
     .option('--follow-external', 'Follow external links', false)
-    .option('--respect-robots', 'Respect robots.txt rules', true)
-    .action(async (url: string, options: CrawlOptions) => {
+    .option('--include <pattern>', 'Only follow URLs matching this path glob (e.g. "/docs/*") or /regex/flags; repeatable', collect, [])
+    .option('--exclude <pattern>', 'Skip URLs matching this glob ("/tag/*", "/*?page=*") or regex; repeatable', collect, [])
+    .option('--respect-nofollow', 'Do not follow rel="nofollow" links or links on meta robots nofollow pages', false)
+    .option('--no-respect-robots', 'Ignore robots.txt rules and Crawl-delay')
+    .option('-c, --concurrency <number>', 'Maximum concurrent requests per host', (val) => parseInt(val, 10), 2)
+    .option('--delay <ms>', 'Minimum delay between requests to the same host', (val) => parseInt(val, 10), 0)
+    .option('--dir <path>', 'Audit a static export directory offline (e.g. Next.js out/); <url> is the base URL pages are served at')
+    .option('--resume <crawl_id>', 'Continue an interrupted crawl from its checkpoint in .ai-lighthouse/checkpoints/')
+    .option('--graph <format>', 'Also export the internal link graph: graphml, dot, json')
+    .option('--tokenizer <name>', 'Tokenizer for token budgets: cl100k, o200k, llama3 (default: config or cl100k)')
+    .option('-r, --rules <preset>', 'Rule preset applied over the project config: default, strict, verbose')
+    .option('--config <path>', 'Config file to use instead of the nearest .ailighthouserc')
+    .option('--baseline <path>', 'Hide issues recorded in this baseline file (default: baseline in the config)')
+    .option('--update-baseline', 'Write the issues of this crawl to the baseline file (default: ai-lighthouse-baseline.json)', false)
+    .action(async (url: string | undefined, options: CrawlOptions) => {
       const spinner = ora('Starting crawl...').start();
 
       try {
+        const outputDir = resolve(process.cwd(), '.ai-lighthouse');
+        let checkpoint: CrawlCheckpoint | undefined;
+        let resumedPages: CrawledPage[] = [];
+
+        if (options.graph && !GRAPH_FORMATS.includes(options.graph as typeof GRAPH_FORMATS[number])) {
+          throw new Error(`Unknown graph format "${options.graph}" (expected ${GRAPH_FORMATS.join(', ')})`);
+        }
+
+        if (options.resume) {
+          spinner.text = `Loading checkpoint ${options.resume}...`;
+          ({ checkpoint, pages: resumedPages } = await loadCheckpoint(outputDir, options.resume));
+          // Continue with the original settings so the report matches an uninterrupted run
+          options = { ...checkpoint.options, resume: options.resume };
+          url = checkpoint.start_url;
+          spinner.succeed(`Resuming ${checkpoint.crawl_id}: ${resumedPages.length} pages already audited`);
+          spinner.start();
+        }
+
+        if (!url) {
+          throw new Error('Provide a URL to crawl, or --resume <crawl_id>');
+        }
+
+        const crawlId = checkpoint?.crawl_id ?? generateId();
+        const startedAt = checkpoint?.started_at ?? new Date().toISOString();
+
         const urlObj = new URL(url);
         const baseUrl = `${urlObj.protocol}//${urlObj.host}`;
         
-        // Discover URLs
-        spinner.text = 'Discovering URLs...';
-        let urlsToCrawl: string[] = [];
-
-        if (options.sitemap) {
-          // Try to parse sitemap
-          const sitemapUrl = `${baseUrl}/sitemap.xml`;
-          spinner.text = `Fetching sitemap from ${sitemapUrl}...`;
-          urlsToCrawl = await parseSitemap(sitemapUrl);
-          spinner.succeed(`Found ${urlsToCrawl.length} URLs in sitemap`);
+        const config = await loadCliConfig({ config: options.config, preset: options.rules });
+        const scanOptions: ScanOptions = applyProjectConfig({
+          maxChunkTokens: 1200,
+          tokenizer: options.tokenizer,
+          enableChunking: false,
+          enableExtractability: false,
+          enableLLM: false,
+        }, config);
+        scanOptions.minImpactScore ??= 8;
+
+        const baselineFile = baselinePath(options.baseline, config, options.updateBaseline);
+        scanOptions.baseline = await loadCliBaseline(baselineFile, options.updateBaseline);
+        scanOptions.keepAllIssues = options.updateBaseline;
+        const results: any[] = [];
+        let siteIssues: Issue[] = [];
+        let suppressedSiteIssues: SuppressedIssue[] = [];
+        let linkGraph: LinkGraph;
+        let sitemapSources: SitemapSource[] | undefined;
+        const isIncluded = createUrlFilter(options.include, options.exclude);
+        let checkpointWriter: ReturnType<typeof createCheckpointWriter> | undefined;
+
+        if (options.dir) {
+          // Offline: walk the export directory, no network access
+          spinner.text = `Discovering HTML files in ${options.dir}...`;
+          const pages = (await discoverStaticPages(resolve(options.dir), url))
+            .filter(page => isIncluded(page.url))
+            .slice(0, options.maxPages);
+          spinner.succeed(`Found ${pages.length} HTML files`);
+
+          const sitePages: SitePageInput[] = [];
+          for (let i = 0; i < pages.length; i++) {
+            const page = pages[i];
+            spinner.text = `Auditing ${i + 1}/${pages.length}: ${page.url}`;
+
+            try {
+              const html = await readLocalHtml(page.fileUrl);
+              const result = await scanHtml(html, page.url, scanOptions);
+              results.push(result);
+              sitePages.push({ url: page.url, html, result });
+            } catch (error) {
+              console.error(chalk.yellow(`\n⚠️  Failed to audit ${page.filePath}: ${error}`));
+            }
+          }
+
+          spinner.text = 'Running site-wide checks...';
+          ({ issues: siteIssues, suppressed: suppressedSiteIssues } = applySuppressions(
+            await auditSite(sitePages, { startUrls: [url], scanOptions }),
+            { baseline: scanOptions.baseline as IssueBaseline | undefined }
+          ));
+          linkGraph = buildLinkGraph(
+            sitePages.map(page => ({ url: page.url, links: extractLinks(page.html, page.url) })),
+            { startUrls: [url] }
+          );
         } else {
-          // Crawl by depth
-          urlsToCrawl = await crawlByDepth(url, options.depth!, options.maxPages!, options.followExternal!);
-          spinner.succeed(`Discovered ${urlsToCrawl.length} URLs`);
-        }
+          let seeds: string | string[] = url;
+          // The seeds are in the checkpoint's frontier; only the report needs the sitemaps
+          sitemapSources = checkpoint?.sitemaps;
 
-        // Limit pages
-        if (urlsToCrawl.length > options.maxPages!) {
-          urlsToCrawl = urlsToCrawl.slice(0, options.maxPages);
-        }
+          if (options.sitemap && !checkpoint) {
+            spinner.text = `Discovering sitemaps for ${baseUrl}...`;
+            const discovery = await discoverSitemaps(url, { followExternal: options.followExternal });
+            sitemapSources = discovery.sitemaps;
 
-        // Audit each page
-        const results: any[] = [];
-        for (let i = 0; i < urlsToCrawl.length; i++) {
-          const pageUrl = urlsToCrawl[i];
-          spinner.text = `Auditing ${i + 1}/${urlsToCrawl.length}: ${pageUrl}`;
-          
-          try {
-            const result = await analyzeUrlWithRules(pageUrl, {
-              maxChunkTokens: 1200,
-              enableChunking: false,
-              enableExtractability: false,
-              enableLLM: false,
-              minImpactScore: 8,
-            });
-            
-            results.push(result);
-          } catch (error) {
-            console.error(chalk.yellow(`\n⚠️  Failed to audit ${pageUrl}: ${error}`));
+            for (const source of discovery.sitemaps.filter(s => s.error)) {
+              console.warn(chalk.yellow(`\n⚠️  Could not read sitemap ${source.url}: ${source.error}`));
+            }
+            if (discovery.external > 0) {
+              console.warn(chalk.yellow(`\n⚠️  Ignored ${discovery.external} sitemap URL(s) on other hosts (use --follow-external to crawl them)`));
+            }
+
+            // Entries are sorted by lastmod, so --max-pages keeps the most recently changed pages
+            const sitemapUrls = discovery.entries.map(entry => entry.url).filter(isIncluded);
+            spinner.succeed(`Found ${sitemapUrls.length} URLs in ${discovery.sitemaps.filter(s => !s.error).length} sitemap(s)`);
+            seeds = sitemapUrls.slice(0, options.maxPages);
+            spinner.start();
+          }
+
+          const { resume, ...checkpointOptions } = options;
+          const writer = createCheckpointWriter(outputDir, {
+            crawl_id: crawlId,
+            started_at: startedAt,
+            start_url: url,
+            options: checkpointOptions,
+            sitemaps: sitemapSources,
+          });
+          if (!checkpoint) {
+            spinner.info(chalk.dim(`Crawl ID: ${crawlId} (if interrupted, continue with: ai-lighthouse crawl --resume ${crawlId})`));
+            spinner.start();
           }
+
+          // Discover and audit in one pass; each page is fetched once
+          spinner.text = 'Crawling...';
+          const crawl = await crawlSite(seeds, {
+            maxDepth: options.sitemap ? 0 : options.depth,
+            maxPages: options.maxPages,
+            followExternal: options.followExternal,
+            include: options.include,
+            exclude: options.exclude,
+            respectNofollow: options.respectNofollow,
+            perHostConcurrency: options.concurrency,
+            delayMs: options.delay,
+            respectRobots: options.respectRobots,
+            scanOptions,
+            resumeFrom: checkpoint ? { ...checkpoint.frontier, pages: resumedPages } : undefined,
+            onCheckpoint: writer.save,
+            onProgress: (event) => {
+              const progress = `${event.completed}/${event.completed + event.queued}`;
+              if (event.type === 'error') {
+                console.error(chalk.yellow(`\n⚠️  Failed to audit ${event.url}: ${event.error}`));
+              } else {
+                spinner.text = `Auditing ${progress}: ${event.url}`;
+              }
+            },
+          });
+
+          results.push(...crawl.pages.filter(page => page.result).map(page => page.result));
+          siteIssues = crawl.siteIssues ?? [];
+          suppressedSiteIssues = crawl.suppressedSiteIssues ?? [];
+          linkGraph = crawl.linkGraph;
+          spinner.succeed(`Audited ${results.length} pages in ${(crawl.durationMs / 1000).toFixed(1)}s`);
+          if (crawl.skipped.length > 0) {
+            console.log(chalk.dim(`Skipped ${crawl.skipped.length} URLs (robots.txt, non-HTML or duplicate pages)`));
+          }
+          spinner.start();
+          checkpointWriter = writer;
         }
 
         spinner.text = 'Generating crawl report...';
 
         // Aggregate results
+        const suppressedIssues = [...results.flatMap(r => r.suppressedIssues ?? []), ...suppressedSiteIssues];
         const crawlReport = {
-          crawl_id: generateId(),
-          crawled_at: new Date().toISOString(),
+          crawl_id: crawlId,
+          crawled_at: startedAt,
           base_url: baseUrl,
           start_url: url,
           total_pages: results.length,
-          crawl_depth: options.depth,
-          pages: results,
+          crawl_depth: options.dir ? undefined : options.depth,
+          source_dir: options.dir,
+          sitemaps: sitemapSources,
+          pages: results.map(({ allIssues, ...result }) => result),
+          site_issues: siteIssues,
+          suppressed_site_issues: suppressedSiteIssues.length ? suppressedSiteIssues : undefined,
+          link_graph: {
+            entry_points: linkGraph.entryPoints,
+            edges: linkGraph.edges.length,
+            nodes: linkGraph.nodes,
+          },
           summary: {
             avgOverallScore: average(results.map(r => r.scoring.overallScore)),
             avgAIReadinessScore: average(results.map(r => r.scoring.categoryScores.find(c => c.category === 'AI Readiness')?.score || 0)),
-            total_issues: results.reduce((sum, r) => sum + r.issues.length, 0),
-            issues_by_severity: aggregateIssuesBySeverity(results),
+            total_issues: results.reduce((sum, r) => sum + r.issues.length, 0) + siteIssues.length,
+            site_issues: siteIssues.length,
+            issues_by_severity: aggregateIssuesBySeverity([...results, { issues: siteIssues }]),
+            suppressed_issues: {
+              total: suppressedIssues.length,
+              inline: suppressedIssues.filter(issue => issue.suppressedBy === 'inline').length,
+              baseline: suppressedIssues.filter(issue => issue.suppressedBy === 'baseline').length,
+            },
           },
         };
 
         // Save results
-        const outputDir = resolve(process.cwd(), '.ai-lighthouse');
         if (!existsSync(outputDir)) {
           await mkdir(outputDir, { recursive: true });
         }
 
-        const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
+        const timestamp = startedAt.replace(/:/g, '-').split('.')[0];
         const baseFilename = `crawl_${new URL(url).hostname}_${timestamp}`;
 
         if (options.output === 'json') {
@@ -118,12 +286,37 @@ export function crawlCommand(program: Command) {
           console.log(chalk.dim(`HTML report saved to: ${htmlPath}`));
         }
 
+        if (options.graph) {
+          const format = options.graph as typeof GRAPH_FORMATS[number];
+          const graphPath = join(outputDir, `${baseFilename}.graph.${format}`);
+          await writeFile(graphPath, exportLinkGraph(linkGraph, format));
+          console.log(chalk.dim(`Link graph saved to: ${graphPath}`));
+        }
+
+        if (options.updateBaseline && baselineFile) {
+          const issues = [...results.flatMap(baselineIssues), ...siteIssues];
+          await updateCliBaseline(baselineFile, [...issues, ...suppressedSiteIssues.filter(issue => issue.suppressedBy === 'baseline')]);
+        }
+
+        // The report is written, so the checkpoint is no longer needed
+        await checkpointWriter?.remove();
+
         // Display summary
         console.log('\n' + chalk.bold('🌐 Crawl Summary'));
         console.log(`Pages audited: ${chalk.cyan(crawlReport.total_pages)}`);
         console.log(`Average overall score: ${chalk.cyan(crawlReport.summary.avgOverallScore.toFixed(1))}`);
         console.log(`Average AI readiness: ${chalk.cyan(crawlReport.summary.avgAIReadinessScore.toFixed(1))}`);
         console.log(`Total issues found: ${chalk.yellow(crawlReport.summary.total_issues)}`);
+        if (suppressedIssues.length > 0) {
+          const { inline, baseline } = crawlReport.summary.suppressed_issues;
+          console.log(chalk.dim(`Suppressed issues (not scored): ${suppressedIssues.length} (${inline} inline, ${baseline} baseline)`));
+        }
+        if (siteIssues.length > 0) {
+          console.log(`Site-wide issues: ${chalk.yellow(siteIssues.length)}`);
+          for (const issue of siteIssues) {
+            console.log(chalk.dim(`  [${issue.id}] ${issue.description}`));
+          }
+        }
 
       } catch (error) {
         spinner.fail(chalk.red('Crawl failed'));
@@ -135,74 +328,68 @@ export function crawlCommand(program: Command) {
     });
 }
 
-async function parseSitemap(sitemapUrl: string): Promise<string[]> {
-  try {
-    const response = await fetch(sitemapUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch sitemap: ${response.statusText}`);
-    }
-    
-    const text = await response.text();
-    const urlMatches = text.match(/<loc>(.*?)<\/loc>/g) || [];
-    return urlMatches.map(match => match.replace(/<\/?loc>/g, ''));
-  } catch (error) {
-    console.warn(chalk.yellow(`Could not parse sitemap: ${error}`));
-    return [];
-  }
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
 }
 
-async function crawlByDepth(
-  startUrl: string,
-  maxDepth: number,
-  maxPages: number,
-  followExternal: boolean
-): Promise<string[]> {
-  const visited = new Set<string>();
-  const toVisit: Array<{ url: string; depth: number }> = [{ url: startUrl, depth: 0 }];
-  const baseHost = new URL(startUrl).host;
-
-  while (toVisit.length > 0 && visited.size < maxPages) {
-    const { url, depth } = toVisit.shift()!;
-    
-    if (visited.has(url) || depth > maxDepth) {
-      continue;
-    }
+function checkpointDir(outputDir: string, crawlId: string): string {
+  return join(outputDir, 'checkpoints', crawlId);
+}
 
-    visited.add(url);
+/**
+ * Persist crawl progress after every page. Pages are appended so each write
+ * stays small; the frontier is replaced atomically.
+ */
+function createCheckpointWriter(outputDir: string, meta: Omit<CrawlCheckpoint, 'frontier'>) {
+  const dir = checkpointDir(outputDir, meta.crawl_id);
+  let pending: Promise<void> = mkdir(dir, { recursive: true }).then(() => undefined);
 
-    if (depth < maxDepth) {
-      try {
-        const links = await extractLinks(url);
-        for (const link of links) {
-          const linkHost = new URL(link).host;
-          if (followExternal || linkHost === baseHost) {
-            if (!visited.has(link)) {
-              toVisit.push({ url: link, depth: depth + 1 });
-            }
-          }
+  return {
+    save: (frontier: CrawlFrontier, page?: CrawledPage): Promise<void> => {
+      pending = pending.then(async () => {
+        if (page) {
+          await appendFile(join(dir, 'pages.jsonl'), JSON.stringify(page) + '\n');
         }
-      } catch (error) {
-        // Skip pages that fail to load
-      }
-    }
+        const tmpPath = join(dir, 'frontier.json.tmp');
+        await writeFile(tmpPath, JSON.stringify({ ...meta, frontier }));
+        await rename(tmpPath, join(dir, 'frontier.json'));
+      });
+      return pending;
+    },
+    remove: async (): Promise<void> => {
+      await pending.catch(() => undefined);
+      await rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+async function loadCheckpoint(
+  outputDir: string,
+  crawlId: string
+): Promise<{ checkpoint: CrawlCheckpoint; pages: CrawledPage[] }> {
+  const dir = checkpointDir(outputDir, crawlId);
+  const frontierPath = join(dir, 'frontier.json');
+
+  if (!existsSync(frontierPath)) {
+    throw new Error(`No checkpoint found for ${crawlId} in ${dir}`);
   }
 
-  return Array.from(visited);
-}
+  const checkpoint: CrawlCheckpoint = JSON.parse(await readFile(frontierPath, 'utf-8'));
+  const pagesPath = join(dir, 'pages.jsonl');
+  const pages: CrawledPage[] = [];
 
-async function extractLinks(url: string): Promise<string[]> {
-  try {
-    const response = await fetch(url);
-    const html = await response.text();
-    
-    // Simple regex-based link extraction (in production, use a proper HTML parser)
-    const linkMatches = html.match(/href=["'](https?:\/\/[^"']+)["']/g) || [];
-    return linkMatches
-      .map(match => match.match(/href=["'](https?:\/\/[^"']+)["']/)![1])
-      .filter((link, idx, arr) => arr.indexOf(link) === idx); // unique
-  } catch {
-    return [];
+  if (existsSync(pagesPath)) {
+    for (const line of (await readFile(pagesPath, 'utf-8')).split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        pages.push(JSON.parse(line));
+      } catch {
+        // The last line may be truncated if the process died mid-write
+      }
+    }
   }
+
+  return { checkpoint, pages };
 }
 
 function average(numbers: number[]): number {
@@ -257,6 +444,10 @@ function generateCrawlHTML(report: any): string {
     .page-card { background: white; padding: 20px; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
     .page-url { color: #1e40af; font-weight: 600; margin-bottom: 10px; word-break: break-all; }
     .page-scores { display: flex; gap: 15px; margin-top: 10px; }
+    .site-issues { background: white; padding: 20px; border-radius: 8px; margin-bottom: 20px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
+    .site-issues h2 { font-size: 1.2em; margin-bottom: 10px; }
+    .site-issue { padding: 10px 0; border-top: 1px solid #e2e8f0; }
+    .site-issue-urls { color: #64748b; font-size: 0.85em; margin-top: 4px; word-break: break-all; }
     .score-badge { background: #dbeafe; color: #1e40af; padding: 5px 12px; border-radius: 4px; font-size: 0.9em; }
   </style>
 </head>
@@ -289,6 +480,18 @@ function generateCrawlHTML(report: any): string {
       </div>
     </div>
 
+    ${report.site_issues?.length ? `
+    <div class="site-issues">
+      <h2>Site-wide Issues</h2>
+      ${report.site_issues.map((issue: any) => `
+        <div class="site-issue">
+          <div><strong>[${issue.id}] ${issue.title}</strong> (${issue.severity})</div>
+          <div>${issue.description}</div>
+          <div class="site-issue-urls">${(issue.evidence || []).join('<br>')}</div>
+        </div>
+      `).join('')}
+    </div>` : ''}
+
     <div class="pages">
       ${report.pages.map((page: any) => `
         <div class="page-card">
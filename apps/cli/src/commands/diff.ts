@@ -0,0 +1,106 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+import { existsSync } from 'fs';
+import { diffIssues } from 'scanner';
+
+interface DiffOptions {
+  json?: boolean;
+  failOnNew?: boolean;
+}
+
+interface DiffIssue {
+  fingerprint?: string;
+  id: string;
+  title: string;
+  severity: string;
+  url?: string;
+}
+
+export function diffCommand(program: Command) {
+  program
+    .command('diff')
+    .description('Compare the issues of two saved audit or crawl reports')
+    .argument('<previous>', 'Earlier audit or crawl JSON file')
+    .argument('<current>', 'Later audit or crawl JSON file')
+    .option('--json', 'Print the comparison as JSON', false)
+    .option('--fail-on-new', 'Exit with code 1 when the current report has new issues', false)
+    .action(async (previous: string, current: string, options: DiffOptions) => {
+      try {
+        const before = await loadReportIssues(previous);
+        const after = await loadReportIssues(current);
+        const { added, fixed, unchanged } = diffIssues(before, after);
+
+        if (options.json) {
+          console.log(JSON.stringify({ added, fixed, unchanged: unchanged.length }, null, 2));
+        } else {
+          console.log(chalk.bold('\n🔀 Issue Diff'));
+          console.log(`New: ${chalk.red(added.length)}  Fixed: ${chalk.green(fixed.length)}  Unchanged: ${chalk.dim(unchanged.length)}`);
+
+          if (added.length > 0) {
+            console.log('\n' + chalk.bold('New issues:'));
+            added.forEach(issue => console.log(formatIssue(issue, chalk.red('+'))));
+          }
+          if (fixed.length > 0) {
+            console.log('\n' + chalk.bold('Fixed issues:'));
+            fixed.forEach(issue => console.log(formatIssue(issue, chalk.green('-'))));
+          }
+        }
+
+        if (options.failOnNew && added.length > 0) {
+          process.exit(1);
+        }
+      } catch (error) {
+        console.error(chalk.red('Failed to compare reports'));
+        if (error instanceof Error) {
+          console.error(chalk.red(error.message));
+        }
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * Issues of an audit report (formatted issues) or a crawl report (page and
+ * site issues)
+ */
+async function loadReportIssues(file: string): Promise<DiffIssue[]> {
+  const filePath = resolve(process.cwd(), file);
+  if (!existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+  const report = JSON.parse(await readFile(filePath, 'utf-8'));
+
+  let issues: DiffIssue[];
+  if ('pages' in report && Array.isArray(report.pages)) {
+    issues = [...report.pages.flatMap((page: any) => page.issues ?? []), ...(report.site_issues ?? [])]
+      .map((issue: any) => ({
+        fingerprint: issue.fingerprint,
+        id: issue.id,
+        title: issue.title,
+        severity: issue.severity,
+        url: issue.location?.url,
+      }));
+  } else if (Array.isArray(report.issues)) {
+    issues = report.issues.map((issue: any) => ({
+      fingerprint: issue.fingerprint,
+      id: issue.rule_id ?? issue.id,
+      title: issue.message,
+      severity: issue.severity,
+      url: report.input?.requested_url,
+    }));
+  } else {
+    throw new Error(`Not an audit or crawl report: ${filePath}`);
+  }
+
+  if (issues.some(issue => !issue.fingerprint)) {
+    throw new Error(`${filePath} has issues without fingerprints; re-run the audit to compare it`);
+  }
+  return issues;
+}
+
+function formatIssue(issue: DiffIssue, marker: string): string {
+  const where = issue.url ? chalk.dim(` ${issue.url}`) : '';
+  return `  ${marker} [${issue.id}] ${issue.title} (${issue.severity})${where} ${chalk.dim(issue.fingerprint)}`;
+}
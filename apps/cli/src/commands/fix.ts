@@ -0,0 +1,129 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { applyProjectConfig, createFixPatch, fetchHtml, FIXABLE_RULES, patchPathForUrl, readLocalHtml, scanFetchedPage, scanHtml } from 'scanner';
+import type { Issue, ScanOptions, ScanResult } from 'scanner';
+import { writeFile, mkdir } from 'fs/promises';
+import { join, resolve } from 'path';
+import { existsSync } from 'fs';
+import { pathToFileURL } from 'url';
+import { loadCliConfig } from '../utils/config.js';
+
+interface FixOptions {
+  out?: string;
+  only?: string;
+  path?: string;
+  perIssue?: boolean;
+  config?: string;
+  rules?: string;
+}
+
+export function fixCommand(program: Command) {
+  program
+    .command('fix')
+    .description('Generate patches that fix common issues (meta tags, structured data, alt text, canonical)')
+    .argument('<target>', 'URL or local HTML file to fix')
+    .option('-o, --out <dir>', 'Directory for the .patch files', '.ai-lighthouse/fixes')
+    .option('--only <rules>', `Comma-separated rule IDs to fix (default: all of ${FIXABLE_RULES.join(', ')})`)
+    .option('--path <file>', 'File name used in the patch (default: the local file, or derived from the URL path)')
+    .option('--per-issue', 'Also write one patch per issue', false)
+    .option('-r, --rules <preset>', 'Rule preset applied over the project config: default, strict, verbose')
+    .option('--config <path>', 'Config file to use instead of the nearest .ailighthouserc')
+    .action(async (target: string, options: FixOptions) => {
+      const spinner = ora('Loading page...').start();
+
+      try {
+        const local = existsSync(target);
+        const url = local ? pathToFileURL(resolve(target)).href : new URL(target).href;
+
+        // Every issue counts here: thresholds only reduce noise in reports
+        const config = await loadCliConfig({ config: options.config, preset: options.rules });
+        const scanOptions: ScanOptions = {
+          ...applyProjectConfig({}, config),
+          minImpactScore: 0,
+          minConfidence: 0,
+          maxIssues: Number.MAX_SAFE_INTEGER,
+          baseline: undefined,
+          enableLLM: false,
+        };
+
+        // Patches are made against the HTML the scan saw
+        let html: string;
+        let result: ScanResult;
+        if (local) {
+          html = await readLocalHtml(url);
+          spinner.text = 'Scanning page...';
+          result = await scanHtml(html, url, scanOptions);
+        } else {
+          const fetched = await fetchHtml(url, 15000);
+          if (fetched.status >= 400) {
+            throw new Error(`HTTP ${fetched.status} fetching ${url}`);
+          }
+          html = fetched.text;
+          spinner.text = 'Scanning page...';
+          result = await scanFetchedPage(url, fetched, scanOptions);
+        }
+
+        const only = options.only?.split(',').map(id => id.trim().toUpperCase()).filter(Boolean);
+        const issues = result.issues.filter(issue => issue.fix && (!only || only.includes(issue.id)));
+        if (issues.length === 0) {
+          spinner.succeed(chalk.green('No fixable issues found'));
+          return;
+        }
+
+        spinner.text = 'Writing patches...';
+        const patchPath = options.path ?? patchPathForUrl(url);
+        const outDir = resolve(process.cwd(), options.out!);
+        await mkdir(outDir, { recursive: true });
+
+        const baseName = patchPath.replace(/[\\/]+/g, '_');
+        const written: string[] = [];
+        const patch = createFixPatch(issues, { url, html, path: patchPath });
+        if (patch) {
+          const file = join(outDir, `${baseName}.patch`);
+          await writeFile(file, patch);
+          written.push(file);
+        }
+
+        if (options.perIssue) {
+          for (const issue of issues) {
+            const single = createFixPatch([issue], { url, html, path: patchPath });
+            if (!single) continue;
+            const file = join(outDir, `${baseName}.${issue.id}.patch`);
+            await writeFile(file, single);
+            written.push(file);
+          }
+        }
+
+        spinner.succeed(chalk.green(`Generated fixes for ${issues.length} issue(s)`));
+        printFixes(issues, written.length === 0);
+
+        if (written.length === 0) {
+          console.log(chalk.yellow('\nThe page has no <head> to add markup to; copy the snippets above instead'));
+          return;
+        }
+        console.log('');
+        written.forEach(file => console.log(chalk.dim(`Saved to: ${file}`)));
+        console.log(chalk.dim(`\nReview the patch, then apply it with: git apply ${written[0]}`));
+
+      } catch (error) {
+        spinner.fail(chalk.red('Failed to generate fixes'));
+        if (error instanceof Error) {
+          console.error(chalk.red(error.message));
+        }
+        process.exit(1);
+      }
+    });
+}
+
+function printFixes(issues: Issue[], withSnippets: boolean) {
+  for (const issue of issues) {
+    console.log(`\n${chalk.bold(`[${issue.id}]`)} ${issue.fix!.summary}`);
+    if (issue.fix!.review) {
+      console.log(chalk.yellow(`  ⚠ ${issue.fix!.review}`));
+    }
+    if (withSnippets) {
+      console.log(chalk.dim(issue.fix!.snippet.replace(/^/gm, '    ')));
+    }
+  }
+}
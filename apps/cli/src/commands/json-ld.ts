@@ -0,0 +1,86 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { extractEntitiesQuick, fetchHtml, generateJsonLd, jsonLdScriptTag, parseHtml, readLocalHtml } from 'scanner';
+import type { JsonLdGuess } from 'scanner';
+import { writeFile, mkdir } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { existsSync } from 'fs';
+import { pathToFileURL } from 'url';
+
+interface JsonLdOptions {
+  out?: string;
+  url?: string;
+  script?: boolean;
+}
+
+export function jsonLdCommand(program: Command) {
+  program
+    .command('json-ld')
+    .description('Generate a JSON-LD graph (Organization, WebSite, WebPage, breadcrumbs, Product/Article/FAQ) for a page')
+    .argument('<target>', 'URL or local HTML file')
+    .option('-o, --out <path>', 'Write the JSON-LD to a file instead of printing it')
+    .option('--url <url>', 'Public URL of a local file, used for @ids and links')
+    .option('--script', 'Wrap the JSON-LD in a <script type="application/ld+json"> tag', false)
+    .action(async (target: string, options: JsonLdOptions) => {
+      const spinner = ora('Loading page...').start();
+
+      try {
+        const local = existsSync(target);
+        let html: string;
+        if (local) {
+          html = await readLocalHtml(pathToFileURL(resolve(target)).href);
+        } else {
+          const fetched = await fetchHtml(new URL(target).href, 15000);
+          if (fetched.status >= 400) {
+            throw new Error(`HTTP ${fetched.status} fetching ${target}`);
+          }
+          html = fetched.text;
+        }
+
+        // @ids must be public URLs; a local file only has one if --url gives it
+        const pageUrl = options.url ?? (local ? undefined : target);
+        if (!pageUrl) {
+          throw new Error('Pass --url with the public URL of the page when generating from a local file');
+        }
+
+        spinner.text = 'Generating JSON-LD...';
+        const $ = parseHtml(html);
+        const { entities } = await extractEntitiesQuick($);
+        const result = generateJsonLd($, new URL(pageUrl).href, { entities });
+        const content = options.script ? jsonLdScriptTag(result.graph) : JSON.stringify(result.graph, null, 2);
+
+        spinner.succeed(chalk.green(`Generated JSON-LD for a ${result.primaryType} page (${result.graph['@graph'].length} nodes)`));
+
+        if (options.out) {
+          const outPath = resolve(process.cwd(), options.out);
+          await mkdir(dirname(outPath), { recursive: true });
+          await writeFile(outPath, content + '\n');
+          console.log(chalk.dim(`Saved to: ${outPath}`));
+        } else {
+          console.log(content);
+        }
+
+        printGuesses(result.guessed);
+
+      } catch (error) {
+        spinner.fail(chalk.red('Failed to generate JSON-LD'));
+        if (error instanceof Error) {
+          console.error(chalk.red(error.message));
+        }
+        process.exit(1);
+      }
+    });
+}
+
+function printGuesses(guessed: JsonLdGuess[]) {
+  if (guessed.length === 0) {
+    console.log(chalk.green('\nEvery value came from existing markup'));
+    return;
+  }
+  console.log(chalk.yellow(`\n⚠ ${guessed.length} value(s) were guessed from page content; check them before publishing:`));
+  for (const guess of guessed) {
+    const node = guess.node.includes('#') ? guess.node.slice(guess.node.lastIndexOf('#') + 1) : guess.node;
+    console.log(`  ${chalk.bold(`${node}.${guess.property}`)} ${chalk.dim(`(${guess.reason})`)}`);
+  }
+}
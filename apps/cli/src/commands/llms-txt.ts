@@ -0,0 +1,75 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { generateLlmsTxt } from 'scanner';
+import type { LlmsTxtPageInput } from 'scanner';
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { existsSync } from 'fs';
+
+interface LlmsTxtOptions {
+  out?: string;
+  title?: string;
+  summary?: string;
+}
+
+export function llmsTxtCommand(program: Command) {
+  program
+    .command('llms-txt')
+    .description('Generate a draft llms.txt from a saved crawl report')
+    .argument('<file>', 'Path to crawl JSON file (e.g., .ai-lighthouse/crawl_example.com_*.json)')
+    .option('-o, --out <path>', 'Where to write the generated file', '.ai-lighthouse/llms.txt')
+    .option('--title <title>', 'Site name for the H1 (defaults to the home page title)')
+    .option('--summary <text>', 'One-sentence summary (defaults to the home page LLM summary)')
+    .action(async (file: string, options: LlmsTxtOptions) => {
+      const spinner = ora('Loading crawl report...').start();
+
+      try {
+        const filePath = resolve(process.cwd(), file);
+
+        if (!existsSync(filePath)) {
+          throw new Error(`File not found: ${filePath}`);
+        }
+
+        const report = JSON.parse(await readFile(filePath, 'utf-8'));
+        if (!('pages' in report) || !Array.isArray(report.pages)) {
+          throw new Error('Not a crawl report: run `ai-lighthouse crawl` first');
+        }
+
+        // Skip pages that failed to load; they would become dead links
+        const pages: LlmsTxtPageInput[] = report.pages
+          .filter((page: any) => !page.statusCode || page.statusCode < 400)
+          .map((page: any) => ({
+            url: page.finalUrl || page.url,
+            title: page.title,
+            summary: page.llm?.summary,
+          }));
+
+        if (pages.length === 0) {
+          throw new Error('Crawl report contains no successfully audited pages');
+        }
+
+        spinner.text = 'Generating llms.txt...';
+        const content = generateLlmsTxt(pages, { title: options.title, summary: options.summary });
+
+        const outPath = resolve(process.cwd(), options.out!);
+        await mkdir(dirname(outPath), { recursive: true });
+        await writeFile(outPath, content);
+
+        spinner.succeed(chalk.green(`Generated llms.txt with ${pages.length} pages`));
+        console.log(chalk.dim(`Saved to: ${outPath}`));
+
+        if (!pages.some(p => p.summary)) {
+          console.log(chalk.yellow('\n💡 No LLM summaries in this report; links are listed without notes. Add short descriptions before publishing'));
+        }
+        console.log(chalk.dim('Review the draft, then publish it at the root of your site as /llms.txt'));
+
+      } catch (error) {
+        spinner.fail(chalk.red('Failed to generate llms.txt'));
+        if (error instanceof Error) {
+          console.error(chalk.red(error.message));
+        }
+        process.exit(1);
+      }
+    });
+}
@@ -4,6 +4,10 @@ import { Command } from 'commander';
 import { auditCommand } from './commands/audit.js';
 import { crawlCommand } from './commands/crawl.js';
 import { reportCommand } from './commands/report.js';
+import { llmsTxtCommand } from './commands/llms-txt.js';
+import { diffCommand } from './commands/diff.js';
+import { fixCommand } from './commands/fix.js';
+import { jsonLdCommand } from './commands/json-ld.js';
 
 const program = new Command();
 
@@ -16,5 +20,9 @@ program
 auditCommand(program);
 crawlCommand(program);
 reportCommand(program);
+llmsTxtCommand(program);
+diffCommand(program);
+fixCommand(program);
+jsonLdCommand(program);
 
 program.parse();
@@ -0,0 +1,49 @@
+import chalk from 'chalk';
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import { createBaseline, loadBaseline, writeBaseline } from 'scanner';
+import type { Issue, IssueBaseline, ProjectConfig, ScanResult, SuppressedIssue } from 'scanner';
+
+export const DEFAULT_BASELINE_FILE = 'ai-lighthouse-baseline.json';
+
+/**
+ * Baseline file to use: --baseline, then the project config, then (only when
+ * updating) the default file in the working directory
+ */
+export function baselinePath(option: string | undefined, config: ProjectConfig, update?: boolean): string | undefined {
+  const path = option ?? config.baseline ?? (update ? DEFAULT_BASELINE_FILE : undefined);
+  return path ? resolve(path) : undefined;
+}
+
+/**
+ * Load the baseline; a missing file is only acceptable when it is about to be written
+ */
+export async function loadCliBaseline(path: string | undefined, update?: boolean): Promise<IssueBaseline | undefined> {
+  if (!path) return undefined;
+  if (!existsSync(path)) {
+    if (update) return undefined;
+    throw new Error(`Baseline file not found: ${path} (create it with --update-baseline)`);
+  }
+  const baseline = await loadBaseline(path);
+  console.log(chalk.dim(`Using baseline ${path} (${baseline.issues.length} known issues)`));
+  return baseline;
+}
+
+/**
+ * Issues to record in the baseline: every issue of the scan (allIssues, so
+ * ones below the thresholds or past maxIssues are included) except inline
+ * suppressions, which stay in the pages
+ */
+export function baselineIssues(result: Pick<ScanResult, 'issues' | 'allIssues'>): Issue[] {
+  return (result.allIssues ?? result.issues).filter(issue => (issue as SuppressedIssue).suppressedBy !== 'inline');
+}
+
+/**
+ * Rewrite the baseline with the issues of this run, including the ones it
+ * already suppressed
+ */
+export async function updateCliBaseline(path: string, issues: Issue[]): Promise<void> {
+  const baseline = createBaseline(issues);
+  await writeBaseline(path, baseline);
+  console.log(chalk.dim(`Baseline with ${baseline.issues.length} issues saved to: ${path}`));
+}
@@ -134,6 +134,7 @@ function formatChunkingSection(chunking: any): string {
   
   const grid = [
     ['Strategy', chunking.chunkingStrategy],
+    ['Tokenizer', chunking.tokenizer],
     ['Total Chunks', chunking.totalChunks.toString()],
     ['Avg Tokens/Chunk', chunking.averageTokensPerChunk.toString()],
     ['Avg Noise Ratio', `${(chunking.averageNoiseRatio * 100).toFixed(1)}%`],
@@ -0,0 +1,37 @@
+import chalk from 'chalk';
+import {
+  isConfigPreset,
+  loadPlugins,
+  loadProjectConfig,
+  loadProjectConfigFile,
+  mergeProjectConfigs,
+  presetConfig,
+  ProjectConfig
+} from 'scanner';
+
+/**
+ * Load the project config (--config, or the nearest .ailighthouserc) with an
+ * optional --rules preset layered on top, and load its rule plugins so a
+ * broken or colliding plugin fails the command before any page is fetched
+ */
+export async function loadCliConfig(options: { config?: string; preset?: string } = {}): Promise<ProjectConfig> {
+  const project = options.config ? await loadProjectConfigFile(options.config) : await loadProjectConfig();
+  let config = project?.config ?? {};
+  if (project) console.log(chalk.dim(`Using config ${project.path}`));
+
+  if (options.preset) {
+    if (!isConfigPreset(options.preset)) {
+      throw new Error(`Unknown rule preset "${options.preset}" (expected default, strict, verbose)`);
+    }
+    config = mergeProjectConfigs(config, presetConfig(options.preset));
+  }
+
+  if (config.plugins?.length) {
+    const plugins = await loadPlugins(config.plugins);
+    for (const plugin of plugins) {
+      const count = plugin.rules.length + plugin.siteRules.length;
+      console.log(chalk.dim(`Loaded plugin ${plugin.name} (${count} rule${count === 1 ? '' : 's'})`));
+    }
+  }
+  return config;
+}
@@ -0,0 +1,119 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { existsSync } from 'node:fs';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const CLI_DIR = fileURLToPath(new URL('..', import.meta.url));
+const PAGES = ['/p1', '/p2', '/p3', '/p4'];
+
+let server: Server;
+let origin: string;
+
+function page(path: string): string {
+  const links = PAGES.map(href => `<a href="${href}">Page ${href}</a>`).join('\n');
+  return `<html><head><title>Page ${path}</title></head><body><h1>Page ${path}</h1><p>Content of ${path}.</p>${links}</body></html>`;
+}
+
+before(async () => {
+  server = createServer((req, res) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (path === '/robots.txt') {
+      res.writeHead(200, { 'content-type': 'text/plain' }).end(`User-agent: *\nAllow: /\n\nSitemap: ${origin}/sitemap.xml\n`);
+    } else if (path === '/sitemap.xml') {
+      const urls = PAGES.map((p, i) => `<url><loc>${origin}${p}</loc><lastmod>2024-0${i + 1}-01</lastmod></url>`).join('');
+      res.writeHead(200, { 'content-type': 'application/xml' })
+        .end(`<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls}</urlset>`);
+    } else if (PAGES.includes(path) || path === '/') {
+      // Slow pages, so the crawl can be interrupted between two of them
+      setTimeout(() => res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' }).end(page(path)), 300);
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+/**
+ * Run the CLI in a working directory; stop it once `interruptWhen` holds
+ */
+function runCli(cwd: string, args: string[], interruptWhen?: () => Promise<boolean>): Promise<number | null> {
+  const child = spawn(process.execPath, ['--import', import.meta.resolve('tsx'), join(CLI_DIR, 'src/index.ts'), ...args], {
+    cwd,
+    env: { ...process.env, TSX_TSCONFIG_PATH: join(CLI_DIR, 'tsconfig.json') },
+    stdio: 'ignore'
+  });
+
+  let poll: ReturnType<typeof setInterval> | undefined;
+  if (interruptWhen) {
+    poll = setInterval(async () => {
+      if (await interruptWhen()) child.kill('SIGKILL');
+    }, 20);
+  }
+
+  return new Promise((resolve, reject) => {
+    child.on('error', reject);
+    child.on('exit', code => {
+      clearInterval(poll);
+      resolve(code);
+    });
+  });
+}
+
+async function readReport(cwd: string) {
+  const dir = join(cwd, '.ai-lighthouse');
+  const [file] = (await readdir(dir)).filter(name => name.startsWith('crawl_') && name.endsWith('.json'));
+  return JSON.parse(await readFile(join(dir, file), 'utf-8'));
+}
+
+describe('crawl --resume', () => {
+  const dirs: string[] = [];
+  const workDir = async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'ai-lighthouse-crawl-'));
+    dirs.push(dir);
+    return dir;
+  };
+
+  after(() => Promise.all(dirs.map(dir => rm(dir, { recursive: true, force: true }))));
+
+  it('writes the same report as an uninterrupted crawl', { timeout: 120000 }, async () => {
+    const args = ['crawl', `${origin}/`, '--sitemap', '-c', '1'];
+
+    const full = await workDir();
+    assert.equal(await runCli(full, args), 0);
+    const expected = await readReport(full);
+
+    // Stop the crawl once the first page is in the checkpoint
+    const interrupted = await workDir();
+    const checkpoints = join(interrupted, '.ai-lighthouse', 'checkpoints');
+    const pagesSaved = async () => {
+      if (!existsSync(checkpoints)) return false;
+      const [crawlId] = await readdir(checkpoints);
+      const pagesPath = join(checkpoints, crawlId ?? '', 'pages.jsonl');
+      return existsSync(pagesPath) && (await readFile(pagesPath, 'utf-8')).includes('\n');
+    };
+    assert.notEqual(await runCli(interrupted, args, pagesSaved), 0);
+    const [crawlId] = await readdir(checkpoints);
+
+    assert.equal(await runCli(interrupted, ['crawl', '--resume', crawlId]), 0);
+    const resumed = await readReport(interrupted);
+
+    assert.ok(expected.sitemaps?.length, 'the uninterrupted report lists the sitemaps');
+    assert.deepEqual(resumed.sitemaps, expected.sitemaps);
+    assert.equal(resumed.total_pages, expected.total_pages);
+    assert.deepEqual(
+      resumed.pages.map((p: { url: string }) => p.url).sort(),
+      expected.pages.map((p: { url: string }) => p.url).sort()
+    );
+    assert.deepEqual(resumed.site_issues.map((i: { id: string }) => i.id).sort(), expected.site_issues.map((i: { id: string }) => i.id).sort());
+    assert.equal(existsSync(join(checkpoints, crawlId)), false);
+  });
+});
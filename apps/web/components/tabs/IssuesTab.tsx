@@ -38,6 +38,7 @@ export default function IssuesTab({ issues, currentScore }: IssuesTabProps) {
         return (
           issue.message.toLowerCase().includes(query) ||
           issue.category.toLowerCase().includes(query) ||
+          (issue.fingerprint && issue.fingerprint.includes(query)) ||
           (issue.suggested_fix && issue.suggested_fix.toLowerCase().includes(query))
         );
       }
@@ -184,7 +185,7 @@ export default function IssuesTab({ issues, currentScore }: IssuesTabProps) {
               const projectedScore = currentScore && scoreImprovement ? Math.min(100, currentScore + scoreImprovement) : null;
               
               return (
-                <div key={idx} className={`border-l-4 p-4 rounded ${getSeverityColor(issue.severity)}`}>
+                <div key={issue.fingerprint ?? idx} className={`border-l-4 p-4 rounded ${getSeverityColor(issue.severity)}`}>
                   <div className="flex items-start justify-between gap-3 mb-2">
                     <div className="font-semibold text-gray-900 dark:text-gray-100 flex-1">{issue.message}</div>
                     <div className="flex items-center gap-2 flex-shrink-0">
@@ -202,6 +203,9 @@ export default function IssuesTab({ issues, currentScore }: IssuesTabProps) {
                     Impact: <span className="font-medium">{issue.impact}</span> · 
                     Category: <span className="font-medium">{issue.category}</span>
                     {issue.rule_id && <span> · Rule: <span className="font-mono text-xs">{issue.rule_id}</span></span>}
+                    {issue.fingerprint && (
+                      <span title="Stable across audits of this page"> · ID: <span className="font-mono text-xs">{issue.fingerprint}</span></span>
+                    )}
                     {projectedScore && (
                       <span className="ml-2 text-gray-500 dark:text-gray-500">
                         · Score: {currentScore} → <span className="text-green-600 dark:text-green-400 font-medium">{projectedScore}</span>
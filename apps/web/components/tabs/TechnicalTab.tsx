@@ -2,6 +2,8 @@
 
 import ChunkingSection from './technical/ChunkingSection';
 import ExtractabilitySection from './technical/ExtractabilitySection';
+import RobotsAccessSection from './technical/RobotsAccessSection';
+import AIPolicySection from './technical/AIPolicySection';
 import TechnicalScoringSection from './technical/TechnicalScoringSection';
 
 interface TechnicalTabProps {
@@ -65,6 +67,12 @@ export default function TechnicalTab({ scanResult, auditReport }: TechnicalTabPr
       {/* Extractability */}
       {scanResult?.extractability && <ExtractabilitySection extractability={scanResult.extractability} />}
 
+      {/* AI Crawler Access (robots.txt) */}
+      {scanResult?.robots && <RobotsAccessSection robots={scanResult.robots} />}
+
+      {/* AI Access Policy (index / train / quote) */}
+      {scanResult?.aiPolicy && <AIPolicySection policy={scanResult.aiPolicy} />}
+
       {/* Scoring Details */}
       {scanResult?.scoring && <TechnicalScoringSection scoring={scanResult.scoring} />}
     </div>
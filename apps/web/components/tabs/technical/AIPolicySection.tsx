@@ -0,0 +1,125 @@
+'use client';
+
+import Tooltip from '../../Tooltip';
+
+type Permission = 'index' | 'train' | 'quote';
+
+interface PolicyDirective {
+  source: string;
+  permission: Permission;
+  effect: 'allow' | 'deny';
+  agent?: string;
+  value: string;
+  location: string;
+}
+
+interface PolicyVerdict {
+  status: 'allowed' | 'restricted' | 'blocked';
+  deniedBy: string[];
+  restrictedAgents: string[];
+}
+
+interface AIPolicyData {
+  verdict: Record<Permission, PolicyVerdict>;
+  directives: PolicyDirective[];
+  conflicts: Array<{ permission: Permission; message: string }>;
+  checked: string[];
+}
+
+interface AIPolicySectionProps {
+  policy: AIPolicyData;
+}
+
+const PERMISSION_LABELS: Record<Permission, { label: string; help: string }> = {
+  index: { label: 'Index', help: 'AI search and answer engines may fetch and index the page' },
+  train: { label: 'Train', help: 'The content may be used to train AI models (text and data mining)' },
+  quote: { label: 'Quote', help: 'AI answers may show snippets or excerpts of the page' },
+};
+
+const STATUS_STYLES: Record<PolicyVerdict['status'], string> = {
+  allowed: 'text-green-600 dark:text-green-400',
+  restricted: 'text-yellow-600 dark:text-yellow-400',
+  blocked: 'text-red-600 dark:text-red-400',
+};
+
+export default function AIPolicySection({ policy }: AIPolicySectionProps) {
+  const permissions: Permission[] = ['index', 'train', 'quote'];
+
+  return (
+    <div className="bg-purple-50 dark:bg-purple-900/30 border-2 border-purple-200 dark:border-purple-700 rounded-lg p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <h3 className="text-2xl font-bold text-gray-900 dark:text-gray-100">⚖️ AI Access Policy</h3>
+        <Tooltip content={`Combined verdict from ${policy.checked.join(', ')}. The most restrictive directive wins.`}>
+          <span className="text-gray-500 hover:text-gray-700 cursor-help">ⓘ</span>
+        </Tooltip>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        {permissions.map(permission => {
+          const verdict = policy.verdict[permission];
+          return (
+            <div key={permission} className="bg-white dark:bg-gray-800 p-3 rounded">
+              <Tooltip content={PERMISSION_LABELS[permission].help}>
+                <div className="text-sm text-gray-600 dark:text-gray-400 cursor-help">{PERMISSION_LABELS[permission].label}</div>
+              </Tooltip>
+              <div className={`text-2xl font-bold capitalize ${STATUS_STYLES[verdict.status]}`}>
+                {verdict.status}
+              </div>
+              {verdict.deniedBy.length > 0 && (
+                <div className="text-xs text-gray-500 mt-1">
+                  by {verdict.deniedBy.join(', ')}
+                  {verdict.restrictedAgents.length > 0 && ` (${verdict.restrictedAgents.join(', ')})`}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {policy.conflicts.length > 0 && (
+        <div className="bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-200 dark:border-yellow-700 rounded p-3 mb-4">
+          <div className="font-semibold text-yellow-800 dark:text-yellow-300 mb-1">Conflicting directives</div>
+          <ul className="list-disc list-inside text-sm text-yellow-800 dark:text-yellow-300">
+            {policy.conflicts.map((conflict, idx) => (
+              <li key={idx}><span className="font-medium capitalize">{conflict.permission}:</span> {conflict.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {policy.directives.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded border border-gray-200 dark:border-gray-700 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                <th className="p-3 font-semibold">Permission</th>
+                <th className="p-3 font-semibold">Effect</th>
+                <th className="p-3 font-semibold">Source</th>
+                <th className="p-3 font-semibold">Directive</th>
+              </tr>
+            </thead>
+            <tbody>
+              {policy.directives.map((directive, idx) => (
+                <tr key={idx} className="border-b border-gray-100 dark:border-gray-700 last:border-0">
+                  <td className="p-3 font-medium text-gray-900 dark:text-gray-100 capitalize">{directive.permission}</td>
+                  <td className="p-3">
+                    {directive.effect === 'allow' ? (
+                      <span className="text-green-600 dark:text-green-400 font-medium">✓ Allow</span>
+                    ) : (
+                      <span className="text-red-600 dark:text-red-400 font-medium">✗ Deny</span>
+                    )}
+                  </td>
+                  <td className="p-3 text-gray-600 dark:text-gray-400">
+                    {directive.source}
+                    {directive.agent && <span className="ml-1 text-xs text-gray-500">({directive.agent})</span>}
+                  </td>
+                  <td className="p-3 text-gray-600 dark:text-gray-400 font-mono">{directive.value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
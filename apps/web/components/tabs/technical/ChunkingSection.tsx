@@ -10,6 +10,7 @@ interface ChunkingData {
   totalChunks: number;
   averageTokensPerChunk: number;
   averageNoiseRatio: number;
+  tokenizer?: string;
   chunks?: any[];
 }
 
@@ -77,6 +78,7 @@ export default function ChunkingSection({ chunking }: ChunkingSectionProps) {
           <TokenHeatmap
             chunks={chunking.chunks}
             averageTokensPerChunk={chunking.averageTokensPerChunk}
+            tokenizer={chunking.tokenizer}
             onChunkClick={toggleChunk}
           />
           <ChunkViewer
@@ -0,0 +1,97 @@
+'use client';
+
+import Tooltip from '../../Tooltip';
+
+interface CrawlerAccess {
+  crawler: string;
+  agent: string;
+  allowed: boolean;
+  group: string;
+  rule?: string;
+  crawlDelay?: number;
+}
+
+interface RobotsAccessData {
+  robotsUrl: string;
+  status: number;
+  found: boolean;
+  path: string;
+  crawlers: CrawlerAccess[];
+}
+
+interface RobotsAccessSectionProps {
+  robots: RobotsAccessData;
+}
+
+export default function RobotsAccessSection({ robots }: RobotsAccessSectionProps) {
+  const allowedCount = robots.crawlers.filter(c => c.allowed).length;
+  const blockedCount = robots.crawlers.length - allowedCount;
+
+  return (
+    <div className="bg-green-50 dark:bg-green-900/30 border-2 border-green-200 dark:border-green-700 rounded-lg p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <h3 className="text-2xl font-bold text-gray-900 dark:text-gray-100">🤖 AI Crawler Access</h3>
+        <Tooltip content="Which AI crawlers robots.txt allows to fetch this exact URL, based on the most specific matching Allow/Disallow rule for each crawler.">
+          <span className="text-gray-500 hover:text-gray-700 cursor-help">ⓘ</span>
+        </Tooltip>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div className="bg-white dark:bg-gray-800 p-3 rounded">
+          <div className="text-sm text-gray-600 dark:text-gray-400">robots.txt</div>
+          <div className="text-2xl font-bold text-green-600 dark:text-green-400">
+            {robots.found ? 'Found' : robots.status >= 500 ? 'Unreachable' : 'Not found'}
+          </div>
+        </div>
+        <div className="bg-white dark:bg-gray-800 p-3 rounded">
+          <div className="text-sm text-gray-600 dark:text-gray-400">Allowed Crawlers</div>
+          <div className="text-2xl font-bold text-green-600 dark:text-green-400">
+            {allowedCount}/{robots.crawlers.length}
+          </div>
+        </div>
+        <div className="bg-white dark:bg-gray-800 p-3 rounded">
+          <div className="text-sm text-gray-600 dark:text-gray-400">Blocked Crawlers</div>
+          <div className={`text-2xl font-bold ${blockedCount > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+            {blockedCount}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded border border-gray-200 dark:border-gray-700 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+              <th className="p-3 font-semibold">Crawler</th>
+              <th className="p-3 font-semibold">Access to {robots.path}</th>
+              <th className="p-3 font-semibold">Group</th>
+              <th className="p-3 font-semibold">Matching Rule</th>
+            </tr>
+          </thead>
+          <tbody>
+            {robots.crawlers.map(crawler => (
+              <tr key={crawler.agent} className="border-b border-gray-100 dark:border-gray-700 last:border-0">
+                <td className="p-3 font-medium text-gray-900 dark:text-gray-100">{crawler.crawler}</td>
+                <td className="p-3">
+                  {crawler.allowed ? (
+                    <span className="text-green-600 dark:text-green-400 font-medium">✓ Allowed</span>
+                  ) : (
+                    <span className="text-red-600 dark:text-red-400 font-medium">✗ Blocked</span>
+                  )}
+                </td>
+                <td className="p-3 text-gray-600 dark:text-gray-400 font-mono">
+                  {crawler.group === 'none' ? '—' : crawler.group}
+                </td>
+                <td className="p-3 text-gray-600 dark:text-gray-400 font-mono">
+                  {crawler.rule || 'No matching rule'}
+                  {crawler.crawlDelay !== undefined && (
+                    <span className="ml-2 text-xs text-gray-500">(crawl-delay {crawler.crawlDelay}s)</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
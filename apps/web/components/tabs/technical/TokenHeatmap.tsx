@@ -5,13 +5,19 @@ import { getTokenHeatColor } from './chunkUtils';
 interface TokenHeatmapProps {
   chunks: any[];
   averageTokensPerChunk: number;
+  tokenizer?: string;
   onChunkClick: (index: number) => void;
 }
 
-export default function TokenHeatmap({ chunks, averageTokensPerChunk, onChunkClick }: TokenHeatmapProps) {
+export default function TokenHeatmap({ chunks, averageTokensPerChunk, tokenizer, onChunkClick }: TokenHeatmapProps) {
+  const unit = tokenizer ? `${tokenizer} tokens` : 'tokens';
+
   return (
     <div className="mt-4">
-      <h4 className="font-semibold text-gray-700 dark:text-gray-300 mb-2">Token Distribution Heatmap</h4>
+      <h4 className="font-semibold text-gray-700 dark:text-gray-300 mb-2">
+        Token Distribution Heatmap
+        {tokenizer && <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">({tokenizer} tokenizer)</span>}
+      </h4>
       <div className="bg-white dark:bg-gray-800 p-3 rounded border border-gray-200 dark:border-gray-700">
         <div className="flex gap-0.5 h-6">
           {chunks.map((chunk, idx) => {
@@ -22,7 +28,7 @@ export default function TokenHeatmap({ chunks, averageTokensPerChunk, onChunkCli
                 key={idx}
                 className={`${color} transition-all hover:opacity-75 cursor-pointer`}
                 style={{ width }}
-                title={`Chunk ${idx + 1}: ${chunk.tokenCount} tokens`}
+                title={`Chunk ${idx + 1}: ${chunk.tokenCount} ${unit}`}
                 onClick={() => onChunkClick(idx)}
               />
             );
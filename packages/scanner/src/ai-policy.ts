@@ -0,0 +1,490 @@
+/**
+ * Unified AI access policy
+ * Merges every signal a publisher can use to control AI systems into one
+ * verdict for three permissions:
+ * - index: AI search / answer engines may fetch and index the page
+ * - train: the content may be used for model training (text and data mining)
+ * - quote: AI answers may show snippets or excerpts of the page
+ *
+ * Sources: meta robots, X-Robots-Tag, robots.txt, TDMRep (tdmrep.json,
+ * tdm-reservation header/meta) and ai.txt
+ */
+
+import type { CheerioAPI } from 'cheerio';
+import { CATEGORY, Issue, SEVERITY } from './types.js';
+import { AI_CRAWLERS, isPathAllowed, parseRobotsTxt, RobotsAccessMatrix } from './robots-txt.js';
+import { setCached } from './utils.js';
+
+export type AIPermission = 'index' | 'train' | 'quote';
+
+export type AIPolicySource = 'meta-robots' | 'x-robots-tag' | 'robots-txt' | 'tdmrep' | 'ai-txt';
+
+export interface AIPolicyDirective {
+  source: AIPolicySource;
+  permission: AIPermission;
+  effect: 'allow' | 'deny';
+  agent?: string;         // Crawler the directive is scoped to; undefined means all
+  value: string;          // Raw directive, e.g. "noai" or "Disallow: / (line 3)"
+  location: string;       // Where it was found (URL, header or tag)
+}
+
+export interface AIPolicyConflict {
+  permission: AIPermission;
+  message: string;
+  allow: AIPolicyDirective[];
+  deny: AIPolicyDirective[];
+}
+
+export type AIPermissionStatus = 'allowed' | 'restricted' | 'blocked';
+
+export interface AIPolicyVerdict {
+  status: AIPermissionStatus;       // restricted = denied for some AI crawlers only
+  deniedBy: AIPolicySource[];
+  restrictedAgents: string[];
+}
+
+export interface AIPolicyReport {
+  url: string;
+  verdict: Record<AIPermission, AIPolicyVerdict>;
+  directives: AIPolicyDirective[];
+  conflicts: AIPolicyConflict[];
+  checked: AIPolicySource[];        // Sources that could be read (network sources are skipped offline)
+}
+
+const PERMISSIONS: AIPermission[] = ['index', 'train', 'quote'];
+
+/** What blocking each AI crawler in robots.txt opts out of */
+const CRAWLER_PURPOSES: Record<string, AIPermission[]> = {
+  gptbot: ['train'],
+  claudebot: ['train'],
+  'claude-web': ['index', 'quote'],
+  'anthropic-ai': ['train'],
+  perplexitybot: ['index', 'quote'],
+  perplexity: ['index', 'quote'],
+  'google-extended': ['train', 'quote'],
+  ccbot: ['train'],
+  'cohere-ai': ['train'],
+  omgilibot: ['train'],
+  facebookbot: ['train'],
+  diffbot: ['train'],
+  bytespider: ['train'],
+  imagesiftbot: ['train']
+};
+
+/** Robots directives and the permissions they deny */
+const DENY_DIRECTIVES: Record<string, AIPermission[]> = {
+  noindex: ['index', 'quote'],
+  none: ['index', 'quote'],
+  nosnippet: ['quote'],
+  noai: ['train'],
+  noimageai: ['train'],
+  'max-snippet:0': ['quote']
+};
+
+/** Robots directives that explicitly grant a permission */
+const ALLOW_DIRECTIVES: Record<string, AIPermission[]> = {
+  index: ['index'],
+  all: ['index', 'quote']
+};
+
+// Directives that carry a value after a colon, so the colon is not an agent prefix
+const VALUED_DIRECTIVES = new Set(['max-snippet', 'max-image-preview', 'max-video-preview', 'unavailable_after']);
+
+const AI_AGENT_TOKENS = new Set(AI_CRAWLERS.map(c => c.agent));
+
+function robotsDirectives(
+  value: string,
+  source: 'meta-robots' | 'x-robots-tag',
+  location: string,
+  agent?: string
+): AIPolicyDirective[] {
+  const directives: AIPolicyDirective[] = [];
+  let currentAgent = agent;
+
+  for (const raw of value.split(',')) {
+    let token = raw.trim().toLowerCase();
+    if (!token) continue;
+
+    // X-Robots-Tag allows "googlebot: noindex" style agent prefixes
+    const prefix = token.match(/^([a-z0-9_-]+)\s*:\s*(.*)$/);
+    if (prefix && !VALUED_DIRECTIVES.has(prefix[1])) {
+      currentAgent = prefix[1] === 'robots' ? undefined : prefix[1];
+      token = prefix[2].trim();
+      if (!token) continue;
+    }
+
+    // Only general and AI-crawler directives are relevant (not e.g. bingbot)
+    if (currentAgent && !AI_AGENT_TOKENS.has(currentAgent)) continue;
+
+    const normalized = token.replace(/\s+/g, '');
+    const deny = DENY_DIRECTIVES[normalized];
+    const allow = ALLOW_DIRECTIVES[normalized];
+    for (const permission of deny ?? []) {
+      directives.push({ source, permission, effect: 'deny', agent: currentAgent, value: token, location });
+    }
+    for (const permission of allow ?? []) {
+      directives.push({ source, permission, effect: 'allow', agent: currentAgent, value: token, location });
+    }
+  }
+
+  return directives;
+}
+
+/**
+ * Directives from <meta name="robots"> and AI-crawler-specific meta tags
+ */
+function metaDirectives($: CheerioAPI): AIPolicyDirective[] {
+  const directives: AIPolicyDirective[] = [];
+
+  $('meta[name]').each((_, el) => {
+    const name = ($(el).attr('name') || '').toLowerCase();
+    const content = $(el).attr('content') || '';
+    if (name === 'robots') {
+      directives.push(...robotsDirectives(content, 'meta-robots', '<meta name="robots">'));
+    } else if (AI_AGENT_TOKENS.has(name)) {
+      directives.push(...robotsDirectives(content, 'meta-robots', `<meta name="${name}">`, name));
+    } else if (name === 'tdm-reservation') {
+      const reserved = content.trim() === '1';
+      directives.push({
+        source: 'tdmrep',
+        permission: 'train',
+        effect: reserved ? 'deny' : 'allow',
+        value: `tdm-reservation: ${content.trim()}`,
+        location: '<meta name="tdm-reservation">'
+      });
+    }
+  });
+
+  return directives;
+}
+
+/**
+ * Directives from the X-Robots-Tag and tdm-reservation response headers
+ */
+function headerDirectives(headers: Headers): AIPolicyDirective[] {
+  const directives: AIPolicyDirective[] = [];
+
+  const robotsTag = headers.get('x-robots-tag');
+  if (robotsTag) {
+    directives.push(...robotsDirectives(robotsTag, 'x-robots-tag', 'X-Robots-Tag header'));
+  }
+
+  const tdm = headers.get('tdm-reservation');
+  if (tdm !== null) {
+    directives.push({
+      source: 'tdmrep',
+      permission: 'train',
+      effect: tdm.trim() === '1' ? 'deny' : 'allow',
+      value: `tdm-reservation: ${tdm.trim()}`,
+      location: 'tdm-reservation header'
+    });
+  }
+
+  return directives;
+}
+
+/**
+ * Directives from robots.txt: a blocked crawler denies the permissions it is used for
+ */
+function robotsTxtDirectives(matrix: RobotsAccessMatrix): AIPolicyDirective[] {
+  return matrix.crawlers.flatMap(crawler => {
+    const purposes = CRAWLER_PURPOSES[crawler.agent] ?? [];
+    return purposes.map(permission => ({
+      source: 'robots-txt' as const,
+      permission,
+      effect: crawler.allowed ? 'allow' as const : 'deny' as const,
+      agent: crawler.agent,
+      value: crawler.rule ?? (crawler.allowed ? 'No matching rule' : 'Blocked'),
+      location: matrix.robotsUrl
+    }));
+  }).filter(d => d.effect === 'deny' || d.value !== 'No matching rule');
+}
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const fileCache = new Map<string, { expires: number; promise: Promise<{ status: number; text?: string }> }>();
+
+/**
+ * Forget cached policy files (e.g. between test fixtures)
+ */
+export function clearAIPolicyCache(): void {
+  fileCache.clear();
+}
+
+/**
+ * Fetch a site-wide policy file (cached per URL so a crawl fetches it once)
+ */
+function fetchText(url: string, timeoutMs: number): Promise<{ status: number; text?: string }> {
+  const cached = fileCache.get(url);
+  if (cached && cached.expires > Date.now()) return cached.promise;
+
+  const promise = (async () => {
+    const controller = new AbortController();
+    const id = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const res = await fetch(url, { signal: controller.signal });
+      if (res.status >= 400) return { status: res.status };
+      const text = await res.text();
+      // SPA fallbacks answer unknown paths with HTML
+      if (/^\s*(<!doctype html|<html)/i.test(text)) return { status: 404 };
+      return { status: res.status, text };
+    } catch {
+      return { status: 0 };
+    } finally {
+      clearTimeout(id);
+    }
+  })();
+
+  setCached(fileCache, url, { expires: Date.now() + CACHE_TTL_MS, promise });
+  return promise;
+}
+
+/**
+ * TDMRep (W3C) /.well-known/tdmrep.json: the first rule whose location matches the path applies
+ */
+async function tdmrepDirectives(url: string, timeoutMs: number): Promise<AIPolicyDirective[]> {
+  const target = new URL(url);
+  const tdmrepUrl = `${target.origin}/.well-known/tdmrep.json`;
+  const { text } = await fetchText(tdmrepUrl, timeoutMs);
+  if (!text) return [];
+
+  let rules: Array<{ location?: string; 'tdm-reservation'?: number; 'tdm-policy'?: string }>;
+  try {
+    rules = JSON.parse(text);
+    if (!Array.isArray(rules)) return [];
+  } catch {
+    return [];
+  }
+
+  const path = target.pathname;
+  const rule = rules.find(r => {
+    if (typeof r.location !== 'string') return false;
+    const pattern = new RegExp('^' + r.location.split('*').map(p => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$');
+    return pattern.test(path) || pattern.test(path.replace(/\/$/, ''));
+  });
+  if (!rule || rule['tdm-reservation'] === undefined) return [];
+
+  const reserved = Number(rule['tdm-reservation']) === 1;
+  return [{
+    source: 'tdmrep',
+    permission: 'train',
+    effect: reserved ? 'deny' : 'allow',
+    value: `location "${rule.location}": tdm-reservation ${rule['tdm-reservation']}${rule['tdm-policy'] ? ` (policy ${rule['tdm-policy']})` : ''}`,
+    location: tdmrepUrl
+  }];
+}
+
+/**
+ * ai.txt (robots.txt syntax) controls training use of the site's content
+ */
+async function aiTxtDirectives(url: string, timeoutMs: number): Promise<AIPolicyDirective[]> {
+  const target = new URL(url);
+  const aiTxtUrl = `${target.origin}/ai.txt`;
+  const { text } = await fetchText(aiTxtUrl, timeoutMs);
+  if (!text) return [];
+
+  const parsed = parseRobotsTxt(text);
+  const verdict = isPathAllowed(parsed, '*', `${target.pathname}${target.search}`);
+  if (!verdict.rule) return [];
+
+  return [{
+    source: 'ai-txt',
+    permission: 'train',
+    effect: verdict.allowed ? 'allow' : 'deny',
+    value: `${verdict.rule.type === 'allow' ? 'Allow' : 'Disallow'}: ${verdict.rule.path} (line ${verdict.rule.line})`,
+    location: aiTxtUrl
+  }];
+}
+
+function buildVerdict(directives: AIPolicyDirective[], permission: AIPermission): AIPolicyVerdict {
+  const denies = directives.filter(d => d.permission === permission && d.effect === 'deny');
+  const global = denies.filter(d => !d.agent);
+
+  return {
+    status: global.length > 0 ? 'blocked' : denies.length > 0 ? 'restricted' : 'allowed',
+    deniedBy: Array.from(new Set(denies.map(d => d.source))),
+    restrictedAgents: Array.from(new Set(denies.filter(d => d.agent).map(d => d.agent!)))
+  };
+}
+
+/**
+ * Find directives that contradict each other. The most restrictive directive
+ * wins, but contradictions usually mean one of the signals is stale.
+ */
+function findConflicts(directives: AIPolicyDirective[], matrix?: RobotsAccessMatrix): AIPolicyConflict[] {
+  const conflicts: AIPolicyConflict[] = [];
+
+  for (const permission of PERMISSIONS) {
+    const scoped = directives.filter(d => d.permission === permission);
+    const allow = scoped.filter(d => d.effect === 'allow' && d.source !== 'robots-txt');
+    const deny = scoped.filter(d => d.effect === 'deny');
+
+    // An explicit allow contradicted by a deny that covers the same agents
+    const contradicted = deny.filter(d => allow.some(a => a.source !== d.source && (!d.agent || !a.agent || a.agent === d.agent)));
+    if (contradicted.length > 0) {
+      const allowing = allow.filter(a => contradicted.some(d => a.source !== d.source && (!d.agent || !a.agent || a.agent === d.agent)));
+      const allowSources = unique(allowing.map(a => a.source));
+      const denySources = unique(contradicted.map(d => d.source));
+      conflicts.push({
+        permission,
+        message: `${allowSources.join(', ')} allow${allowSources.length === 1 ? 's' : ''} ${permission} but ${denySources.join(', ')} den${denySources.length === 1 ? 'ies' : 'y'} it`,
+        allow: allowing,
+        deny: contradicted
+      });
+    }
+  }
+
+  // Crawlers blocked by robots.txt never fetch the page, so they cannot see its noindex
+  // and may still index the bare URL from links
+  if (matrix) {
+    const pageDenies = directives.filter(d =>
+      d.permission === 'index' && d.effect === 'deny' && (d.source === 'meta-robots' || d.source === 'x-robots-tag'));
+    const blocked = matrix.crawlers.filter(c => !c.allowed).map(c => ({
+      source: 'robots-txt' as const,
+      permission: 'index' as const,
+      effect: 'deny' as const,
+      agent: c.agent,
+      value: c.rule ?? 'Blocked',
+      location: matrix.robotsUrl
+    }));
+    if (pageDenies.length > 0 && blocked.length > 0) {
+      conflicts.push({
+        permission: 'index',
+        message: `robots.txt blocks ${unique(blocked.map(d => d.agent)).join(', ')}, so they never see the page-level ${unique(pageDenies.map(d => d.value)).join(', ')} directives`,
+        allow: [],
+        deny: [...pageDenies, ...blocked]
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
+
+/**
+ * Merge all AI access signals for a page into one policy report.
+ * Without a response (offline scans) only in-page meta tags are read.
+ */
+export async function analyzeAIPolicy(
+  url: string,
+  $: CheerioAPI,
+  options: {
+    headers?: Headers;
+    robots?: RobotsAccessMatrix;
+    offline?: boolean;
+    timeoutMs?: number;
+  } = {}
+): Promise<AIPolicyReport> {
+  const { headers, robots, offline, timeoutMs = 10000 } = options;
+  const directives: AIPolicyDirective[] = [...metaDirectives($)];
+  const checked: AIPolicySource[] = ['meta-robots'];
+
+  if (headers) {
+    directives.push(...headerDirectives(headers));
+    checked.push('x-robots-tag');
+  }
+  if (robots) {
+    directives.push(...robotsTxtDirectives(robots));
+    checked.push('robots-txt');
+  }
+  if (!offline) {
+    const [tdmrep, aiTxt] = await Promise.all([
+      tdmrepDirectives(url, timeoutMs),
+      aiTxtDirectives(url, timeoutMs)
+    ]);
+    directives.push(...tdmrep, ...aiTxt);
+    checked.push('tdmrep', 'ai-txt');
+  }
+
+  return {
+    url,
+    verdict: {
+      index: buildVerdict(directives, 'index'),
+      train: buildVerdict(directives, 'train'),
+      quote: buildVerdict(directives, 'quote')
+    },
+    directives,
+    conflicts: findConflicts(directives, robots),
+    checked
+  };
+}
+
+function describeDirective(d: AIPolicyDirective): string {
+  return `${d.source}${d.agent ? ` (${d.agent})` : ''}: ${d.value} — ${d.location}`;
+}
+
+function describeDenials(report: AIPolicyReport, permission: AIPermission): string[] {
+  return report.directives
+    .filter(d => d.permission === permission && d.effect === 'deny')
+    .map(describeDirective);
+}
+
+/**
+ * Convert an AI policy report into scan issues.
+ * Training opt-outs are a publisher choice and are reported in the verdict only.
+ * Noindex for all crawlers is left to CRAWL-008 and robots.txt blocks to AIREAD-009.
+ */
+export function aiPolicyToIssues(report: AIPolicyReport): Issue[] {
+  const issues: Issue[] = [];
+  const timestamp = new Date().toISOString();
+  const { url, verdict } = report;
+
+  // Page-level directives addressed to AI crawlers, e.g. <meta name="gptbot" content="noindex">
+  const aiIndexDenials = report.directives.filter(d =>
+    d.permission === 'index' && d.effect === 'deny' && d.agent && d.source !== 'robots-txt');
+  if (aiIndexDenials.length > 0) {
+    const agents = unique(aiIndexDenials.map(d => d.agent!));
+    issues.push({
+      id: `${CATEGORY.AIREAD}-103`,
+      title: 'Page is excluded from AI indexing',
+      severity: SEVERITY.HIGH,
+      category: CATEGORY.AIREAD,
+      description: `Page-level directives tell ${agents.join(', ')} not to index this page, so these AI search and answer engines will not cite it.`,
+      remediation: 'Remove "noindex"/"none" from the AI crawler meta tags (e.g. <meta name="gptbot">) and agent-scoped X-Robots-Tag directives if this page should appear in AI answers.',
+      impactScore: 35,
+      location: { url },
+      evidence: aiIndexDenials.map(describeDirective),
+      tags: ['ai-policy', 'robots', 'indexing'],
+      confidence: 0.95,
+      timestamp
+    });
+  }
+
+  if (verdict.quote.status === 'blocked' && verdict.index.status !== 'blocked') {
+    issues.push({
+      id: `${CATEGORY.AIREAD}-104`,
+      title: 'AI answers may not quote this page',
+      severity: SEVERITY.MEDIUM,
+      category: CATEGORY.AIREAD,
+      description: 'Snippet directives stop AI answers from quoting the page. It can still be indexed, but answers cannot show excerpts or attribute text to it.',
+      remediation: 'Remove "nosnippet" or "max-snippet:0", or use data-nosnippet on specific elements instead of the whole page.',
+      impactScore: 20,
+      location: { url },
+      evidence: describeDenials(report, 'quote'),
+      tags: ['ai-policy', 'robots', 'snippets'],
+      confidence: 0.9,
+      timestamp
+    });
+  }
+
+  if (report.conflicts.length > 0) {
+    issues.push({
+      id: `${CATEGORY.CRAWL}-022`,
+      title: 'Conflicting AI access directives',
+      severity: SEVERITY.MEDIUM,
+      category: CATEGORY.CRAWL,
+      description: `${report.conflicts.length} conflict(s) between AI access signals. Crawlers apply the most restrictive directive they can see, which may not be the policy you intended.`,
+      remediation: 'Align meta robots, X-Robots-Tag, robots.txt, tdmrep.json and ai.txt so they express the same policy for indexing, training and quoting.',
+      impactScore: 15,
+      location: { url },
+      evidence: report.conflicts.map(c => `${c.permission}: ${c.message}`),
+      tags: ['ai-policy', 'robots', 'conflict'],
+      confidence: 0.8,
+      timestamp
+    });
+  }
+
+  return issues;
+}
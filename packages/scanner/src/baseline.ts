@@ -0,0 +1,76 @@
+/**
+ * Baseline files: the issues known at some point, so later runs only report
+ * what is new. Issues are matched by fingerprint.
+ *
+ *   {
+ *     "version": 1,
+ *     "created_at": "2025-01-01T00:00:00.000Z",
+ *     "issues": [{ "fingerprint": "3f0c…", "id": "CRAWL-009", "url": "https://example.com/landing", "title": "…" }]
+ *   }
+ */
+
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { Issue } from './types.js';
+import { issueFingerprint } from './fingerprint.js';
+
+export interface BaselineEntry {
+  fingerprint: string;
+  id: string;        // Rule ID, for readers of the file
+  url?: string;
+  title: string;
+}
+
+export interface IssueBaseline {
+  version: 1;
+  created_at: string;
+  issues: BaselineEntry[];
+}
+
+/**
+ * Build a baseline from the issues of one or more scans
+ */
+export function createBaseline(issues: Issue[]): IssueBaseline {
+  const entries = new Map<string, BaselineEntry>();
+  for (const issue of issues) {
+    const fingerprint = issue.fingerprint ?? issueFingerprint(issue);
+    if (!entries.has(fingerprint)) {
+      entries.set(fingerprint, { fingerprint, id: issue.id, url: issue.location?.url, title: issue.title });
+    }
+  }
+
+  return {
+    version: 1,
+    created_at: new Date().toISOString(),
+    // Sorted so regenerating an unchanged baseline gives a clean diff
+    issues: Array.from(entries.values()).sort((a, b) =>
+      (a.url ?? '').localeCompare(b.url ?? '') || a.id.localeCompare(b.id) || a.fingerprint.localeCompare(b.fingerprint)
+    )
+  };
+}
+
+export async function loadBaseline(path: string): Promise<IssueBaseline> {
+  let data: IssueBaseline;
+  try {
+    data = JSON.parse(await readFile(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Cannot read baseline ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (data?.version !== 1 || !Array.isArray(data.issues) || data.issues.some(e => typeof e?.fingerprint !== 'string')) {
+    throw new Error(`Invalid baseline ${path}: expected version 1 with an "issues" list of fingerprints`);
+  }
+  return data;
+}
+
+/**
+ * Accept a baseline or the path of a baseline file
+ */
+export async function resolveBaseline(ref: IssueBaseline | string | undefined): Promise<IssueBaseline | undefined> {
+  return typeof ref === 'string' ? loadBaseline(ref) : ref;
+}
+
+export async function writeBaseline(path: string, baseline: IssueBaseline): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(baseline, null, 2) + '\n');
+}
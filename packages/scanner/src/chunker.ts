@@ -5,12 +5,13 @@
 
 import { CheerioAPI } from 'cheerio';
 import { estimateTokenCount } from './utils.js';
+import { getTokenizer, Tokenizer } from './tokenizer.js';
 
 export interface ContentChunk {
   id: string;                    // Unique chunk identifier
   startSelector: string;         // CSS selector for chunk start
   endSelector?: string;          // CSS selector for chunk end
-  tokenCount: number;            // Estimated token count
+  tokenCount: number;            // Token count with the chosen tokenizer
   text: string;                  // Chunk text content
   heading?: string;              // Heading text if chunk starts with heading
   headingLevel?: number;         // Heading level (1-6)
@@ -30,6 +31,7 @@ export interface ChunkingResult {
   averageTokensPerChunk: number;
   averageNoiseRatio: number;
   chunkingStrategy: string;
+  tokenizer: string;             // Name of the tokenizer the counts come from
 }
 
 /**
@@ -63,13 +65,13 @@ function calculateNoiseRatio(text: string, $: CheerioAPI, element?: any): number
 /**
  * Extract chunks based on heading structure
  */
-function chunkByHeadings($: CheerioAPI, container: any): ContentChunk[] {
+function chunkByHeadings($: CheerioAPI, container: any, tokenizer: Tokenizer): ContentChunk[] {
   const chunks: ContentChunk[] = [];
   const headings = container.find('h1, h2, h3, h4, h5, h6');
   
   if (headings.length === 0) {
     // No headings - treat entire content as one chunk
-    return chunkByParagraphs($, container);
+    return chunkByParagraphs($, container, tokenizer);
   }
 
   headings.each((index: number, heading: any) => {
@@ -101,7 +103,7 @@ function chunkByHeadings($: CheerioAPI, container: any): ContentChunk[] {
     }
     
     const fullText = headingText + '\n' + content.trim();
-    const tokenCount = estimateTokenCount(fullText);
+    const tokenCount = estimateTokenCount(fullText, tokenizer);
     const noiseRatio = calculateNoiseRatio(content, $, elements[0]);
     
     // Generate selector
@@ -132,7 +134,7 @@ function chunkByHeadings($: CheerioAPI, container: any): ContentChunk[] {
 /**
  * Fallback: chunk by paragraphs when no headings
  */
-function chunkByParagraphs($: CheerioAPI, container: any, maxTokens = 500): ContentChunk[] {
+function chunkByParagraphs($: CheerioAPI, container: any, tokenizer: Tokenizer, maxTokens = 500): ContentChunk[] {
   const chunks: ContentChunk[] = [];
   const paragraphs = container.find('p');
   
@@ -142,7 +144,7 @@ function chunkByParagraphs($: CheerioAPI, container: any, maxTokens = 500): Cont
     return [{
       id: 'chunk-1',
       startSelector: 'body',
-      tokenCount: estimateTokenCount(text),
+      tokenCount: estimateTokenCount(text, tokenizer),
       text,
       noiseRatio: calculateNoiseRatio(text, $),
       wordCount: text.split(/\s+/).length,
@@ -161,7 +163,7 @@ function chunkByParagraphs($: CheerioAPI, container: any, maxTokens = 500): Cont
   paragraphs.each((index: number, p: any) => {
     const $p = $(p);
     const text = $p.text().trim();
-    const tokens = estimateTokenCount(text);
+    const tokens = estimateTokenCount(text, tokenizer);
     
     if (currentTokens + tokens > maxTokens && currentChunk.length > 0) {
       // Save current chunk
@@ -216,8 +218,10 @@ export function chunkContent($: CheerioAPI, options: {
   maxTokensPerChunk?: number;
   includeHtml?: boolean;
   strategy?: 'auto' | 'heading-based' | 'paragraph-based';
+  tokenizer?: string | Tokenizer;
 } = {}): ChunkingResult {
   const { maxTokensPerChunk = 500, includeHtml = false, strategy: forcedStrategy } = options;
+  const tokenizer = getTokenizer(options.tokenizer);
   
   // Find main content container
   const main = $('main');
@@ -243,13 +247,13 @@ export function chunkContent($: CheerioAPI, options: {
   
   if (strategy === 'heading-based') {
     if (!hasHeadings) {
-      chunks = chunkByParagraphs($, container, maxTokensPerChunk);
+      chunks = chunkByParagraphs($, container, tokenizer, maxTokensPerChunk);
       strategy = 'paragraph-based (fallback)';
     } else {
-      chunks = chunkByHeadings($, container);
+      chunks = chunkByHeadings($, container, tokenizer);
     }
   } else {
-    chunks = chunkByParagraphs($, container, maxTokensPerChunk);
+    chunks = chunkByParagraphs($, container, tokenizer, maxTokensPerChunk);
   }
   
   if (includeHtml) {
@@ -273,6 +277,7 @@ export function chunkContent($: CheerioAPI, options: {
     averageTokensPerChunk,
     averageNoiseRatio: Math.round(averageNoiseRatio * 100) / 100,
     chunkingStrategy: strategy,
+    tokenizer: tokenizer.name,
   };
 }
 
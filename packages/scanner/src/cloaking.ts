@@ -0,0 +1,274 @@
+/**
+ * AI crawler cloaking detection
+ * Fetches the same URL as a regular browser and as the major AI crawlers,
+ * then compares status codes, text content, headings and JSON-LD to find
+ * pages that block, challenge or serve different content to AI systems.
+ * Requests that get no response at all (network errors, timeouts, redirect
+ * loops) prove nothing about blocking and are reported on their own.
+ */
+
+import { CATEGORY, Issue, SEVERITY } from './types.js';
+import { fetchHtml, parseHtml } from './utils.js';
+import { JsonLdExtractor } from './json-ld-extractor.js';
+import { AI_CRAWLERS } from './robots-txt.js';
+
+export const BROWSER_USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36';
+
+/** AI crawlers the page is fetched as by default */
+export const DEFAULT_CLOAKING_CRAWLERS = ['GPTBot', 'ClaudeBot', 'PerplexityBot', 'Google-Extended'];
+
+// Markers left by bot-protection interstitials (Cloudflare, Akamai, DataDome, PerimeterX, ...)
+const CHALLENGE_PATTERNS = [
+  /just a moment\.\.\./i,
+  /checking your browser/i,
+  /cf-challenge|cf_chl_|challenge-platform/i,
+  /attention required!? \| cloudflare/i,
+  /captcha-delivery\.com|geo\.captcha-delivery/i,
+  /px-captcha|_pxCaptcha/i,
+  /access denied.*reference #/is,
+  /verify you are (a )?human/i,
+  /g-recaptcha|h-captcha|cf-turnstile/i
+];
+
+const SIMILARITY_THRESHOLD = 0.8;
+
+export interface FetchSnapshot {
+  userAgent: string;
+  status: number;
+  finalUrl: string;
+  textLength: number;
+  headings: string[];
+  jsonLdTypes: string[];
+  challenged: boolean;
+  error?: string;                // Set when no response was received; status is then 0
+}
+
+export interface CrawlerComparison {
+  crawler: string;
+  snapshot: FetchSnapshot;
+  blocked: boolean;              // HTTP error response while the browser got the page
+  fetchFailed: boolean;          // No response at all while the browser got one
+  challenged: boolean;           // Bot challenge / CAPTCHA served to the crawler only
+  textSimilarity: number;        // 0-1 word-set similarity with the browser version
+  missingHeadings: string[];     // Headings the browser sees but the crawler does not
+  missingJsonLdTypes: string[];  // JSON-LD types the browser sees but the crawler does not
+  differentContent: boolean;
+}
+
+export interface CloakingReport {
+  url: string;
+  timestamp: string;
+  browser: FetchSnapshot;
+  crawlers: CrawlerComparison[];
+  summary: {
+    blocked: string[];
+    challenged: string[];
+    differentContent: string[];
+    fetchFailed: string[];
+  };
+}
+
+type Snapshot = FetchSnapshot & { words: Set<string> };
+
+async function takeSnapshot(url: string, userAgent: string, timeoutMs: number): Promise<Snapshot> {
+  try {
+    const fetched = await fetchHtml(url, timeoutMs, userAgent);
+    const $ = parseHtml(fetched.text);
+    const jsonLd = new JsonLdExtractor($, fetched.finalUrl).extract();
+
+    $('script, style, noscript').remove();
+    const text = $('body').text().replace(/\s+/g, ' ').trim();
+    const headings = $('h1, h2, h3')
+      .map((_, el) => $(el).text().replace(/\s+/g, ' ').trim())
+      .get()
+      .filter(h => h.length > 0);
+
+    const challengeHeader = fetched.headers['cf-mitigated'] === 'challenge';
+
+    return {
+      userAgent,
+      status: fetched.status,
+      finalUrl: fetched.finalUrl,
+      textLength: text.length,
+      headings,
+      jsonLdTypes: Array.from(jsonLd.types),
+      challenged: challengeHeader || CHALLENGE_PATTERNS.some(p => p.test(fetched.text)),
+      words: new Set(text.toLowerCase().split(/\W+/).filter(w => w.length > 2))
+    };
+  } catch (error) {
+    return {
+      userAgent,
+      status: 0,
+      finalUrl: url,
+      textLength: 0,
+      headings: [],
+      jsonLdTypes: [],
+      challenged: false,
+      error: error instanceof Error ? error.message : String(error),
+      words: new Set()
+    };
+  }
+}
+
+/**
+ * Jaccard similarity of the two word sets (1 = identical vocabulary)
+ */
+function wordSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let intersection = 0;
+  for (const word of a) {
+    if (b.has(word)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+function stripWords({ words, ...snapshot }: Snapshot): FetchSnapshot {
+  return snapshot;
+}
+
+/**
+ * Fetch a URL as a browser and as AI crawlers and compare the responses
+ */
+export async function detectCloaking(
+  url: string,
+  options: { crawlers?: string[]; timeoutMs?: number } = {}
+): Promise<CloakingReport> {
+  const { crawlers = DEFAULT_CLOAKING_CRAWLERS, timeoutMs = 15000 } = options;
+  const agents = AI_CRAWLERS.filter(c => c.userAgent && crawlers.includes(c.name));
+
+  const [browser, ...crawlerSnapshots] = await Promise.all([
+    takeSnapshot(url, BROWSER_USER_AGENT, timeoutMs),
+    ...agents.map(c => takeSnapshot(url, c.userAgent!, timeoutMs))
+  ]);
+
+  const browserOk = browser.status >= 200 && browser.status < 400;
+
+  const comparisons: CrawlerComparison[] = crawlerSnapshots.map((snapshot, i) => {
+    const ok = snapshot.status >= 200 && snapshot.status < 400;
+    const fetchFailed = browserOk && snapshot.error !== undefined;
+    const blocked = browserOk && snapshot.status >= 400 && !snapshot.challenged;
+    const challenged = snapshot.challenged && !browser.challenged;
+    const textSimilarity = Math.round(wordSimilarity(browser.words, snapshot.words) * 100) / 100;
+    const crawlerHeadings = new Set(snapshot.headings);
+    const crawlerTypes = new Set(snapshot.jsonLdTypes);
+    const missingHeadings = browser.headings.filter(h => !crawlerHeadings.has(h));
+    const missingJsonLdTypes = browser.jsonLdTypes.filter(t => !crawlerTypes.has(t));
+
+    return {
+      crawler: agents[i].name,
+      snapshot: stripWords(snapshot),
+      blocked,
+      fetchFailed,
+      challenged,
+      textSimilarity,
+      missingHeadings,
+      missingJsonLdTypes,
+      differentContent: browserOk && ok && !challenged && (
+        textSimilarity < SIMILARITY_THRESHOLD ||
+        missingHeadings.length > 0 ||
+        missingJsonLdTypes.length > 0
+      )
+    };
+  });
+
+  return {
+    url,
+    timestamp: new Date().toISOString(),
+    browser: stripWords(browser),
+    crawlers: comparisons,
+    summary: {
+      blocked: comparisons.filter(c => c.blocked).map(c => c.crawler),
+      challenged: comparisons.filter(c => c.challenged).map(c => c.crawler),
+      differentContent: comparisons.filter(c => c.differentContent).map(c => c.crawler),
+      fetchFailed: comparisons.filter(c => c.fetchFailed).map(c => c.crawler)
+    }
+  };
+}
+
+/**
+ * Convert a cloaking report into scan issues
+ */
+export function cloakingReportToIssues(report: CloakingReport): Issue[] {
+  const issues: Issue[] = [];
+  const { url, summary, crawlers, timestamp } = report;
+
+  if (summary.blocked.length > 0) {
+    const blocked = crawlers.filter(c => c.blocked);
+    issues.push({
+      id: `${CATEGORY.CRAWL}-019`,
+      title: 'Server blocks AI crawlers',
+      severity: SEVERITY.CRITICAL,
+      category: CATEGORY.CRAWL,
+      description: `The page loads for a browser (HTTP ${report.browser.status}) but returns an error to ${summary.blocked.join(', ')}. These AI systems cannot read the page regardless of robots.txt.`,
+      remediation: 'Review firewall, CDN and bot-management rules that match AI crawler user agents. Allow the crawlers you want to index your content.',
+      impactScore: 40,
+      location: { url },
+      evidence: blocked.map(c => `${c.crawler}: HTTP ${c.snapshot.status}`),
+      tags: ['cloaking', 'ai-agents', 'firewall'],
+      confidence: 0.9,
+      timestamp
+    });
+  }
+
+  if (summary.challenged.length > 0) {
+    const challenged = crawlers.filter(c => c.challenged);
+    issues.push({
+      id: `${CATEGORY.CRAWL}-020`,
+      title: 'AI crawlers receive a bot challenge',
+      severity: SEVERITY.HIGH,
+      category: CATEGORY.CRAWL,
+      description: `${summary.challenged.join(', ')} receive a bot challenge or CAPTCHA page instead of the content. Crawlers cannot solve challenges, so they index the interstitial or nothing at all.`,
+      remediation: 'Exempt verified AI crawlers from JavaScript/CAPTCHA challenges in your bot-management settings, or serve them the static content directly.',
+      impactScore: 35,
+      location: { url },
+      evidence: challenged.map(c => `${c.crawler}: HTTP ${c.snapshot.status}, ${c.snapshot.textLength} chars of text`),
+      tags: ['cloaking', 'ai-agents', 'bot-protection'],
+      confidence: 0.85,
+      timestamp
+    });
+  }
+
+  if (summary.differentContent.length > 0) {
+    const different = crawlers.filter(c => c.differentContent);
+    issues.push({
+      id: `${CATEGORY.CRAWL}-021`,
+      title: 'Different content served to AI crawlers',
+      severity: SEVERITY.HIGH,
+      category: CATEGORY.CRAWL,
+      description: `${summary.differentContent.join(', ')} receive different content than a browser. AI systems will describe a page your visitors never see.`,
+      remediation: 'Serve the same HTML to AI crawlers and browsers. If content is personalised or A/B tested, make sure the default variant contains the full content, headings and structured data.',
+      impactScore: 30,
+      location: { url },
+      evidence: different.map(c => {
+        const parts = [`${c.crawler}: ${Math.round(c.textSimilarity * 100)}% text similarity`];
+        if (c.missingHeadings.length) parts.push(`missing headings: ${c.missingHeadings.slice(0, 3).join(' | ')}`);
+        if (c.missingJsonLdTypes.length) parts.push(`missing JSON-LD: ${c.missingJsonLdTypes.join(', ')}`);
+        return parts.join('; ');
+      }),
+      tags: ['cloaking', 'ai-agents', 'content-parity'],
+      confidence: 0.8,
+      timestamp
+    });
+  }
+
+  if (summary.fetchFailed.length > 0) {
+    const failed = crawlers.filter(c => c.fetchFailed);
+    issues.push({
+      id: `${CATEGORY.CRAWL}-029`,
+      title: 'Requests as AI crawlers failed',
+      severity: SEVERITY.MEDIUM,
+      category: CATEGORY.CRAWL,
+      description: `The page loads for a browser (HTTP ${report.browser.status}) but requests as ${summary.fetchFailed.join(', ')} got no response. A firewall dropping these connections looks the same as a transient network error, so blocking could not be confirmed.`,
+      remediation: 'Run the check again. If the requests keep failing, look for firewall or CDN rules that drop, tarpit or endlessly redirect AI crawler user agents.',
+      impactScore: 15,
+      location: { url },
+      evidence: failed.map(c => `${c.crawler}: ${c.snapshot.error}`),
+      tags: ['cloaking', 'ai-agents', 'firewall'],
+      confidence: 0.5,
+      timestamp
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,477 @@
+/**
+ * Polite, concurrent site crawler
+ * - Breadth-first discovery up to a depth / page limit
+ * - Global and per-host concurrency limits
+ * - Honours robots.txt Disallow rules and Crawl-delay, also for the link checks
+ *   of the audit
+ * - Normalizes URLs (fragments, tracking parameters), de-duplicates by
+ *   canonical URL and applies include/exclude patterns
+ * - Each page is fetched once and the same response is used for link
+ *   discovery and for the audit
+ * - Reports progress through an event callback
+ * - Keeps the internal link graph and runs the site rules over all crawled
+ *   pages once the crawl finishes
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import { Issue, ScanOptions, ScanResult } from './types.js';
+import { fetchHtml, FetchedPage, RedirectError } from './utils.js';
+import { scanFetchedPage, scanRedirectFailure } from './scanWithRules.js';
+import { fetchRobotsTxt, isPathAllowed, RobotsTxt } from './robots-txt.js';
+import { createUrlFilter, normalizeUrl, UrlPattern } from './urls.js';
+import { auditSite } from './site-audit.js';
+import { buildLinkGraph, LinkGraph } from './link-graph.js';
+import { LinkCheckPolicy, recordLinkStatus } from './link-checker.js';
+import { applySuppressions, SuppressedIssue } from './suppressions.js';
+import { resolveBaseline } from './baseline.js';
+
+export interface CrawlerOptions {
+  maxDepth?: number;            // Link depth from the seed URLs (0 = seeds only)
+  maxPages?: number;            // Pages crawled; URLs skipped (robots.txt, duplicates, non-HTML) do not count
+  followExternal?: boolean;     // Follow links to other hosts
+  include?: UrlPattern[];       // Only follow links matching one of these (globs or regexes)
+  exclude?: UrlPattern[];       // Never follow links matching these
+  respectNofollow?: boolean;    // Skip rel="nofollow" links and pages with meta robots nofollow
+  stripTrackingParams?: boolean; // Drop utm_*, gclid, fbclid, ... before de-duplicating
+  concurrency?: number;         // Pages in flight across all hosts
+  perHostConcurrency?: number;  // Pages in flight per host
+  respectRobots?: boolean;      // Skip disallowed URLs and honour Crawl-delay
+  delayMs?: number;             // Minimum delay between requests to the same host
+  maxCrawlDelayMs?: number;     // Upper bound for robots.txt Crawl-delay
+  userAgent?: string;
+  robotsAgent?: string;         // robots.txt product token the crawler obeys
+  timeoutMs?: number;
+  audit?: boolean;              // Run the rule scan on each page (false = discovery only)
+  siteAudit?: boolean;          // Run the site rules across all pages (default: same as audit)
+  scanOptions?: ScanOptions;
+  onProgress?: (event: CrawlProgressEvent) => void;
+  resumeFrom?: CrawlState;      // Continue a crawl from a saved checkpoint
+  /**
+   * Called after every URL is processed with the current frontier and the
+   * page that was added (if any), so callers can persist a checkpoint
+   */
+  onCheckpoint?: (frontier: CrawlFrontier, page?: CrawledPage) => void | Promise<void>;
+}
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  status: number;
+  finalUrl: string;
+  links: string[];
+  result?: ScanResult;
+  html?: string;                // Kept for the site audit
+  error?: string;
+}
+
+export interface CrawlSkip {
+  url: string;
+  reason: string;
+}
+
+export type CrawlProgressEvent =
+  | { type: 'page'; url: string; depth: number; status: number; completed: number; queued: number }
+  | { type: 'skipped'; url: string; reason: string; completed: number; queued: number }
+  | { type: 'error'; url: string; error: string; completed: number; queued: number };
+
+export interface CrawlResult {
+  startUrls: string[];
+  pages: CrawledPage[];
+  skipped: CrawlSkip[];
+  siteIssues?: Issue[];         // Issues from the site rules
+  suppressedSiteIssues?: SuppressedIssue[];  // Site issues hidden by the baseline
+  linkGraph: LinkGraph;         // Links between crawled pages
+  durationMs: number;
+}
+
+/**
+ * Everything needed to continue a crawl except the crawled pages themselves
+ */
+export interface CrawlFrontier {
+  startUrls: string[];
+  queue: Array<{ url: string; depth: number }>;  // Includes URLs that were in flight
+  seen: string[];
+  audited: string[];
+  skipped: CrawlSkip[];
+}
+
+export interface CrawlState extends CrawlFrontier {
+  pages: CrawledPage[];
+}
+
+interface HostState {
+  active: number;
+  nextRequestAt: number;
+  delayMs: number;
+  robots?: RobotsTxt | null;
+  robotsRequested: boolean;
+  ready: boolean;               // robots.txt loaded (or not needed)
+}
+
+interface QueueItem {
+  url: string;
+  depth: number;
+}
+
+const DEFAULT_USER_AGENT = 'ai-lighthouse-scanner/1.0 (+https://example.com)';
+
+export interface LinkExtractionOptions {
+  respectNofollow?: boolean;
+  stripTrackingParams?: boolean;
+}
+
+function linksFromDocument($: CheerioAPI, baseUrl: string, options: LinkExtractionOptions = {}): string[] {
+  const { respectNofollow = false, stripTrackingParams = true } = options;
+
+  if (respectNofollow) {
+    const robots = ($('meta[name="robots"]').attr('content') || '').toLowerCase();
+    if (/\b(nofollow|none)\b/.test(robots)) return [];
+  }
+
+  const base = $('base[href]').attr('href');
+  const links = new Set<string>();
+
+  $('a[href]').each((_, el) => {
+    const href = ($(el).attr('href') || '').trim();
+    if (!href || href.startsWith('#') || /^(mailto|tel|javascript|data):/i.test(href)) return;
+    if (respectNofollow && /\bnofollow\b/i.test($(el).attr('rel') || '')) return;
+    try {
+      const resolved = new URL(href, base ? new URL(base, baseUrl) : baseUrl);
+      if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') return;
+      links.add(normalizeUrl(resolved.href, { stripTrackingParams }));
+    } catch {
+      // Ignore malformed hrefs
+    }
+  });
+
+  return Array.from(links);
+}
+
+/**
+ * Extract crawlable http(s) links from a page: relative URLs are resolved
+ * (honouring <base href>), fragments and tracking parameters are removed
+ */
+export function extractLinks(html: string, baseUrl: string, options: LinkExtractionOptions = {}): string[] {
+  return linksFromDocument(cheerio.load(html), baseUrl, options);
+}
+
+function canonicalFromDocument($: CheerioAPI, baseUrl: string, stripTrackingParams: boolean): string | undefined {
+  const href = $('link[rel="canonical"]').attr('href')?.trim();
+  if (!href) return undefined;
+  try {
+    return normalizeUrl(new URL(href, baseUrl).href, { stripTrackingParams });
+  } catch {
+    return undefined;
+  }
+}
+
+function isHtml(fetched: FetchedPage): boolean {
+  return !fetched.contentType || fetched.contentType.includes('html');
+}
+
+/**
+ * Crawl and (optionally) audit a site starting from one or more seed URLs
+ */
+export async function crawlSite(start: string | string[], options: CrawlerOptions = {}): Promise<CrawlResult> {
+  const {
+    maxDepth = 2,
+    maxPages = 50,
+    followExternal = false,
+    include,
+    exclude,
+    respectNofollow = false,
+    stripTrackingParams = true,
+    concurrency = 8,
+    perHostConcurrency = 2,
+    respectRobots = true,
+    delayMs = 0,
+    maxCrawlDelayMs = 10000,
+    userAgent = DEFAULT_USER_AGENT,
+    robotsAgent = 'ai-lighthouse',
+    timeoutMs = 15000,
+    audit = true,
+    siteAudit = audit,
+    scanOptions,
+    onProgress,
+    resumeFrom,
+    onCheckpoint
+  } = options;
+
+  const startedAt = Date.now();
+  const startUrls = resumeFrom?.startUrls
+    ?? (Array.isArray(start) ? start : [start]).map(url => normalizeUrl(url, { stripTrackingParams }));
+  const isFollowable = createUrlFilter(include, exclude);
+  const startHosts = new Set(startUrls.map(u => new URL(u).host));
+
+  const seen = new Set<string>(resumeFrom?.seen);
+  const audited = new Set<string>(resumeFrom?.audited);   // Final and canonical URLs of crawled pages
+  const queue: QueueItem[] = [];
+  const inFlight = new Set<QueueItem>();
+  // URLs added to audited by pages whose results are not persisted yet
+  const claims = new Map<QueueItem, string[]>();
+  const hosts = new Map<string, HostState>();
+  const pages: CrawledPage[] = [...(resumeFrom?.pages ?? [])];
+  const skipped: CrawlSkip[] = [...(resumeFrom?.skipped ?? [])];
+  let active = 0;
+
+  const enqueue = (url: string, depth: number) => {
+    if (seen.has(url) || audited.has(url)) return;
+    seen.add(url);
+    queue.push({ url, depth });
+  };
+
+  if (resumeFrom) {
+    // A checkpoint may have been written before the page it lists as pending was saved
+    const done = new Set([...pages.map(p => p.url), ...skipped.map(s => s.url)]);
+    queue.push(...resumeFrom.queue.filter(item => !done.has(item.url)));
+  } else {
+    startUrls.forEach(url => enqueue(url, 0));
+  }
+
+  // In-flight pages are queued again on resume, so the URLs they claimed must not count as audited
+  const frontier = (): CrawlFrontier => {
+    const pending = new Set([...claims.values()].flat());
+    return {
+      startUrls,
+      queue: [...inFlight, ...queue].map(({ url, depth }) => ({ url, depth })),
+      seen: Array.from(seen),
+      audited: Array.from(audited).filter(url => !pending.has(url)),
+      skipped: [...skipped]
+    };
+  };
+
+  const claim = (item: QueueItem, url: string) => {
+    audited.add(url);
+    claims.set(item, [...(claims.get(item) ?? []), url]);
+  };
+
+  const counts = () => ({ completed: pages.length + skipped.length, queued: queue.length + active });
+
+  const hostState = (host: string): HostState => {
+    let state = hosts.get(host);
+    if (!state) {
+      state = { active: 0, nextRequestAt: 0, delayMs, robotsRequested: false, ready: !respectRobots };
+      hosts.set(host, state);
+    }
+    return state;
+  };
+
+  // Load robots.txt once per host and apply its Crawl-delay before the first request
+  const loadRobots = (url: string, state: HostState, onReady: () => void) => {
+    state.robotsRequested = true;
+    fetchRobotsTxt(url, timeoutMs).then(fetched => {
+      state.robots = fetched.robots;
+      const crawlDelay = fetched.robots ? isPathAllowed(fetched.robots, robotsAgent, '/').crawlDelay : undefined;
+      if (crawlDelay !== undefined) {
+        state.delayMs = Math.max(delayMs, Math.min(crawlDelay * 1000, maxCrawlDelayMs));
+      }
+    }).finally(() => {
+      state.ready = true;
+      onReady();
+    });
+  };
+
+  const robotsVerdict = (robots: RobotsTxt, url: string) => {
+    const target = new URL(url);
+    return isPathAllowed(robots, robotsAgent, `${target.pathname}${target.search}`);
+  };
+
+  // Link checks run in the slot of the page being audited: one request at a time,
+  // spaced like page requests to the same host and obeying the same robots.txt
+  const linkCheckPolicy = (): LinkCheckPolicy => {
+    let tail: Promise<unknown> = Promise.resolve();
+    return {
+      limiter: {
+        schedule<T>(url: string, request: () => Promise<T>): Promise<T> {
+          const state = hostState(new URL(url).host);
+          const result = tail.then(async () => {
+            while (state.nextRequestAt > Date.now()) {
+              await new Promise(resolve => setTimeout(resolve, state.nextRequestAt - Date.now()));
+            }
+            state.nextRequestAt = Date.now() + state.delayMs;
+            return request();
+          });
+          tail = result.catch(() => undefined);
+          return result;
+        }
+      },
+      isAllowed: url => {
+        const robots = hosts.get(new URL(url).host)?.robots;
+        return !respectRobots || !robots || robotsVerdict(robots, url).allowed;
+      }
+    };
+  };
+
+  async function processItem(item: QueueItem, state: HostState): Promise<CrawledPage | undefined> {
+    const { url, depth } = item;
+
+    try {
+      if (respectRobots && state.robots) {
+        const verdict = robotsVerdict(state.robots, url);
+        if (!verdict.allowed) {
+          const reason = `Disallowed by robots.txt${verdict.rule ? ` (${verdict.rule.path}, line ${verdict.rule.line})` : ''}`;
+          skipped.push({ url, reason });
+          onProgress?.({ type: 'skipped', url, reason, ...counts() });
+          return;
+        }
+      }
+
+      const fetched = await fetchHtml(url, timeoutMs, userAgent);
+      const finalUrl = normalizeUrl(fetched.finalUrl, { stripTrackingParams });
+      // Links to this page from other pages need not be checked again
+      recordLinkStatus(url, fetched.status, finalUrl);
+
+      if (!isHtml(fetched)) {
+        const reason = `Not an HTML page (${fetched.contentType})`;
+        skipped.push({ url, reason });
+        onProgress?.({ type: 'skipped', url, reason, ...counts() });
+        return;
+      }
+
+      const $ = cheerio.load(fetched.text);
+      const links = fetched.status < 400 ? linksFromDocument($, finalUrl, { respectNofollow, stripTrackingParams }) : [];
+      if (depth < maxDepth) {
+        for (const link of links) {
+          const host = new URL(link).host;
+          if ((followExternal || startHosts.has(host)) && isFollowable(link)) enqueue(link, depth + 1);
+        }
+      }
+
+      // Several URLs redirecting to one page would audit it more than once
+      if (audited.has(finalUrl)) {
+        const reason = finalUrl !== url
+          ? `Redirects to ${finalUrl}, which was already crawled`
+          : 'Already crawled as the canonical URL of another page';
+        skipped.push({ url, reason });
+        onProgress?.({ type: 'skipped', url, reason, ...counts() });
+        return;
+      }
+      claim(item, finalUrl);
+
+      // Pages whose canonical is crawled or queued are duplicates (e.g. sort/filter variants).
+      // A canonical that was itself skipped (canonical loops) does not count, so one page is kept
+      const canonical = fetched.status < 400 ? canonicalFromDocument($, finalUrl, stripTrackingParams) : undefined;
+      if (canonical && canonical !== finalUrl) {
+        if ((audited.has(canonical) || seen.has(canonical)) && !skipped.some(s => s.url === canonical)) {
+          const reason = `Duplicate of canonical ${canonical}`;
+          // Crawl the canonical next, so the page is not lost when maxPages is reached first
+          const queued = queue.findIndex(q => q.url === canonical);
+          if (queued > 0) queue.unshift(...queue.splice(queued, 1));
+          skipped.push({ url, reason });
+          onProgress?.({ type: 'skipped', url, reason, ...counts() });
+          return;
+        }
+        claim(item, canonical);
+      }
+
+      const page: CrawledPage = { url, depth, status: fetched.status, finalUrl, links };
+      if (siteAudit) page.html = fetched.text;
+      if (audit) {
+        page.result = await scanFetchedPage(url, fetched, { timeoutMs, userAgent, ...scanOptions }, linkCheckPolicy());
+      }
+      pages.push(page);
+      onProgress?.({ type: 'page', url, depth, status: fetched.status, ...counts() });
+      return page;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const page: CrawledPage = { url, depth, status: 0, finalUrl: url, links: [], error: message };
+      // Redirect loops and overlong chains are reported by the redirect rules
+      if (error instanceof RedirectError) {
+        const lastHop = error.redirectChain[error.redirectChain.length - 1];
+        page.status = lastHop.status;
+        page.finalUrl = lastHop.location;
+        if (audit) page.result = await scanRedirectFailure(url, error, { timeoutMs, userAgent, ...scanOptions });
+      }
+      pages.push(page);
+      onProgress?.({ type: 'error', url, error: message, ...counts() });
+      return page;
+    }
+  }
+
+  await new Promise<void>(resolve => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let timerAt = Infinity;
+
+    const pump = () => {
+      const now = Date.now();
+      let wakeAt = Infinity;
+
+      // In-flight pages may still be skipped, so the limit is checked again as they finish
+      for (let i = 0; i < queue.length && active < concurrency && pages.length + active < maxPages; i++) {
+        const item = queue[i];
+        const state = hostState(new URL(item.url).host);
+
+        if (!state.ready) {
+          if (!state.robotsRequested) loadRobots(item.url, state, pump);
+          continue;
+        }
+        if (state.active >= perHostConcurrency) continue;
+        if (state.nextRequestAt > now) {
+          wakeAt = Math.min(wakeAt, state.nextRequestAt);
+          continue;
+        }
+
+        queue.splice(i--, 1);
+        active++;
+        state.active++;
+        // Requests to one host start at least delayMs apart
+        state.nextRequestAt = now + state.delayMs;
+
+        inFlight.add(item);
+
+        processItem(item, state)
+          .then(page => {
+            inFlight.delete(item);
+            // The page is persisted with this checkpoint, so its URLs are audited in it
+            claims.delete(item);
+            return onCheckpoint?.(frontier(), page);
+          })
+          .catch(error => console.error('Crawl checkpoint failed:', error))
+          .finally(() => {
+            active--;
+            state.active--;
+            pump();
+          });
+      }
+
+      if (active === 0 && (queue.length === 0 || pages.length >= maxPages)) {
+        clearTimeout(timer);
+        resolve();
+      } else if (wakeAt < timerAt) {
+        clearTimeout(timer);
+        timerAt = wakeAt;
+        timer = setTimeout(() => {
+          timerAt = Infinity;
+          pump();
+        }, Math.max(0, wakeAt - now));
+      }
+    };
+
+    pump();
+  });
+
+  let siteIssues: Issue[] | undefined;
+  let suppressedSiteIssues: SuppressedIssue[] | undefined;
+  if (siteAudit) {
+    const issues = await auditSite(
+      pages.flatMap(page => (page.html !== undefined ? [{ ...page, html: page.html }] : [])),
+      { startUrls, scanOptions }
+    );
+    const split = applySuppressions(issues, { baseline: await resolveBaseline(scanOptions?.baseline) });
+    siteIssues = split.issues;
+    suppressedSiteIssues = split.suppressed.length ? split.suppressed : undefined;
+  }
+
+  const linkGraph = buildLinkGraph(pages.filter(page => !page.error), { startUrls });
+
+  return {
+    startUrls,
+    pages,
+    skipped,
+    siteIssues,
+    suppressedSiteIssues,
+    linkGraph,
+    durationMs: Date.now() - startedAt
+  };
+}
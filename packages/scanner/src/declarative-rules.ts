@@ -0,0 +1,239 @@
+/**
+ * Declarative rules: selector / condition / threshold checks written in YAML
+ * or JSON instead of TypeScript, compiled into registered rules at load time.
+ *
+ *   rules:
+ *     - id: ACME-010
+ *       title: Product page without a price
+ *       urls: ["/products/*"]
+ *       selector: "[itemprop=price], .price"
+ *       condition: missing
+ *       severity: high
+ *       impact: 20
+ *       message: Product pages should show a price AI assistants can quote.
+ *       remediation: Add the price as text, ideally with schema.org Offer markup.
+ */
+
+import * as cheerio from 'cheerio';
+import { readFile } from 'fs/promises';
+import yaml from 'js-yaml';
+import { CATEGORY, Issue, SEVERITY } from './types.js';
+import { BaseRule, RuleConstructor, RuleContext, RuleMeta } from './rules/registry.js';
+import { createUrlFilter } from './urls.js';
+
+export type DeclarativeCondition =
+  | 'missing'            // No element matches the selector
+  | 'exists'             // At least one element matches (forbidden elements)
+  | 'count'              // Number of matches outside min..max
+  | 'text-length'        // Text (or attribute) length of a match outside min..max
+  | 'attribute-missing'  // A match lacks the attribute or it is empty
+  | 'matches'            // Text (or attribute) of a match matches pattern
+  | 'not-matches';       // Text (or attribute) of a match does not match pattern
+
+export interface DeclarativeRuleDefinition {
+  id: string;
+  title: string;
+  selector: string;
+  condition: DeclarativeCondition;
+  remediation: string;
+  category?: CATEGORY;   // Default MISC
+  severity?: SEVERITY;   // Default medium
+  impact?: number;       // Impact score (default 10)
+  confidence?: number;   // 0-1 (default 1)
+  priority?: number;
+  tags?: string[];
+  description?: string;  // Rule description (defaults to the title)
+  urls?: string[];       // Only run on pages matching these globs / regexes
+  attribute?: string;    // Check this attribute instead of the element text
+  min?: number;
+  max?: number;
+  pattern?: string;      // Regular expression for matches / not-matches
+  flags?: string;        // Regular expression flags (default "i"; g and y are ignored)
+  /**
+   * Issue description; {count}, {value}, {length}, {selector} and {url} are
+   * replaced with details of the first failing element
+   */
+  message?: string;
+}
+
+const CONDITIONS: DeclarativeCondition[] = ['missing', 'exists', 'count', 'text-length', 'attribute-missing', 'matches', 'not-matches'];
+const MAX_EVIDENCE = 5;
+
+function fail(def: Partial<DeclarativeRuleDefinition>, source: string | undefined, problem: string): never {
+  throw new Error(`Invalid declarative rule ${def.id ?? '(no id)'}${source ? ` in ${source}` : ''}: ${problem}`);
+}
+
+/**
+ * Check a definition and fill in defaults
+ */
+export function validateDeclarativeRule(input: unknown, source?: string): DeclarativeRuleDefinition {
+  if (!input || typeof input !== 'object') fail({}, source, 'expected an object');
+  const def = input as Partial<DeclarativeRuleDefinition>;
+
+  for (const key of ['id', 'title', 'selector', 'remediation'] as const) {
+    if (typeof def[key] !== 'string' || !def[key]!.trim()) fail(def, source, `"${key}" is required`);
+  }
+  if (!CONDITIONS.includes(def.condition as DeclarativeCondition)) {
+    fail(def, source, `"condition" must be one of ${CONDITIONS.join(', ')}`);
+  }
+  if (def.category !== undefined && !Object.values(CATEGORY).includes(def.category)) {
+    fail(def, source, `unknown category "${def.category}"`);
+  }
+  if (def.severity !== undefined && !Object.values(SEVERITY).includes(def.severity)) {
+    fail(def, source, `unknown severity "${def.severity}"`);
+  }
+  for (const key of ['impact', 'confidence', 'priority', 'min', 'max'] as const) {
+    if (def[key] !== undefined && typeof def[key] !== 'number') fail(def, source, `"${key}" must be a number`);
+  }
+  if ((def.condition === 'count' || def.condition === 'text-length') && def.min === undefined && def.max === undefined) {
+    fail(def, source, `"${def.condition}" needs "min" and/or "max"`);
+  }
+  if (def.condition === 'attribute-missing' && !def.attribute) {
+    fail(def, source, '"attribute-missing" needs "attribute"');
+  }
+  if (def.condition === 'matches' || def.condition === 'not-matches') {
+    if (!def.pattern) fail(def, source, `"${def.condition}" needs "pattern"`);
+    try {
+      new RegExp(def.pattern, def.flags ?? 'i');
+    } catch (error) {
+      fail(def, source, `invalid pattern: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  try {
+    cheerio.load('')(def.selector!);
+  } catch {
+    fail(def, source, `invalid selector "${def.selector}"`);
+  }
+
+  return {
+    ...def,
+    category: def.category ?? CATEGORY.MISC,
+    severity: def.severity ?? SEVERITY.MEDIUM,
+    impact: def.impact ?? 10,
+    confidence: def.confidence ?? 1
+  } as DeclarativeRuleDefinition;
+}
+
+function interpolate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key) => (key in values ? String(values[key]) : match));
+}
+
+/**
+ * Compile a definition into a rule class with a static meta, ready for registerRule
+ */
+export function compileDeclarativeRule(definition: DeclarativeRuleDefinition): RuleConstructor {
+  const def = validateDeclarativeRule(definition);
+  const appliesTo = def.urls?.length ? createUrlFilter(def.urls) : undefined;
+  // Stateful flags would make test() skip every other element
+  const pattern = def.pattern ? new RegExp(def.pattern, (def.flags ?? 'i').replace(/[gy]/g, '')) : undefined;
+  const inRange = (n: number) => (def.min === undefined || n >= def.min) && (def.max === undefined || n <= def.max);
+
+  const meta: RuleMeta = {
+    id: def.id,
+    title: def.title,
+    category: def.category!,
+    defaultSeverity: def.severity!,
+    tags: def.tags,
+    priority: def.priority,
+    description: def.description ?? def.title
+  };
+
+  class DeclarativeRule extends BaseRule {
+    static meta = meta;
+
+    async execute(ctx: RuleContext): Promise<Issue | Issue[] | null> {
+      const { url, $ } = ctx;
+      if (appliesTo && !appliesTo(ctx.finalUrl || url)) return null;
+
+      const elements = $(def.selector).toArray();
+      const count = elements.length;
+      const valueOf = (el: any) => (def.attribute ? $(el).attr(def.attribute) ?? '' : $(el).text()).replace(/\s+/g, ' ').trim();
+
+      // Values of the elements that fail the condition (empty for page-level conditions)
+      let failing: string[] = [];
+      let failed: boolean;
+
+      switch (def.condition) {
+        case 'missing':
+          failed = count === 0;
+          break;
+        case 'exists':
+          failed = count > 0;
+          failing = elements.map(valueOf);
+          break;
+        case 'count':
+          failed = !inRange(count);
+          break;
+        case 'text-length':
+          failing = elements.map(valueOf).filter(value => !inRange(value.length));
+          failed = failing.length > 0;
+          break;
+        case 'attribute-missing':
+          failing = elements.filter(el => !($(el).attr(def.attribute!) ?? '').trim()).map(el => $.html(el).substring(0, 120));
+          failed = failing.length > 0;
+          break;
+        case 'matches':
+          failing = elements.map(valueOf).filter(value => pattern!.test(value));
+          failed = failing.length > 0;
+          break;
+        case 'not-matches':
+          failing = elements.map(valueOf).filter(value => !pattern!.test(value));
+          failed = failing.length > 0;
+          break;
+      }
+
+      if (!failed) return null;
+
+      const first = failing[0] ?? '';
+      const values = { count, value: first, length: first.length, selector: def.selector, url };
+
+      return {
+        id: def.id,
+        title: def.title,
+        severity: def.severity,
+        category: def.category,
+        description: interpolate(def.message ?? def.description ?? def.title, values),
+        remediation: interpolate(def.remediation, values),
+        impactScore: def.impact,
+        location: { url, selector: def.selector, textSnippet: first ? first.substring(0, 200) : undefined },
+        evidence: [
+          `Matches for ${def.selector}: ${count}`,
+          ...failing.slice(0, MAX_EVIDENCE).map(value => `Failing: ${value.substring(0, 200)}`)
+        ],
+        tags: def.tags ?? ['custom'],
+        confidence: def.confidence,
+        timestamp: new Date().toISOString()
+      } as Issue;
+    }
+  }
+
+  // Name the class after the rule so collision errors point at it
+  Object.defineProperty(DeclarativeRule, 'name', { value: `DeclarativeRule(${def.id})` });
+  return DeclarativeRule;
+}
+
+/**
+ * Parse a YAML or JSON rule file: a list of rules, or an object with a "rules" list
+ */
+export function parseDeclarativeRules(content: string, source?: string): DeclarativeRuleDefinition[] {
+  let data: unknown;
+  try {
+    data = yaml.load(content);   // YAML is a superset of JSON
+  } catch (error) {
+    throw new Error(`Invalid rule file${source ? ` ${source}` : ''}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const list = Array.isArray(data) ? data : (data as { rules?: unknown })?.rules;
+  if (!Array.isArray(list)) {
+    throw new Error(`Invalid rule file${source ? ` ${source}` : ''}: expected a list of rules or a "rules" list`);
+  }
+  return list.map(item => validateDeclarativeRule(item, source));
+}
+
+/**
+ * Read and compile every rule in a YAML or JSON file
+ */
+export async function loadDeclarativeRules(path: string): Promise<RuleConstructor[]> {
+  const definitions = parseDeclarativeRules(await readFile(path, 'utf-8'), path);
+  return definitions.map(compileDeclarativeRule);
+}
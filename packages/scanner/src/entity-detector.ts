@@ -1,5 +1,5 @@
 import type { CheerioAPI } from 'cheerio';
-import { JsonLdExtractor } from './json-ld-extractor.js';
+import { JsonLdExtractor, StructuredDataSyntax } from './json-ld-extractor.js';
 
 export interface EntityDetails {
   entityType: 'Product' | 'Organization' | 'Article' | 'Person' | 'LocalBusiness' | 'WebPage' | 'Unknown' | null;
@@ -17,6 +17,7 @@ export interface EntityDetails {
   brand?: string;
   url?: string;
   image?: string;
+  syntax?: StructuredDataSyntax; // Structured data the entity came from; absent when inferred from content
   confidence: number;
 }
 
@@ -24,9 +25,12 @@ export interface EntityDetails {
  * Page-Level Entity Detector
  * 
  * Rules:
- * 1. If Product JSON-LD exists → primary entity: Product
- * 2. If Organization JSON-LD exists and no Product → Organization
+ * 1. If Product structured data exists → primary entity: Product
+ * 2. If Organization structured data exists and no Product → Organization
  * 3. Else infer from content (NER heuristics)
+ *
+ * Structured data may be JSON-LD, microdata or RDFa; JSON-LD wins when
+ * several describe the same kind of entity.
  * 
  * Outputs:
  * - entity type
@@ -45,7 +49,7 @@ export class EntityDetector {
   constructor($: CheerioAPI, url: string) {
     this.$ = $;
     this.url = url;
-    this.jsonLdExtractor = new JsonLdExtractor($);
+    this.jsonLdExtractor = new JsonLdExtractor($, url);
   }
 
   /**
@@ -54,7 +58,7 @@ export class EntityDetector {
   detect(): EntityDetails {
     const jsonLd = this.jsonLdExtractor.extract();
     
-    // Rule 1: If Product JSON-LD exists → primary entity: Product
+    // Rule 1: If Product structured data exists → primary entity: Product
     const productSchema = jsonLd.schemas.find(s => {
       const type = s.type || s.raw?.['@type'];
       return type === 'Product' || (Array.isArray(type) && type.includes('Product'));
@@ -64,7 +68,7 @@ export class EntityDetector {
       return this.extractProductEntity(productSchema);
     }
 
-    // Rule 2: If Organization JSON-LD exists and no Product → Organization
+    // Rule 2: If Organization structured data exists and no Product → Organization
     const orgSchema = jsonLd.schemas.find(s => {
       const type = s.type || s.raw?.['@type'];
       const types = Array.isArray(type) ? type : [type];
@@ -103,6 +107,7 @@ export class EntityDetector {
       brand: data.brand?.name || data.brand || undefined,
       url: data.url || this.url,
       image: data.image || undefined,
+      syntax: schema.syntax,
       confidence: 1.0
     };
   }
@@ -120,6 +125,7 @@ export class EntityDetector {
       sameAsLinks: this.extractSameAsLinks(data),
       url: data.url || this.url,
       image: data.logo?.url || data.logo || data.image || undefined,
+      syntax: schema.syntax,
       confidence: 1.0
     };
   }
@@ -5,7 +5,103 @@ export { DEFAULT_CONFIG, STRICT_CONFIG, VERBOSE_CONFIG } from './config.js';
 export type { ScannerConfig } from './config.js';
 
 // Core scanning functionality
-export { analyzeUrlWithRules } from './scanWithRules.js';
+export { analyzeUrlWithRules, scanHtml, scanFetchedPage, scanRedirectFailure } from './scanWithRules.js';
+
+// Site crawling (concurrency, robots.txt, crawl-delay, progress events)
+export { crawlSite, extractLinks } from './crawler.js';
+export { normalizeUrl, pageKey, compileUrlPattern, createUrlFilter, TRACKING_PARAMS } from './urls.js';
+export type { UrlPattern } from './urls.js';
+export type {
+  LinkExtractionOptions,
+  CrawlerOptions,
+  CrawledPage,
+  CrawlSkip,
+  CrawlProgressEvent,
+  CrawlResult,
+  CrawlFrontier,
+  CrawlState
+} from './crawler.js';
+
+// Site-level rules across all pages of a crawl
+export { auditSite } from './site-audit.js';
+export type { SitePageInput } from './site-audit.js';
+export type { SitePage, SiteRuleContext } from './rules/registry.js';
+
+// Internal link graph (degree, click depth, PageRank) and GraphML/DOT/JSON export
+export { buildLinkGraph, exportLinkGraph } from './link-graph.js';
+export type {
+  LinkGraph,
+  LinkGraphNode,
+  LinkGraphEdge,
+  LinkGraphFlag,
+  LinkGraphPage,
+  LinkGraphOptions
+} from './link-graph.js';
+
+// Link checking (HEAD/GET, soft 404s) with a cache shared across pages
+export { checkLink, checkLinks, createHostLimiter, recordLinkStatus } from './link-checker.js';
+export type { LinkCheckResult, LinkCheckOptions, LinkCheckPolicy, LinkProblem, RequestLimiter } from './link-checker.js';
+
+// Rule authoring and external rule plugins
+export { Rule, BaseRule, SiteRule, BaseSiteRule, getRegisteredRules, getRegisteredSiteRules } from './rules/registry.js';
+export type { RuleMeta, RuleContext } from './rules/registry.js';
+export { loadPlugins } from './plugins.js';
+export type { AILighthousePlugin, LoadedPlugin } from './plugins.js';
+export {
+  compileDeclarativeRule,
+  validateDeclarativeRule,
+  parseDeclarativeRules,
+  loadDeclarativeRules
+} from './declarative-rules.js';
+export type { DeclarativeRuleDefinition, DeclarativeCondition } from './declarative-rules.js';
+
+// Suppressions, baselines and fingerprints
+export { applySuppressions, findInlineSuppressions, IGNORE_ATTRIBUTE } from './suppressions.js';
+export type { SuppressedIssue, SuppressionKind } from './suppressions.js';
+export { createBaseline, loadBaseline, writeBaseline, resolveBaseline } from './baseline.js';
+export type { IssueBaseline, BaselineEntry } from './baseline.js';
+export { issueFingerprint, withFingerprints, diffIssues } from './fingerprint.js';
+export type { IssueDiff } from './fingerprint.js';
+
+// JSON-LD generation
+export { generateJsonLd, JsonLdGenerator, jsonLdScriptTag } from './json-ld-generator.js';
+export type { GeneratedJsonLd, JsonLdGuess, JsonLdGeneratorOptions } from './json-ld-generator.js';
+
+// Schema.org validation
+export { validateSchemaOrg, SchemaOrgValidator, findingSource } from './schema-validator.js';
+export type { SchemaFinding, SchemaFindingKind } from './schema-validator.js';
+export { RICH_RESULT_REQUIREMENTS } from './schema-vocabulary.js';
+export type { TypeRequirements } from './schema-vocabulary.js';
+
+// Generated fixes and patches
+export { attachFixes, generateFix, createFixPatch, isFixable, patchPathForUrl, FIXABLE_RULES } from './fixes.js';
+export type { IssueFix, FixContext } from './fixes.js';
+export { applyEdits, createUnifiedDiff } from './patch.js';
+export type { TextEdit } from './patch.js';
+
+// Fixture-based rule testing
+export { testRules, toRuleSnapshot, serializeRuleSnapshot, matchRuleSnapshot } from './testing.js';
+export type { RuleFixture, FixtureResponse, RuleTestResult, RuleSnapshotEntry } from './testing.js';
+
+// Project configuration (.ailighthouserc)
+export {
+  loadProjectConfig,
+  loadProjectConfigFile,
+  findProjectConfig,
+  applyProjectConfig,
+  mergeProjectConfigs,
+  presetConfig,
+  isConfigPreset,
+  defineConfig,
+  CONFIG_FILENAMES
+} from './project-config.js';
+export type { ProjectConfig, LoadedProjectConfig, ConfigPreset } from './project-config.js';
+export { applyRuleSettings, resolveRuleSetting, isRuleEnabled } from './rule-settings.js';
+export type { RuleSetting, RuleSettings, RuleOverride } from './rule-settings.js';
+
+// Offline scanning of static export directories
+export { discoverStaticPages } from './static-site.js';
+export type { StaticPage } from './static-site.js';
 
 // AI Readiness Assessment (NEW - Primary way to understand AI optimization)
 export { 
@@ -28,6 +124,18 @@ export {
 } from './scoring.js';
 
 
+// Tokenizers (cl100k, o200k, llama3) for chunk sizes and token budgets
+export {
+  getTokenizer,
+  registerTokenizer,
+  listTokenizers,
+  isTokenizerName,
+  countTokens,
+  DEFAULT_TOKENIZER
+} from './tokenizer.js';
+
+export type { Tokenizer } from './tokenizer.js';
+
 // Chunking utilities
 export {
   chunkContent,
@@ -52,6 +160,88 @@ export type {
   ExtractabilityLevel
 } from './extractability.js';
 
+// AI crawler cloaking detection
+export {
+  detectCloaking,
+  cloakingReportToIssues,
+  DEFAULT_CLOAKING_CRAWLERS
+} from './cloaking.js';
+
+export type {
+  CloakingReport,
+  CrawlerComparison,
+  FetchSnapshot
+} from './cloaking.js';
+
+// XML sitemaps (indexes, gzip, robots.txt Sitemap directives)
+export {
+  discoverSitemaps,
+  fetchSitemap,
+  parseSitemap,
+  sortSitemapEntries
+} from './sitemap.js';
+
+export type {
+  SitemapEntry,
+  SitemapSource,
+  SitemapDiscovery,
+  ParsedSitemap
+} from './sitemap.js';
+
+// robots.txt parsing (RFC 9309) and AI crawler access
+export {
+  AI_CRAWLERS,
+  parseRobotsTxt,
+  isPathAllowed,
+  fetchRobotsTxt,
+  buildAICrawlerAccessMatrix
+} from './robots-txt.js';
+
+export type {
+  AICrawler,
+  RobotsTxt,
+  RobotsGroup,
+  RobotsRuleLine,
+  RobotsVerdict,
+  RobotsFetchResult,
+  AICrawlerAccess,
+  RobotsAccessMatrix
+} from './robots-txt.js';
+
+// Unified AI access policy (index / train / quote)
+export {
+  analyzeAIPolicy,
+  aiPolicyToIssues
+} from './ai-policy.js';
+
+export type {
+  AIPermission,
+  AIPermissionStatus,
+  AIPolicySource,
+  AIPolicyDirective,
+  AIPolicyConflict,
+  AIPolicyVerdict,
+  AIPolicyReport
+} from './ai-policy.js';
+
+// llms.txt detection, validation and generation
+export {
+  fetchLlmsTxt,
+  parseLlmsTxt,
+  validateLlmsTxt,
+  findDeadLlmsTxtLinks,
+  generateLlmsTxt
+} from './llms-txt.js';
+
+export type {
+  LlmsTxtFile,
+  LlmsTxtDocument,
+  LlmsTxtSection,
+  LlmsTxtLink,
+  LlmsTxtProblem,
+  LlmsTxtPageInput
+} from './llms-txt.js';
+
 // Output formatting
 export {
   formatAuditReport,
@@ -138,6 +328,9 @@ export type {
   IssueLocation,
   ScanOptions,
   ScanResult,
+  SkippedRule,
+  RuleTiming,
+  RedirectHop,
   ScoringResult,
   CategoryScore,
   ChunkingAnalysis,
@@ -149,6 +342,10 @@ export { SEVERITY, CATEGORY } from './types.js';
 // Utilities
 export { 
   fetchHtml, 
+  RedirectError,
+  readLocalHtml,
   parseHtml, 
   estimateTokenCount 
 } from './utils.js';
+
+export type { FetchedPage } from './utils.js';
@@ -0,0 +1,94 @@
+/**
+ * Issue fingerprints: identify the same problem across runs, independent of
+ * timestamps and wording changes. Two issues of one rule on one page (e.g.
+ * two images without alt text) differ by selector or evidence.
+ */
+
+import { createHash } from 'crypto';
+import { Issue } from './types.js';
+import { pageKey } from './urls.js';
+
+export interface IssueDiff<T> {
+  added: T[];       // In the current run only
+  fixed: T[];       // In the previous run only
+  unchanged: T[];   // In both (the current run's issue)
+}
+
+function urlKey(url: string | undefined): string {
+  if (!url) return '';
+  try {
+    return pageKey(url);
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Selectors can differ only in formatting between runs: whitespace around
+ * child combinators and the quotes of attribute values
+ */
+function normalizeSelector(selector: string | undefined): string {
+  if (!selector) return '';
+  return selector
+    .replace(/\s+/g, ' ')
+    .replace(/\s*>\s*/g, ' > ')
+    .replace(/\[\s*([\w-]+)\s*([~|^$*]?=)\s*'([^'"]*)'\s*\]/g, '[$1$2"$3"]')
+    .trim();
+}
+
+/**
+ * Evidence often embeds measurements (word counts, sizes, durations) that
+ * drift between runs; standalone numbers are masked so they do not change
+ * the fingerprint. Numbers inside words, paths and URLs are kept.
+ */
+function normalizeEvidence(evidence: string[] | undefined): string {
+  return (evidence ?? [])
+    .map(line => line
+      .toLowerCase()
+      .replace(/\s+/g, ' ')
+      .replace(/(?<![\w/.:-])\d+(?:[.,]\d+)*%?(?![\w/.-])/g, '#')
+      .trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Deterministic fingerprint of an issue from its rule ID, page, normalized
+ * selector and normalized evidence
+ */
+export function issueFingerprint(issue: Issue): string {
+  const parts = [
+    issue.id,
+    urlKey(issue.location?.url),
+    normalizeSelector(issue.location?.selector),
+    normalizeEvidence(issue.evidence)
+  ];
+  return createHash('sha256').update(parts.join('\n')).digest('hex').substring(0, 16);
+}
+
+/**
+ * The issues with their fingerprint set (kept when already present)
+ */
+export function withFingerprints<T extends Issue>(issues: T[]): Array<T & { fingerprint: string }> {
+  return issues.map(issue => ({ ...issue, fingerprint: issue.fingerprint ?? issueFingerprint(issue) }));
+}
+
+/**
+ * Compare the issues of two runs by fingerprint. Works on scan results and
+ * on report issues, which carry the fingerprint as a field.
+ */
+export function diffIssues<T extends { fingerprint?: string }>(previous: T[], current: T[]): IssueDiff<T> {
+  const keyOf = (issue: T) => {
+    if (!issue.fingerprint) throw new Error('Cannot compare issues without a fingerprint; re-run the scan to add them');
+    return issue.fingerprint;
+  };
+
+  const before = new Set(previous.map(keyOf));
+  const after = new Set(current.map(keyOf));
+
+  return {
+    added: current.filter(issue => !before.has(keyOf(issue))),
+    fixed: previous.filter(issue => !after.has(keyOf(issue))),
+    unchanged: current.filter(issue => before.has(keyOf(issue)))
+  };
+}
@@ -0,0 +1,397 @@
+/**
+ * Fix generation: concrete markup for issues with a mechanical fix, and a
+ * unified diff that adds it to the page's HTML.
+ *
+ * Generated values (descriptions, alt text, URLs) are drafts taken from the
+ * page; `review` says what to check before applying. Values that cannot be
+ * derived are left as "TODO: …" placeholders.
+ */
+
+import type { CheerioAPI } from 'cheerio';
+import { fileURLToPath } from 'url';
+import { relative, sep } from 'path';
+import { CATEGORY, Issue } from './types.js';
+import { createUnifiedDiff, TextEdit } from './patch.js';
+import { isFileUrl, parseHtml } from './utils.js';
+import { generateJsonLd, JsonLdGenerator, JsonLdGuess, jsonLdScriptTag } from './json-ld-generator.js';
+
+export interface IssueFix {
+  summary: string;    // What the fix does
+  snippet: string;    // Markup added or changed by the fix
+  review?: string;    // What to check before applying
+  patch?: string;     // Unified diff against the scanned HTML
+}
+
+export interface FixContext {
+  url: string;
+  html: string;       // The HTML as scanned; edits are offsets into it
+  $?: CheerioAPI;     // Parsed from html when not given
+  path?: string;      // File name used in patches (default: derived from the URL)
+}
+
+interface GeneratedFix {
+  summary: string;
+  snippet: string;
+  review?: string;
+  edits: TextEdit[];
+}
+
+type FixGenerator = (issue: Issue, ctx: FixContext & { $: CheerioAPI }) => GeneratedFix | null;
+
+const DESCRIPTION_LENGTH = 155;
+
+/** Comments, scripts and styles, where tags found by pattern are not real */
+function opaqueRanges(html: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  const pattern = /<!--[\s\S]*?-->|<(script|style|template)\b[\s\S]*?<\/\1\s*>/gi;
+  for (let match; (match = pattern.exec(html)); ) ranges.push([match.index, match.index + match[0].length]);
+  return ranges;
+}
+
+function findTags(html: string, pattern: RegExp): Array<{ start: number; end: number; text: string }> {
+  const opaque = opaqueRanges(html);
+  const found: Array<{ start: number; end: number; text: string }> = [];
+  const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+  for (let match; (match = global.exec(html)); ) {
+    const start = match.index;
+    if (opaque.some(([from, to]) => start >= from && start < to)) continue;
+    found.push({ start, end: start + match[0].length, text: match[0] });
+  }
+  return found;
+}
+
+function lineIndent(html: string, offset: number): { indent: string; lineStart: number; alone: boolean } {
+  const lineStart = html.lastIndexOf('\n', offset - 1) + 1;
+  const before = html.slice(lineStart, offset);
+  return { indent: /^[ \t]*/.exec(before)![0], lineStart, alone: /^[ \t]*$/.test(before) };
+}
+
+/** Markup on one line, for minified pages (JSON-LD stays valid without the breaks) */
+function inline(markup: string): string {
+  return markup.replace(/\n\s*/g, '');
+}
+
+/**
+ * Insert lines at the end of <head>, indented like its other children. On
+ * minified pages the markup is inserted inline.
+ */
+function insertIntoHead(html: string, lines: string[]): TextEdit | null {
+  const close = findTags(html, /<\/head\s*>/i)[0];
+  if (close) {
+    const { indent, lineStart, alone } = lineIndent(html, close.start);
+    if (!alone) return { start: close.start, end: close.start, text: lines.map(inline).join('') };
+
+    const previous = html.lastIndexOf('\n', lineStart - 2) + 1;
+    const childIndent = lineStart > 0 ? /^[ \t]*/.exec(html.slice(previous, lineStart))![0] : '';
+    const inner = childIndent.length > indent.length ? childIndent : indent + '  ';
+    return { start: lineStart, end: lineStart, text: lines.map(line => inner + line.replace(/\n/g, '\n' + inner) + '\n').join('') };
+  }
+
+  // No </head>: after the opening tag, if there is one
+  const open = findTags(html, /<head\b[^>]*>/i)[0];
+  return open ? { start: open.end, end: open.end, text: lines.map(inline).join('') } : null;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function clean(text: string | undefined): string {
+  return (text ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string, length: number): string {
+  if (text.length <= length) return text;
+  const cut = text.slice(0, length - 1);
+  return cut.slice(0, Math.max(cut.lastIndexOf(' '), length / 2)).replace(/[\s,;:.-]+$/, '') + '…';
+}
+
+function pageTitle($: CheerioAPI): string {
+  return clean($('title').first().text()) || clean($('h1').first().text());
+}
+
+/** First substantial paragraph of the main content, shortened to a description */
+function draftDescription($: CheerioAPI): string | null {
+  const root = $('main, article, [role="main"]').first();
+  const paragraphs = (root.length ? root : $('body')).find('p').toArray().map(p => clean($(p).text()));
+  const text = paragraphs.find(p => p.length >= 50);
+  return text ? truncate(text, DESCRIPTION_LENGTH) : null;
+}
+
+/** The meta description, unless it is too short to be useful, then a draft */
+function pageDescription($: CheerioAPI): string | null {
+  const existing = clean($('meta[name="description"]').attr('content'));
+  return (existing.length >= 50 ? existing : null) ?? draftDescription($) ?? (existing || null);
+}
+
+function absoluteUrl(href: string | undefined, base: string): string | null {
+  if (!href) return null;
+  try {
+    return new URL(href, base).href;
+  } catch {
+    return null;
+  }
+}
+
+/** The page's own URL, unless it is a local file */
+function publicUrl(ctx: FixContext & { $: CheerioAPI }): string | null {
+  const canonical = absoluteUrl(ctx.$('link[rel="canonical"]').attr('href'), ctx.url);
+  const og = absoluteUrl(ctx.$('meta[property="og:url"]').attr('content'), ctx.url);
+  const url = canonical ?? og ?? ctx.url;
+  if (isFileUrl(url)) return null;
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.href;
+}
+
+/** Readable text from an image file name: "team-photo_2x.jpg" → "Team photo" */
+function altFromSource(src: string | undefined): string | null {
+  const name = decodeURIComponent((src ?? '').split(/[?#]/)[0].split('/').pop() ?? '')
+    .replace(/\.[a-z0-9]+$/i, '')
+    .replace(/[@_-]?\d+x$/i, '')
+    .replace(/[-_.+]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (name.replace(/[^a-z]/gi, '').length < 3 || /^(img|image|photo|pic|dsc|screenshot)?\s*\d*$/i.test(name) || /^[0-9a-f]{8,}$/i.test(name)) return null;
+  return name.charAt(0).toUpperCase() + name.slice(1).toLowerCase();
+}
+
+function attributeValue(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(tag);
+  return match ? match[2] ?? match[3] ?? match[4] : undefined;
+}
+
+const fixMetaDescription: FixGenerator = (_issue, ctx) => {
+  const description = draftDescription(ctx.$);
+  const content = description ?? 'TODO: one or two sentences (150-160 characters) summarizing this page';
+  const review = description
+    ? 'The description is the first paragraph of the page; rewrite it as a summary of the whole page.'
+    : 'Replace the placeholder with a summary of the page.';
+
+  const existing = findTags(ctx.html, /<meta\b[^>]*\bname\s*=\s*["']?description["']?[^>]*>/i)[0];
+  if (existing) {
+    const contentAttr = /\scontent\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/i.exec(existing.text);
+    const replacement = contentAttr
+      ? existing.text.slice(0, contentAttr.index) + ` content="${escapeAttribute(content)}"` + existing.text.slice(contentAttr.index + contentAttr[0].length)
+      : existing.text.replace(/^<meta\b/i, `<meta content="${escapeAttribute(content)}"`);
+    return {
+      summary: 'Replace the short meta description',
+      snippet: replacement,
+      review,
+      edits: [{ start: existing.start, end: existing.end, text: replacement }]
+    };
+  }
+
+  const snippet = `<meta name="description" content="${escapeAttribute(content)}">`;
+  const edit = insertIntoHead(ctx.html, [snippet]);
+  return { summary: 'Add a meta description', snippet, review, edits: edit ? [edit] : [] };
+};
+
+const fixOgTags: FixGenerator = (_issue, ctx) => {
+  const { $ } = ctx;
+  const tags: string[] = [];
+  const placeholders: string[] = [];
+
+  if ($('meta[property="og:title"]').length === 0) {
+    const title = pageTitle($);
+    if (!title) placeholders.push('og:title');
+    tags.push(`<meta property="og:title" content="${escapeAttribute(title || 'TODO: page title')}">`);
+  }
+  if ($('meta[property="og:description"]').length === 0) {
+    const description = pageDescription($);
+    if (!description) placeholders.push('og:description');
+    tags.push(`<meta property="og:description" content="${escapeAttribute(description || 'TODO: short description of the page')}">`);
+  }
+  if ($('meta[property="og:image"]').length === 0) {
+    const image = absoluteUrl(['main img[src]', 'article img[src]', 'body img[src]']
+      .map(selector => $(selector).filter((_, el) => $(el).closest('header, nav').length === 0).first().attr('src'))
+      .find(Boolean), ctx.url);
+    const usable = image && !isFileUrl(image) ? image : null;
+    if (!usable) placeholders.push('og:image');
+    tags.push(`<meta property="og:image" content="${escapeAttribute(usable || 'TODO: absolute URL of a 1200x630 image')}">`);
+  }
+  if (tags.length === 0) return null;
+
+  const edit = insertIntoHead(ctx.html, tags);
+  return {
+    summary: `Add ${tags.length} OpenGraph meta tag(s)`,
+    snippet: tags.join('\n'),
+    review: placeholders.length
+      ? `Fill in ${placeholders.join(', ')}; the other values come from the page.`
+      : 'Values come from the page title, description and first image; check they represent the page.',
+    edits: edit ? [edit] : []
+  };
+};
+
+function describeGuesses(guessed: JsonLdGuess[]): string {
+  const properties = [...new Set(guessed.map(guess => `${guess.node.split('#').pop()!.replace(/^_:/, '')}.${guess.property}`))];
+  return `Guessed from the page content, check: ${properties.join(', ')}.`;
+}
+
+// Local files have no URL to put in the markup
+const NO_PUBLIC_URL = 'The page has no public URL (add a canonical link), so url properties are left out and @ids are blank nodes.';
+
+const fixMissingJsonLd: FixGenerator = (_issue, ctx) => {
+  const generated = generateJsonLd(ctx.$, ctx.url);
+  const snippet = jsonLdScriptTag(generated.graph);
+  const edit = insertIntoHead(ctx.html, [snippet]);
+  const notes = [
+    ...(generated.guessed.length ? [describeGuesses(generated.guessed)] : []),
+    ...(publicUrl(ctx) ? [] : [NO_PUBLIC_URL])
+  ];
+  return {
+    summary: `Add structured data (JSON-LD) for this ${generated.primaryType}`,
+    snippet,
+    review: notes.length ? notes.join(' ') : undefined,
+    edits: edit ? [edit] : []
+  };
+};
+
+const fixBreadcrumbSchema: FixGenerator = (_issue, ctx) => {
+  const generator = new JsonLdGenerator(ctx.$, ctx.url);
+  const breadcrumb = generator.generateBreadcrumbList();
+  const items = breadcrumb?.itemListElement as unknown[] | undefined;
+  if (!breadcrumb || !items?.length) return null;
+
+  const snippet = jsonLdScriptTag(breadcrumb);
+  const edit = insertIntoHead(ctx.html, [snippet]);
+  return {
+    summary: `Add BreadcrumbList structured data for ${items.length} breadcrumb(s)`,
+    snippet,
+    review: generator.guesses.length
+      ? describeGuesses(generator.guesses)
+      : 'Built from the breadcrumb navigation; keep it in sync when the navigation changes.',
+    edits: edit ? [edit] : []
+  };
+};
+
+const fixMissingAlt: FixGenerator = (_issue, ctx) => {
+  const edits: TextEdit[] = [];
+  const snippets: string[] = [];
+  let drafted = 0;
+
+  for (const tag of findTags(ctx.html, /<img\b[^>]*>/i)) {
+    if (attributeValue(tag.text, 'alt') !== undefined || /\salt(?=[\s/>])/i.test(tag.text)) continue;
+
+    // Hidden images are decorative; the rest get a draft from the title or file name
+    const decorative = attributeValue(tag.text, 'role') === 'presentation' || attributeValue(tag.text, 'aria-hidden') === 'true';
+    const text = decorative ? '' : clean(attributeValue(tag.text, 'title')) || altFromSource(attributeValue(tag.text, 'src')) || 'TODO: describe this image';
+    if (!decorative) drafted++;
+
+    const insertAt = tag.start + '<img'.length;
+    const attribute = ` alt="${escapeAttribute(text)}"`;
+    edits.push({ start: insertAt, end: insertAt, text: attribute });
+    snippets.push(tag.text.slice(0, 4) + attribute + tag.text.slice(4));
+  }
+  if (edits.length === 0) return null;
+
+  return {
+    summary: `Add alt text to ${edits.length} image(s)`,
+    snippet: snippets.join('\n'),
+    review: drafted
+      ? 'Alt text is drafted from image titles and file names; describe what each image shows, or use alt="" for decorative images.'
+      : undefined,
+    edits
+  };
+};
+
+const fixMissingCanonical: FixGenerator = (_issue, ctx) => {
+  const url = publicUrl(ctx);
+  const snippet = `<link rel="canonical" href="${escapeAttribute(url ?? 'TODO: public URL of this page')}">`;
+  const edit = insertIntoHead(ctx.html, [snippet]);
+  return {
+    summary: 'Add a canonical link',
+    snippet,
+    review: url
+      ? 'Points at the scanned URL; use the preferred URL if the page is reachable under several.'
+      : 'Replace the placeholder with the public URL of the page.',
+    edits: edit ? [edit] : []
+  };
+};
+
+const FIX_GENERATORS: Record<string, FixGenerator> = {
+  [`${CATEGORY.AIREAD}-010`]: fixMetaDescription,
+  [`${CATEGORY.AIREAD}-013`]: fixOgTags,
+  [`${CATEGORY.AIREAD}-037`]: fixMissingAlt,
+  [`${CATEGORY.KG}-001`]: fixMissingJsonLd,
+  [`${CATEGORY.KG}-005`]: fixBreadcrumbSchema,
+  [`${CATEGORY.CRAWL}-003`]: fixMissingCanonical
+};
+
+/** Rule IDs with a generated fix */
+export const FIXABLE_RULES = Object.keys(FIX_GENERATORS);
+
+export function isFixable(issue: Issue): boolean {
+  return issue.id in FIX_GENERATORS;
+}
+
+/**
+ * File name for patches of a page: the path of a local file relative to the
+ * working directory, or the URL path ("/" → index.html, "/about" → about.html)
+ */
+export function patchPathForUrl(url: string): string {
+  if (isFileUrl(url)) {
+    return relative(process.cwd(), fileURLToPath(url)).split(sep).join('/');
+  }
+  const pathname = new URL(url).pathname;
+  let path: string;
+  try {
+    path = decodeURIComponent(pathname).replace(/^\/+/, '');
+  } catch {
+    path = pathname.replace(/^\/+/, '');
+  }
+  if (!path || path.endsWith('/')) return `${path}index.html`;
+  return /\.[a-z0-9]+$/i.test(path) ? path : `${path}.html`;
+}
+
+function runGenerator(issue: Issue, ctx: FixContext): GeneratedFix | null {
+  const generator = FIX_GENERATORS[issue.id];
+  if (!generator) return null;
+  try {
+    return generator(issue, { ...ctx, $: ctx.$ ?? parseHtml(ctx.html) });
+  } catch {
+    // A fix is a convenience; never fail the scan over one
+    return null;
+  }
+}
+
+/**
+ * Fix for one issue, with a patch when the markup can be placed in the page
+ */
+export function generateFix(issue: Issue, ctx: FixContext): IssueFix | null {
+  const fix = runGenerator(issue, ctx);
+  if (!fix) return null;
+
+  const patch = fix.edits.length ? createUnifiedDiff(ctx.html, fix.edits, ctx.path ?? patchPathForUrl(ctx.url)) : '';
+  return {
+    summary: fix.summary,
+    snippet: fix.snippet,
+    review: fix.review,
+    patch: patch || undefined
+  };
+}
+
+/**
+ * Set `fix` on every fixable issue
+ */
+export function attachFixes(issues: Issue[], ctx: FixContext): Issue[] {
+  if (!issues.some(isFixable)) return issues;
+  ctx = { ...ctx, $: ctx.$ ?? parseHtml(ctx.html) };
+  return issues.map(issue => {
+    if (issue.fix || !isFixable(issue)) return issue;
+    const fix = generateFix(issue, ctx);
+    return fix ? { ...issue, fix } : issue;
+  });
+}
+
+/**
+ * One patch applying the fixes of all fixable issues of a page, or null when
+ * none can be placed. Fixes that would edit the same markup are skipped
+ * after the first.
+ */
+export function createFixPatch(issues: Issue[], ctx: FixContext): string | null {
+  ctx = { ...ctx, $: ctx.$ ?? parseHtml(ctx.html) };
+  const edits = issues.flatMap(issue => runGenerator(issue, ctx)?.edits ?? []);
+  if (edits.length === 0) return null;
+  return createUnifiedDiff(ctx.html, edits, ctx.path ?? patchPathForUrl(ctx.url)) || null;
+}
@@ -1,9 +1,15 @@
 import type { CheerioAPI } from 'cheerio';
+import { MicrodataExtractor } from './microdata-extractor.js';
+import { RdfaExtractor } from './rdfa-extractor.js';
+
+export type StructuredDataSyntax = 'json-ld' | 'microdata' | 'rdfa';
 
 export interface ParsedSchema {
   type: string | string[];
   data: any;
   raw: any;
+  syntax: StructuredDataSyntax;  // Markup the entity came from
+  selector?: string;             // Element holding the item (microdata and RDFa)
 }
 
 export interface JsonLdExtractionResult {
@@ -13,29 +19,47 @@ export interface JsonLdExtractionResult {
   hasSameAs: boolean;
   hasBreadcrumbs: boolean;
   hasFAQ: boolean;
+  syntaxes: StructuredDataSyntax[];  // Syntaxes with at least one entity
   errors: Array<{ index: number; error: string }>;
 }
 
+// Extraction per parsed document: many rules read the structured data of the same page
+const extractions = new WeakMap<CheerioAPI, { baseUrl?: string; result: JsonLdExtractionResult }>();
+
 /**
- * Extracts and parses JSON-LD structured data from a page
+ * Extracts and parses structured data from a page
  * Supports:
  * - List-based JSON-LD (arrays of objects)
  * - Multiple script blocks
  * - @graph structures
  * - Incomplete/partial objects
  * - Schema.org type standardization
+ * - Microdata and RDFa, normalized to the same shape (see ParsedSchema.syntax)
  */
 export class JsonLdExtractor {
   private schemas: ParsedSchema[] = [];
   private types: Set<string> = new Set();
   private errors: Array<{ index: number; error: string }> = [];
 
-  constructor(private $: CheerioAPI) {}
+  /**
+   * @param baseUrl Page URL, for resolving relative links in microdata and RDFa
+   */
+  constructor(private $: CheerioAPI, private baseUrl?: string) {}
 
   /**
-   * Extract and parse all JSON-LD blocks from the page
+   * Extract and parse all JSON-LD blocks, microdata and RDFa from the page.
+   * The result is shared by every extractor of the same document and base
+   * URL, so it must not be modified.
    */
   extract(): JsonLdExtractionResult {
+    const cached = extractions.get(this.$);
+    if (cached && cached.baseUrl === this.baseUrl) {
+      this.schemas = cached.result.schemas;
+      this.types = cached.result.types;
+      this.errors = cached.result.errors;
+      return cached.result;
+    }
+
     this.schemas = [];
     this.types = new Set();
     this.errors = [];
@@ -59,15 +83,24 @@ export class JsonLdExtractor {
       }
     });
 
-    return {
+    const items = [
+      ...new MicrodataExtractor(this.$, this.baseUrl).extract(),
+      ...new RdfaExtractor(this.$, this.baseUrl).extract(),
+    ];
+    items.forEach(item => this.processJsonLdItem(item.data, -1, item.syntax, item.selector));
+
+    const result: JsonLdExtractionResult = {
       schemas: this.schemas,
       types: this.types,
       hasMainEntity: this.hasMainEntity(),
       hasSameAs: this.hasSameAs(),
       hasBreadcrumbs: this.hasBreadcrumbs(),
       hasFAQ: this.hasFAQ(),
+      syntaxes: Array.from(new Set(this.schemas.map(schema => schema.syntax))),
       errors: this.errors
     };
+    extractions.set(this.$, { baseUrl: this.baseUrl, result });
+    return result;
   }
 
   /**
@@ -93,9 +126,9 @@ export class JsonLdExtractor {
   }
 
   /**
-   * Process a single JSON-LD item
+   * Process a single JSON-LD item (or a normalized microdata / RDFa item)
    */
-  private processJsonLdItem(item: any, scriptIndex: number): void {
+  private processJsonLdItem(item: any, scriptIndex: number, syntax: StructuredDataSyntax = 'json-ld', selector?: string): void {
     if (!item || typeof item !== 'object') return;
 
     const type = this.extractType(item);
@@ -107,7 +140,9 @@ export class JsonLdExtractor {
       this.schemas.push({
         type,
         data: item,
-        raw: item
+        raw: item,
+        syntax,
+        selector
       });
     }
 
@@ -117,11 +152,11 @@ export class JsonLdExtractor {
         if (Array.isArray(value)) {
           value.forEach(v => {
             if (v && typeof v === 'object' && (v as any)['@type']) {
-              this.processJsonLdItem(v, scriptIndex);
+              this.processJsonLdItem(v, scriptIndex, syntax, selector);
             }
           });
         } else if ((value as any)['@type']) {
-          this.processJsonLdItem(value, scriptIndex);
+          this.processJsonLdItem(value, scriptIndex, syntax, selector);
         }
       }
     });
@@ -239,6 +274,13 @@ export class JsonLdExtractor {
     return Array.from(this.types);
   }
 
+  /**
+   * Get all schemas that came from one syntax
+   */
+  getSchemasBySyntax(syntax: StructuredDataSyntax): ParsedSchema[] {
+    return this.schemas.filter(schema => schema.syntax === syntax);
+  }
+
   /**
    * Get validation errors
    */
@@ -266,10 +308,15 @@ export class JsonLdExtractor {
   }
 }
 
+/** Display name of a syntax, for evidence and reports */
+export function syntaxLabel(syntax: StructuredDataSyntax): string {
+  return syntax === 'json-ld' ? 'JSON-LD' : syntax === 'rdfa' ? 'RDFa' : 'microdata';
+}
+
 /**
  * Helper function to quickly extract JSON-LD from a Cheerio instance
  */
-export function extractJsonLd($: CheerioAPI): JsonLdExtractionResult {
-  const extractor = new JsonLdExtractor($);
+export function extractJsonLd($: CheerioAPI, baseUrl?: string): JsonLdExtractionResult {
+  const extractor = new JsonLdExtractor($, baseUrl);
   return extractor.extract();
 }
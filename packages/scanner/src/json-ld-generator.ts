@@ -0,0 +1,513 @@
+import type { CheerioAPI } from 'cheerio';
+import { EntityDetector, EntityDetails } from './entity-detector.js';
+import { JsonLdExtractor, ParsedSchema } from './json-ld-extractor.js';
+import type { Entity } from './llm/entities.js';
+
+type JsonLdNode = Record<string, unknown>;
+
+export interface JsonLdGuess {
+  node: string;       // @id of the node
+  property: string;   // Dotted path, e.g. "offers.price"
+  value: unknown;
+  reason: string;     // Where the value came from
+}
+
+export interface GeneratedJsonLd {
+  primaryType: string;                     // Product, Article, Organization, FAQPage or WebPage
+  graph: { '@context': string; '@graph': JsonLdNode[] };
+  guessed: JsonLdGuess[];                  // Every property not read from structured data or meta tags
+}
+
+export interface JsonLdGeneratorOptions {
+  entities?: Entity[];                     // Named entities (extractNamedEntities) for contact details
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR' };
+const SOCIAL_DOMAINS = ['facebook.com', 'twitter.com', 'x.com', 'linkedin.com', 'instagram.com', 'youtube.com', 'github.com', 'tiktok.com'];
+const ARTICLE_TYPES = ['Article', 'NewsArticle', 'BlogPosting', 'TechArticle'];
+
+function clean(text: string | undefined | null): string {
+  return (text ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+  return value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+}
+
+function isPublicUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+function hasType(schema: ParsedSchema, types: string[]): boolean {
+  return asArray(schema.type).some(type => types.includes(String(type).split(/schema\.org\/|:/).pop()!));
+}
+
+/**
+ * Wrap JSON-LD in a script element; "<" is escaped so values cannot close it
+ */
+export function jsonLdScriptTag(data: object): string {
+  const json = JSON.stringify(data, null, 2).replace(/</g, '\\u003c');
+  return `<script type="application/ld+json">\n${json}\n</script>`;
+}
+
+/**
+ * JSON-LD Generator
+ *
+ * Builds a connected @graph for a page from the entity EntityDetector finds,
+ * existing structured data, meta tags and the visible content:
+ * - Organization and WebSite (site-wide, @id on the site root)
+ * - WebPage, or FAQPage when the page answers questions
+ * - BreadcrumbList for pages below the root
+ * - Product or Article when that is the page's primary entity
+ *
+ * @ids are derived from URLs only, so regenerating gives the same graph.
+ * Local files (file://) without a public canonical or og:url get no url
+ * properties or path breadcrumbs, and blank-node @ids ("_:webpage").
+ * Values read from JSON-LD, microdata or meta tags are trusted; everything
+ * else is listed in `guessed` for review.
+ */
+export class JsonLdGenerator {
+  private guessed: JsonLdGuess[] = [];
+  private schemas: ParsedSchema[] = [];
+  private entity!: EntityDetails;
+
+  private pageUrl: string;
+  private publicUrl: string | null;   // pageUrl, unless the page is a local file
+  private siteUrl: string | null;
+
+  constructor(private $: CheerioAPI, url: string, private options: JsonLdGeneratorOptions = {}) {
+    const canonical = this.absolute($('link[rel="canonical"]').attr('href'), url)
+      ?? this.absolute($('meta[property="og:url"]').attr('content'), url);
+    const page = new URL(canonical ?? url);
+    page.hash = '';
+    this.pageUrl = page.href;
+    this.publicUrl = isPublicUrl(page.href) ? page.href : null;
+    this.siteUrl = this.publicUrl ? `${page.origin}/` : null;
+  }
+
+  generate(): GeneratedJsonLd {
+    this.guessed = [];
+    this.schemas = new JsonLdExtractor(this.$, this.pageUrl).extract().schemas;
+    this.entity = new EntityDetector(this.$, this.pageUrl).detect();
+
+    const organization = this.buildOrganization();
+    const website = this.buildWebSite(organization);
+    const breadcrumb = this.buildBreadcrumbList();
+    const main = this.entity.entityType === 'Product' ? this.buildProduct(organization)
+      : this.entity.entityType === 'Article' || this.existing(ARTICLE_TYPES) ? this.buildArticle(organization)
+      : null;
+    // A page about a product or article keeps it as main entity, even with a few questions on it
+    const faq = main ? null : this.buildFaq();
+    const webpage = this.buildWebPage(website, breadcrumb, faq, main, organization);
+
+    const graph = [organization, website, webpage, breadcrumb, main].filter((node): node is JsonLdNode => node !== null);
+    const primaryType = main ? String(main['@type'])
+      : faq ? 'FAQPage'
+      : this.isHomePage() && this.entity.entityType !== 'WebPage' ? 'Organization'
+      : 'WebPage';
+
+    return {
+      primaryType,
+      graph: { '@context': 'https://schema.org', '@graph': graph },
+      guessed: this.guessed
+    };
+  }
+
+  /** BreadcrumbList node alone, or null for pages at the site root */
+  generateBreadcrumbList(): JsonLdNode | null {
+    this.guessed = [];
+    this.schemas = new JsonLdExtractor(this.$, this.pageUrl).extract().schemas;
+    const breadcrumb = this.buildBreadcrumbList();
+    return breadcrumb ? { '@context': 'https://schema.org', ...breadcrumb } : null;
+  }
+
+  get guesses(): JsonLdGuess[] {
+    return this.guessed;
+  }
+
+  private id(fragment: string, site = false): string {
+    if (!this.publicUrl) return `_:${fragment}`;
+    return `${site ? this.siteUrl : this.publicUrl}#${fragment}`;
+  }
+
+  private guess(node: JsonLdNode, property: string, value: unknown, reason: string): void {
+    this.guessed.push({ node: String(node['@id']), property, value, reason });
+  }
+
+  /**
+   * Set a property; values from guesses are recorded. Empty values are skipped.
+   */
+  private set(node: JsonLdNode, property: string, value: unknown, guessReason?: string): void {
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) return;
+    node[property] = value;
+    if (guessReason) this.guess(node, property, value, guessReason);
+  }
+
+  private existing(types: string[]): any | null {
+    return this.schemas.find(schema => hasType(schema, types))?.data ?? null;
+  }
+
+  /** Absolute http(s) URL; links resolving to local files are dropped */
+  private absolute(href: string | undefined, base = this.pageUrl): string | null {
+    if (!href) return null;
+    try {
+      const url = new URL(href, base).href;
+      return isPublicUrl(url) ? url : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private meta(selector: string): string | null {
+    return clean(this.$(selector).first().attr('content')) || null;
+  }
+
+  private itemprop(name: string): string | null {
+    const el = this.$(`[itemprop="${name}"]`).first();
+    if (!el.length) return null;
+    return clean(el.attr('content') ?? el.attr('href') ?? el.attr('src') ?? el.text()) || null;
+  }
+
+  private isHomePage(): boolean {
+    return new URL(this.pageUrl).pathname.replace(/\/(index\.html?)?$/, '') === '';
+  }
+
+  private title(): string | null {
+    return clean(this.$('title').first().text()) || null;
+  }
+
+  private h1(): string | null {
+    return clean(this.$('h1').first().text()) || null;
+  }
+
+  /** First substantial paragraph of the main content */
+  private firstParagraph(): string | null {
+    const root = this.$('main, article, [role="main"]').first();
+    const text = (root.length ? root : this.$('body')).find('p').toArray()
+      .map(p => clean(this.$(p).text()))
+      .find(p => p.length >= 50);
+    if (!text) return null;
+    if (text.length <= 300) return text;
+    return text.slice(0, 299).replace(/\s+\S*$/, '') + '…';
+  }
+
+  /** First image of the main content, skipping the header (logos) */
+  private contentImage(): string | undefined {
+    for (const selector of ['main img[src]', 'article img[src]', 'body img[src]']) {
+      const img = this.$(selector).filter((_, el) => this.$(el).closest('header, nav').length === 0).first();
+      if (img.length) return img.attr('src');
+    }
+    return undefined;
+  }
+
+  private describe(node: JsonLdNode, fromSchema?: string): void {
+    if (fromSchema) return this.set(node, 'description', fromSchema);
+    const meta = this.meta('meta[name="description"]') ?? this.meta('meta[property="og:description"]');
+    if (meta) return this.set(node, 'description', meta);
+    this.set(node, 'description', this.firstParagraph(), 'First paragraph of the page');
+  }
+
+  private socialLinks(): string[] {
+    const links = this.$('a[href]').toArray()
+      .map(el => this.absolute(this.$(el).attr('href')))
+      .filter((href): href is string => !!href && SOCIAL_DOMAINS.some(domain => {
+        const host = new URL(href).hostname;
+        return host === domain || host.endsWith(`.${domain}`);
+      }));
+    return [...new Set(links)];
+  }
+
+  private entitiesOf(type: Entity['type']): Entity[] {
+    return (this.options.entities ?? []).filter(entity => entity.type === type);
+  }
+
+  private buildOrganization(): JsonLdNode {
+    const schema = this.existing(['Organization', 'LocalBusiness', 'Corporation']);
+    const node: JsonLdNode = {
+      '@type': schema ? asArray(schema['@type'])[0] ?? 'Organization' : 'Organization',
+      '@id': this.id('organization', true)
+    };
+
+    const siteName = this.meta('meta[property="og:site_name"]') ?? this.meta('meta[name="application-name"]');
+    if (schema?.name) this.set(node, 'name', schema.name);
+    else if (siteName) this.set(node, 'name', siteName);
+    else {
+      const named = this.entitiesOf('organization')[0];
+      // A title without a separator names the page, not the site
+      const segments = this.title()?.split(/\s[-–—|:·]\s/) ?? [];
+      const fromTitle = segments.length > 1 ? segments.pop()!.trim() : null;
+      const host = this.siteUrl ? new URL(this.siteUrl).hostname.replace(/^www\./, '') : null;
+      if (named) this.set(node, 'name', named.name, named.metadata?.source === 'schema' ? undefined : 'Organization named in the page text');
+      else this.set(node, 'name', fromTitle || host, fromTitle ? 'Last segment of the page title' : 'Site host name');
+    }
+
+    if (schema?.url) this.set(node, 'url', schema.url);
+    else this.set(node, 'url', this.siteUrl, 'Assumed to be the site root');
+
+    const logo = schema?.logo?.url ?? schema?.logo;
+    if (logo) this.set(node, 'logo', logo);
+    else {
+      const img = this.$('header img[src], [class*="logo" i] img[src], img[class*="logo" i], img[alt*="logo" i]').first().attr('src');
+      this.set(node, 'logo', this.absolute(img), 'Image in the header or marked as a logo');
+    }
+
+    const sameAs = asArray<string>(schema?.sameAs);
+    if (sameAs.length) this.set(node, 'sameAs', sameAs);
+    else this.set(node, 'sameAs', this.socialLinks(), 'Social profile links on the page');
+
+    for (const [property, type] of [['email', 'email'], ['telephone', 'phone']] as const) {
+      if (schema?.[property]) {
+        this.set(node, property, schema[property]);
+        continue;
+      }
+      const found = this.entitiesOf(type)[0];
+      if (found) this.set(node, property, found.name, found.metadata?.source === 'schema' ? undefined : `${type === 'phone' ? 'Phone number' : 'Email address'} in the page text`);
+    }
+
+    return node;
+  }
+
+  private buildWebSite(organization: JsonLdNode): JsonLdNode {
+    const schema = this.existing(['WebSite']);
+    const node: JsonLdNode = { '@type': 'WebSite', '@id': this.id('website', true) };
+
+    this.set(node, 'url', schema?.url ?? this.siteUrl);
+    const siteName = schema?.name ?? this.meta('meta[property="og:site_name"]');
+    if (siteName) this.set(node, 'name', siteName);
+    else this.set(node, 'name', organization.name, 'Same as the organization name');
+    this.set(node, 'inLanguage', clean(this.$('html').attr('lang')) || null);
+    node.publisher = { '@id': organization['@id'] };
+    if (schema?.potentialAction) node.potentialAction = schema.potentialAction;
+
+    return node;
+  }
+
+  private buildWebPage(
+    website: JsonLdNode,
+    breadcrumb: JsonLdNode | null,
+    faq: JsonLdNode[] | null,
+    main: JsonLdNode | null,
+    organization: JsonLdNode
+  ): JsonLdNode {
+    const node: JsonLdNode = { '@type': faq ? 'FAQPage' : 'WebPage', '@id': this.id('webpage') };
+
+    this.set(node, 'url', this.publicUrl);
+    const name = this.title() ?? this.meta('meta[property="og:title"]');
+    if (name) this.set(node, 'name', name);
+    else this.set(node, 'name', this.h1(), 'Main heading');
+    this.describe(node);
+    this.set(node, 'inLanguage', clean(this.$('html').attr('lang')) || null);
+    node.isPartOf = { '@id': website['@id'] };
+    if (breadcrumb) node.breadcrumb = { '@id': breadcrumb['@id'] };
+
+    const image = this.meta('meta[property="og:image"]');
+    if (image) this.set(node, 'primaryImageOfPage', { '@type': 'ImageObject', url: this.absolute(image) });
+
+    if (faq) node.mainEntity = faq;
+    else if (main) node.mainEntity = { '@id': main['@id'] };
+    else if (this.isHomePage()) node.about = { '@id': organization['@id'] };
+
+    return node;
+  }
+
+  private buildBreadcrumbList(): JsonLdNode | null {
+    if (this.isHomePage()) return null;
+    const node: JsonLdNode = { '@type': 'BreadcrumbList', '@id': this.id('breadcrumb') };
+
+    const schema = this.existing(['BreadcrumbList']);
+    if (schema?.itemListElement) {
+      node.itemListElement = schema.itemListElement;
+      return node;
+    }
+
+    // Breadcrumb navigation, else the URL path
+    const items: Array<{ name: string; item?: string }> = [];
+    const nav = this.$('[itemtype*="BreadcrumbList"], nav[aria-label*="breadcrumb" i], [class*="breadcrumb" i]').first();
+    const entries = nav.find('li').length ? nav.find('li').toArray() : nav.find('a').toArray();
+    for (const el of entries) {
+      const link = el.tagName?.toLowerCase() === 'a' ? this.$(el) : this.$(el).find('a').first();
+      const name = clean((link.length ? link : this.$(el)).text());
+      if (name) items.push({ name, item: this.absolute(link.attr('href')) ?? undefined });
+    }
+
+    // The path of a local file says nothing about the site structure
+    if (items.length === 0 && !this.publicUrl) return null;
+
+    let fromPath = false;
+    if (items.length === 0) {
+      fromPath = true;
+      const segments = new URL(this.pageUrl).pathname.split('/').filter(Boolean);
+      items.push({ name: 'Home', item: this.siteUrl ?? undefined });
+      segments.forEach((segment, index) => {
+        let name = segment;
+        try {
+          name = decodeURIComponent(segment);
+        } catch {
+          // Keep the raw segment
+        }
+        name = name.replace(/\.html?$/, '').replace(/[-_]+/g, ' ');
+        items.push({
+          name: name.charAt(0).toUpperCase() + name.slice(1),
+          item: this.absolute('/' + segments.slice(0, index + 1).join('/') + (index < segments.length - 1 ? '/' : '')) ?? undefined
+        });
+      });
+      // The last crumb is this page: prefer its real title
+      const here = this.h1();
+      if (here) items[items.length - 1].name = here;
+    }
+
+    // The current page ends the trail, with its URL
+    const last = items[items.length - 1];
+    if (!last.item && this.publicUrl) last.item = this.publicUrl;
+
+    node.itemListElement = items.map((entry, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: entry.name,
+      ...(entry.item ? { item: entry.item } : {})
+    }));
+    if (fromPath) this.guess(node, 'itemListElement', items.map(item => item.name), 'Built from the URL path');
+    return node;
+  }
+
+  /** Question and answer pairs: existing FAQPage, <details>, or question headings */
+  private buildFaq(): JsonLdNode[] | null {
+    const schema = this.existing(['FAQPage']);
+    if (schema?.mainEntity) return asArray(schema.mainEntity);
+
+    const $ = this.$;
+    const pairs: Array<{ question: string; answer: string }> = [];
+    $('details').each((_, el) => {
+      const question = clean($(el).children('summary').first().text());
+      const answer = clean($(el).clone().children('summary').remove().end().text());
+      if (question.endsWith('?') && answer) pairs.push({ question, answer });
+    });
+    if (pairs.length < 2) {
+      pairs.length = 0;
+      $('h2, h3, h4, h5, h6').each((_, el) => {
+        const question = clean($(el).text());
+        if (!question.endsWith('?')) return;
+        const answer = $(el).nextUntil('h1, h2, h3, h4, h5, h6').filter('p, ul, ol, dl, div, table').toArray()
+          .map(block => clean($(block).text()))
+          .filter(Boolean)
+          .join(' ');
+        if (answer) pairs.push({ question, answer });
+      });
+    }
+    if (pairs.length < 2) return null;
+
+    const questions = pairs.map(pair => ({
+      '@type': 'Question',
+      name: pair.question,
+      acceptedAnswer: { '@type': 'Answer', text: pair.answer }
+    }));
+    this.guessed.push({ node: this.id('webpage'), property: 'mainEntity', value: pairs.map(pair => pair.question), reason: 'Questions and answers taken from the page content' });
+    return questions;
+  }
+
+  private buildProduct(organization: JsonLdNode): JsonLdNode {
+    const schema = this.existing(['Product']);
+    const node: JsonLdNode = { '@type': 'Product', '@id': this.id('product') };
+
+    const name = schema?.name ?? this.itemprop('name') ?? this.meta('meta[property="og:title"]');
+    if (name) this.set(node, 'name', name);
+    else this.set(node, 'name', this.entity.name || this.h1(), 'Main heading');
+    this.describe(node, schema?.description ?? this.itemprop('description') ?? undefined);
+    this.set(node, 'url', this.publicUrl);
+
+    const image = schema?.image ?? this.itemprop('image') ?? this.meta('meta[property="og:image"]');
+    if (image) this.set(node, 'image', typeof image === 'string' ? this.absolute(image) : image);
+    else this.set(node, 'image', this.absolute(this.contentImage()), 'First image in the main content');
+
+    const brand = schema?.brand?.name ?? schema?.brand ?? this.itemprop('brand');
+    if (brand) this.set(node, 'brand', { '@type': 'Brand', name: brand });
+    else if (this.entity.brand) this.set(node, 'brand', { '@type': 'Brand', name: this.entity.brand }, 'Element marked as the brand');
+    else if (organization.name) this.set(node, 'brand', { '@type': 'Brand', name: organization.name }, 'Same as the organization name');
+
+    for (const property of ['sku', 'gtin', 'gtin13', 'gtin12', 'gtin8', 'mpn']) {
+      this.set(node, property, schema?.[property] ?? this.itemprop(property));
+    }
+
+    const schemaOffer = asArray(schema?.offers)[0];
+    if (schemaOffer) {
+      node.offers = schemaOffer;
+      return node;
+    }
+
+    const offer: JsonLdNode = { '@type': 'Offer' };
+    this.set(offer, 'url', this.publicUrl);
+    const price = this.itemprop('price') ?? this.meta('meta[property="product:price:amount"]');
+    const priceText = clean(this.$('[itemprop="price"], [class*="price" i], [id*="price" i]').first().text());
+    if (price) offer.price = price.replace(/,/g, '');
+    else {
+      const guessedPrice = this.entity.productDetails?.price ?? priceText.match(/\d[\d,]*(?:\.\d+)?/)?.[0];
+      if (guessedPrice) {
+        offer.price = guessedPrice.replace(/,/g, '');
+        this.guess(node, 'offers.price', offer.price, 'Text of a price element');
+      }
+    }
+
+    const currency = this.itemprop('priceCurrency') ?? this.meta('meta[property="product:price:currency"]');
+    if (currency) offer.priceCurrency = currency;
+    else {
+      const symbol = Object.keys(CURRENCY_SYMBOLS).find(s => priceText.includes(s));
+      if (symbol && offer.price) {
+        offer.priceCurrency = CURRENCY_SYMBOLS[symbol];
+        this.guess(node, 'offers.priceCurrency', offer.priceCurrency, `Currency symbol "${symbol}" next to the price`);
+      }
+    }
+
+    const availability = this.itemprop('availability');
+    if (availability) offer.availability = availability.startsWith('http') ? availability : `https://schema.org/${availability}`;
+    else {
+      const text = clean(this.$('main').text() || this.$('body').text()).toLowerCase();
+      const found = /out of stock|sold out/.test(text) ? 'OutOfStock' : /in stock|add to (cart|bag|basket)/.test(text) ? 'InStock' : null;
+      if (found) {
+        offer.availability = `https://schema.org/${found}`;
+        this.guess(node, 'offers.availability', offer.availability, 'Stock wording on the page');
+      }
+    }
+
+    if (offer.price) node.offers = offer;
+    return node;
+  }
+
+  private buildArticle(organization: JsonLdNode): JsonLdNode {
+    const schema = this.existing(ARTICLE_TYPES);
+    const type = schema ? asArray(schema['@type'])[0] : 'Article';
+    const node: JsonLdNode = { '@type': type, '@id': this.id('article') };
+
+    const headline = schema?.headline ?? this.itemprop('headline') ?? this.meta('meta[property="og:title"]');
+    if (headline) this.set(node, 'headline', headline);
+    else this.set(node, 'headline', this.h1() ?? this.title(), 'Main heading');
+    this.describe(node, schema?.description);
+
+    const image = schema?.image ?? this.meta('meta[property="og:image"]');
+    if (image) this.set(node, 'image', typeof image === 'string' ? this.absolute(image) : image);
+
+    const published = schema?.datePublished ?? this.meta('meta[property="article:published_time"]') ?? this.itemprop('datePublished');
+    if (published) this.set(node, 'datePublished', published);
+    else this.set(node, 'datePublished', this.$('article time[datetime], time[datetime]').first().attr('datetime'), 'First <time> element');
+
+    const modified = schema?.dateModified ?? this.meta('meta[property="article:modified_time"]') ?? this.itemprop('dateModified');
+    this.set(node, 'dateModified', modified);
+
+    const author = schema?.author ?? this.meta('meta[name="author"]') ?? this.itemprop('author');
+    if (author) this.set(node, 'author', typeof author === 'string' ? { '@type': 'Person', name: author } : author);
+    else {
+      const byline = clean(this.$('[rel="author"], [class*="author" i] [class*="name" i], [class*="byline" i] a, [class*="author" i]').first().text()).replace(/^by\s+/i, '');
+      if (byline && byline.length <= 80) this.set(node, 'author', { '@type': 'Person', name: byline }, 'Byline on the page');
+    }
+
+    node.publisher = { '@id': organization['@id'] };
+    node.mainEntityOfPage = { '@id': this.id('webpage') };
+    return node;
+  }
+}
+
+/**
+ * Helper function to generate the JSON-LD graph for a page
+ */
+export function generateJsonLd($: CheerioAPI, url: string, options?: JsonLdGeneratorOptions): GeneratedJsonLd {
+  return new JsonLdGenerator($, url, options).generate();
+}
@@ -0,0 +1,177 @@
+/**
+ * Link checking with a shared cache
+ * - HEAD requests, falling back to GET for servers that reject HEAD
+ * - Classifies 4xx/5xx, timeouts, network errors and soft 404s (redirects to the home page)
+ * - Results are cached per URL, so pages of one crawl never check the same link twice
+ * - Requests go through a per-host limiter (one at a time per host unless a crawl passes its own),
+ *   and URLs the crawl may not fetch (robots.txt) are skipped
+ */
+
+import { normalizeUrl } from './urls.js';
+import { setCached } from './utils.js';
+
+export type LinkProblem = 'http-error' | 'timeout' | 'network' | 'soft-404';
+
+export interface LinkCheckResult {
+  url: string;
+  status: number;         // 0 when no response was received
+  finalUrl: string;       // URL after redirects
+  ok: boolean;
+  problem?: LinkProblem;
+  error?: string;
+  skipped?: string;       // Why the URL was not requested (counts as ok)
+}
+
+/**
+ * Decides when a request to a URL may start
+ */
+export interface RequestLimiter {
+  schedule<T>(url: string, request: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Crawl politeness for link checks (see RuleContext.linkCheck)
+ */
+export interface LinkCheckPolicy {
+  limiter?: RequestLimiter;
+  isAllowed?: (url: string) => boolean;   // robots.txt verdict of the crawl
+}
+
+export interface LinkCheckOptions extends LinkCheckPolicy {
+  concurrency?: number;
+  timeoutMs?: number;
+  userAgent?: string;
+  signal?: AbortSignal;   // Stop starting checks (checks in flight are shared through the cache)
+}
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const cache = new Map<string, { expires: number; promise: Promise<LinkCheckResult> }>();
+
+/**
+ * Limiter allowing one request at a time per host, started at least delayMs apart
+ */
+export function createHostLimiter(delayMs = 0): RequestLimiter {
+  const tails = new Map<string, Promise<unknown>>();
+
+  return {
+    schedule<T>(url: string, request: () => Promise<T>): Promise<T> {
+      const host = new URL(url).host;
+      const previous = tails.get(host) ?? Promise.resolve();
+      const result = previous.then(request);
+      const tail = result
+        .catch(() => undefined)
+        .then(() => new Promise(resolve => setTimeout(resolve, delayMs)));
+      tails.set(host, tail);
+      // Forget idle hosts
+      tail.then(() => {
+        if (tails.get(host) === tail) tails.delete(host);
+      });
+      return result;
+    }
+  };
+}
+
+// Used when a scan does not run inside a crawl
+const defaultLimiter = createHostLimiter();
+
+function classify(url: string, status: number, finalUrl: string): LinkCheckResult {
+  if (status >= 400) {
+    return { url, status, finalUrl, ok: false, problem: 'http-error' };
+  }
+
+  // Removed pages that redirect to the home page instead of returning 404
+  const requested = new URL(url);
+  const landed = new URL(finalUrl);
+  if (landed.origin === requested.origin && landed.pathname === '/' && requested.pathname !== '/') {
+    return { url, status, finalUrl, ok: false, problem: 'soft-404' };
+  }
+
+  return { url, status, finalUrl, ok: true };
+}
+
+/**
+ * Forget cached link statuses (e.g. between test fixtures)
+ */
+export function clearLinkCheckCache(): void {
+  cache.clear();
+}
+
+/**
+ * Record the outcome of a page that was fetched anyway (e.g. by the crawler),
+ * so links to it are not requested again
+ */
+export function recordLinkStatus(url: string, status: number, finalUrl: string = url): void {
+  const key = normalizeUrl(url);
+  setCached(cache, key, { expires: Date.now() + CACHE_TTL_MS, promise: Promise.resolve(classify(key, status, finalUrl)) });
+}
+
+/**
+ * Check whether a URL resolves (cached)
+ */
+export function checkLink(url: string, options: Omit<LinkCheckOptions, 'concurrency' | 'signal'> = {}): Promise<LinkCheckResult> {
+  const {
+    timeoutMs = 8000,
+    userAgent = 'ai-lighthouse-scanner/1.0 (+https://example.com)',
+    limiter = defaultLimiter,
+    isAllowed
+  } = options;
+  const key = normalizeUrl(url);
+  const cached = cache.get(key);
+  if (cached && cached.expires > Date.now()) return cached.promise;
+
+  // Not cached: another crawl may be allowed to fetch it
+  if (isAllowed && !isAllowed(key)) {
+    return Promise.resolve({ url: key, status: 0, finalUrl: key, ok: true, skipped: 'Disallowed by robots.txt' });
+  }
+
+  const promise = limiter.schedule(key, async (): Promise<LinkCheckResult> => {
+    const controller = new AbortController();
+    const id = setTimeout(() => controller.abort(), timeoutMs);
+    const init = { signal: controller.signal, headers: { 'user-agent': userAgent } };
+
+    try {
+      let res = await fetch(key, { ...init, method: 'HEAD' });
+      if (res.status === 403 || res.status === 405 || res.status === 501) {
+        res = await fetch(key, { ...init, method: 'GET' });
+        await res.body?.cancel();
+      }
+      return classify(key, res.status, res.url || key);
+    } catch (error) {
+      const timedOut = controller.signal.aborted;
+      return {
+        url: key,
+        status: 0,
+        finalUrl: key,
+        ok: false,
+        problem: timedOut ? 'timeout' : 'network',
+        error: timedOut ? `No response within ${timeoutMs}ms` : error instanceof Error ? error.message : String(error)
+      };
+    } finally {
+      clearTimeout(id);
+    }
+  });
+
+  setCached(cache, key, { expires: Date.now() + CACHE_TTL_MS, promise });
+  return promise;
+}
+
+/**
+ * Check several URLs with bounded concurrency; results keep the input order.
+ * Rejects with the signal's reason once it is aborted.
+ */
+export async function checkLinks(urls: string[], options: LinkCheckOptions = {}): Promise<LinkCheckResult[]> {
+  const { concurrency = 5, signal, ...checkOptions } = options;
+  const results: LinkCheckResult[] = new Array(urls.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.min(concurrency, urls.length) }, async () => {
+    while (next < urls.length) {
+      signal?.throwIfAborted();
+      const i = next++;
+      results[i] = await checkLink(urls[i], checkOptions);
+    }
+  });
+  await Promise.all(workers);
+
+  return results;
+}
@@ -0,0 +1,280 @@
+/**
+ * Internal link graph of a crawled site
+ * - Directed edges between crawled pages (external and uncrawled targets are dropped)
+ * - In/out degree, click depth from the entry point and PageRank per page
+ * - Flags important pages that are buried deep or have few inbound links
+ * - Exports to GraphML, DOT and JSON
+ */
+
+import { pageKey } from './urls.js';
+
+export type LinkGraphFlag = 'deep' | 'few-inbound' | 'unreachable';
+
+export interface LinkGraphNode {
+  url: string;
+  status: number;
+  clickDepth?: number;    // Fewest clicks from an entry point (undefined = unreachable)
+  inDegree: number;       // Crawled pages linking here
+  outDegree: number;      // Crawled pages linked from here
+  pageRank: number;       // Share of link equity (all nodes sum to 1)
+  important: boolean;     // Listed in importantUrls, or in the top PageRank share
+  flags: LinkGraphFlag[];
+}
+
+export interface LinkGraphEdge {
+  source: string;
+  target: string;
+}
+
+export interface LinkGraph {
+  entryPoints: string[];
+  nodes: LinkGraphNode[];
+  edges: LinkGraphEdge[];
+}
+
+export interface LinkGraphPage {
+  url: string;
+  finalUrl?: string;
+  status?: number;
+  links: string[];
+}
+
+export interface LinkGraphOptions {
+  startUrls?: string[];
+  importantUrls?: string[];  // Pages known to matter (e.g. high sitemap priority)
+  topPageRankShare?: number; // Share of pages treated as important by PageRank (default 0.2)
+  maxClickDepth?: number;    // Deeper pages are flagged "deep" (default 3)
+  minInboundLinks?: number;  // Fewer inbound links are flagged "few-inbound" (default 2)
+  damping?: number;
+  maxIterations?: number;
+}
+
+/**
+ * Build the directed link graph between crawled pages
+ */
+export function buildLinkGraph(pages: LinkGraphPage[], options: LinkGraphOptions = {}): LinkGraph {
+  const {
+    startUrls = [],
+    importantUrls = [],
+    topPageRankShare = 0.2,
+    maxClickDepth = 3,
+    minInboundLinks = 2,
+    damping = 0.85,
+    maxIterations = 100
+  } = options;
+
+  // Links may point at the requested URL, the final URL or a static-host variant of either
+  const index = new Map<string, number>();
+  const urls = pages.map(page => page.finalUrl ?? page.url);
+  pages.forEach((page, i) => {
+    for (const url of [page.url, urls[i]]) {
+      const key = pageKey(url);
+      if (!index.has(key)) index.set(key, i);
+    }
+  });
+  const lookup = (url: string) => {
+    try {
+      return index.get(pageKey(url));
+    } catch {
+      return undefined;
+    }
+  };
+
+  const outgoing: number[][] = pages.map(() => []);
+  const incoming: number[][] = pages.map(() => []);
+  pages.forEach((page, source) => {
+    const targets = new Set<number>();
+    for (const link of page.links) {
+      const target = lookup(link);
+      if (target !== undefined && target !== source) targets.add(target);
+    }
+    for (const target of targets) {
+      outgoing[source].push(target);
+      incoming[target].push(source);
+    }
+  });
+
+  // Entry points: the single start URL, otherwise the home page(s), otherwise every seed
+  const entryIndexes = new Set<number>();
+  if (startUrls.length === 1) {
+    const seed = lookup(startUrls[0]);
+    if (seed !== undefined) entryIndexes.add(seed);
+  } else {
+    urls.forEach((url, i) => {
+      if (new URL(url).pathname === '/') entryIndexes.add(i);
+    });
+    if (entryIndexes.size === 0) {
+      for (const url of startUrls) {
+        const seed = lookup(url);
+        if (seed !== undefined) entryIndexes.add(seed);
+      }
+    }
+  }
+
+  // Breadth-first click depth
+  const clickDepth: Array<number | undefined> = pages.map(() => undefined);
+  let frontier = Array.from(entryIndexes);
+  frontier.forEach(i => (clickDepth[i] = 0));
+  for (let depth = 1; frontier.length > 0; depth++) {
+    const next: number[] = [];
+    for (const i of frontier) {
+      for (const target of outgoing[i]) {
+        if (clickDepth[target] === undefined) {
+          clickDepth[target] = depth;
+          next.push(target);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  const pageRank = computePageRank(outgoing, incoming, damping, maxIterations);
+
+  const important = new Set<number>();
+  for (const url of importantUrls) {
+    const i = lookup(url);
+    if (i !== undefined) important.add(i);
+  }
+  const topCount = Math.ceil(pages.length * topPageRankShare);
+  pages
+    .map((_, i) => i)
+    .sort((a, b) => pageRank[b] - pageRank[a])
+    .slice(0, topCount)
+    .forEach(i => important.add(i));
+
+  const nodes: LinkGraphNode[] = pages.map((page, i) => {
+    const flags: LinkGraphFlag[] = [];
+    const depth = clickDepth[i];
+    if (!entryIndexes.has(i)) {
+      if (depth === undefined) flags.push('unreachable');
+      else if (depth > maxClickDepth) flags.push('deep');
+      if (incoming[i].length < minInboundLinks) flags.push('few-inbound');
+    }
+
+    return {
+      url: urls[i],
+      status: page.status ?? 200,
+      clickDepth: depth,
+      inDegree: incoming[i].length,
+      outDegree: outgoing[i].length,
+      pageRank: pageRank[i],
+      important: important.has(i),
+      flags
+    };
+  });
+
+  return {
+    entryPoints: Array.from(entryIndexes).map(i => urls[i]),
+    nodes,
+    edges: outgoing.flatMap((targets, source) => targets.map(target => ({ source: urls[source], target: urls[target] })))
+  };
+}
+
+/**
+ * Power-iteration PageRank; rank of pages without outgoing links is spread evenly
+ */
+function computePageRank(outgoing: number[][], incoming: number[][], damping: number, maxIterations: number): number[] {
+  const n = outgoing.length;
+  if (n === 0) return [];
+
+  let rank = new Array<number>(n).fill(1 / n);
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const dangling = rank.reduce((sum, r, i) => (outgoing[i].length === 0 ? sum + r : sum), 0);
+    const base = (1 - damping) / n + (damping * dangling) / n;
+    const next = rank.map((_, i) =>
+      base + damping * incoming[i].reduce((sum, source) => sum + rank[source] / outgoing[source].length, 0)
+    );
+
+    const delta = next.reduce((sum, r, i) => sum + Math.abs(r - rank[i]), 0);
+    rank = next;
+    if (delta < 1e-9) break;
+  }
+
+  return rank;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeDot(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Serialize a link graph for other tools: GraphML (Gephi, yEd, NetworkX),
+ * DOT (Graphviz) or JSON
+ */
+export function exportLinkGraph(graph: LinkGraph, format: 'graphml' | 'dot' | 'json'): string {
+  if (format === 'json') {
+    return JSON.stringify(graph, null, 2);
+  }
+
+  const ids = new Map(graph.nodes.map((node, i) => [node.url, `n${i}`]));
+
+  if (format === 'dot') {
+    const lines = [
+      'digraph site {',
+      '  node [shape=box];',
+      ...graph.nodes.map(node => {
+        const attrs = [
+          `label="${escapeDot(node.url)}"`,
+          `status=${node.status}`,
+          node.clickDepth !== undefined ? `clickDepth=${node.clickDepth}` : undefined,
+          `inDegree=${node.inDegree}`,
+          `outDegree=${node.outDegree}`,
+          `pageRank=${node.pageRank.toFixed(6)}`,
+          `important=${node.important}`,
+          node.flags.length ? `flags="${node.flags.join(',')}"` : undefined
+        ].filter(Boolean);
+        return `  ${ids.get(node.url)} [${attrs.join(', ')}];`;
+      }),
+      ...graph.edges.map(edge => `  ${ids.get(edge.source)} -> ${ids.get(edge.target)};`),
+      '}'
+    ];
+    return lines.join('\n') + '\n';
+  }
+
+  const keys: Array<[string, string]> = [
+    ['url', 'string'],
+    ['status', 'int'],
+    ['clickDepth', 'int'],
+    ['inDegree', 'int'],
+    ['outDegree', 'int'],
+    ['pageRank', 'double'],
+    ['important', 'boolean'],
+    ['flags', 'string']
+  ];
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...keys.map(([name, type]) => `  <key id="${name}" for="node" attr.name="${name}" attr.type="${type}"/>`),
+    '  <graph id="site" edgedefault="directed">',
+    ...graph.nodes.map(node => {
+      const data: Array<[string, string | number | boolean | undefined]> = [
+        ['url', node.url],
+        ['status', node.status],
+        ['clickDepth', node.clickDepth],
+        ['inDegree', node.inDegree],
+        ['outDegree', node.outDegree],
+        ['pageRank', node.pageRank],
+        ['important', node.important],
+        ['flags', node.flags.length ? node.flags.join(',') : undefined]
+      ];
+      const values = data
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `<data key="${key}">${escapeXml(String(value))}</data>`)
+        .join('');
+      return `    <node id="${ids.get(node.url)}">${values}</node>`;
+    }),
+    ...graph.edges.map(edge => `    <edge source="${ids.get(edge.source)}" target="${ids.get(edge.target)}"/>`),
+    '  </graph>',
+    '</graphml>'
+  ];
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,280 @@
+/**
+ * llms.txt support (https://llmstxt.org)
+ * - Fetches /llms.txt and /llms-full.txt (cached per origin so crawls fetch once)
+ * - Parses the markdown structure: H1 title, blockquote summary, H2 link sections
+ * - Validates structure and checks links for dead targets
+ * - Generates a draft llms.txt from crawled pages
+ */
+
+import { checkLinks, LinkCheckOptions } from './link-checker.js';
+import { setCached } from './utils.js';
+
+export interface LlmsTxtLink {
+  title: string;
+  url: string;
+  description?: string;
+  line: number;
+}
+
+export interface LlmsTxtSection {
+  name: string;
+  links: LlmsTxtLink[];
+  optional: boolean;    // The "Optional" section may be skipped when context is short
+}
+
+export interface LlmsTxtDocument {
+  title?: string;
+  summary?: string;
+  details: string;
+  sections: LlmsTxtSection[];
+  h1Count: number;
+  strayLines: number[];  // Non-list content lines inside link sections
+}
+
+export interface LlmsTxtFile {
+  url: string;
+  status: number;        // 0 when the request failed
+  found: boolean;        // 2xx plain text/markdown (HTML fallbacks do not count)
+  contentType?: string;
+  text?: string;
+  servedAsHtml?: boolean;
+}
+
+export interface LlmsTxtProblem {
+  message: string;
+  line?: number;
+}
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const fileCache = new Map<string, { expires: number; promise: Promise<LlmsTxtFile> }>();
+
+/**
+ * Forget cached llms.txt files (e.g. between test fixtures)
+ */
+export function clearLlmsTxtCache(): void {
+  fileCache.clear();
+}
+
+/**
+ * Fetch an llms.txt-style file from the origin of a URL
+ */
+export function fetchLlmsTxt(
+  url: string,
+  fileName: 'llms.txt' | 'llms-full.txt' = 'llms.txt',
+  timeoutMs = 10000
+): Promise<LlmsTxtFile> {
+  const fileUrl = `${new URL(url).origin}/${fileName}`;
+  const cached = fileCache.get(fileUrl);
+  if (cached && cached.expires > Date.now()) return cached.promise;
+
+  const promise = (async (): Promise<LlmsTxtFile> => {
+    const controller = new AbortController();
+    const id = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const res = await fetch(fileUrl, { signal: controller.signal });
+      const contentType = res.headers.get('content-type') || '';
+      if (res.status >= 400) {
+        return { url: fileUrl, status: res.status, found: false, contentType };
+      }
+      const text = await res.text();
+      // SPA hosts often answer every path with index.html
+      const servedAsHtml = contentType.includes('text/html') || /^\s*(<!doctype html|<html)/i.test(text);
+      return { url: fileUrl, status: res.status, found: !servedAsHtml, contentType, text, servedAsHtml };
+    } catch {
+      return { url: fileUrl, status: 0, found: false };
+    } finally {
+      clearTimeout(id);
+    }
+  })();
+
+  setCached(fileCache, fileUrl, { expires: Date.now() + CACHE_TTL_MS, promise });
+  return promise;
+}
+
+/**
+ * Parse llms.txt markdown into its title, summary and link sections
+ */
+export function parseLlmsTxt(text: string): LlmsTxtDocument {
+  const doc: LlmsTxtDocument = { details: '', sections: [], h1Count: 0, strayLines: [] };
+  const details: string[] = [];
+  const summary: string[] = [];
+  let section: LlmsTxtSection | null = null;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    const lineNo = index + 1;
+    if (!line) return;
+
+    const h1 = line.match(/^#\s+(.+)$/);
+    if (h1) {
+      doc.h1Count++;
+      if (!doc.title) doc.title = h1[1].trim();
+      return;
+    }
+
+    const h2 = line.match(/^##\s+(.+)$/);
+    if (h2) {
+      const name = h2[1].trim();
+      section = { name, links: [], optional: name.toLowerCase() === 'optional' };
+      doc.sections.push(section);
+      return;
+    }
+
+    if (!section) {
+      // Header area: blockquote summary directly under the title, then free-form details
+      if (line.startsWith('>') && details.length === 0) {
+        summary.push(line.replace(/^>\s?/, ''));
+      } else {
+        details.push(line);
+      }
+      return;
+    }
+
+    const link = line.match(/^[-*]\s*\[([^\]]+)\]\(([^)\s]+)\)(?:\s*:\s*(.*))?$/);
+    if (link) {
+      section.links.push({
+        title: link[1].trim(),
+        url: link[2].trim(),
+        description: link[3]?.trim() || undefined,
+        line: lineNo
+      });
+    } else {
+      doc.strayLines.push(lineNo);
+    }
+  });
+
+  doc.summary = summary.length ? summary.join(' ').trim() : undefined;
+  doc.details = details.join('\n');
+  return doc;
+}
+
+/**
+ * Check a parsed llms.txt against the llmstxt.org format
+ */
+export function validateLlmsTxt(doc: LlmsTxtDocument): LlmsTxtProblem[] {
+  const problems: LlmsTxtProblem[] = [];
+
+  if (!doc.title) {
+    problems.push({ message: 'Missing H1 title (the file must start with "# Project name")' });
+  } else if (doc.h1Count > 1) {
+    problems.push({ message: `Found ${doc.h1Count} H1 headings; llms.txt should have exactly one` });
+  }
+
+  if (!doc.summary) {
+    problems.push({ message: 'Missing blockquote summary ("> short description") under the title' });
+  }
+
+  const links = doc.sections.flatMap(s => s.links);
+  if (doc.sections.length === 0) {
+    problems.push({ message: 'No H2 link sections ("## Docs") pointing LLMs at your content' });
+  } else if (links.length === 0) {
+    problems.push({ message: 'H2 sections contain no markdown links ("- [Title](https://...)")' });
+  }
+
+  for (const s of doc.sections) {
+    if (s.links.length === 0 && !s.optional) {
+      problems.push({ message: `Section "${s.name}" has no links` });
+    }
+  }
+
+  for (const line of doc.strayLines.slice(0, 5)) {
+    problems.push({ message: 'Line in a link section is not a "- [Title](url): notes" list item', line });
+  }
+
+  return problems;
+}
+
+/**
+ * Check every link and return the ones that do not resolve. Statuses come from
+ * the shared link-check cache, so the pages of a crawl check each link once.
+ */
+export async function findDeadLlmsTxtLinks(
+  links: LlmsTxtLink[],
+  baseUrl: string,
+  options: LinkCheckOptions & { maxLinks?: number } = {}
+): Promise<Array<{ link: LlmsTxtLink; status: number; error?: string }>> {
+  const { maxLinks = 50, ...checkOptions } = options;
+  const dead: Array<{ link: LlmsTxtLink; status: number; error?: string }> = [];
+  const checkable: Array<{ link: LlmsTxtLink; target: string }> = [];
+
+  for (const link of links.slice(0, maxLinks)) {
+    try {
+      checkable.push({ link, target: new URL(link.url, baseUrl).href });
+    } catch (error) {
+      dead.push({ link, status: 0, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const results = await checkLinks(checkable.map(c => c.target), checkOptions);
+  results.forEach((result, i) => {
+    // Soft 404s still resolve, so only error statuses and missing responses count
+    if (!result.skipped && (result.status >= 400 || result.status === 0)) {
+      dead.push({ link: checkable[i].link, status: result.status, error: result.error });
+    }
+  });
+
+  return dead.sort((a, b) => a.link.line - b.link.line);
+}
+
+export interface LlmsTxtPageInput {
+  url: string;
+  title?: string;
+  summary?: string;
+}
+
+/**
+ * Generate a draft llms.txt from crawled pages.
+ * The home page provides the title and summary; other pages are grouped
+ * into H2 sections by their first path segment.
+ */
+export function generateLlmsTxt(
+  pages: LlmsTxtPageInput[],
+  options: { title?: string; summary?: string } = {}
+): string {
+  const sorted = [...pages].sort((a, b) => a.url.localeCompare(b.url));
+  const home = sorted.find(p => new URL(p.url).pathname === '/') || sorted[0];
+  const hostname = home ? new URL(home.url).hostname : 'Website';
+
+  const title = options.title || home?.title?.split(/\s[-–—|:]\s/)[0].trim() || hostname;
+  const summary = options.summary || home?.summary;
+
+  const groups = new Map<string, LlmsTxtPageInput[]>();
+  for (const page of sorted) {
+    if (page === home) continue;
+    const segment = new URL(page.url).pathname.split('/').filter(Boolean)[0] || '';
+    if (!groups.has(segment)) groups.set(segment, []);
+    groups.get(segment)!.push(page);
+  }
+
+  // Single-page groups (e.g. /about, /pricing) are collected under "Pages"
+  const sections = new Map<string, LlmsTxtPageInput[]>();
+  const loose: LlmsTxtPageInput[] = [];
+  for (const [segment, groupPages] of groups) {
+    if (!segment || groupPages.length < 2) {
+      loose.push(...groupPages);
+      continue;
+    }
+    const name = decodeURIComponent(segment).replace(/[-_]+/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+    sections.set(name, groupPages);
+  }
+  if (loose.length > 0) sections.set('Pages', loose);
+
+  const oneLine = (text: string) => text.replace(/\s+/g, ' ').trim();
+  const lines: string[] = [`# ${oneLine(title)}`, ''];
+  if (summary) {
+    lines.push(`> ${oneLine(summary)}`, '');
+  }
+
+  for (const [name, sectionPages] of sections) {
+    lines.push(`## ${name}`, '');
+    for (const page of sectionPages) {
+      const linkTitle = oneLine(page.title || new URL(page.url).pathname);
+      lines.push(page.summary
+        ? `- [${linkTitle}](${page.url}): ${oneLine(page.summary)}`
+        : `- [${linkTitle}](${page.url})`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
@@ -0,0 +1,137 @@
+import type { CheerioAPI } from 'cheerio';
+import type { ParsedSchema } from './json-ld-extractor.js';
+import { cssEscape, cssString } from './utils.js';
+
+// Elements whose microdata value is a URL attribute rather than their text
+const URL_ATTRIBUTES: Record<string, string> = {
+  a: 'href', area: 'href', link: 'href',
+  audio: 'src', embed: 'src', iframe: 'src', img: 'src', source: 'src', track: 'src', video: 'src',
+  object: 'data',
+};
+
+/**
+ * Extracts HTML microdata (itemscope / itemtype / itemprop) and normalizes
+ * each top-level item into the JSON-LD shape: "@type" from itemtype, "@id"
+ * from itemid, nested items as nested objects, and repeated properties as
+ * arrays. schema.org types and properties are reduced to their bare names.
+ */
+export class MicrodataExtractor {
+  constructor(private $: CheerioAPI, private baseUrl?: string) {}
+
+  extract(): ParsedSchema[] {
+    const $ = this.$;
+    const schemas: ParsedSchema[] = [];
+
+    $('[itemscope]').not('[itemprop]').each((_, el) => {
+      const data = this.readItem(el, new Set());
+      if (!data['@type']) return;
+
+      schemas.push({
+        type: data['@type'],
+        data,
+        raw: data,
+        syntax: 'microdata',
+        selector: this.selectorFor(el),
+      });
+    });
+
+    return schemas;
+  }
+
+  private readItem(el: any, visiting: Set<any>): Record<string, any> {
+    const $ = this.$;
+    const $el = $(el);
+    visiting.add(el);
+
+    const item: Record<string, any> = {};
+    const types = ($el.attr('itemtype') || '').split(/\s+/).filter(Boolean).map(schemaTerm);
+    if (types.length > 0) item['@type'] = types.length === 1 ? types[0] : types;
+    const id = $el.attr('itemid');
+    if (id) item['@id'] = this.absolute(id);
+
+    for (const prop of this.properties(el)) {
+      const value = visiting.has(prop) ? undefined : this.propertyValue(prop, visiting);
+      if (value === undefined) continue;
+
+      for (const name of ($(prop).attr('itemprop') || '').split(/\s+/).filter(Boolean).map(schemaTerm)) {
+        if (item[name] === undefined) item[name] = value;
+        else item[name] = [...(Array.isArray(item[name]) ? item[name] : [item[name]]), value];
+      }
+    }
+
+    visiting.delete(el);
+    return item;
+  }
+
+  /** itemprop elements belonging to the item: its own, then those pulled in with itemref */
+  private properties(el: any): any[] {
+    const $ = this.$;
+    const roots = [el, ...($(el).attr('itemref') || '').split(/\s+/).filter(Boolean)
+      .map(id => $(`[id="${id.replace(/["\\]/g, '\\$&')}"]`)[0])
+      .filter(Boolean)];
+
+    const props: any[] = [];
+    for (const root of roots) {
+      if (root !== el && $(root).is('[itemprop]')) props.push(root);
+      if (root !== el && $(root).is('[itemscope]')) continue;
+      $(root).find('[itemprop]').each((_, prop) => {
+        if (ownedBy(prop, root)) props.push(prop);
+      });
+    }
+    return props;
+  }
+
+  private propertyValue(prop: any, visiting: Set<any>): unknown {
+    const $prop = this.$(prop);
+    if ($prop.is('[itemscope]')) return this.readItem(prop, visiting);
+
+    const tag = (prop.tagName || '').toLowerCase();
+    if (tag === 'meta') return $prop.attr('content') ?? '';
+    if (URL_ATTRIBUTES[tag]) {
+      const url = $prop.attr(URL_ATTRIBUTES[tag]);
+      return url ? this.absolute(url) : undefined;
+    }
+    if (tag === 'data' || tag === 'meter') return $prop.attr('value') ?? '';
+    if (tag === 'time' && $prop.attr('datetime')) return $prop.attr('datetime');
+    // Not in the microdata spec, but search engines read content= on any element
+    return $prop.attr('content') ?? $prop.text().replace(/\s+/g, ' ').trim();
+  }
+
+  private selectorFor(el: any): string {
+    const $el = this.$(el);
+    if ($el.attr('id')) return `#${cssEscape($el.attr('id')!)}`;
+    if ($el.attr('itemid')) return `[itemid=${cssString($el.attr('itemid')!)}]`;
+    if ($el.attr('itemtype')) return `[itemtype=${cssString($el.attr('itemtype')!)}]`;
+    return '[itemscope]';
+  }
+
+  private absolute(url: string): string {
+    if (!this.baseUrl) return url;
+    try {
+      return new URL(url, this.baseUrl).href;
+    } catch {
+      return url;
+    }
+  }
+}
+
+/** Whether no other item lies between the property and the root it was found under */
+function ownedBy(prop: any, root: any): boolean {
+  for (let node = prop.parent; node && node !== root; node = node.parent) {
+    if (node.attribs && 'itemscope' in node.attribs) return false;
+  }
+  return true;
+}
+
+/** Bare name of a schema.org type or property IRI; other IRIs are kept whole */
+function schemaTerm(term: string): string {
+  const match = term.match(/^https?:\/\/schema\.org\/(.+)$/);
+  return match ? match[1] : term;
+}
+
+/**
+ * Helper function to extract microdata items from a Cheerio instance
+ */
+export function extractMicrodata($: CheerioAPI, baseUrl?: string): ParsedSchema[] {
+  return new MicrodataExtractor($, baseUrl).extract();
+}
@@ -17,7 +17,11 @@ export interface AuditReport {
     requested_url: string;
     final_url: string;
     status_code: number;
-    redirect_chain: string[];
+    redirect_chain: Array<{
+      url: string;
+      status_code: number;
+      location: string;
+    }>;
   };
   scores: {
     crawlability: number;
@@ -52,12 +56,43 @@ export interface AuditReport {
     category: string;
     scoreImpact?: number; // Estimated score improvement if fixed
     rule_id?: string; // Rule ID for reference
+    fingerprint?: string; // Stable identity of the issue across runs
+    fix?: {
+      summary: string;
+      snippet: string;
+      review?: string;
+      patch?: string;
+    };
   }>;
   recommendations: Array<{
     issue_id: string;
     fix: string;
     impact: string;
   }>;
+  skipped_rules?: Array<{
+    id: string;
+    title: string;
+    reason: string;
+  }>;
+  suppressed_issues?: {
+    total: number;
+    inline: number;
+    baseline: number;
+    issues: Array<{
+      id: string;
+      title: string;
+      severity: string;
+      suppressed_by: 'inline' | 'baseline';
+      selector?: string;
+      fingerprint?: string;
+    }>;
+  };
+  rule_profile?: Array<{
+    id: string;
+    duration_ms: number;
+    status: 'ok' | 'error' | 'timeout';
+    issues: number;
+  }>;
   detailed_scoring?: {
     overall_score: number;
     grade: string;
@@ -252,6 +287,8 @@ function formatIssues(issues: Issue[]): AuditReport['issues'] {
       category: mapCategory(issue.category),
       scoreImpact: issue.scoreImpact,
       rule_id: issue.id,
+      fingerprint: issue.fingerprint,
+      fix: issue.fix,
     }));
 }
 
@@ -307,9 +344,13 @@ export function formatAuditReport(
     scanned_at: scannedAt,
     input: {
       requested_url: result.url,
-      final_url: result.url,
-      status_code: 200, // Would need to be passed from fetch result
-      redirect_chain: [],
+      final_url: result.finalUrl || result.url,
+      status_code: result.statusCode ?? 200,
+      redirect_chain: (result.redirectChain || []).map(hop => ({
+        url: hop.url,
+        status_code: hop.status,
+        location: hop.location,
+      })),
     },
     scores,
     entities,
@@ -317,6 +358,35 @@ export function formatAuditReport(
     recommendations,
   };
 
+  // Rules that did not run (e.g. network-only rules in an offline scan)
+  if (result.skippedRules && result.skippedRules.length > 0) {
+    report.skipped_rules = result.skippedRules;
+  }
+
+  // Suppressed issues are listed apart and do not count towards the scores
+  if (result.suppressedIssues && result.suppressedIssues.length > 0) {
+    report.suppressed_issues = {
+      total: result.suppressedIssues.length,
+      inline: result.suppressedIssues.filter(i => i.suppressedBy === 'inline').length,
+      baseline: result.suppressedIssues.filter(i => i.suppressedBy === 'baseline').length,
+      issues: result.suppressedIssues.map(i => ({
+        id: i.id,
+        title: i.title,
+        severity: i.severity,
+        suppressed_by: i.suppressedBy,
+        selector: i.location?.selector,
+        fingerprint: i.fingerprint
+      }))
+    };
+  }
+
+  // Where rule time went, slowest first
+  if (result.ruleProfile && result.ruleProfile.length > 0) {
+    report.rule_profile = [...result.ruleProfile]
+      .sort((a, b) => b.durationMs - a.durationMs)
+      .map(t => ({ id: t.id, duration_ms: t.durationMs, status: t.status, issues: t.issues }));
+  }
+
   // Add detailed scoring if requested
   if (includeDetailedScoring) {
     report.detailed_scoring = {
@@ -0,0 +1,178 @@
+/**
+ * Unified diffs for text edits, so fixes can be reviewed and applied with
+ * `git apply` or `patch -p1`.
+ */
+
+/** Replace source[start, end) with text; start === end inserts */
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface ChangeBlock {
+  from: number;        // First original line replaced
+  to: number;          // One past the last original line replaced
+  lines: string[];     // Replacement lines
+}
+
+const CONTEXT_LINES = 3;
+
+/**
+ * Sort edits by position, dropping any that overlap an earlier one.
+ * Insertions at the same offset keep their order.
+ */
+function normalizeEdits(edits: TextEdit[]): TextEdit[] {
+  const sorted = edits
+    .map((edit, index) => ({ edit, index }))
+    .sort((a, b) => a.edit.start - b.edit.start || a.index - b.index)
+    .map(({ edit }) => edit);
+
+  const kept: TextEdit[] = [];
+  for (const edit of sorted) {
+    const previous = kept[kept.length - 1];
+    if (previous && edit.start < previous.end) continue;
+    kept.push(edit);
+  }
+  return kept;
+}
+
+export function applyEdits(source: string, edits: TextEdit[]): string {
+  let result = '';
+  let position = 0;
+  for (const edit of normalizeEdits(edits)) {
+    result += source.slice(position, edit.start) + edit.text;
+    position = edit.end;
+  }
+  return result + source.slice(position);
+}
+
+function splitLines(text: string): { lines: string[]; starts: number[]; newlineAtEnd: boolean } {
+  const lines = text.split('\n');
+  const newlineAtEnd = text.endsWith('\n');
+  if (newlineAtEnd) lines.pop();
+
+  const starts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    starts.push(offset);
+    offset += line.length + 1;
+  }
+  return { lines, starts, newlineAtEnd: newlineAtEnd || text.length === 0 };
+}
+
+function lineAt(starts: number[], offset: number): number {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (starts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+/**
+ * Turn edits into line blocks: edits touching the same or adjacent lines are
+ * applied together, and lines the edits leave unchanged are trimmed off
+ */
+function toBlocks(source: string, edits: TextEdit[]): ChangeBlock[] {
+  const { lines, starts } = splitLines(source);
+  if (lines.length === 0) {
+    lines.push('');
+    starts.push(0);
+  }
+
+  const groups: Array<{ from: number; to: number; edits: TextEdit[] }> = [];
+  for (const edit of normalizeEdits(edits)) {
+    const from = lineAt(starts, edit.start);
+    const to = lineAt(starts, Math.max(edit.start, edit.end - 1)) + 1;
+    const last = groups[groups.length - 1];
+    if (last && from <= last.to) {
+      last.to = Math.max(last.to, to);
+      last.edits.push(edit);
+    } else {
+      groups.push({ from, to, edits: [edit] });
+    }
+  }
+
+  return groups.map(group => {
+    const start = starts[group.from];
+    const end = starts[group.to - 1] + lines[group.to - 1].length;
+    const replaced = applyEdits(
+      source.slice(start, end),
+      group.edits.map(edit => ({ start: edit.start - start, end: Math.min(edit.end, end) - start, text: edit.text }))
+    ).split('\n');
+
+    let from = group.from;
+    let to = group.to;
+    while (from < to && replaced.length > 0 && lines[from] === replaced[0]) {
+      from++;
+      replaced.shift();
+    }
+    while (from < to && replaced.length > 0 && lines[to - 1] === replaced[replaced.length - 1]) {
+      to--;
+      replaced.pop();
+    }
+    return { from, to, lines: replaced };
+  }).filter(block => block.from < block.to || block.lines.length > 0);
+}
+
+function hunkRange(start: number, count: number): string {
+  // An empty range names the line before it
+  const line = count === 0 ? start : start + 1;
+  return count === 1 ? String(line) : `${line},${count}`;
+}
+
+/**
+ * Unified diff of the edits against the source, or an empty string when the
+ * edits change nothing
+ */
+export function createUnifiedDiff(source: string, edits: TextEdit[], path: string): string {
+  const blocks = toBlocks(source, edits);
+  if (blocks.length === 0) return '';
+
+  const { lines, newlineAtEnd } = splitLines(source);
+  const lastLine = lines.length - 1;
+  const out = [`--- a/${path}`, `+++ b/${path}`];
+
+  const push = (prefix: string, text: string, line: number) => {
+    out.push(prefix + text);
+    if (!newlineAtEnd && line === lastLine) out.push('\\ No newline at end of file');
+  };
+
+  let offset = 0;   // Lines added minus lines removed before the current hunk
+  let i = 0;
+  while (i < blocks.length) {
+    // Blocks whose context would overlap share a hunk
+    let j = i;
+    while (j + 1 < blocks.length && blocks[j + 1].from - blocks[j].to <= CONTEXT_LINES * 2) j++;
+
+    const start = Math.max(0, blocks[i].from - CONTEXT_LINES);
+    const end = Math.min(lines.length, blocks[j].to + CONTEXT_LINES);
+    const header = out.length;
+    out.push('');
+
+    let oldCount = 0;
+    let newCount = 0;
+    let line = start;
+    for (let k = i; k <= j; k++) {
+      const block = blocks[k];
+      for (; line < block.from; line++, oldCount++, newCount++) push(' ', lines[line], line);
+      for (; line < block.to; line++, oldCount++) push('-', lines[line], line);
+      for (const added of block.lines) {
+        out.push('+' + added);
+        newCount++;
+      }
+      // The replacement inherits the missing final newline of the lines it replaces
+      if (!newlineAtEnd && block.to - 1 === lastLine && block.lines.length > 0) out.push('\\ No newline at end of file');
+    }
+    for (; line < end; line++, oldCount++, newCount++) push(' ', lines[line], line);
+
+    out[header] = `@@ -${hunkRange(start, oldCount)} +${hunkRange(start + offset, newCount)} @@`;
+    for (let k = i; k <= j; k++) offset += blocks[k].lines.length - (blocks[k].to - blocks[k].from);
+    i = j + 1;
+  }
+
+  return out.join('\n') + '\n';
+}
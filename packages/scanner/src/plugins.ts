@@ -0,0 +1,155 @@
+/**
+ * External rule plugins
+ *
+ * A plugin is an npm package or local module that exports rules, either as a
+ * plugin object:
+ *
+ *   export default {
+ *     name: 'acme-rules',
+ *     rules: [PricingTableRule],          // BaseRule subclasses with a static `meta`
+ *     siteRules: [MissingLegalPagesRule], // BaseSiteRule subclasses with a static `meta`
+ *     categoryWeights: { KG: 1.5 }        // Optional scoring weight overrides
+ *   };
+ *
+ * or as classes decorated with @Rule / @SiteRule, which register themselves
+ * when the module is imported. YAML and JSON files are loaded as declarative
+ * rules. Rule IDs must not collide with built-in or previously loaded rules;
+ * a plugin with a colliding ID is rejected without registering any of its rules.
+ */
+
+import { createRequire } from 'module';
+import { isAbsolute, join, resolve } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { CATEGORY, SEVERITY } from './types.js';
+import { CATEGORY_WEIGHTS, SEVERITY_WEIGHTS } from './scoring.js';
+import {
+  getRegisteredRules,
+  getRegisteredSiteRules,
+  registerRule,
+  registerSiteRule,
+  RuleConstructor,
+  RuleMeta,
+  SiteRuleConstructor
+} from './rules/registry.js';
+import { loadDeclarativeRules } from './declarative-rules.js';
+import './rules/index.js';
+
+export interface AILighthousePlugin {
+  name?: string;
+  rules?: RuleConstructor[];
+  siteRules?: SiteRuleConstructor[];
+  categoryWeights?: Partial<Record<CATEGORY, number>>;
+  severityWeights?: Partial<Record<SEVERITY, number>>;
+}
+
+export interface LoadedPlugin {
+  spec: string;           // Package name or path as written in the config
+  resolved: string;       // File URL that was imported
+  name: string;
+  rules: string[];        // IDs of the page rules it registered
+  siteRules: string[];    // IDs of the site rules it registered
+}
+
+const loaded = new Map<string, Promise<LoadedPlugin>>();
+
+/**
+ * Resolve a plugin specifier: paths relative to baseDir, or a package
+ * installed in (or above) baseDir
+ */
+function resolvePlugin(spec: string, baseDir: string): string {
+  if (spec.startsWith('.') || isAbsolute(spec)) {
+    return pathToFileURL(resolve(baseDir, spec)).href;
+  }
+  const require = createRequire(join(baseDir, 'noop.js'));
+  return pathToFileURL(require.resolve(spec)).href;
+}
+
+function metaOf(ctor: Function): RuleMeta | undefined {
+  return (ctor as { meta?: RuleMeta }).meta;
+}
+
+async function importPlugin(spec: string, resolved: string): Promise<LoadedPlugin> {
+  const rulesBefore = new Set(getRegisteredRules().map(r => r.meta.id));
+  const siteRulesBefore = new Set(getRegisteredSiteRules().map(r => r.meta.id));
+
+  let plugin: AILighthousePlugin;
+  try {
+    if (/\.(ya?ml|json)$/i.test(resolved)) {
+      plugin = { rules: await loadDeclarativeRules(fileURLToPath(resolved)) };
+    } else {
+      const mod = await import(resolved);
+      plugin = (mod.default && typeof mod.default === 'object' ? mod.default : mod) as AILighthousePlugin;
+    }
+  } catch (error) {
+    throw new Error(`Failed to load plugin "${spec}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const existing = [...getRegisteredRules(), ...getRegisteredSiteRules()];
+  const registered = new Set(existing.map(r => r.ctor));
+  const owners = new Map(existing.map(r => [r.meta.id, r.ctor.name]));
+
+  // Every rule is checked before any is registered, so a rejected plugin leaves no rules behind
+  // (classes already registered by their decorator on import are skipped)
+  const pending: Array<{ meta: RuleMeta; ctor: Function; site: boolean }> = [];
+  try {
+    for (const [ctors, site] of [[plugin.rules ?? [], false], [plugin.siteRules ?? [], true]] as const) {
+      for (const ctor of ctors) {
+        if (registered.has(ctor)) continue;
+        const meta = metaOf(ctor);
+        if (!meta?.id) throw new Error(`${site ? 'Site rule' : 'Rule'} ${ctor.name} has no static meta with an id`);
+        const owner = owners.get(meta.id);
+        if (owner) {
+          throw new Error(`Rule ID collision: ${ctor.name} uses ${meta.id}, which is already registered by ${owner}`);
+        }
+        owners.set(meta.id, ctor.name);
+        pending.push({ meta, ctor, site });
+      }
+    }
+  } catch (error) {
+    throw new Error(`Plugin "${spec}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  for (const { meta, ctor, site } of pending) {
+    if (site) registerSiteRule(meta, ctor as SiteRuleConstructor);
+    else registerRule(meta, ctor as RuleConstructor);
+  }
+
+  Object.assign(CATEGORY_WEIGHTS, plugin.categoryWeights);
+  Object.assign(SEVERITY_WEIGHTS, plugin.severityWeights);
+
+  return {
+    spec,
+    resolved,
+    name: plugin.name ?? spec,
+    rules: getRegisteredRules().map(r => r.meta.id).filter(id => !rulesBefore.has(id)),
+    siteRules: getRegisteredSiteRules().map(r => r.meta.id).filter(id => !siteRulesBefore.has(id))
+  };
+}
+
+/**
+ * Load plugins into the rule registry. Each module is imported once per
+ * process, so this is safe to call before every scan.
+ */
+export async function loadPlugins(specs: string[], options: { baseDir?: string } = {}): Promise<LoadedPlugin[]> {
+  const baseDir = options.baseDir ?? process.cwd();
+  const plugins: LoadedPlugin[] = [];
+
+  // Sequential, so collisions are reported against a stable registry
+  for (const spec of specs) {
+    let resolved: string;
+    try {
+      resolved = resolvePlugin(spec, baseDir);
+    } catch {
+      throw new Error(`Cannot find plugin "${spec}" from ${baseDir}`);
+    }
+
+    let pending = loaded.get(resolved);
+    if (!pending) {
+      pending = importPlugin(spec, resolved);
+      loaded.set(resolved, pending);
+    }
+    plugins.push(await pending);
+  }
+
+  return plugins;
+}
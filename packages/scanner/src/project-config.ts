@@ -0,0 +1,285 @@
+/**
+ * Project configuration file, discovered from the working directory upwards:
+ *
+ *   .ailighthouserc            YAML or JSON
+ *   .ailighthouserc.json
+ *   .ailighthouserc.yaml / .yml
+ *   .ailighthouserc.ts / .js / .mjs   default export (see defineConfig)
+ *
+ * Example:
+ *
+ *   extends: strict                 # Preset (default, strict, verbose), file or package
+ *   plugins: [./rules/acme.yaml]
+ *   rules:
+ *     CRAWL: off                    # Whole category
+ *     AIREAD-041: low               # Severity override
+ *     KG-002: { impact: 5 }
+ *   minImpactScore: 10
+ *   llm: { provider: ollama, model: llama3.1 }
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { createRequire } from 'module';
+import { dirname, extname, isAbsolute, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import yaml from 'js-yaml';
+import type { ScanOptions } from './types.js';
+import { DEFAULT_CONFIG, STRICT_CONFIG, VERBOSE_CONFIG, ScannerConfig } from './config.js';
+import { RuleSettings, validateRuleSettings } from './rule-settings.js';
+
+type LLMConfig = NonNullable<ScanOptions['llmConfig']>;
+
+export interface ProjectConfig {
+  extends?: string | string[];  // Presets, config files or packages to build on (later entries win)
+  plugins?: string[];           // Rule plugins: npm packages or paths relative to the config file
+  rules?: RuleSettings;         // Disable rules or override severity / impact, by rule ID or category
+  minImpactScore?: number;
+  minConfidence?: number;
+  maxIssues?: number;
+  ruleConcurrency?: number;     // Rules executed at the same time
+  ruleTimeoutMs?: number;       // Per-rule timeout (0 disables)
+  tokenizer?: string;           // Tokenizer for chunk sizes and token budgets: cl100k, o200k, llama3
+  baseline?: string;            // Baseline file of known issues, relative to the config file
+  llm?: Partial<LLMConfig> & { enabled?: boolean };
+}
+
+export interface LoadedProjectConfig {
+  path: string;
+  config: ProjectConfig;   // With "extends" resolved and merged
+}
+
+export type ConfigPreset = 'default' | 'strict' | 'verbose';
+
+export const CONFIG_FILENAMES = [
+  '.ailighthouserc',
+  '.ailighthouserc.json',
+  '.ailighthouserc.yaml',
+  '.ailighthouserc.yml',
+  '.ailighthouserc.ts',
+  '.ailighthouserc.js',
+  '.ailighthouserc.mjs'
+];
+
+const PRESETS: Record<ConfigPreset, ScannerConfig> = {
+  default: DEFAULT_CONFIG,
+  strict: STRICT_CONFIG,
+  verbose: VERBOSE_CONFIG
+};
+
+/**
+ * Identity helper for typed .ailighthouserc.ts files
+ */
+export function defineConfig(config: ProjectConfig): ProjectConfig {
+  return config;
+}
+
+export function isConfigPreset(name: string): name is ConfigPreset {
+  return name in PRESETS;
+}
+
+/**
+ * Express a built-in preset as a project config: its thresholds, with
+ * disabled categories turned off
+ */
+export function presetConfig(name: ConfigPreset): ProjectConfig {
+  const preset = PRESETS[name];
+  const rules: RuleSettings = {};
+  for (const [category, enabled] of Object.entries(preset.rules)) {
+    if (!enabled) rules[category.toUpperCase()] = 'off';
+  }
+  return {
+    rules,
+    minImpactScore: preset.minImpactScore,
+    minConfidence: preset.minConfidence,
+    maxIssues: preset.maxIssues
+  };
+}
+
+/**
+ * Layer one config over another: scalars are replaced, rules and llm
+ * settings merged by key, plugins concatenated
+ */
+export function mergeProjectConfigs(base: ProjectConfig, override: ProjectConfig): ProjectConfig {
+  const plugins = [...new Set([...(base.plugins ?? []), ...(override.plugins ?? [])])];
+  const merged: ProjectConfig = {
+    plugins: plugins.length ? plugins : undefined,
+    rules: base.rules || override.rules ? { ...base.rules, ...override.rules } : undefined,
+    minImpactScore: override.minImpactScore ?? base.minImpactScore,
+    minConfidence: override.minConfidence ?? base.minConfidence,
+    maxIssues: override.maxIssues ?? base.maxIssues,
+    ruleConcurrency: override.ruleConcurrency ?? base.ruleConcurrency,
+    ruleTimeoutMs: override.ruleTimeoutMs ?? base.ruleTimeoutMs,
+    tokenizer: override.tokenizer ?? base.tokenizer,
+    baseline: override.baseline ?? base.baseline,
+    llm: base.llm || override.llm ? { ...base.llm, ...override.llm } : undefined
+  };
+  for (const key of Object.keys(merged) as (keyof ProjectConfig)[]) {
+    if (merged[key] === undefined) delete merged[key];
+  }
+  return merged;
+}
+
+/**
+ * Find the nearest config file in cwd or one of its parents
+ */
+export function findProjectConfig(cwd: string = process.cwd()): string | undefined {
+  let dir = resolve(cwd);
+  while (true) {
+    for (const name of CONFIG_FILENAMES) {
+      const path = join(dir, name);
+      if (existsSync(path)) return path;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+async function readConfigFile(path: string): Promise<unknown> {
+  const ext = extname(path).toLowerCase();
+  if (['.ts', '.js', '.mjs', '.cjs'].includes(ext)) {
+    const mod = await import(pathToFileURL(path).href);
+    return mod.default ?? mod;
+  }
+  const content = await readFile(path, 'utf-8');
+  return ext === '.json' ? JSON.parse(content) : yaml.load(content);   // YAML is a superset of JSON
+}
+
+function validateProjectConfig(input: unknown): ProjectConfig {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== 'object' || Array.isArray(input)) throw new Error('expected an object');
+  const config = input as ProjectConfig;
+
+  if (config.extends !== undefined) {
+    const list = Array.isArray(config.extends) ? config.extends : [config.extends];
+    if (list.some(e => typeof e !== 'string')) {
+      throw new Error('"extends" must be a preset name, path or package, or a list of them');
+    }
+  }
+  if (config.plugins !== undefined) {
+    if (!Array.isArray(config.plugins) || config.plugins.some(p => typeof p !== 'string')) {
+      throw new Error('"plugins" must be an array of package names or paths');
+    }
+  }
+  if (config.rules !== undefined) {
+    const problem = validateRuleSettings(config.rules);
+    if (problem) throw new Error(problem);
+  }
+  for (const key of ['minImpactScore', 'minConfidence', 'maxIssues', 'ruleConcurrency', 'ruleTimeoutMs'] as const) {
+    if (config[key] !== undefined && typeof config[key] !== 'number') {
+      throw new Error(`"${key}" must be a number`);
+    }
+  }
+  // Plugins may register more tokenizers, so the name is checked when the scan starts
+  if (config.tokenizer !== undefined && typeof config.tokenizer !== 'string') {
+    throw new Error('"tokenizer" must be a tokenizer name such as "cl100k"');
+  }
+  if (config.baseline !== undefined && typeof config.baseline !== 'string') {
+    throw new Error('"baseline" must be a path');
+  }
+  if (config.llm !== undefined && (!config.llm || typeof config.llm !== 'object')) {
+    throw new Error('"llm" must be an object');
+  }
+
+  return config;
+}
+
+/**
+ * Resolve an "extends" entry that is not a preset: a path relative to the
+ * extending file, or a package installed in (or above) its directory
+ */
+function resolveExtends(spec: string, fromDir: string): string {
+  if (spec.startsWith('.') || isAbsolute(spec)) {
+    const path = resolve(fromDir, spec);
+    if (!existsSync(path)) throw new Error(`${path} does not exist`);
+    return path;
+  }
+  const require = createRequire(join(fromDir, 'noop.js'));
+  return require.resolve(spec);
+}
+
+async function loadConfigFile(path: string, chain: string[]): Promise<ProjectConfig> {
+  if (chain.includes(path)) {
+    throw new Error(`Circular "extends" in config: ${[...chain, path].join(' -> ')}`);
+  }
+
+  let config: ProjectConfig;
+  try {
+    config = validateProjectConfig(await readConfigFile(path));
+  } catch (error) {
+    throw new Error(`Invalid config ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // Plugin and baseline paths are relative to the file that lists them
+  const own: ProjectConfig = {
+    ...config,
+    plugins: config.plugins?.map(spec =>
+      spec.startsWith('.') && !isAbsolute(spec) ? resolve(dirname(path), spec) : spec
+    ),
+    baseline: config.baseline === undefined ? undefined : resolve(dirname(path), config.baseline)
+  };
+
+  let merged: ProjectConfig = {};
+  const parents = config.extends === undefined ? [] : Array.isArray(config.extends) ? config.extends : [config.extends];
+  for (const spec of parents) {
+    if (isConfigPreset(spec)) {
+      merged = mergeProjectConfigs(merged, presetConfig(spec));
+      continue;
+    }
+    let parentPath: string;
+    try {
+      parentPath = resolveExtends(spec, dirname(path));
+    } catch {
+      throw new Error(`Invalid config ${path}: cannot find "${spec}" in "extends"`);
+    }
+    merged = mergeProjectConfigs(merged, await loadConfigFile(parentPath, [...chain, path]));
+  }
+
+  return mergeProjectConfigs(merged, own);
+}
+
+/**
+ * Load a specific config file, resolving "extends"
+ */
+export async function loadProjectConfigFile(path: string): Promise<LoadedProjectConfig> {
+  const absolute = resolve(path);
+  if (!existsSync(absolute)) throw new Error(`Config file not found: ${absolute}`);
+  return { path: absolute, config: await loadConfigFile(absolute, []) };
+}
+
+/**
+ * Load the nearest config file. Plugin paths are resolved against the
+ * config file's directory, so scans can run from any subdirectory.
+ */
+export async function loadProjectConfig(cwd: string = process.cwd()): Promise<LoadedProjectConfig | undefined> {
+  const path = findProjectConfig(cwd);
+  if (!path) return undefined;
+  return loadProjectConfigFile(path);
+}
+
+/**
+ * Fill in scan options from a project config. Options set explicitly take
+ * precedence; rule settings are merged with the options' own by key.
+ */
+export function applyProjectConfig(options: ScanOptions, config: ProjectConfig | undefined): ScanOptions {
+  if (!config) return options;
+
+  const { enabled, ...llmConfig } = config.llm ?? {};
+  const plugins = [...new Set([...(config.plugins ?? []), ...(options.plugins ?? [])])];
+
+  return {
+    ...options,
+    plugins: plugins.length ? plugins : undefined,
+    rules: config.rules || options.rules ? { ...config.rules, ...options.rules } : undefined,
+    minImpactScore: options.minImpactScore ?? config.minImpactScore,
+    minConfidence: options.minConfidence ?? config.minConfidence,
+    maxIssues: options.maxIssues ?? config.maxIssues,
+    ruleConcurrency: options.ruleConcurrency ?? config.ruleConcurrency,
+    ruleTimeoutMs: options.ruleTimeoutMs ?? config.ruleTimeoutMs,
+    tokenizer: options.tokenizer ?? config.tokenizer,
+    baseline: options.baseline ?? config.baseline,
+    enableLLM: options.enableLLM ?? enabled,
+    llmConfig: options.llmConfig ?? (llmConfig.provider ? llmConfig as LLMConfig : undefined)
+  };
+}
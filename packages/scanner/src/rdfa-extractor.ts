@@ -0,0 +1,144 @@
+import type { CheerioAPI } from 'cheerio';
+import type { ParsedSchema } from './json-ld-extractor.js';
+import { cssEscape, cssString } from './utils.js';
+
+const SCHEMA_ORG = /^https?:\/\/schema\.org\/?/;
+
+// Elements whose RDFa value is a link rather than their text
+const URL_ATTRIBUTES = ['href', 'src', 'resource'];
+
+/**
+ * Extracts schema.org RDFa (RDFa Lite: vocab / typeof / property / resource,
+ * plus "schema:" prefixed terms) and normalizes each top-level item into the
+ * JSON-LD shape, like MicrodataExtractor. Terms from other vocabularies
+ * (og:, dc:, ...) are skipped.
+ */
+export class RdfaExtractor {
+  constructor(private $: CheerioAPI, private baseUrl?: string) {}
+
+  extract(): ParsedSchema[] {
+    const $ = this.$;
+    const schemas: ParsedSchema[] = [];
+
+    $('[typeof]').each((_, el) => {
+      // Items that are the value of a property belong to their parent item
+      if ($(el).is('[property]') && $(el).parent().closest('[typeof]').length > 0) return;
+
+      const data = this.readItem(el);
+      if (!data['@type']) return;
+
+      schemas.push({
+        type: data['@type'],
+        data,
+        raw: data,
+        syntax: 'rdfa',
+        selector: this.selectorFor(el),
+      });
+    });
+
+    return schemas;
+  }
+
+  private readItem(el: any): Record<string, any> {
+    const $ = this.$;
+    const $el = $(el);
+
+    const item: Record<string, any> = {};
+    const types = this.terms(el, $el.attr('typeof'));
+    if (types.length > 0) item['@type'] = types.length === 1 ? types[0] : types;
+    const id = $el.attr('resource') ?? $el.attr('about');
+    if (id) item['@id'] = this.absolute(id);
+
+    $el.find('[property]').each((_, prop) => {
+      if (!ownedBy(prop, el)) return;
+
+      const names = this.terms(prop, $(prop).attr('property'));
+      if (names.length === 0) return;
+      const value = this.propertyValue(prop);
+
+      for (const name of names) {
+        if (item[name] === undefined) item[name] = value;
+        else item[name] = [...(Array.isArray(item[name]) ? item[name] : [item[name]]), value];
+      }
+    });
+
+    return item;
+  }
+
+  private propertyValue(prop: any): unknown {
+    const $prop = this.$(prop);
+    if ($prop.is('[typeof]')) return this.readItem(prop);
+    if ($prop.attr('content') !== undefined) return $prop.attr('content');
+    if ($prop.attr('datetime')) return $prop.attr('datetime');
+
+    for (const attribute of URL_ATTRIBUTES) {
+      const url = $prop.attr(attribute);
+      if (url) return this.absolute(url);
+    }
+    return $prop.text().replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * schema.org names for the space-separated terms of a typeof or property
+   * attribute, resolved against the nearest vocab and prefix declarations
+   */
+  private terms(el: any, value: string | undefined): string[] {
+    if (!value) return [];
+    const $el = this.$(el);
+    const vocab = $el.closest('[vocab]').attr('vocab') ?? '';
+    const prefixes = this.prefixes(el);
+
+    return value.split(/\s+/).filter(Boolean).flatMap(term => {
+      if (SCHEMA_ORG.test(term)) return [term.replace(SCHEMA_ORG, '')];
+      const prefixed = term.match(/^([\w-]*):(.+)$/);
+      if (prefixed) return SCHEMA_ORG.test(prefixes[prefixed[1]] ?? '') ? [prefixed[2]] : [];
+      return SCHEMA_ORG.test(vocab) ? [term] : [];
+    });
+  }
+
+  /** Prefix mappings in scope, with "schema:" predefined as in the RDFa initial context */
+  private prefixes(el: any): Record<string, string> {
+    const prefixes: Record<string, string> = { schema: 'http://schema.org/' };
+    // Outermost first, so inner declarations win
+    const declarations = [...this.$(el).parents('[prefix]').toArray().reverse(), ...(this.$(el).is('[prefix]') ? [el] : [])];
+    for (const declaration of declarations) {
+      const pairs = (this.$(declaration).attr('prefix') || '').match(/[\w-]+:\s+\S+/g) || [];
+      for (const pair of pairs) {
+        const [name, iri] = pair.split(/:\s+/);
+        prefixes[name] = iri;
+      }
+    }
+    return prefixes;
+  }
+
+  private selectorFor(el: any): string {
+    const $el = this.$(el);
+    if ($el.attr('id')) return `#${cssEscape($el.attr('id')!)}`;
+    if ($el.attr('resource')) return `[resource=${cssString($el.attr('resource')!)}]`;
+    return `[typeof=${cssString($el.attr('typeof') ?? '')}]`;
+  }
+
+  private absolute(url: string): string {
+    if (!this.baseUrl) return url;
+    try {
+      return new URL(url, this.baseUrl).href;
+    } catch {
+      return url;
+    }
+  }
+}
+
+/** Whether no other item lies between the property and the item element */
+function ownedBy(prop: any, item: any): boolean {
+  for (let node = prop.parent; node && node !== item; node = node.parent) {
+    if (node.attribs && 'typeof' in node.attribs) return false;
+  }
+  return true;
+}
+
+/**
+ * Helper function to extract RDFa items from a Cheerio instance
+ */
+export function extractRdfa($: CheerioAPI, baseUrl?: string): ParsedSchema[] {
+  return new RdfaExtractor($, baseUrl).extract();
+}
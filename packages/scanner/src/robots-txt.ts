@@ -0,0 +1,317 @@
+/**
+ * robots.txt parser (RFC 9309)
+ * Supports:
+ * - Groups with one or more user-agent lines (duplicate groups are merged)
+ * - Allow / Disallow rules with `*` wildcards and `$` end anchors
+ * - Longest-match precedence, with Allow winning ties
+ * - Crawl-delay and Sitemap extensions
+ */
+
+import { setCached } from './utils.js';
+
+export type AICrawler = {
+  name: string;
+  agent: string;        // Lowercase robots.txt user-agent token
+  userAgent?: string;   // Full User-Agent header sent by the crawler (used for fetch comparisons)
+};
+
+export const AI_CRAWLERS: AICrawler[] = [
+  { name: 'GPTBot', agent: 'gptbot', userAgent: 'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; GPTBot/1.2; +https://openai.com/gptbot)' },
+  { name: 'ClaudeBot', agent: 'claudebot', userAgent: 'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; ClaudeBot/1.0; +claudebot@anthropic.com)' },
+  { name: 'Claude-Web', agent: 'claude-web' },
+  { name: 'Anthropic-AI', agent: 'anthropic-ai' },
+  { name: 'PerplexityBot', agent: 'perplexitybot', userAgent: 'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; PerplexityBot/1.0; +https://perplexity.ai/perplexitybot)' },
+  { name: 'Perplexity', agent: 'perplexity' },
+  { name: 'Google-Extended', agent: 'google-extended', userAgent: 'Mozilla/5.0 (compatible; Google-Extended/1.0; +https://developers.google.com/search/docs/crawling-indexing/google-common-crawlers)' },
+  { name: 'CCBot', agent: 'ccbot' },
+  { name: 'Cohere-AI', agent: 'cohere-ai' },
+  { name: 'Omgilibot', agent: 'omgilibot' },
+  { name: 'FacebookBot', agent: 'facebookbot' },
+  { name: 'Diffbot', agent: 'diffbot' },
+  { name: 'Bytespider', agent: 'bytespider' },
+  { name: 'ImagesiftBot', agent: 'imagesiftbot' }
+]
+
+export interface RobotsRuleLine {
+  type: 'allow' | 'disallow';
+  path: string;
+  line: number;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];   // Lowercase product tokens
+  rules: RobotsRuleLine[];
+  crawlDelay?: number;    // Seconds
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+export interface RobotsVerdict {
+  allowed: boolean;
+  group: string;              // User-agent the verdict came from ('*' or the crawler token), or 'none'
+  rule?: RobotsRuleLine;      // Winning rule, if any matched
+  crawlDelay?: number;
+}
+
+export interface RobotsFetchResult {
+  url: string;
+  status: number;             // 0 when the request failed
+  robots: RobotsTxt | null;   // null when robots.txt is missing or unreachable
+  text?: string;
+}
+
+/**
+ * Access verdict for one AI crawler on the audited URL
+ */
+export interface AICrawlerAccess {
+  crawler: string;
+  agent: string;
+  allowed: boolean;
+  group: string;
+  rule?: string;              // e.g. "Disallow: /private (line 12)"
+  crawlDelay?: number;
+}
+
+export interface RobotsAccessMatrix {
+  robotsUrl: string;
+  status: number;
+  found: boolean;
+  path: string;               // Path (with query) the verdicts apply to
+  crawlers: AICrawlerAccess[];
+  sitemaps: string[];
+}
+
+/**
+ * Parse robots.txt content into groups
+ */
+export function parseRobotsTxt(content: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  const lines = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) return;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (key) {
+      case 'user-agent': {
+        // Consecutive user-agent lines share one group
+        if (!current || !collectingAgents) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+        }
+        current.userAgents.push(value.split('/')[0].trim().toLowerCase());
+        collectingAgents = true;
+        break;
+      }
+      case 'allow':
+      case 'disallow': {
+        collectingAgents = false;
+        if (!current) return; // Rules before any user-agent line are ignored
+        if (!value) return;   // Empty rule matches nothing
+        current.rules.push({ type: key, path: value, line: index + 1 });
+        break;
+      }
+      case 'crawl-delay': {
+        collectingAgents = false;
+        const delay = parseFloat(value);
+        if (current && !isNaN(delay) && delay >= 0) current.crawlDelay = delay;
+        break;
+      }
+      case 'sitemap': {
+        // Sitemap lines are independent of groups
+        if (value) sitemaps.push(value);
+        break;
+      }
+      default:
+        collectingAgents = false;
+    }
+  });
+
+  return { groups, sitemaps };
+}
+
+/**
+ * Normalize percent-encoding so equivalent paths compare equal:
+ * decode unreserved characters, uppercase the rest, encode non-ASCII
+ */
+function normalizePath(path: string): string {
+  return path
+    .replace(/[^\x00-\x7F]/g, ch => encodeURIComponent(ch))
+    .replace(/%([0-9a-fA-F]{2})/g, (_, hex: string) => {
+      const ch = String.fromCharCode(parseInt(hex, 16));
+      return /[A-Za-z0-9\-._~]/.test(ch) ? ch : `%${hex.toUpperCase()}`;
+    });
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`);
+}
+
+function matchesRule(rule: RobotsRuleLine, path: string): boolean {
+  return patternToRegExp(normalizePath(rule.path)).test(path);
+}
+
+/**
+ * Find the merged group that applies to a crawler product token
+ */
+export function findGroup(robots: RobotsTxt, agent: string): { group: RobotsGroup; name: string } | null {
+  const token = agent.toLowerCase();
+  const merge = (matching: RobotsGroup[], name: string) => ({
+    name,
+    group: {
+      userAgents: [name],
+      rules: matching.flatMap(g => g.rules),
+      crawlDelay: matching.find(g => g.crawlDelay !== undefined)?.crawlDelay
+    }
+  });
+
+  const specific = robots.groups.filter(g => g.userAgents.includes(token));
+  if (specific.length > 0) return merge(specific, token);
+
+  const wildcard = robots.groups.filter(g => g.userAgents.includes('*'));
+  if (wildcard.length > 0) return merge(wildcard, '*');
+
+  return null;
+}
+
+/**
+ * Decide whether a crawler may fetch a path (path may include the query string)
+ */
+export function isPathAllowed(robots: RobotsTxt, agent: string, path: string): RobotsVerdict {
+  const normalized = normalizePath(path || '/');
+
+  // robots.txt itself is always allowed
+  if (normalized === '/robots.txt') {
+    return { allowed: true, group: 'none' };
+  }
+
+  const found = findGroup(robots, agent);
+  if (!found) {
+    return { allowed: true, group: 'none' };
+  }
+
+  let best: RobotsRuleLine | undefined;
+  let bestLength = -1;
+
+  for (const rule of found.group.rules) {
+    if (!matchesRule(rule, normalized)) continue;
+    const length = normalizePath(rule.path).length;
+    if (length > bestLength || (length === bestLength && rule.type === 'allow')) {
+      best = rule;
+      bestLength = length;
+    }
+  }
+
+  return {
+    allowed: !best || best.type === 'allow',
+    group: found.name,
+    rule: best,
+    crawlDelay: found.group.crawlDelay
+  };
+}
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const robotsCache = new Map<string, { expires: number; promise: Promise<RobotsFetchResult> }>();
+
+/**
+ * Forget cached robots.txt files (e.g. between test fixtures)
+ */
+export function clearRobotsTxtCache(): void {
+  robotsCache.clear();
+}
+
+/**
+ * Fetch and parse robots.txt for the origin of a URL
+ * (cached per origin so a crawl fetches it once)
+ */
+export function fetchRobotsTxt(url: string, timeoutMs = 10000): Promise<RobotsFetchResult> {
+  const robotsUrl = `${new URL(url).origin}/robots.txt`;
+  const cached = robotsCache.get(robotsUrl);
+  if (cached && cached.expires > Date.now()) return cached.promise;
+
+  const promise = (async (): Promise<RobotsFetchResult> => {
+    const controller = new AbortController();
+    const id = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const res = await fetch(robotsUrl, { signal: controller.signal });
+      if (res.status >= 400) {
+        return { url: robotsUrl, status: res.status, robots: null };
+      }
+      const text = await res.text();
+      return { url: robotsUrl, status: res.status, robots: parseRobotsTxt(text), text };
+    } catch {
+      return { url: robotsUrl, status: 0, robots: null };
+    } finally {
+      clearTimeout(id);
+    }
+  })();
+
+  setCached(robotsCache, robotsUrl, { expires: Date.now() + CACHE_TTL_MS, promise });
+  return promise;
+}
+
+/**
+ * Compute the allowed/blocked verdict of every known AI crawler for a URL.
+ * Per RFC 9309 §2.3.1.4, a 4xx robots.txt allows everything, while an
+ * unreachable robots.txt (5xx or a network failure) disallows everything.
+ */
+export function buildAICrawlerAccessMatrix(fetched: RobotsFetchResult, url: string): RobotsAccessMatrix {
+  const target = new URL(url);
+  const path = `${target.pathname}${target.search}`;
+  const unreachable = fetched.status === 0 || fetched.status >= 500;
+
+  const crawlers: AICrawlerAccess[] = AI_CRAWLERS.map(crawler => {
+    if (!fetched.robots) {
+      return {
+        crawler: crawler.name,
+        agent: crawler.agent,
+        allowed: !unreachable,
+        group: 'none',
+        rule: unreachable
+          ? `robots.txt unreachable (${fetched.status === 0 ? 'network error' : `HTTP ${fetched.status}`})`
+          : undefined
+      };
+    }
+
+    const verdict = isPathAllowed(fetched.robots, crawler.agent, path);
+    return {
+      crawler: crawler.name,
+      agent: crawler.agent,
+      allowed: verdict.allowed,
+      group: verdict.group,
+      rule: verdict.rule
+        ? `${verdict.rule.type === 'allow' ? 'Allow' : 'Disallow'}: ${verdict.rule.path} (line ${verdict.rule.line})`
+        : undefined,
+      crawlDelay: verdict.crawlDelay
+    };
+  });
+
+  return {
+    robotsUrl: fetched.url,
+    status: fetched.status,
+    found: fetched.robots !== null,
+    path,
+    crawlers,
+    sitemaps: fetched.robots?.sitemaps ?? []
+  };
+}
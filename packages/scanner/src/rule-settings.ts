@@ -0,0 +1,90 @@
+/**
+ * Per-rule overrides: disable rules or change the severity / impact of their
+ * issues, keyed by rule ID ("AIREAD-041") or category ("CRAWL").
+ * An ID entry takes precedence over its category's entry.
+ */
+
+import { CATEGORY, Issue, SEVERITY } from './types.js';
+
+export interface RuleOverride {
+  enabled?: boolean;
+  severity?: SEVERITY;
+  impact?: number;       // Replaces the issue's impactScore
+}
+
+/** "off" / "on", a severity, or a full override */
+export type RuleSetting = 'off' | 'on' | SEVERITY | RuleOverride;
+
+export type RuleSettings = Record<string, RuleSetting>;
+
+const SEVERITIES = Object.values(SEVERITY) as string[];
+const CATEGORIES = Object.values(CATEGORY) as string[];
+
+function normalize(setting: RuleSetting | undefined): RuleOverride {
+  if (setting === undefined) return {};
+  if (setting === 'on') return { enabled: true };   // Re-enables a rule of a disabled category
+  if (setting === 'off') return { enabled: false };
+  if (typeof setting === 'string') return { severity: setting };
+  return setting;
+}
+
+/**
+ * Check a settings object, returning a description of the first problem
+ */
+export function validateRuleSettings(settings: unknown): string | undefined {
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    return '"rules" must be an object keyed by rule ID or category';
+  }
+
+  for (const [key, value] of Object.entries(settings)) {
+    if (typeof value === 'string') {
+      if (value !== 'off' && value !== 'on' && !SEVERITIES.includes(value)) {
+        return `rules.${key} must be "off", "on", a severity (${SEVERITIES.join(', ')}) or an object`;
+      }
+      continue;
+    }
+    if (!value || typeof value !== 'object') return `rules.${key} must be a string or an object`;
+    const { enabled, severity, impact } = value as RuleOverride;
+    if (enabled !== undefined && typeof enabled !== 'boolean') return `rules.${key}.enabled must be a boolean`;
+    if (severity !== undefined && !SEVERITIES.includes(severity)) return `rules.${key}.severity must be one of ${SEVERITIES.join(', ')}`;
+    if (impact !== undefined && typeof impact !== 'number') return `rules.${key}.impact must be a number`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Effective override for a rule or issue
+ */
+export function resolveRuleSetting(settings: RuleSettings | undefined, id: string, category?: string): RuleOverride {
+  if (!settings) return {};
+  return {
+    ...(category && CATEGORIES.includes(category) ? normalize(settings[category]) : {}),
+    ...normalize(settings[id])
+  };
+}
+
+export function isRuleEnabled(settings: RuleSettings | undefined, id: string, category?: string): boolean {
+  return resolveRuleSetting(settings, id, category).enabled !== false;
+}
+
+const DIAGNOSTIC_IDS = ['MISC-ERR', 'MISC-TIMEOUT'];
+
+/**
+ * Drop issues of disabled rules and apply severity / impact overrides.
+ * Rule errors and timeouts are always kept.
+ */
+export function applyRuleSettings(issues: Issue[], settings: RuleSettings | undefined): Issue[] {
+  if (!settings || Object.keys(settings).length === 0) return issues;
+
+  return issues.flatMap(issue => {
+    if (DIAGNOSTIC_IDS.includes(issue.id)) return [issue];
+    const override = resolveRuleSetting(settings, issue.id, issue.category);
+    if (override.enabled === false) return [];
+    return [{
+      ...issue,
+      severity: override.severity ?? issue.severity,
+      impactScore: override.impact ?? issue.impactScore
+    }];
+  });
+}
@@ -1,5 +1,6 @@
 import { CATEGORY, Issue, SEVERITY } from "../types.js";
 import { estimateTokenCount } from "../utils.js";
+import { getTokenizer } from "../tokenizer.js";
 import { BaseRule, Rule, RuleContext } from "./registry.js";
 
 @Rule({
@@ -27,7 +28,8 @@ export class ChunkRule extends BaseRule {
       selections.push(main.text().trim());
     }
 
-    const totalTokens = selections.reduce((acc, text) => acc + estimateTokenCount(text), 0);
+    const tokenizer = getTokenizer(ctx.options?.tokenizer);
+    const totalTokens = selections.reduce((acc, text) => acc + estimateTokenCount(text, tokenizer), 0);
     const maxWindow = ctx.options?.maxChunkTokens || 1200;
 
     if (totalTokens > maxWindow) {
@@ -36,7 +38,7 @@ export class ChunkRule extends BaseRule {
         title: "Chunk exceeds recommended token/window size",
         severity: SEVERITY.CRITICAL,
         category: CATEGORY.CHUNK,
-        description: `The content chunk contains approximately ${totalTokens} tokens, which exceeds the recommended maximum of ${maxWindow} tokens.`,
+        description: `The content chunk contains ${totalTokens} tokens (${tokenizer.name} tokenizer), which exceeds the recommended maximum of ${maxWindow} tokens.`,
         remediation: `Consider splitting the content into smaller chunks or sections to fit within the recommended token limit of ${maxWindow} tokens for better processing performance.`,
         impactScore: 30,
         location: { url },
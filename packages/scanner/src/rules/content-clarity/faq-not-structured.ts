@@ -1,5 +1,6 @@
 import { CATEGORY, Issue, SEVERITY } from '../../types.js';
 import { Rule, BaseRule, RuleContext } from '../registry.js';
+import { JsonLdExtractor } from '../../json-ld-extractor.js';
 
 @Rule({
   id: `${CATEGORY.AIREAD}-088`,
@@ -15,10 +16,7 @@ export class FaqNotStructuredRule extends BaseRule {
     const { url, $ } = ctx;
 
     const hasFAQ = $('[class*="faq" i], [id*="faq" i]').length > 0;
-    const faqSchema = $('script[type="application/ld+json"]').filter((_, el) => {
-      const content = $(el).html();
-      return !!(content && content.includes('FAQPage'));
-    }).length > 0;
+    const faqSchema = new JsonLdExtractor($, url).extract().hasFAQ;
     
     const questionHeadings = $('h2, h3, h4, h5, h6').filter((_, el) => {
       return $(el).text().trim().endsWith('?');
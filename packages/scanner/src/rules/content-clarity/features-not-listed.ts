@@ -1,5 +1,6 @@
 import { CATEGORY, Issue, SEVERITY } from '../../types.js';
 import { Rule, BaseRule, RuleContext } from '../registry.js';
+import { JsonLdExtractor } from '../../json-ld-extractor.js';
 
 @Rule({
   id: `${CATEGORY.AIREAD}-086`,
@@ -14,10 +15,9 @@ export class FeaturesNotListedRule extends BaseRule {
   async execute(ctx: RuleContext): Promise<Issue | Issue[] | null> {
     const { url, $ } = ctx;
 
-    const hasProductSchema = $('script[type="application/ld+json"]').filter((_, el) => {
-      const content = $(el).html();
-      return !!(content && (content.includes('"Product"') || content.includes('"Offer"')));
-    }).length > 0;
+    const extractor = new JsonLdExtractor($, url);
+    extractor.extract();
+    const hasProductSchema = extractor.hasType('Product') || extractor.hasType('Offer');
 
     const hasFeaturesList = $('[class*="feature" i], [id*="feature" i]').find('ul, ol').length > 0;
     const hasFeatureHeading = $('h2, h3, h4').filter((_, el) => {
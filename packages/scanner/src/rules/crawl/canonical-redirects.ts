@@ -0,0 +1,74 @@
+import { CATEGORY, Issue, SEVERITY } from '../../types.js';
+import { Rule, BaseRule, RuleContext } from '../registry.js';
+
+@Rule({
+  id: `${CATEGORY.CRAWL}-018`,
+  title: 'Canonical URL redirects',
+  category: CATEGORY.CRAWL,
+  defaultSeverity: SEVERITY.HIGH,
+  tags: ['canonical', 'redirect', 'indexing'],
+  priority: 22,
+  requiresNetwork: true,
+  description: 'The canonical URL responds with a redirect instead of the page itself. Canonicals should point at the final URL.'
+})
+export class CanonicalRedirectsRule extends BaseRule {
+  async execute(ctx: RuleContext): Promise<Issue | Issue[] | null> {
+    const { url, $, redirectChain, finalUrl } = ctx;
+
+    const canonical = $('link[rel="canonical"]').attr('href');
+    if (!canonical) {
+      return null;
+    }
+
+    let canonicalUrl: string;
+    try {
+      canonicalUrl = new URL(canonical, finalUrl || url).href;
+    } catch {
+      return null; // Invalid canonical format is reported by CRAWL-005
+    }
+
+    if (canonicalUrl === (finalUrl || url)) {
+      return null;
+    }
+
+    // A URL already seen redirecting in this page's own chain needs no extra request
+    let redirect = redirectChain?.find(hop => hop.url === canonicalUrl);
+    if (!redirect) {
+      const controller = new AbortController();
+      const id = setTimeout(() => controller.abort(), ctx.options?.timeoutMs || 15000);
+      const abort = () => controller.abort();
+      ctx.signal?.addEventListener('abort', abort, { once: true });
+      try {
+        const res = await fetch(canonicalUrl, { method: 'HEAD', redirect: 'manual', signal: controller.signal });
+        const location = res.headers.get('location');
+        if (res.status >= 300 && res.status < 400 && location) {
+          redirect = { url: canonicalUrl, status: res.status, location: new URL(location, canonicalUrl).href };
+        }
+      } catch {
+        return null;
+      } finally {
+        clearTimeout(id);
+        ctx.signal?.removeEventListener('abort', abort);
+      }
+    }
+
+    if (!redirect) {
+      return null;
+    }
+
+    return {
+      id: `${CATEGORY.CRAWL}-018`,
+      title: 'Canonical URL redirects',
+      severity: SEVERITY.HIGH,
+      category: CATEGORY.CRAWL,
+      description: `The canonical URL ${canonicalUrl} returns a ${redirect.status} redirect to ${redirect.location}. AI crawlers may ignore a canonical that does not resolve directly.`,
+      remediation: `Point the canonical link at the final URL (${redirect.location}) instead of a redirecting one.`,
+      impactScore: 22,
+      location: { url, selector: 'link[rel="canonical"]' },
+      evidence: [`Canonical: ${canonical}`, `${redirect.status} ${redirect.url} → ${redirect.location}`],
+      tags: ['canonical', 'redirect', 'indexing'],
+      confidence: 0.95,
+      timestamp: new Date().toISOString()
+    } as Issue;
+  }
+}
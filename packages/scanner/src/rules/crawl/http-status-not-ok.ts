@@ -8,6 +8,7 @@ import { Rule, BaseRule, RuleContext } from '../registry.js';
   defaultSeverity: SEVERITY.CRITICAL,
   tags: ['http', 'status', 'availability'],
   priority: 50,
+  requiresNetwork: true,
   description: 'Page returned non-2xx or non-3xx HTTP status. AI crawlers cannot index pages with error status codes.'
 })
 export class HttpStatusNotOkRule extends BaseRule {
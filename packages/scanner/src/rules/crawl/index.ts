@@ -6,3 +6,7 @@ export { RobotsTxtBlocksAllRule } from './robots-txt-blocks-all.js';
 export { RobotsMetaNoindexRule } from './robots-meta-noindex.js';
 export { SlowPageLoadRule } from './slow-page-load.js';
 export { DuplicateH1Rule } from './duplicate-h1.js';
+export { RedirectLoopRule } from './redirect-loop.js';
+export { LongRedirectChainRule } from './long-redirect-chain.js';
+export { RedirectHttpsDowngradeRule } from './redirect-https-downgrade.js';
+export { CanonicalRedirectsRule } from './canonical-redirects.js';
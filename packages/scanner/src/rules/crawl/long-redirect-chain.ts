@@ -0,0 +1,39 @@
+import { CATEGORY, Issue, SEVERITY } from '../../types.js';
+import { Rule, BaseRule, RuleContext } from '../registry.js';
+
+const MAX_RECOMMENDED_HOPS = 2;
+
+@Rule({
+  id: `${CATEGORY.CRAWL}-016`,
+  title: 'Long redirect chain',
+  category: CATEGORY.CRAWL,
+  defaultSeverity: SEVERITY.MEDIUM,
+  tags: ['redirect', 'http', 'performance'],
+  priority: 25,
+  requiresNetwork: true,
+  description: 'The URL passes through several redirects before reaching the final page. Crawlers may stop following long chains.'
+})
+export class LongRedirectChainRule extends BaseRule {
+  async execute(ctx: RuleContext): Promise<Issue | Issue[] | null> {
+    const { url, redirectChain, finalUrl } = ctx;
+
+    if (!redirectChain || redirectChain.length <= MAX_RECOMMENDED_HOPS) {
+      return null;
+    }
+
+    return {
+      id: `${CATEGORY.CRAWL}-016`,
+      title: 'Long redirect chain',
+      severity: SEVERITY.MEDIUM,
+      category: CATEGORY.CRAWL,
+      description: `The URL passes through ${redirectChain.length} redirects before reaching ${finalUrl || 'the final page'}. Crawlers may stop following long chains, and each hop adds latency.`,
+      remediation: `Redirect directly to the final URL in a single hop, and update internal links to point at it.`,
+      impactScore: 15,
+      location: { url },
+      evidence: redirectChain.map(hop => `${hop.status} ${hop.url} → ${hop.location}`),
+      tags: ['redirect', 'http', 'performance'],
+      confidence: 1,
+      timestamp: new Date().toISOString()
+    } as Issue;
+  }
+}
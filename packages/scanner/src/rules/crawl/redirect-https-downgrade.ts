@@ -0,0 +1,45 @@
+import { CATEGORY, Issue, SEVERITY } from '../../types.js';
+import { Rule, BaseRule, RuleContext } from '../registry.js';
+
+@Rule({
+  id: `${CATEGORY.CRAWL}-017`,
+  title: 'Redirect downgrades HTTPS to HTTP',
+  category: CATEGORY.CRAWL,
+  defaultSeverity: SEVERITY.HIGH,
+  tags: ['redirect', 'https', 'security'],
+  priority: 30,
+  requiresNetwork: true,
+  description: 'A redirect in the chain sends an HTTPS request to an insecure HTTP URL.'
+})
+export class RedirectHttpsDowngradeRule extends BaseRule {
+  async execute(ctx: RuleContext): Promise<Issue | Issue[] | null> {
+    const { url, redirectChain } = ctx;
+
+    if (!redirectChain || redirectChain.length === 0) {
+      return null;
+    }
+
+    const downgrades = redirectChain.filter(hop =>
+      hop.url.startsWith('https:') && hop.location.startsWith('http:')
+    );
+
+    if (downgrades.length === 0) {
+      return null;
+    }
+
+    return {
+      id: `${CATEGORY.CRAWL}-017`,
+      title: 'Redirect downgrades HTTPS to HTTP',
+      severity: SEVERITY.HIGH,
+      category: CATEGORY.CRAWL,
+      description: `${downgrades.length} redirect(s) send an HTTPS request to an insecure HTTP URL. Crawlers treat downgraded pages as less trustworthy and may refuse to follow them.`,
+      remediation: 'Update the redirect targets to HTTPS URLs and serve the final page over HTTPS.',
+      impactScore: 25,
+      location: { url },
+      evidence: downgrades.map(hop => `${hop.status} ${hop.url} → ${hop.location}`),
+      tags: ['redirect', 'https', 'security'],
+      confidence: 1,
+      timestamp: new Date().toISOString()
+    } as Issue;
+  }
+}
@@ -0,0 +1,47 @@
+import { CATEGORY, Issue, SEVERITY } from '../../types.js';
+import { Rule, BaseRule, RuleContext } from '../registry.js';
+
+@Rule({
+  id: `${CATEGORY.CRAWL}-015`,
+  title: 'Redirect loop detected',
+  category: CATEGORY.CRAWL,
+  defaultSeverity: SEVERITY.CRITICAL,
+  tags: ['redirect', 'http', 'availability'],
+  priority: 50,
+  requiresNetwork: true,
+  description: 'The URL redirects back to a URL already visited in the chain. AI crawlers give up and never reach the content.'
+})
+export class RedirectLoopRule extends BaseRule {
+  async execute(ctx: RuleContext): Promise<Issue | Issue[] | null> {
+    const { url, redirectChain } = ctx;
+
+    if (!redirectChain || redirectChain.length === 0) {
+      return null;
+    }
+
+    const visited = new Set<string>();
+    const loopHop = redirectChain.find(hop => {
+      visited.add(hop.url);
+      return visited.has(hop.location);
+    });
+
+    if (!loopHop) {
+      return null;
+    }
+
+    return {
+      id: `${CATEGORY.CRAWL}-015`,
+      title: 'Redirect loop detected',
+      severity: SEVERITY.CRITICAL,
+      category: CATEGORY.CRAWL,
+      description: `The URL redirects back to ${loopHop.location}, which was already visited. AI crawlers abandon redirect loops and never reach the content.`,
+      remediation: 'Fix the redirect rules so every hop moves closer to a single final URL that returns 200 OK.',
+      impactScore: 50,
+      location: { url },
+      evidence: redirectChain.map(hop => `${hop.status} ${hop.url} → ${hop.location}`),
+      tags: ['redirect', 'http', 'availability'],
+      confidence: 1,
+      timestamp: new Date().toISOString()
+    } as Issue;
+  }
+}
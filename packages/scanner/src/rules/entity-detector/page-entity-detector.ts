@@ -1,6 +1,7 @@
 import { CATEGORY, Issue, SEVERITY } from '../../types.js';
 import { Rule, BaseRule, RuleContext } from '../registry.js';
 import { EntityDetector } from '../../entity-detector.js';
+import { syntaxLabel } from '../../json-ld-extractor.js';
 
 @Rule({
   id: `${CATEGORY.EXTRACT}-002`,
@@ -25,6 +26,10 @@ export class PageEntityDetectorRule extends BaseRule {
       `Confidence: ${(entity.confidence * 100).toFixed(0)}%`
     ];
 
+    if (entity.syntax) {
+      evidence.push(`Source: ${syntaxLabel(entity.syntax)}`);
+    }
+
     if (entity.description) {
       evidence.push(`Description: ${entity.description.substring(0, 100)}${entity.description.length > 100 ? '...' : ''}`);
     }
@@ -70,6 +75,7 @@ export class PageEntityDetectorRule extends BaseRule {
           brand: entity.brand,
           url: entity.url,
           image: entity.image,
+          syntax: entity.syntax,
         }
       }
     } as Issue;
@@ -3,6 +3,7 @@ import './chunk.js';
 import './extract.js';
 import './entity-detector/index.js';
 import './robots.js';
+import './llms-txt/index.js';
 import './meta-tags/index.js';
 import './semantic-structure/index.js';
 import './content-quality/index.js';
@@ -17,6 +18,7 @@ import './security/index.js';
 import './multimedia/index.js';
 import './crawl/index.js';
 import './content-clarity/index.js';
+import './site/index.js';
 
 export * from './registry.js';
  
\ No newline at end of file
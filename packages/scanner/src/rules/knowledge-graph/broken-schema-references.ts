@@ -0,0 +1,25 @@
+import { CATEGORY, Issue, SEVERITY } from '../../types.js';
+import { Rule, BaseRule, RuleContext } from '../registry.js';
+import { schemaFindingIssues } from './schema-findings.js';
+
+@Rule({
+  id: `${CATEGORY.KG}-009`,
+  title: 'JSON-LD @id reference does not resolve',
+  category: CATEGORY.KG,
+  defaultSeverity: SEVERITY.MEDIUM,
+  tags: ['schema', 'validation', 'json-ld', 'microdata', 'rdfa', 'knowledge-graph'],
+  priority: 10,
+  description: 'Detects @id references (and microdata itemid / RDFa resource references) to nodes that no structured data on the page defines, which leaves holes in the entity graph.'
+})
+export class BrokenSchemaReferencesRule extends BaseRule {
+  async execute(ctx: RuleContext): Promise<Issue | Issue[] | null> {
+    return schemaFindingIssues(ctx, `${CATEGORY.KG}-009`, ['broken-reference'], ['schema', 'validation', 'knowledge-graph'], finding => ({
+      title: 'JSON-LD @id reference does not resolve',
+      severity: SEVERITY.MEDIUM,
+      description: `${finding.message}. The property points at nothing, so the relationship is lost.`,
+      remediation: 'Define the referenced node (with the same @id) on the page, or fix the @id to match an existing node.',
+      impactScore: 10,
+      confidence: 0.85
+    }));
+  }
+}
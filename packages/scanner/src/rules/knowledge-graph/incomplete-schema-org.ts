@@ -1,6 +1,6 @@
 import { CATEGORY, Issue, SEVERITY } from '../../types.js';
 import { Rule, BaseRule, RuleContext } from '../registry.js';
-import { JsonLdExtractor } from '../../json-ld-extractor.js';
+import { JsonLdExtractor, syntaxLabel } from '../../json-ld-extractor.js';
 
 @Rule({
   id: `${CATEGORY.KG}-003`,
@@ -15,7 +15,7 @@ export class IncompleteSchemaOrgRule extends BaseRule {
   async execute(ctx: RuleContext): Promise<Issue | Issue[] | null> {
     const { url, $ } = ctx;
 
-    const extractor = new JsonLdExtractor($);
+    const extractor = new JsonLdExtractor($, url);
     const jsonLd = extractor.extract();
     const schemaCount = jsonLd.schemas.length;
     
@@ -37,7 +37,10 @@ export class IncompleteSchemaOrgRule extends BaseRule {
       remediation: 'Add a primary Schema.org type that describes the main content or purpose of the page.',
       impactScore: 20,
       location: { url },
-      evidence: [`Schema types found: ${extractor.getAllTypes().join(', ') || 'none'}`],
+      evidence: [
+        `Schema types found: ${extractor.getAllTypes().join(', ') || 'none'}`,
+        `Syntaxes: ${jsonLd.syntaxes.map(syntaxLabel).join(', ')}`
+      ],
       tags: ['schema', 'entities', 'knowledge-graph'],
       confidence: 0.9,
       timestamp: new Date().toISOString()
@@ -2,3 +2,7 @@ export { MissingJsonLdRule } from './missing-json-ld.js';
 export { InvalidJsonLdRule } from './invalid-json-ld.js';
 export { IncompleteSchemaOrgRule } from './incomplete-schema-org.js';
 export { MissingBreadcrumbSchemaRule } from './missing-breadcrumb-schema.js';
+export { UnknownSchemaTermsRule } from './unknown-schema-terms.js';
+export { InvalidSchemaValuesRule } from './invalid-schema-values.js';
+export { MissingSchemaPropertiesRule } from './missing-schema-properties.js';
+export { BrokenSchemaReferencesRule } from './broken-schema-references.js';
@@ -16,7 +16,7 @@ export class InvalidJsonLdRule extends BaseRule {
     const { url, $ } = ctx;
 
     // Extract and parse all JSON-LD using the extractor
-    const extractor = new JsonLdExtractor($);
+    const extractor = new JsonLdExtractor($, url);
     const jsonLd = extractor.extract();
     
     // Report parsing errors if any
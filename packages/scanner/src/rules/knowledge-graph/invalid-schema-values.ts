@@ -0,0 +1,25 @@
+import { CATEGORY, Issue, SEVERITY } from '../../types.js';
+import { Rule, BaseRule, RuleContext } from '../registry.js';
+import { schemaFindingIssues } from './schema-findings.js';
+
+@Rule({
+  id: `${CATEGORY.KG}-007`,
+  title: 'Schema.org property has an invalid value',
+  category: CATEGORY.KG,
+  defaultSeverity: SEVERITY.MEDIUM,
+  tags: ['schema', 'validation', 'json-ld', 'microdata', 'rdfa'],
+  priority: 10,
+  description: 'Checks structured data values (JSON-LD, microdata and RDFa) against the types schema.org expects: dates, numbers, URLs, enumerations and nested entity types.'
+})
+export class InvalidSchemaValuesRule extends BaseRule {
+  async execute(ctx: RuleContext): Promise<Issue | Issue[] | null> {
+    return schemaFindingIssues(ctx, `${CATEGORY.KG}-007`, ['invalid-value'], ['schema', 'validation'], finding => ({
+      title: 'Schema.org property has an invalid value',
+      severity: SEVERITY.MEDIUM,
+      description: `${finding.message}. Values of the wrong type are dropped, so the fact never reaches AI models.`,
+      remediation: 'Use the value type schema.org expects for the property (ISO 8601 dates, plain numbers, absolute URLs, schema.org enumeration URLs).',
+      impactScore: 10,
+      confidence: 0.9
+    }));
+  }
+}
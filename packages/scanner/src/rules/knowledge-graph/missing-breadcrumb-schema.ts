@@ -15,7 +15,7 @@ export class MissingBreadcrumbSchemaRule extends BaseRule {
   async execute(ctx: RuleContext): Promise<Issue | Issue[] | null> {
     const { url, $ } = ctx;
 
-    const extractor = new JsonLdExtractor($);
+    const extractor = new JsonLdExtractor($, url);
     const jsonLd = extractor.extract();
     
     // Check for breadcrumb schema
@@ -1,5 +1,6 @@
 import { CATEGORY, Issue, SEVERITY } from '../../types.js';
 import { Rule, BaseRule, RuleContext } from '../registry.js';
+import { JsonLdExtractor } from '../../json-ld-extractor.js';
 
 @Rule({
   id: `${CATEGORY.KG}-001`,
@@ -14,9 +15,9 @@ export class MissingJsonLdRule extends BaseRule {
   async execute(ctx: RuleContext): Promise<Issue | Issue[] | null> {
     const { url, $ } = ctx;
 
-    // Check for JSON-LD
+    // Check for JSON-LD (unparseable blocks are KG-002's), then microdata and RDFa
     const jsonLd = $('script[type="application/ld+json"]');
-    if (jsonLd.length > 0) {
+    if (jsonLd.length > 0 || new JsonLdExtractor($, url).extract().schemas.length > 0) {
       return null;
     }
 
@@ -25,7 +26,7 @@ export class MissingJsonLdRule extends BaseRule {
       title: 'No Schema.org structured data',
       severity: SEVERITY.HIGH,
       category: CATEGORY.KG,
-      description: 'The page lacks Schema.org structured data in JSON-LD format. This prevents AI from building knowledge graphs from your content.',
+      description: 'The page lacks Schema.org structured data (no JSON-LD, microdata or RDFa). This prevents AI from building knowledge graphs from your content.',
       remediation: 'Add Schema.org structured data using JSON-LD. Consider Organization, Person, Article, Product, or other relevant schemas.',
       impactScore: 30,
       location: { url },
@@ -0,0 +1,30 @@
+import { CATEGORY, Issue, SEVERITY } from '../../types.js';
+import { Rule, BaseRule, RuleContext } from '../registry.js';
+import { schemaFindingIssues } from './schema-findings.js';
+
+@Rule({
+  id: `${CATEGORY.KG}-008`,
+  title: 'Structured data misses rich-result properties',
+  category: CATEGORY.KG,
+  defaultSeverity: SEVERITY.MEDIUM,
+  tags: ['schema', 'rich-results', 'json-ld', 'microdata', 'rdfa'],
+  priority: 10,
+  description: 'Checks required and recommended properties for Product, Article, FAQPage, HowTo, Event, Organization and LocalBusiness structured data.'
+})
+export class MissingSchemaPropertiesRule extends BaseRule {
+  async execute(ctx: RuleContext): Promise<Issue | Issue[] | null> {
+    return schemaFindingIssues(ctx, `${CATEGORY.KG}-008`, ['missing-required', 'missing-recommended'], ['schema', 'rich-results'], finding => {
+      const required = finding.kind === 'missing-required';
+      return {
+        title: required ? `${finding.type} misses a required property` : `${finding.type} misses a recommended property`,
+        severity: required ? SEVERITY.MEDIUM : SEVERITY.LOW,
+        description: required
+          ? `${finding.message}. Without it the ${finding.type} is not eligible for rich results and is easy to misread.`
+          : `${finding.message}. Complete entities are easier for AI models to cite.`,
+        remediation: `Add the missing property to the ${finding.type} node.`,
+        impactScore: required ? 12 : 4,
+        confidence: required ? 0.9 : 0.7
+      };
+    });
+  }
+}
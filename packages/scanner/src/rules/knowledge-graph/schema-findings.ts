@@ -0,0 +1,43 @@
+import { CATEGORY, Issue, SEVERITY } from '../../types.js';
+import { RuleContext } from '../registry.js';
+import { findingSource, SchemaFinding, SchemaFindingKind, validateSchemaOrg } from '../../schema-validator.js';
+
+/** What a KG-006..009 rule says about one finding */
+export interface SchemaFindingReport {
+  title: string;
+  severity: SEVERITY;
+  description: string;
+  remediation: string;
+  impactScore: number;
+  confidence: number;
+}
+
+/**
+ * Issues for the schema.org findings of the given kinds. The page is validated
+ * once per scan (see validateSchemaOrg); issues are tagged with the syntax of
+ * the structured data they are about (json-ld, microdata or rdfa).
+ */
+export function schemaFindingIssues(
+  ctx: RuleContext,
+  id: string,
+  kinds: SchemaFindingKind[],
+  tags: string[],
+  report: (finding: SchemaFinding) => SchemaFindingReport
+): Issue[] | null {
+  const { url, $, html } = ctx;
+
+  const findings = validateSchemaOrg($, url, html).filter(finding => kinds.includes(finding.kind));
+  if (findings.length === 0) {
+    return null;
+  }
+
+  return findings.map(finding => ({
+    id,
+    category: CATEGORY.KG,
+    ...report(finding),
+    location: { url, selector: finding.selector, line: finding.line, textSnippet: finding.path },
+    evidence: [`${findingSource(finding)}: ${finding.path || finding.type}`, finding.message],
+    tags: [...tags, finding.syntax],
+    timestamp: new Date().toISOString()
+  }));
+}
@@ -0,0 +1,34 @@
+import { CATEGORY, Issue, SEVERITY } from '../../types.js';
+import { Rule, BaseRule, RuleContext } from '../registry.js';
+import type { SchemaFindingKind } from '../../schema-validator.js';
+import { schemaFindingIssues } from './schema-findings.js';
+
+@Rule({
+  id: `${CATEGORY.KG}-006`,
+  title: 'Unknown Schema.org type or property',
+  category: CATEGORY.KG,
+  defaultSeverity: SEVERITY.MEDIUM,
+  tags: ['schema', 'validation', 'json-ld', 'microdata', 'rdfa'],
+  priority: 10,
+  description: 'Validates structured data types and properties (JSON-LD, microdata and RDFa) against the schema.org vocabulary. Misspelt or misplaced terms are ignored by AI crawlers.'
+})
+export class UnknownSchemaTermsRule extends BaseRule {
+  async execute(ctx: RuleContext): Promise<Issue | Issue[] | null> {
+    const kinds: SchemaFindingKind[] = ['unknown-type', 'unknown-property', 'property-not-in-domain'];
+    return schemaFindingIssues(ctx, `${CATEGORY.KG}-006`, kinds, ['schema', 'validation'], finding => {
+      const unknownType = finding.kind === 'unknown-type';
+      return {
+        title: unknownType ? 'Unknown Schema.org type'
+          : finding.kind === 'unknown-property' ? 'Unknown Schema.org property'
+          : 'Schema.org property used on the wrong type',
+        severity: unknownType ? SEVERITY.MEDIUM : SEVERITY.LOW,
+        description: `${finding.message}. Terms outside the vocabulary are dropped when the structured data is read.`,
+        remediation: finding.kind === 'property-not-in-domain'
+          ? 'Move the property to a node of a type that defines it, or use a more specific @type.'
+          : 'Fix the spelling (names are case-sensitive) or use a type or property from schema.org.',
+        impactScore: unknownType ? 12 : 6,
+        confidence: finding.kind === 'property-not-in-domain' ? 0.8 : 0.9
+      };
+    });
+  }
+}
@@ -1,5 +1,17 @@
 import { CATEGORY, Issue, SEVERITY } from '../../types.js';
 import { Rule, BaseRule, RuleContext } from '../registry.js';
+import { checkLinks, LinkCheckResult } from '../../link-checker.js';
+import { normalizeUrl } from '../../urls.js';
+import { isFileUrl } from '../../utils.js';
+
+const MAX_LINKS = 100;   // Unique internal links checked per page
+
+const PROBLEMS: Record<NonNullable<LinkCheckResult['problem']>, { severity: SEVERITY; describe: (r: LinkCheckResult) => string }> = {
+  'http-error': { severity: SEVERITY.MEDIUM, describe: r => `returns HTTP ${r.status}` },
+  'soft-404': { severity: SEVERITY.MEDIUM, describe: r => `redirects to the home page (${r.finalUrl}), a sign the page was removed` },
+  'timeout': { severity: SEVERITY.LOW, describe: r => `did not respond (${r.error})` },
+  'network': { severity: SEVERITY.LOW, describe: r => `could not be fetched (${r.error})` }
+};
 
 @Rule({
   id: `${CATEGORY.AIREAD}-041`,
@@ -8,7 +20,7 @@ import { Rule, BaseRule, RuleContext } from '../registry.js';
   defaultSeverity: SEVERITY.MEDIUM,
   tags: ['links', 'navigation', 'crawlability'],
   priority: 11,
-  description: 'Analyzes link structure for AI crawler navigation: internal links, external links, and link attributes.'
+  description: 'Checks that the page links somewhere and that its internal links resolve: 4xx/5xx responses, timeouts and soft 404s (redirects to the home page) are dead ends for AI crawlers.'
 })
 export class BrokenInternalLinksRule extends BaseRule {
   async execute(ctx: RuleContext): Promise<Issue | Issue[] | null> {
@@ -34,6 +46,63 @@ export class BrokenInternalLinksRule extends BaseRule {
       } as Issue;
     }
 
-    return null;
+    // Link targets can only be checked over the network
+    const pageUrl = ctx.finalUrl || url;
+    if (ctx.offline || isFileUrl(pageUrl)) return null;
+
+    // First anchor for each unique internal target
+    const base = new URL($('base[href]').attr('href') || pageUrl, pageUrl);
+    const anchors = new Map<string, { href: string; text: string }>();
+    links.each((_, el) => {
+      const href = ($(el).attr('href') || '').trim();
+      if (!href || href.startsWith('#') || /^(mailto|tel|javascript|data):/i.test(href)) return;
+      try {
+        const target = new URL(href, base);
+        if (target.host !== new URL(pageUrl).host || !/^https?:$/.test(target.protocol)) return;
+        const key = normalizeUrl(target.href);
+        if (key === normalizeUrl(pageUrl) || anchors.has(key)) return;
+        const text = $(el).text().replace(/\s+/g, ' ').trim()
+          || $(el).attr('aria-label')
+          || $(el).find('img[alt]').attr('alt')
+          || '';
+        anchors.set(key, { href, text });
+      } catch {
+        // Malformed hrefs are not links crawlers can follow either
+      }
+    });
+
+    const targets = Array.from(anchors.keys()).slice(0, MAX_LINKS);
+    const results = await checkLinks(targets, { ...ctx.linkCheck, userAgent: ctx.options?.userAgent, signal: ctx.signal });
+
+    const issues = results
+      .filter(result => !result.ok && result.problem)
+      .map(result => {
+        const anchor = anchors.get(result.url)!;
+        const problem = PROBLEMS[result.problem!];
+        return {
+          id: `${CATEGORY.AIREAD}-041`,
+          title: 'Broken internal link',
+          severity: problem.severity,
+          category: CATEGORY.AIREAD,
+          description: `Link "${anchor.text || anchor.href}" points to ${result.url}, which ${problem.describe(result)}.`,
+          remediation: 'Update the link to the page\'s current URL, restore the target page, or remove the link.',
+          impactScore: result.problem === 'timeout' || result.problem === 'network' ? 10 : 20,
+          location: {
+            url,
+            selector: `a[href="${anchor.href.replace(/["\\]/g, '\\$&')}"]`,
+            textSnippet: anchor.text || undefined
+          },
+          evidence: [
+            `Target: ${result.url}`,
+            result.status ? `Status: ${result.status}` : `Error: ${result.error}`,
+            ...(result.finalUrl !== result.url ? [`Redirects to: ${result.finalUrl}`] : [])
+          ],
+          tags: ['links', 'navigation', 'crawlability', 'broken-link'],
+          confidence: result.problem === 'soft-404' ? 0.7 : 0.9,
+          timestamp: new Date().toISOString()
+        } as Issue;
+      });
+
+    return issues.length > 0 ? issues : null;
   }
 }
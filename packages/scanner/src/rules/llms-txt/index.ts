@@ -0,0 +1,3 @@
+export { MissingLlmsTxtRule } from './missing-llms-txt.js';
+export { InvalidLlmsTxtRule } from './invalid-llms-txt.js';
+export { LlmsTxtDeadLinksRule } from './llms-txt-dead-links.js';
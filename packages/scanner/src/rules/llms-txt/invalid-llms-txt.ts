@@ -0,0 +1,70 @@
+import { CATEGORY, Issue, SEVERITY } from '../../types.js';
+import { Rule, BaseRule, RuleContext } from '../registry.js';
+import { fetchLlmsTxt, parseLlmsTxt, validateLlmsTxt } from '../../llms-txt.js';
+
+@Rule({
+  id: `${CATEGORY.AIREAD}-101`,
+  title: 'llms.txt does not follow the llms.txt format',
+  category: CATEGORY.AIREAD,
+  defaultSeverity: SEVERITY.MEDIUM,
+  tags: ['llms-txt', 'ai-agents', 'markdown'],
+  priority: 40,
+  requiresNetwork: true,
+  description: 'Validates the markdown structure of /llms.txt and /llms-full.txt: H1 title, blockquote summary and H2 link sections.'
+})
+export class InvalidLlmsTxtRule extends BaseRule {
+  async execute(ctx: RuleContext): Promise<Issue | Issue[] | null> {
+    const { url } = ctx;
+    const siteUrl = ctx.finalUrl || url;
+    const issues: Issue[] = [];
+
+    const file = await fetchLlmsTxt(siteUrl, 'llms.txt', ctx.options?.timeoutMs);
+    if (file.found && file.text !== undefined) {
+      const problems = validateLlmsTxt(parseLlmsTxt(file.text));
+      if (problems.length > 0) {
+        issues.push({
+          id: `${CATEGORY.AIREAD}-101`,
+          title: 'llms.txt does not follow the llms.txt format',
+          severity: SEVERITY.MEDIUM,
+          category: CATEGORY.AIREAD,
+          description: `/llms.txt has ${problems.length} structural problem(s). Tools that parse llms.txt expect a fixed markdown layout and may ignore or misread the file.`,
+          remediation: 'Start the file with "# Site name", follow with a "> one-sentence summary", then group links under "## Section" headings as "- [Title](url): notes" list items. Put secondary links under "## Optional".',
+          impactScore: 15,
+          location: { url: file.url },
+          evidence: problems.map(p => p.line ? `Line ${p.line}: ${p.message}` : p.message),
+          tags: ['llms-txt', 'ai-agents', 'markdown'],
+          confidence: 0.9,
+          timestamp: new Date().toISOString()
+        } as Issue);
+      }
+    }
+
+    // llms-full.txt holds the full content inline, so only the title is required
+    const full = await fetchLlmsTxt(siteUrl, 'llms-full.txt', ctx.options?.timeoutMs);
+    if (full.found && full.text !== undefined) {
+      const doc = parseLlmsTxt(full.text);
+      const evidence: string[] = [];
+      if (full.text.trim().length === 0) evidence.push('File is empty');
+      else if (!doc.title) evidence.push('Missing H1 title');
+
+      if (evidence.length > 0) {
+        issues.push({
+          id: `${CATEGORY.AIREAD}-101`,
+          title: 'llms-full.txt does not follow the llms.txt format',
+          severity: SEVERITY.LOW,
+          category: CATEGORY.AIREAD,
+          description: '/llms-full.txt exists but is not a markdown document with an H1 title, so tools cannot tell what it contains.',
+          remediation: 'Start llms-full.txt with "# Site name" and a "> " summary, followed by the full markdown content of your key pages.',
+          impactScore: 10,
+          location: { url: full.url },
+          evidence,
+          tags: ['llms-txt', 'ai-agents', 'markdown'],
+          confidence: 0.9,
+          timestamp: new Date().toISOString()
+        } as Issue);
+      }
+    }
+
+    return issues.length > 0 ? issues : null;
+  }
+}
@@ -0,0 +1,49 @@
+import { CATEGORY, Issue, SEVERITY } from '../../types.js';
+import { Rule, BaseRule, RuleContext } from '../registry.js';
+import { fetchLlmsTxt, findDeadLlmsTxtLinks, parseLlmsTxt } from '../../llms-txt.js';
+
+@Rule({
+  id: `${CATEGORY.AIREAD}-102`,
+  title: 'llms.txt links to missing pages',
+  category: CATEGORY.AIREAD,
+  defaultSeverity: SEVERITY.MEDIUM,
+  tags: ['llms-txt', 'ai-agents', 'links'],
+  priority: 45,
+  requiresNetwork: true,
+  description: 'Checks that every link listed in /llms.txt resolves, so LLM tools are not sent to dead pages.'
+})
+export class LlmsTxtDeadLinksRule extends BaseRule {
+  async execute(ctx: RuleContext): Promise<Issue | Issue[] | null> {
+    const { url } = ctx;
+
+    const file = await fetchLlmsTxt(ctx.finalUrl || url, 'llms.txt', ctx.options?.timeoutMs);
+    if (!file.found || file.text === undefined) return null;
+
+    const links = parseLlmsTxt(file.text).sections.flatMap(s => s.links);
+    if (links.length === 0) return null;
+
+    const dead = await findDeadLlmsTxtLinks(links, file.url, {
+      ...ctx.linkCheck,
+      userAgent: ctx.options?.userAgent,
+      signal: ctx.signal
+    });
+    if (dead.length === 0) return null;
+
+    return {
+      id: `${CATEGORY.AIREAD}-102`,
+      title: 'llms.txt links to missing pages',
+      severity: SEVERITY.MEDIUM,
+      category: CATEGORY.AIREAD,
+      description: `${dead.length} of ${links.length} link(s) in /llms.txt do not resolve. LLM tools that follow them get errors instead of your content.`,
+      remediation: 'Update or remove the dead links in llms.txt. Regenerate the file after moving or deleting pages.',
+      impactScore: 15,
+      location: { url: file.url },
+      evidence: dead.slice(0, 10).map(d =>
+        `Line ${d.link.line}: ${d.link.url} → ${d.status ? `HTTP ${d.status}` : d.error || 'no response'}`
+      ),
+      tags: ['llms-txt', 'ai-agents', 'links'],
+      confidence: 0.9,
+      timestamp: new Date().toISOString()
+    } as Issue;
+  }
+}
@@ -0,0 +1,48 @@
+import { CATEGORY, Issue, SEVERITY } from '../../types.js';
+import { Rule, BaseRule, RuleContext } from '../registry.js';
+import { fetchLlmsTxt } from '../../llms-txt.js';
+
+@Rule({
+  id: `${CATEGORY.AIREAD}-100`,
+  title: 'Missing llms.txt',
+  category: CATEGORY.AIREAD,
+  defaultSeverity: SEVERITY.LOW,
+  tags: ['llms-txt', 'ai-agents', 'discoverability'],
+  priority: 40,
+  requiresNetwork: true,
+  description: 'The site does not publish /llms.txt, the markdown index that points LLMs at its most useful content.'
+})
+export class MissingLlmsTxtRule extends BaseRule {
+  async execute(ctx: RuleContext): Promise<Issue | Issue[] | null> {
+    const { url } = ctx;
+    const siteUrl = ctx.finalUrl || url;
+
+    const file = await fetchLlmsTxt(siteUrl, 'llms.txt', ctx.options?.timeoutMs);
+    if (file.found) return null;
+
+    const full = await fetchLlmsTxt(siteUrl, 'llms-full.txt', ctx.options?.timeoutMs);
+    const evidence = [
+      file.servedAsHtml
+        ? `${file.url} returned an HTML page (content-type: ${file.contentType || 'unknown'})`
+        : `${file.url} returned ${file.status ? `HTTP ${file.status}` : 'no response'}`
+    ];
+    if (full.found) evidence.push(`${full.url} exists, but llms.txt is the entry point LLM tools look for`);
+
+    return {
+      id: `${CATEGORY.AIREAD}-100`,
+      title: 'Missing llms.txt',
+      severity: SEVERITY.LOW,
+      category: CATEGORY.AIREAD,
+      description: file.servedAsHtml
+        ? 'The site answers /llms.txt with an HTML page (usually an SPA fallback), so LLM tools get no usable index of the site.'
+        : 'The site does not publish /llms.txt. LLM tools and agents use it as a curated markdown index of the pages worth reading.',
+      remediation: 'Publish /llms.txt as text/markdown: an H1 with the site name, a "> " summary, then "## " sections listing "- [Title](url): notes" links. Run `ai-lighthouse llms-txt` on a crawl report to generate a draft.',
+      impactScore: 10,
+      location: { url: file.url },
+      evidence,
+      tags: ['llms-txt', 'ai-agents', 'discoverability'],
+      confidence: file.status === 0 ? 0.6 : 0.95,
+      timestamp: new Date().toISOString()
+    } as Issue;
+  }
+}
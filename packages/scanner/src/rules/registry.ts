@@ -1,5 +1,7 @@
 import * as cheerio from 'cheerio';
-import { Issue, ScanOptions, SEVERITY } from '../types.js';
+import { Issue, RedirectHop, ScanOptions, ScanResult, SEVERITY } from '../types.js';
+import type { RobotsAccessMatrix } from '../robots-txt.js';
+import type { LinkCheckPolicy } from '../link-checker.js';
 
 export type RuleContext = {
   url: string;
@@ -7,6 +9,12 @@ export type RuleContext = {
   $: cheerio.CheerioAPI;
   options?: ScanOptions;
   response?: Response;
+  finalUrl?: string;
+  redirectChain?: RedirectHop[];
+  robotsAccess?: RobotsAccessMatrix;
+  offline?: boolean; // No network access: rules with requiresNetwork are skipped
+  signal?: AbortSignal; // Aborted when the rule times out: stop requests and return
+  linkCheck?: LinkCheckPolicy; // Host limiter and robots.txt verdicts of the crawl, for rules that check links
 }
 
 export abstract class BaseRule {
@@ -24,6 +32,7 @@ export type RuleMeta = {
   tags?: string[];
   priority?: number;
   description?: string;
+  requiresNetwork?: boolean; // Rule fetches remote resources or needs the live HTTP response
 }
 
 export type RegisteredRule = {
@@ -34,7 +43,19 @@ export type RegisteredRule = {
 // Registry to hold all registered rules
 const RULES: RegisteredRule[] = [];
 
+/**
+ * Rule IDs are shared by page and site rules; a plugin reusing a built-in ID
+ * would silently shadow its results
+ */
+function assertUniqueId(meta: RuleMeta, ctorName: string) {
+  const existing = [...RULES, ...SITE_RULES].find(r => r.meta.id === meta.id);
+  if (existing) {
+    throw new Error(`Rule ID collision: ${ctorName} uses ${meta.id}, which is already registered by ${existing.ctor.name}`);
+  }
+}
+
 export function registerRule(meta: RuleMeta, ctor: RuleConstructor) {
+  assertUniqueId(meta, ctor.name);
   RULES.push({ meta, ctor });
 
   RULES.sort((a, b) => ((a.meta.priority ?? 100) - (b.meta.priority ?? 100)));
@@ -49,4 +70,61 @@ export function Rule(meta: RuleMeta) {
     registerRule(meta, target);
     return target;
   };
-}
\ No newline at end of file
+}
+
+/**
+ * A crawled page as seen by site rules
+ */
+export type SitePage = {
+  url: string;           // Requested URL
+  finalUrl: string;      // Normalized URL after redirects
+  status: number;
+  depth?: number;        // Link depth from the crawl seeds
+  html: string;
+  $: cheerio.CheerioAPI;
+  links: string[];       // Normalized outgoing http(s) links
+  result?: ScanResult;   // Single-page audit, when the page was audited
+}
+
+export type SiteRuleContext = {
+  pages: SitePage[];
+  startUrls: string[];   // Crawl seeds
+  options?: ScanOptions;
+  signal?: AbortSignal;  // Aborted when the rule times out
+}
+
+/**
+ * Rules that run once per crawl over every page, for problems that only show
+ * up across pages (duplicate titles, orphan pages, ...)
+ */
+export abstract class BaseSiteRule {
+  meta?: RuleMeta;
+  abstract execute(ctx: SiteRuleContext): Promise<Issue | Issue[] | null>;
+}
+
+export type SiteRuleConstructor<T extends BaseSiteRule = BaseSiteRule> = new (...args: any[]) => T;
+
+export type RegisteredSiteRule = {
+  meta: RuleMeta;
+  ctor: SiteRuleConstructor;
+};
+
+const SITE_RULES: RegisteredSiteRule[] = [];
+
+export function registerSiteRule(meta: RuleMeta, ctor: SiteRuleConstructor) {
+  assertUniqueId(meta, ctor.name);
+  SITE_RULES.push({ meta, ctor });
+
+  SITE_RULES.sort((a, b) => ((a.meta.priority ?? 100) - (b.meta.priority ?? 100)));
+}
+
+export function getRegisteredSiteRules(): RegisteredSiteRule[] {
+  return SITE_RULES.slice();
+}
+
+export function SiteRule(meta: RuleMeta) {
+  return function (target: SiteRuleConstructor) {
+    registerSiteRule(meta, target);
+    return target;
+  };
+}
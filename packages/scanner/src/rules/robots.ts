@@ -1,23 +1,9 @@
 import { CATEGORY, Issue, SEVERITY } from '../types.js';
 import { Rule, BaseRule, RuleContext } from './registry.js';
-import ubdici from 'undici';
+import { buildAICrawlerAccessMatrix, fetchRobotsTxt } from '../robots-txt.js';
 
-const AI_CRAWLERS = [
-  { name: 'GPTBot', agent: 'gptbot' },
-  { name: 'ClaudeBot', agent: 'claudebot' },
-  { name: 'Claude-Web', agent: 'claude-web' },
-  { name: 'Anthropic-AI', agent: 'anthropic-ai' },
-  { name: 'PerplexityBot', agent: 'perplexitybot' },
-  { name: 'Perplexity', agent: 'perplexity' },
-  { name: 'Google-Extended', agent: 'google-extended' },
-  { name: 'CCBot', agent: 'ccbot' },
-  { name: 'Cohere-AI', agent: 'cohere-ai' },
-  { name: 'Omgilibot', agent: 'omgilibot' },
-  { name: 'FacebookBot', agent: 'facebookbot' },
-  { name: 'Diffbot', agent: 'diffbot' },
-  { name: 'Bytespider', agent: 'bytespider' },
-  { name: 'ImagesiftBot', agent: 'imagesiftbot' }
-]
+export { AI_CRAWLERS } from '../robots-txt.js';
+export type { AICrawler } from '../robots-txt.js';
 
 @Rule({
   id: `${CATEGORY.AIREAD}-009`,
@@ -26,41 +12,33 @@ const AI_CRAWLERS = [
   defaultSeverity: SEVERITY.CRITICAL,
   tags: ['crawl','robots', 'ai-agents'],
   priority: 5,
+  requiresNetwork: true,
   description: 'Detects robots directives that block popular AI crawlers such as GPTBot, ClaudeBot, Perplexity, and others.'
 })
 export class RobotsRule extends BaseRule {
   async execute(ctx: RuleContext): Promise<Issue | Issue[] | null> {
     const { url } = ctx;
     try {
-      const root = new URL(url).origin;
-      const robotsUrl = `${root}/robots.txt`;
+      // Reuse the matrix computed by the scan when available
+      const matrix = ctx.robotsAccess ?? buildAICrawlerAccessMatrix(await fetchRobotsTxt(url, ctx.options?.timeoutMs), url);
+      if (!matrix.found && matrix.status < 500) return null;
 
-      const res = await fetch(robotsUrl);
-      if (!res || res.status >= 400) return null;
-      const txt = await res.text();
-      const lower = txt.toLowerCase();
+      const blocked = matrix.crawlers.filter(c => !c.allowed);
 
-      const blockedCrawlers: string[] = [];
-      
-      for (const crawler of AI_CRAWLERS) {
-        if (lower.includes(crawler.agent) && lower.includes('disallow')) {
-          blockedCrawlers.push(crawler.name);
-        }
-      }
-
-      if (blockedCrawlers.length > 0) {
+      if (blocked.length > 0) {
+        const blockedCrawlers = blocked.map(c => c.crawler);
         return {
           id: `${CATEGORY.AIREAD}-009`,
           title: 'robots.txt blocks AI crawlers',
           severity: SEVERITY.CRITICAL,
           category: CATEGORY.AIREAD,
-          description: `robots.txt disallows ${blockedCrawlers.length} known AI crawler(s): ${blockedCrawlers.join(', ')}. This prevents AI indexers from accessing content for training and search.`,
+          description: `robots.txt disallows ${blockedCrawlers.length} known AI crawler(s) from ${matrix.path}: ${blockedCrawlers.join(', ')}. This prevents AI indexers from accessing content for training and search.`,
           remediation: 'Consider allowing AI crawlers in robots.txt if you want your content indexed by AI systems. Review which crawlers should have access and update robots.txt accordingly.',
           impactScore: 40,
-          location: { url: robotsUrl },
+          location: { url: matrix.robotsUrl },
           evidence: [
             `Blocked crawlers: ${blockedCrawlers.join(', ')}`,
-            `robots.txt preview: ${txt.slice(0, 800)}`
+            ...blocked.map(c => `${c.crawler} (group "${c.group}"): ${c.rule ?? 'blocked'}`)
           ],
           tags: ['crawl','robots', 'ai-agents'],
           confidence: 0.95,
@@ -1,38 +1,177 @@
 // packages/scanner/src/rules/runner.ts
-import { CATEGORY, Issue, SEVERITY } from '../types.js';
-import { getRegisteredRules } from './registry.js';
-import type { RuleContext } from './registry.js';
-
-export async function runRegisteredRules(ctx: RuleContext) {
-  const regs = getRegisteredRules();
-  const allIssues: Issue[] = [];
-
-  for (const r of regs) {
-    const Ctor = r.ctor;
-    try {
-      const instance = new Ctor();
-      (instance as any).meta = r.meta;
-      const res = await Promise.resolve(instance.execute(ctx));
-      if (!res) continue;
-      if (Array.isArray(res)) allIssues.push(...res);
-      else allIssues.push(res);
-    } catch (err) {
-      allIssues.push({
-        id: 'MISC-ERR',
-        title: `Rule ${r.meta.id} failed to run`,
-        severity: SEVERITY.LOW,
-        category: CATEGORY.MISC,
-        description: String(err ?? err),
-        remediation: 'Report this rule error to maintainers.',
-        impactScore: 1,
-        location: { url: ctx.url },
-        evidence: [],
-        tags: ['rule-error'],
-        confidence: 0,
-        timestamp: new Date().toISOString()
+import { CATEGORY, Issue, RuleTiming, ScanOptions, SEVERITY, SkippedRule } from '../types.js';
+import { getRegisteredRules, getRegisteredSiteRules } from './registry.js';
+import type { RuleContext, RuleMeta, SiteRuleContext } from './registry.js';
+import { isRuleEnabled } from '../rule-settings.js';
+
+export type RuleRunResult = {
+  issues: Issue[];
+  skipped: SkippedRule[];
+  profile: RuleTiming[];   // One entry per executed rule, in registry order
+};
+
+const DEFAULT_RULE_CONCURRENCY = 4;
+const DEFAULT_RULE_TIMEOUT_MS = 30000;
+
+export type Runnable<C> = {
+  meta: RuleMeta;
+  ctor: new (...args: any[]) => { execute(ctx: C): Promise<Issue | Issue[] | null> | Issue | Issue[] | null };
+};
+
+class RuleTimeoutError extends Error {}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, controller: AbortController): Promise<T> {
+  if (!timeoutMs || timeoutMs <= 0) return promise;
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new RuleTimeoutError();
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Run rules with bounded concurrency. A rule that exceeds the timeout is
+ * abandoned (its late result is ignored) and reported as timed out; the
+ * signal in its context is aborted so it can stop its requests.
+ * Issues keep registry order regardless of completion order.
+ */
+export async function executeRules<C extends { signal?: AbortSignal }>(
+  regs: Runnable<C>[],
+  ctx: C,
+  options: ScanOptions | undefined,
+  url: string | undefined
+): Promise<{ issues: Issue[]; profile: RuleTiming[] }> {
+  const concurrency = Math.max(1, options?.ruleConcurrency ?? DEFAULT_RULE_CONCURRENCY);
+  const timeoutMs = options?.ruleTimeoutMs ?? DEFAULT_RULE_TIMEOUT_MS;
+  const results: Issue[][] = new Array(regs.length);
+  const profile: RuleTiming[] = new Array(regs.length);
+
+  let next = 0;
+  const workers = Array.from({ length: Math.min(concurrency, regs.length) }, async () => {
+    while (next < regs.length) {
+      const i = next++;
+      const r = regs[i];
+      const started = performance.now();
+      let status: RuleTiming['status'] = 'ok';
+
+      try {
+        const instance = new r.ctor();
+        (instance as any).meta = r.meta;
+        const controller = new AbortController();
+        const res = await withTimeout(Promise.resolve(instance.execute({ ...ctx, signal: controller.signal })), timeoutMs, controller);
+        results[i] = !res ? [] : Array.isArray(res) ? res : [res];
+      } catch (err) {
+        if (err instanceof RuleTimeoutError) {
+          status = 'timeout';
+          results[i] = [ruleTimeoutIssue(r.meta, timeoutMs, url)];
+        } else {
+          status = 'error';
+          results[i] = [ruleErrorIssue(r.meta, err, url)];
+        }
+      }
+
+      profile[i] = {
+        id: r.meta.id,
+        title: r.meta.title,
+        durationMs: Math.round((performance.now() - started) * 10) / 10,
+        status,
+        issues: status === 'ok' ? results[i].length : 0
+      };
+    }
+  });
+  await Promise.all(workers);
+
+  return { issues: results.flat(), profile };
+}
+
+/**
+ * Run the registered page rules. With `only`, rules without its tag are
+ * skipped with its reason (e.g. only the redirect rules for a page never reached).
+ */
+export async function runRegisteredRules(ctx: RuleContext, only?: { tag: string; reason: string }): Promise<RuleRunResult> {
+  const toRun: Runnable<RuleContext>[] = [];
+  const skipped: SkippedRule[] = [];
+
+  for (const r of getRegisteredRules()) {
+    if (!isRuleEnabled(ctx.options?.rules, r.meta.id, r.meta.category)) {
+      skipped.push({ id: r.meta.id, title: r.meta.title, reason: 'Disabled in configuration' });
+      continue;
+    }
+
+    if (only && !r.meta.tags?.includes(only.tag)) {
+      skipped.push({ id: r.meta.id, title: r.meta.title, reason: only.reason });
+      continue;
+    }
+
+    if (ctx.offline && r.meta.requiresNetwork) {
+      skipped.push({
+        id: r.meta.id,
+        title: r.meta.title,
+        reason: 'Requires network access (offline scan)'
       });
+      continue;
     }
+
+    toRun.push(r);
   }
 
-  return allIssues;
+  const { issues, profile } = await executeRules(toRun, ctx, ctx.options, ctx.url);
+  return { issues, skipped, profile };
+}
+
+/**
+ * Run the registered site rules once over all pages of a crawl
+ */
+export async function runSiteRules(ctx: SiteRuleContext): Promise<RuleRunResult> {
+  const toRun: Runnable<SiteRuleContext>[] = [];
+  const skipped: SkippedRule[] = [];
+
+  for (const r of getRegisteredSiteRules()) {
+    if (!isRuleEnabled(ctx.options?.rules, r.meta.id, r.meta.category)) {
+      skipped.push({ id: r.meta.id, title: r.meta.title, reason: 'Disabled in configuration' });
+      continue;
+    }
+    toRun.push(r);
+  }
+
+  const { issues, profile } = await executeRules(toRun, ctx, ctx.options, ctx.startUrls[0]);
+  return { issues, skipped, profile };
+}
+
+function ruleErrorIssue(meta: RuleMeta, err: unknown, url?: string): Issue {
+  return {
+    id: 'MISC-ERR',
+    title: `Rule ${meta.id} failed to run`,
+    severity: SEVERITY.LOW,
+    category: CATEGORY.MISC,
+    description: String(err ?? err),
+    remediation: 'Report this rule error to maintainers.',
+    impactScore: 1,
+    location: { url },
+    evidence: [],
+    tags: ['rule-error'],
+    confidence: 0,
+    timestamp: new Date().toISOString()
+  };
+}
+
+function ruleTimeoutIssue(meta: RuleMeta, timeoutMs: number, url?: string): Issue {
+  return {
+    id: 'MISC-TIMEOUT',
+    title: `Rule ${meta.id} timed out`,
+    severity: SEVERITY.LOW,
+    category: CATEGORY.MISC,
+    description: `Rule "${meta.title}" did not finish within ${timeoutMs}ms and was abandoned; its checks are missing from this scan.`,
+    remediation: 'Raise ruleTimeoutMs if the site is slow to respond, or report the rule to maintainers.',
+    impactScore: 1,
+    location: { url },
+    evidence: [`Timeout: ${timeoutMs}ms`],
+    tags: ['rule-timeout'],
+    confidence: 0,
+    timestamp: new Date().toISOString()
+  };
 }
@@ -0,0 +1,56 @@
+import { CATEGORY, Issue, SEVERITY } from '../../types.js';
+import { SiteRule, BaseSiteRule, SiteRuleContext } from '../registry.js';
+import { buildLinkGraph } from '../../link-graph.js';
+
+const MIN_PAGES = 10;   // Centrality and inbound counts mean little on smaller crawls
+
+@SiteRule({
+  id: `${CATEGORY.CRAWL}-028`,
+  title: 'Important page buried in site structure',
+  category: CATEGORY.CRAWL,
+  defaultSeverity: SEVERITY.MEDIUM,
+  tags: ['site', 'links', 'link-graph', 'discoverability'],
+  priority: 25,
+  description: 'A page with high link centrality is many clicks from the entry point or has few inbound links, so crawlers with a limited budget may not reach it.'
+})
+export class BuriedImportantPagesRule extends BaseSiteRule {
+  async execute(ctx: SiteRuleContext): Promise<Issue | Issue[] | null> {
+    if (ctx.pages.length < MIN_PAGES) return null;
+
+    const graph = buildLinkGraph(
+      ctx.pages.filter(page => page.status < 400),
+      { startUrls: ctx.startUrls }
+    );
+
+    // Pages without any inbound link are reported as orphans
+    const buried = graph.nodes.filter(node => node.important && node.inDegree > 0 && node.flags.length > 0);
+    if (buried.length === 0) return null;
+
+    return buried.map(node => {
+      const evidence = [
+        `Click depth: ${node.clickDepth ?? 'unreachable from the entry point'}`,
+        `Inbound links: ${node.inDegree}`,
+        `PageRank: ${(node.pageRank * 100).toFixed(2)}% of link equity`
+      ];
+
+      return {
+        id: `${CATEGORY.CRAWL}-028`,
+        title: 'Important page buried in site structure',
+        severity: SEVERITY.MEDIUM,
+        category: CATEGORY.CRAWL,
+        description: `${node.url} is one of the most central pages in the link graph but is ${node.flags.map(flag => ({
+          'deep': 'deep in the click path',
+          'few-inbound': 'linked from few pages',
+          'unreachable': 'not reachable by clicking from the entry point'
+        })[flag]).join(' and ')}.`,
+        remediation: 'Link to the page from the home page, main navigation or hub pages so it is within a few clicks of the entry point.',
+        impactScore: 12,
+        location: { url: node.url },
+        evidence,
+        tags: ['site', 'links', 'link-graph', 'discoverability'],
+        confidence: 0.7,
+        timestamp: new Date().toISOString()
+      } as Issue;
+    });
+  }
+}
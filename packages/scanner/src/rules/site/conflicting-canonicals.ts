@@ -0,0 +1,91 @@
+import { CATEGORY, Issue, SEVERITY } from '../../types.js';
+import { SiteRule, BaseSiteRule, SiteRuleContext, SitePage } from '../registry.js';
+import { normalizeUrl } from '../../urls.js';
+
+function canonicalsOf(page: SitePage): string[] {
+  const canonicals = new Set<string>();
+  page.$('link[rel="canonical"]').each((_, el) => {
+    const href = (page.$(el).attr('href') || '').trim();
+    if (!href) return;
+    try {
+      canonicals.add(normalizeUrl(new URL(href, page.finalUrl).href));
+    } catch {
+      // Invalid canonicals are reported per page
+    }
+  });
+  return Array.from(canonicals);
+}
+
+function isNoindex(page: SitePage): boolean {
+  return /\b(noindex|none)\b/i.test(page.$('meta[name="robots"]').attr('content') || '');
+}
+
+@SiteRule({
+  id: `${CATEGORY.CRAWL}-026`,
+  title: 'Conflicting canonical URLs',
+  category: CATEGORY.CRAWL,
+  defaultSeverity: SEVERITY.HIGH,
+  tags: ['site', 'canonical', 'duplicate'],
+  priority: 23,
+  description: 'Canonical tags that disagree with each other or point at pages that are not canonical, indexable and reachable, so crawlers pick their own URL.'
+})
+export class ConflictingCanonicalsRule extends BaseSiteRule {
+  async execute(ctx: SiteRuleContext): Promise<Issue | Issue[] | null> {
+    const byUrl = new Map<string, SitePage>();
+    for (const page of ctx.pages) {
+      byUrl.set(normalizeUrl(page.url), page);
+      byUrl.set(page.finalUrl, page);
+    }
+
+    const issues: Issue[] = [];
+
+    for (const page of ctx.pages) {
+      if (page.status >= 400) continue;
+      const canonicals = canonicalsOf(page);
+      if (canonicals.length === 0) continue;
+
+      const problems: string[] = [];
+
+      if (canonicals.length > 1) {
+        problems.push(`Page declares ${canonicals.length} different canonicals: ${canonicals.join(', ')}`);
+      } else {
+        const canonical = canonicals[0];
+        const target = byUrl.get(canonical);
+
+        if (canonical !== page.finalUrl && target && target !== page) {
+          const targetCanonicals = canonicalsOf(target);
+          if (target.status >= 400) {
+            problems.push(`Canonical ${canonical} returns HTTP ${target.status}`);
+          } else if (target.finalUrl !== canonical) {
+            problems.push(`Canonical ${canonical} redirects to ${target.finalUrl}`);
+          } else if (isNoindex(target)) {
+            problems.push(`Canonical ${canonical} is marked noindex`);
+          } else if (targetCanonicals.includes(page.finalUrl)) {
+            problems.push(`Canonical loop: ${canonical} declares ${page.finalUrl} as its canonical`);
+          } else if (targetCanonicals.length > 0 && !targetCanonicals.includes(canonical)) {
+            problems.push(`Canonical chain: ${canonical} declares ${targetCanonicals.join(', ')} as its canonical`);
+          }
+        }
+      }
+
+      if (problems.length === 0) continue;
+
+      issues.push({
+        id: `${CATEGORY.CRAWL}-026`,
+        title: 'Conflicting canonical URLs',
+        severity: SEVERITY.HIGH,
+        category: CATEGORY.CRAWL,
+        description: `The canonical URL of ${page.finalUrl} conflicts with other pages, so crawlers may ignore it.`,
+        remediation: 'Declare exactly one canonical per page, pointing directly at the final, indexable URL that declares itself as canonical.',
+        impactScore: 18,
+        location: { url: page.finalUrl, selector: 'link[rel="canonical"]' },
+        evidence: problems,
+        tags: ['site', 'canonical', 'duplicate'],
+        confidence: 0.95,
+        timestamp: new Date().toISOString()
+      } as Issue);
+    }
+
+    return issues.length > 0 ? issues : null;
+  }
+}
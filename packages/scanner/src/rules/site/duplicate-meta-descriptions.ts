@@ -0,0 +1,46 @@
+import { CATEGORY, Issue, SEVERITY } from '../../types.js';
+import { SiteRule, BaseSiteRule, SiteRuleContext } from '../registry.js';
+
+@SiteRule({
+  id: `${CATEGORY.CRAWL}-024`,
+  title: 'Duplicate meta descriptions across the site',
+  category: CATEGORY.CRAWL,
+  defaultSeverity: SEVERITY.LOW,
+  tags: ['site', 'duplicate', 'meta-description'],
+  priority: 21,
+  description: 'Several pages share the same meta description, so it does not summarize any of them.'
+})
+export class DuplicateMetaDescriptionsRule extends BaseSiteRule {
+  async execute(ctx: SiteRuleContext): Promise<Issue | Issue[] | null> {
+    const groups = new Map<string, { description: string; urls: string[] }>();
+
+    for (const page of ctx.pages) {
+      if (page.status >= 400) continue;
+      const description = (page.$('meta[name="description"]').attr('content') || '').replace(/\s+/g, ' ').trim();
+      if (!description) continue;
+
+      const key = description.toLowerCase();
+      const group = groups.get(key) ?? { description, urls: [] };
+      group.urls.push(page.finalUrl);
+      groups.set(key, group);
+    }
+
+    const duplicates = Array.from(groups.values()).filter(g => g.urls.length > 1);
+    if (duplicates.length === 0) return null;
+
+    return duplicates.map(({ description, urls }) => ({
+      id: `${CATEGORY.CRAWL}-024`,
+      title: 'Duplicate meta descriptions across the site',
+      severity: SEVERITY.LOW,
+      category: CATEGORY.CRAWL,
+      description: `${urls.length} pages share the same meta description.`,
+      remediation: 'Write a unique meta description for each page that summarizes its own content.',
+      impactScore: 8,
+      location: { url: urls[0], selector: 'meta[name="description"]', textSnippet: description.substring(0, 160) },
+      evidence: urls,
+      tags: ['site', 'duplicate', 'meta-description'],
+      confidence: 1,
+      timestamp: new Date().toISOString()
+    } as Issue));
+  }
+}
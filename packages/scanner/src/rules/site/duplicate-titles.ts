@@ -0,0 +1,46 @@
+import { CATEGORY, Issue, SEVERITY } from '../../types.js';
+import { SiteRule, BaseSiteRule, SiteRuleContext } from '../registry.js';
+
+@SiteRule({
+  id: `${CATEGORY.CRAWL}-023`,
+  title: 'Duplicate page titles across the site',
+  category: CATEGORY.CRAWL,
+  defaultSeverity: SEVERITY.MEDIUM,
+  tags: ['site', 'duplicate', 'title'],
+  priority: 20,
+  description: 'Several pages share the same <title>, so AI systems cannot tell them apart in search results or citations.'
+})
+export class DuplicateTitlesRule extends BaseSiteRule {
+  async execute(ctx: SiteRuleContext): Promise<Issue | Issue[] | null> {
+    const groups = new Map<string, { title: string; urls: string[] }>();
+
+    for (const page of ctx.pages) {
+      if (page.status >= 400) continue;
+      const title = page.$('title').first().text().replace(/\s+/g, ' ').trim();
+      if (!title) continue;   // Missing titles are reported per page
+
+      const key = title.toLowerCase();
+      const group = groups.get(key) ?? { title, urls: [] };
+      group.urls.push(page.finalUrl);
+      groups.set(key, group);
+    }
+
+    const duplicates = Array.from(groups.values()).filter(g => g.urls.length > 1);
+    if (duplicates.length === 0) return null;
+
+    return duplicates.map(({ title, urls }) => ({
+      id: `${CATEGORY.CRAWL}-023`,
+      title: 'Duplicate page titles across the site',
+      severity: SEVERITY.MEDIUM,
+      category: CATEGORY.CRAWL,
+      description: `${urls.length} pages share the title "${title}".`,
+      remediation: 'Give every page a unique, descriptive <title> that states what that page is about.',
+      impactScore: 12,
+      location: { url: urls[0], selector: 'title', textSnippet: title },
+      evidence: urls,
+      tags: ['site', 'duplicate', 'title'],
+      confidence: 1,
+      timestamp: new Date().toISOString()
+    } as Issue));
+  }
+}
@@ -0,0 +1,6 @@
+export { DuplicateTitlesRule } from './duplicate-titles.js';
+export { DuplicateMetaDescriptionsRule } from './duplicate-meta-descriptions.js';
+export { NearDuplicateContentRule } from './near-duplicate-content.js';
+export { ConflictingCanonicalsRule } from './conflicting-canonicals.js';
+export { OrphanPagesRule } from './orphan-pages.js';
+export { BuriedImportantPagesRule } from './buried-important-pages.js';
@@ -0,0 +1,126 @@
+import { CATEGORY, Issue, SEVERITY } from '../../types.js';
+import { SiteRule, BaseSiteRule, SiteRuleContext, SitePage } from '../registry.js';
+
+const SHINGLE_SIZE = 5;        // Words per shingle
+const NUM_HASHES = 128;        // MinHash signature length (~±0.04 similarity error)
+const SIMILARITY_THRESHOLD = 0.9;
+const MIN_WORDS = 50;          // Thin pages share boilerplate and would always match
+
+// Fixed seeds keep signatures (and results) stable between runs
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => (Math.imul(i + 1, 0x9e3779b1) ^ 0x5bd1e995) >>> 0);
+
+function mainText(page: SitePage): string {
+  const { $ } = page;
+  const main = $('main, article, [role="main"]').first();
+  const root = (main.length > 0 ? main : $('body')).clone();
+  root.find('script, style, noscript, template, nav, header, footer, aside').remove();
+  return root.text();
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function mix(value: number, seed: number): number {
+  let h = Math.imul(value ^ seed, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * MinHash signature of a page's word shingles; the share of equal positions
+ * in two signatures estimates the Jaccard similarity of the pages
+ */
+function signature(words: string[]): Uint32Array {
+  const sig = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    const shingle = fnv1a(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    for (let k = 0; k < NUM_HASHES; k++) {
+      const h = mix(shingle, SEEDS[k]);
+      if (h < sig[k]) sig[k] = h;
+    }
+  }
+  return sig;
+}
+
+function similarity(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0;
+  for (let k = 0; k < NUM_HASHES; k++) {
+    if (a[k] === b[k]) equal++;
+  }
+  return equal / NUM_HASHES;
+}
+
+@SiteRule({
+  id: `${CATEGORY.CRAWL}-025`,
+  title: 'Near-duplicate page content',
+  category: CATEGORY.CRAWL,
+  defaultSeverity: SEVERITY.MEDIUM,
+  tags: ['site', 'duplicate', 'content'],
+  priority: 22,
+  description: 'Pages whose main content is almost identical compete with each other and dilute which URL AI systems cite.'
+})
+export class NearDuplicateContentRule extends BaseSiteRule {
+  async execute(ctx: SiteRuleContext): Promise<Issue | Issue[] | null> {
+    const docs: Array<{ url: string; sig: Uint32Array }> = [];
+
+    for (const page of ctx.pages) {
+      if (page.status >= 400) continue;
+      const words = mainText(page).toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+      if (words.length < MIN_WORDS) continue;
+      docs.push({ url: page.finalUrl, sig: signature(words) });
+    }
+
+    // Union-find clusters of pages above the similarity threshold
+    const parent = docs.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const pairScores = new Map<number, number[]>();
+
+    for (let i = 0; i < docs.length; i++) {
+      for (let j = i + 1; j < docs.length; j++) {
+        const score = similarity(docs[i].sig, docs[j].sig);
+        if (score < SIMILARITY_THRESHOLD) continue;
+        parent[find(j)] = find(i);
+        pairScores.set(i, [...(pairScores.get(i) ?? []), score]);
+      }
+    }
+
+    const clusters = new Map<number, number[]>();
+    docs.forEach((_, i) => {
+      const root = find(i);
+      clusters.set(root, [...(clusters.get(root) ?? []), i]);
+    });
+
+    const issues: Issue[] = [];
+    for (const members of clusters.values()) {
+      if (members.length < 2) continue;
+      const scores = members.flatMap(i => pairScores.get(i) ?? []);
+      const minScore = Math.min(...scores);
+      const urls = members.map(i => docs[i].url);
+
+      issues.push({
+        id: `${CATEGORY.CRAWL}-025`,
+        title: 'Near-duplicate page content',
+        severity: SEVERITY.MEDIUM,
+        category: CATEGORY.CRAWL,
+        description: `${urls.length} pages have ${Math.round(minScore * 100)}% or more of their main content in common.`,
+        remediation: 'Consolidate the pages into one, differentiate their content, or point the variants at one URL with rel="canonical".',
+        impactScore: 14,
+        location: { url: urls[0] },
+        evidence: urls,
+        tags: ['site', 'duplicate', 'content'],
+        confidence: 0.85,
+        timestamp: new Date().toISOString()
+      } as Issue);
+    }
+
+    return issues.length > 0 ? issues : null;
+  }
+}
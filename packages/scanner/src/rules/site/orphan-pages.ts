@@ -0,0 +1,57 @@
+import { CATEGORY, Issue, SEVERITY } from '../../types.js';
+import { SiteRule, BaseSiteRule, SiteRuleContext, SitePage } from '../registry.js';
+import { normalizeUrl, pageKey } from '../../urls.js';
+
+@SiteRule({
+  id: `${CATEGORY.CRAWL}-027`,
+  title: 'Orphan page',
+  category: CATEGORY.CRAWL,
+  defaultSeverity: SEVERITY.MEDIUM,
+  tags: ['site', 'links', 'discoverability'],
+  priority: 24,
+  description: 'Pages that no other crawled page links to. Crawlers that follow links never find them.'
+})
+export class OrphanPagesRule extends BaseSiteRule {
+  async execute(ctx: SiteRuleContext): Promise<Issue | Issue[] | null> {
+    // Pages found by following links always have an inbound link, so orphans
+    // only show up when pages come from sitemaps or a static export
+    if (ctx.pages.length < 2) return null;
+
+    const linked = new Set<string>();
+    for (const page of ctx.pages) {
+      for (const link of page.links) {
+        if (link !== page.finalUrl) linked.add(pageKey(link));
+      }
+    }
+
+    // The home page, or the single URL a crawl started from, is the entry point
+    const entryPoints = new Set(ctx.startUrls.length === 1 ? [normalizeUrl(ctx.startUrls[0])] : []);
+    const isEntryPoint = (page: SitePage) =>
+      new URL(page.finalUrl).pathname === '/' || entryPoints.has(page.finalUrl) || entryPoints.has(normalizeUrl(page.url));
+
+    // Pages reached at depth > 0 were found through a link (possibly on a page skipped as a duplicate)
+    const orphans = ctx.pages.filter(page =>
+      page.status < 400 &&
+      !page.depth &&
+      !isEntryPoint(page) &&
+      !linked.has(pageKey(page.finalUrl)) &&
+      !linked.has(pageKey(page.url))
+    );
+    if (orphans.length === 0) return null;
+
+    return orphans.map(page => ({
+      id: `${CATEGORY.CRAWL}-027`,
+      title: 'Orphan page',
+      severity: SEVERITY.MEDIUM,
+      category: CATEGORY.CRAWL,
+      description: `None of the ${ctx.pages.length} crawled pages link to ${page.finalUrl}.`,
+      remediation: 'Link to the page from related pages or navigation so crawlers can discover it, or remove it if it is obsolete.',
+      impactScore: 10,
+      location: { url: page.finalUrl },
+      evidence: [`Inbound links from crawled pages: 0`],
+      tags: ['site', 'links', 'discoverability'],
+      confidence: 0.8,
+      timestamp: new Date().toISOString()
+    } as Issue));
+  }
+}
@@ -22,7 +22,7 @@ export class InefficientRepetitionRule extends BaseRule {
 
     if (nav.length > 1) {
       nav.each((_, el) => {
-        repetitiveTokens += estimateTokenCount($(el).text());
+        repetitiveTokens += estimateTokenCount($(el).text(), ctx.options?.tokenizer);
       });
       
       return {
@@ -44,7 +44,7 @@ export class InefficientRepetitionRule extends BaseRule {
     if (footer.length > 1) {
       let footerTokens = 0;
       footer.each((_, el) => {
-        footerTokens += estimateTokenCount($(el).text());
+        footerTokens += estimateTokenCount($(el).text(), ctx.options?.tokenizer);
       });
 
       return {
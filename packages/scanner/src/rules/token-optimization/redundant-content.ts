@@ -32,7 +32,7 @@ export class RedundantContentRule extends BaseRule {
     }
 
     const totalDuplicateTokens = duplicates.reduce((sum, [text, count]) => {
-      return sum + estimateTokenCount(text) * (count - 1);
+      return sum + estimateTokenCount(text, ctx.options?.tokenizer) * (count - 1);
     }, 0);
 
     return {
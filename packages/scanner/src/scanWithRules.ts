@@ -1,25 +1,99 @@
 // packages/scanner/src/scan_with_rules.ts
 
-import { CATEGORY, Issue, ScanOptions, ScanResult, SEVERITY } from "./types.js";
-import { fetchHtml, parseHtml, estimateTokenCount } from "./utils.js";
+import { CATEGORY, Issue, RedirectHop, ScanOptions, ScanResult, SEVERITY } from "./types.js";
+import type { CheerioAPI } from "cheerio";
+import { fetchHtml, parseHtml, estimateTokenCount, isFileUrl, readLocalHtml, FetchedPage, RedirectError } from "./utils.js";
 import { runRegisteredRules } from "./rules/runner.js";
 import { calculateScore } from "./scoring.js";
 import { chunkContent } from "./chunker.js";
+import { getTokenizer } from "./tokenizer.js";
 import { buildExtractabilityMap, analyzeContentTypeExtractability } from "./extractability.js";
 import { generateLLMComprehension } from "./llm/comprehension.js";
 import { detectHallucinations, hallucinationTriggersToIssues } from "./llm/hallucination.js";
 import { extractNamedEntities } from "./llm/entities.js";
 import { generateFAQs } from "./llm/faq.js";
 import { runMirrorTest } from "./llm/mirror.js";
+import { detectCloaking, cloakingReportToIssues } from "./cloaking.js";
+import { buildAICrawlerAccessMatrix, fetchRobotsTxt } from "./robots-txt.js";
+import { analyzeAIPolicy, aiPolicyToIssues } from "./ai-policy.js";
+import { loadPlugins } from "./plugins.js";
+import { applyRuleSettings } from "./rule-settings.js";
+import { applySuppressions } from "./suppressions.js";
+import { withFingerprints } from "./fingerprint.js";
+import { attachFixes } from "./fixes.js";
+import { resolveBaseline } from "./baseline.js";
+import type { LinkCheckPolicy } from "./link-checker.js";
 import "./rules/index.js";
 
+// Rule errors and timeouts: missing checks, reported whatever the thresholds
+const DIAGNOSTIC_IDS = ['MISC-ERR', 'MISC-TIMEOUT'];
+
 export async function analyzeUrlWithRules(url: string, opts?: ScanOptions): Promise<ScanResult> {
   const options: ScanOptions = { timeoutMs: 15000, maxChunkTokens: 1200, ...opts };
-  let html: string | undefined;
-  const issues = [];
-  let llmLimitExceeded = false;
 
-const fetched = await fetchHtml(url, options.timeoutMs!, options.userAgent);
+  // Offline sources: raw HTML passed in options, or a local file
+  if (options.html !== undefined) {
+    return scanHtml(options.html, url, options);
+  }
+  if (isFileUrl(url)) {
+    return scanHtml(await readLocalHtml(url), url, options);
+  }
+
+  let fetched: FetchedPage;
+  try {
+    fetched = await fetchHtml(url, options.timeoutMs!, options.userAgent);
+  } catch (error) {
+    if (error instanceof RedirectError) return scanRedirectFailure(url, error, options);
+    throw error;
+  }
+  return scanFetchedPage(url, fetched, options);
+}
+
+/**
+ * Scan a URL whose redirects never reach a page (a loop, or more than
+ * maxRedirects hops). There is no content to analyse, so only the redirect
+ * rules run, against the recorded chain.
+ */
+export async function scanRedirectFailure(url: string, error: RedirectError, opts?: ScanOptions): Promise<ScanResult> {
+  const options: ScanOptions = { timeoutMs: 15000, maxChunkTokens: 1200, ...opts };
+  const lastHop = error.redirectChain[error.redirectChain.length - 1];
+  const $ = parseHtml('');
+
+  const { issues, skipped, profile } = await runRegisteredRules({
+    url,
+    html: '',
+    $,
+    options,
+    finalUrl: lastHop?.location,
+    redirectChain: error.redirectChain
+  }, { tag: 'redirect', reason: `Page not reached: ${error.message}` });
+
+  return {
+    url,
+    timestamp: new Date().getTime(),
+    finalUrl: lastHop?.location,
+    statusCode: lastHop?.status,
+    redirectChain: error.redirectChain,
+    skippedRules: skipped.length ? skipped : undefined,
+    ruleProfile: profile,
+    ...await reportIssues(issues, url, '', $, options),
+    scores: legacyScores(issues)
+  };
+}
+
+/**
+ * Scan a page that has already been fetched (e.g. by the crawler during link discovery).
+ * A crawl passes its link-check policy, so rules checking links obey its limits and robots.txt.
+ */
+export async function scanFetchedPage(
+  url: string,
+  fetched: FetchedPage,
+  opts?: ScanOptions,
+  linkCheck?: LinkCheckPolicy
+): Promise<ScanResult> {
+  const options: ScanOptions = { timeoutMs: 15000, maxChunkTokens: 1200, ...opts };
+  const issues: Issue[] = [];
+
   if (fetched.status >= 400) {
     issues.push({
       id: 'MISC-002',
@@ -36,20 +110,99 @@ const fetched = await fetchHtml(url, options.timeoutMs!, options.userAgent);
       timestamp: new Date().toISOString()
     } as Issue);
   }
-  html = fetched.text;
+
+  return runScan(url, fetched.text, options, {
+    issues,
+    response: fetched.response,
+    finalUrl: fetched.finalUrl,
+    statusCode: fetched.status,
+    redirectChain: fetched.redirectChain,
+    linkCheck
+  });
+}
+
+/**
+ * Scan raw HTML without any network access.
+ * Network-only rules (robots.txt, HTTP status) are skipped and listed in `skippedRules`.
+ */
+export async function scanHtml(html: string, url: string, opts?: ScanOptions): Promise<ScanResult> {
+  const options: ScanOptions = { timeoutMs: 15000, maxChunkTokens: 1200, ...opts, html };
+  return runScan(url, html, options, { issues: [], offline: true });
+}
+
+async function runScan(
+  url: string,
+  html: string,
+  options: ScanOptions,
+  init: {
+    issues: Issue[];
+    response?: Response;
+    offline?: boolean;
+    finalUrl?: string;
+    statusCode?: number;
+    redirectChain?: RedirectHop[];
+    linkCheck?: LinkCheckPolicy;
+  }
+): Promise<ScanResult> {
+  const issues = init.issues;
+  let llmLimitExceeded = false;
+
+  // Plugin rules must be registered before the registry is run
+  if (options.plugins?.length) await loadPlugins(options.plugins);
+
+  // Fail fast on an unknown tokenizer name rather than in every rule that counts tokens
+  getTokenizer(options.tokenizer);
 
   const $ = parseHtml(html || '');
 
+  // robots.txt access matrix for AI crawlers (shared with RobotsRule)
+  const robots = init.offline
+    ? undefined
+    : buildAICrawlerAccessMatrix(await fetchRobotsTxt(url, options.timeoutMs), init.finalUrl || url);
+
   const ctx = { 
     url, 
     html: html || '', 
     $, 
     options,
-    response: fetched.response
+    response: init.response,
+    finalUrl: init.finalUrl,
+    redirectChain: init.redirectChain,
+    robotsAccess: robots,
+    offline: init.offline,
+    linkCheck: init.linkCheck
   };
-  const rulesIssues = await runRegisteredRules(ctx);
+  const { issues: rulesIssues, skipped: skippedRules, profile: ruleProfile } = await runRegisteredRules(ctx);
   if (rulesIssues && rulesIssues.length) issues.push(...rulesIssues);
 
+  // AI crawler cloaking detection (opt-in, needs network access)
+  let cloaking;
+  if (options.enableCloakingDetection && !init.offline) {
+    try {
+      cloaking = await detectCloaking(url, {
+        crawlers: options.cloakingCrawlers,
+        timeoutMs: options.timeoutMs
+      });
+      issues.push(...cloakingReportToIssues(cloaking));
+    } catch (error) {
+      console.error('Cloaking detection failed:', error);
+    }
+  }
+
+  // Unified index/train/quote policy from meta robots, headers, robots.txt, TDMRep and ai.txt
+  let aiPolicy;
+  try {
+    aiPolicy = await analyzeAIPolicy(init.finalUrl || url, $, {
+      headers: init.response?.headers,
+      robots,
+      offline: init.offline,
+      timeoutMs: options.timeoutMs
+    });
+    issues.push(...aiPolicyToIssues(aiPolicy));
+  } catch (error) {
+    console.error('AI policy analysis failed:', error);
+  }
+
   // token estimate and chunking score (basic)
   const mainText = (() => {
     const selectors = ['main', 'article', 'body'];
@@ -66,19 +219,8 @@ const fetched = await fetchHtml(url, options.timeoutMs!, options.userAgent);
   // Note: Chunk size validation is now handled by the ChunkRule in rules/chunk.ts
   // to avoid duplication and ensure consistency
 
-  const categoryMap: Record<string, number[]> = {};
-  for (const it of issues) {
-    if (!categoryMap[it.category]) categoryMap[it.category] = [];
-    categoryMap[it.category].push(it.impactScore);
-  }
-
   // Legacy simple scores (for backward compatibility)
-  const scores: Record<string, number> = {};
-  for (const cat of Object.keys(categoryMap)) {
-    const sum = categoryMap[cat].reduce((a, b) => a + b, 0);
-    const penalty = Math.min(sum, 100);
-    scores[cat] = Math.max(0, Math.round(100 - penalty));
-  }
+  const scores = legacyScores(issues);
 
   // New comprehensive scoring system
   const scoring = calculateScore(issues);
@@ -89,7 +231,8 @@ const fetched = await fetchHtml(url, options.timeoutMs!, options.userAgent);
     chunking = chunkContent($, {
       maxTokensPerChunk: options.maxChunkTokens || 500,
       includeHtml: false,
-      strategy: options.chunkingStrategy || 'auto'
+      strategy: options.chunkingStrategy || 'auto',
+      tokenizer: options.tokenizer
     });
   }
 
@@ -337,32 +480,25 @@ const fetched = await fetchHtml(url, options.timeoutMs!, options.userAgent);
     }
   }
 
-  // Filter issues based on quality thresholds (reduce noise)
-  const minImpact = options.minImpactScore ?? 8;
-  const minConf = options.minConfidence ?? 0.7;
-  const maxCount = options.maxIssues ?? 100;
-  
-  const filteredIssues = issues
-    .filter(issue => issue.impactScore >= minImpact)
-    .filter(issue => (issue.confidence ?? 1.0) >= minConf)
-    .sort((a, b) => b.impactScore - a.impactScore) // Sort by impact
-    .slice(0, maxCount) // Limit count
-    .map(issue => ({
-      ...issue,
-      scoreImpact: Math.min(20, Math.round((issue.impactScore * 0.15) * 10) / 10)
-    })); // Add score impact to each issue
-
-  // Recalculate scoring with filtered issues
-  const filteredScoring = calculateScore(filteredIssues);
+  const reported = await reportIssues(issues, url, html || '', $, options);
 
   return {
     url,
+    title: $('title').first().text().replace(/\s+/g, ' ').trim() || undefined,
     timestamp: new Date().getTime(),
-    issues: filteredIssues, // Return filtered issues
+    offline: init.offline || undefined,
+    finalUrl: init.finalUrl,
+    statusCode: init.statusCode,
+    redirectChain: init.redirectChain,
+    skippedRules: skippedRules.length ? skippedRules : undefined,
+    ruleProfile,
+    ...reported,
     scores,
-    scoring: filteredScoring, // Use filtered scoring
     chunking,
     extractability,
+    robots,
+    aiPolicy,
+    cloaking,
     llm, // High-level comprehension analysis
     // @ts-ignore
     hallucinationReport,
@@ -372,3 +508,69 @@ const fetched = await fetchHtml(url, options.timeoutMs!, options.userAgent);
     llmLimitExceeded // Flag indicating if LLM rate limit was hit
   };
 }
+
+/**
+ * Legacy per-category scores: 100 minus the summed impact of the category's issues
+ */
+function legacyScores(issues: Issue[]): Record<string, number> {
+  const categoryMap: Record<string, number[]> = {};
+  for (const it of issues) {
+    if (!categoryMap[it.category]) categoryMap[it.category] = [];
+    categoryMap[it.category].push(it.impactScore);
+  }
+
+  const scores: Record<string, number> = {};
+  for (const cat of Object.keys(categoryMap)) {
+    const sum = categoryMap[cat].reduce((a, b) => a + b, 0);
+    const penalty = Math.min(sum, 100);
+    scores[cat] = Math.max(0, Math.round(100 - penalty));
+  }
+  return scores;
+}
+
+/**
+ * Rule settings, suppressions, thresholds, fixes and scoring for the issues of a scan
+ */
+async function reportIssues(
+  issues: Issue[],
+  url: string,
+  html: string,
+  $: CheerioAPI,
+  options: ScanOptions
+): Promise<Pick<ScanResult, 'issues' | 'suppressedIssues' | 'allIssues' | 'scoring'>> {
+  // Filter issues based on quality thresholds (reduce noise)
+  const minImpact = options.minImpactScore ?? 8;
+  const minConf = options.minConfidence ?? 0.7;
+  const maxCount = options.maxIssues ?? 100;
+  
+  const isDiagnostic = (issue: Issue) => DIAGNOSTIC_IDS.includes(issue.id);
+  const passesThresholds = (issue: Issue) => issue.impactScore >= minImpact && (issue.confidence ?? 1.0) >= minConf;
+
+  // Inline suppressions and baselined issues are counted, but not reported or scored
+  const baseline = await resolveBaseline(options.baseline);
+  const { issues: reportedIssues, suppressed } = applySuppressions(withFingerprints(applyRuleSettings(issues, options.rules)), { $, baseline });
+  const suppressedIssues = suppressed.filter(passesThresholds);
+
+  const filteredIssues = attachFixes([
+    ...reportedIssues
+      .filter(issue => !isDiagnostic(issue) && passesThresholds(issue))
+      .sort((a, b) => b.impactScore - a.impactScore) // Sort by impact
+      .slice(0, maxCount), // Limit count
+    ...reportedIssues.filter(isDiagnostic)
+  ].map(issue => ({
+    ...issue,
+    scoreImpact: isDiagnostic(issue) ? 0 : Math.min(20, Math.round((issue.impactScore * 0.15) * 10) / 10)
+  })), // Add score impact to each issue
+    { url, html, $ }); // Generated markup and patches for fixable issues
+
+  // Recalculate scoring with filtered issues (a rule that failed says nothing about the page)
+  const filteredScoring = calculateScore(filteredIssues.filter(issue => !isDiagnostic(issue)));
+
+
+  return {
+    issues: filteredIssues,
+    suppressedIssues: suppressedIssues.length ? suppressedIssues : undefined,
+    allIssues: options.keepAllIssues ? [...reportedIssues, ...suppressed] : undefined,
+    scoring: filteredScoring
+  };
+}
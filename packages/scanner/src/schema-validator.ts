@@ -0,0 +1,515 @@
+import type { CheerioAPI } from 'cheerio';
+import type { StructuredDataSyntax } from './json-ld-extractor.js';
+import { MicrodataExtractor } from './microdata-extractor.js';
+import { RdfaExtractor } from './rdfa-extractor.js';
+import {
+  enumerationValues,
+  isDataType,
+  isKnownProperty,
+  isKnownType,
+  isSubtypeOf,
+  propertyRange,
+  requirementsFor,
+  suggestName,
+  typeHasProperty,
+} from './schema-vocabulary.js';
+
+export type SchemaFindingKind =
+  | 'unknown-type'
+  | 'unknown-property'
+  | 'property-not-in-domain'
+  | 'invalid-value'
+  | 'missing-required'
+  | 'missing-recommended'
+  | 'broken-reference';
+
+export interface SchemaFinding {
+  kind: SchemaFindingKind;
+  syntax: StructuredDataSyntax;
+  selector: string;     // The JSON-LD script, or the element of the microdata / RDFa item
+  block: number;        // Index of the script (or item, for microdata and RDFa) on the page
+  path: string;         // Where in the block, e.g. "@graph[1].offers.price"
+  type?: string;        // Type of the node the finding is about
+  property?: string;
+  message: string;
+  line?: number;        // Line in the page source, when the HTML is known
+}
+
+interface NodeRef {
+  id: string;
+  syntax: StructuredDataSyntax;
+  selector: string;
+  block: number;
+  path: string;
+}
+
+const SCRIPT_SELECTOR = 'script[type="application/ld+json"]';
+
+// Text properties that rich results read as a plain number or currency code
+const TEXT_FORMATS: Record<string, { pattern: RegExp; expected: string }> = {
+  price: { pattern: /^-?\d+(\.\d+)?$/, expected: 'a plain number with a "." decimal separator' },
+  lowPrice: { pattern: /^-?\d+(\.\d+)?$/, expected: 'a plain number with a "." decimal separator' },
+  highPrice: { pattern: /^-?\d+(\.\d+)?$/, expected: 'a plain number with a "." decimal separator' },
+  ratingValue: { pattern: /^-?\d+(\.\d+)?$/, expected: 'a number' },
+  bestRating: { pattern: /^-?\d+(\.\d+)?$/, expected: 'a number' },
+  worstRating: { pattern: /^-?\d+(\.\d+)?$/, expected: 'a number' },
+  priceCurrency: { pattern: /^[A-Z]{3}$/, expected: 'a three-letter ISO 4217 code such as "USD"' },
+  currency: { pattern: /^[A-Z]{3}$/, expected: 'a three-letter ISO 4217 code such as "USD"' },
+  salaryCurrency: { pattern: /^[A-Z]{3}$/, expected: 'a three-letter ISO 4217 code such as "USD"' },
+};
+
+const DATE = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/;
+const TIME = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const DURATION = /^P(?!$)(\d+(\.\d+)?Y)?(\d+(\.\d+)?M)?(\d+(\.\d+)?W)?(\d+(\.\d+)?D)?(T(?=\d)(\d+(\.\d+)?H)?(\d+(\.\d+)?M)?(\d+(\.\d+)?S)?)?$/;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Validates JSON-LD against the bundled schema.org vocabulary:
+ * - Unknown types and properties, and properties used on the wrong type
+ * - Values that do not match the property's expected types
+ * - Required and recommended properties for rich results
+ * - @id references that point at nodes not defined on the page
+ *
+ * Microdata and RDFa items are checked the same way, once normalized to the
+ * JSON-LD shape. Blocks that fail to parse are skipped (KG-002 reports them),
+ * as are blocks and nodes in other vocabularies.
+ */
+export class SchemaOrgValidator {
+  private findings: SchemaFinding[] = [];
+  private definedIds = new Set<string>();
+  private references: NodeRef[] = [];
+  private syntax: StructuredDataSyntax = 'json-ld';
+  private selector = SCRIPT_SELECTOR;
+  private block = 0;
+
+  constructor(private $: CheerioAPI, private pageUrl: string, private html?: string) {}
+
+  validate(): SchemaFinding[] {
+    this.findings = [];
+    this.definedIds = new Set();
+    this.references = [];
+    this.syntax = 'json-ld';
+    this.selector = SCRIPT_SELECTOR;
+
+    this.$(SCRIPT_SELECTOR).each((index, el) => {
+      const content = this.$(el).html();
+      if (!content || content.trim().length === 0) return;
+
+      let data: unknown;
+      try {
+        data = JSON.parse(content);
+      } catch {
+        return;
+      }
+
+      this.block = index;
+      for (const { node, path } of this.topLevelNodes(data)) {
+        this.validateNode(node, path, true, usesSchemaOrg(node['@context']) || usesSchemaOrg((data as any)?.['@context']));
+      }
+    });
+
+    // The extractors reduce schema.org terms to bare names, so items are validated as schema.org
+    const extracted = [
+      new MicrodataExtractor(this.$, this.pageUrl).extract(),
+      new RdfaExtractor(this.$, this.pageUrl).extract(),
+    ];
+    for (const schemas of extracted) {
+      schemas.forEach((schema, index) => {
+        this.syntax = schema.syntax;
+        this.selector = schema.selector ?? SCRIPT_SELECTOR;
+        this.block = index;
+        this.validateNode(schema.data, '', true, true);
+      });
+    }
+
+    this.checkReferences();
+    this.addLines();
+    return this.findings;
+  }
+
+  private topLevelNodes(data: unknown): Array<{ node: Record<string, any>; path: string }> {
+    if (Array.isArray(data)) {
+      return data.filter(isObject).map((node, i) => ({ node, path: `[${i}]` }));
+    }
+    if (!isObject(data)) return [];
+    if (Array.isArray(data['@graph'])) {
+      return data['@graph'].filter(isObject).map((node: Record<string, any>, i: number) => ({ node, path: `@graph[${i}]` }));
+    }
+    return [{ node: data, path: '' }];
+  }
+
+  private validateNode(node: Record<string, any>, path: string, topLevel: boolean, schemaOrg: boolean): void {
+    if (node['@context'] !== undefined) schemaOrg = usesSchemaOrg(node['@context']);
+
+    const declared = asArray(node['@type']).filter((t): t is string => typeof t === 'string');
+    const schemaTypes = declared.map(schemaName).filter((t): t is string => t !== null);
+    // Nodes typed only in another vocabulary are not ours to check
+    if (declared.length > 0 && schemaTypes.length === 0) return;
+    if (!schemaOrg && !declared.some(t => schemaName(t) !== t)) return;
+
+    const id = typeof node['@id'] === 'string' ? this.resolveId(node['@id']) : null;
+    const keys = Object.keys(node).filter(key => key !== '@context');
+    if (id && keys.every(key => key === '@id')) {
+      this.references.push({ id, syntax: this.syntax, selector: this.selector, block: this.block, path: path || '@id' });
+      return;
+    }
+    if (id) this.definedIds.add(id);
+
+    const unknownTypes = schemaTypes.filter(type => !isKnownType(type));
+    for (const type of unknownTypes) {
+      const suggestion = suggestName(type, 'type');
+      this.report('unknown-type', path || '@type', `Unknown schema.org type "${type}"${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`, { type });
+    }
+    const types = schemaTypes.filter(type => isKnownType(type));
+    const label = types[0] ?? schemaTypes[0] ?? 'node';
+
+    for (const [key, value] of Object.entries(node)) {
+      if (key.startsWith('@')) continue;
+      const property = schemaName(key);
+      if (property === null) continue;
+      const propertyPath = path ? `${path}.${property}` : property;
+
+      if (!isKnownProperty(property)) {
+        const suggestion = suggestName(property, 'property');
+        this.report('unknown-property', propertyPath, `Unknown schema.org property "${property}" on ${label}${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`, { type: label, property });
+      } else if (types.length > 0 && unknownTypes.length === 0 && !types.some(type => typeHasProperty(type, property))) {
+        this.report('property-not-in-domain', propertyPath, `"${property}" is not a property of ${types.join(' / ')}`, { type: label, property });
+      }
+
+      const values = asArray(value);
+      values.forEach((item, i) => {
+        const itemPath = Array.isArray(value) ? `${propertyPath}[${i}]` : propertyPath;
+        if (isKnownProperty(property)) this.checkValue(property, item, itemPath, label);
+        if (isObject(item) && !('@value' in item)) this.validateNode(item, itemPath, false, schemaOrg);
+      });
+    }
+
+    // A node carrying only its @id and type points at another node rather than describing one
+    if (id && keys.every(key => key === '@id' || key === '@type')) return;
+    this.checkRequirements(node, path, types, topLevel);
+  }
+
+  private checkValue(property: string, value: unknown, path: string, label: string): void {
+    const range = propertyRange(property);
+    if (!range || value === null || value === undefined) return;
+
+    const literal = isObject(value) && '@value' in value ? value['@value'] : value;
+    const problem = isObject(literal) ? this.objectProblem(literal, range) : literalProblem(property, literal, range);
+    if (problem) {
+      this.report('invalid-value', path, `${label}.${property} ${problem}`, { type: label, property });
+    }
+  }
+
+  /** Why a nested node does not fit the range, or null when it does */
+  private objectProblem(value: Record<string, any>, range: string[]): string | null {
+    const entityTypes = range.filter(type => !isDataType(type) && !enumerationValues(type));
+    const expected = describeRange(range);
+
+    if (entityTypes.length === 0) {
+      // References are IRIs, which is what URL properties hold
+      if (range.includes('URL') && Object.keys(value).every(key => key === '@id')) return null;
+      return `expects ${expected}, not an object`;
+    }
+
+    const types = asArray(value['@type'])
+      .filter((t): t is string => typeof t === 'string')
+      .map(schemaName)
+      .filter((t): t is string => t !== null && isKnownType(t));
+    if (types.length === 0) return null;
+
+    const fits = types.some(type => entityTypes.some(expectedType => !isKnownType(expectedType) || isSubtypeOf(type, expectedType)));
+    return fits ? null : `expects ${expected}, not ${types.join(' / ')}`;
+  }
+
+  private checkRequirements(node: Record<string, any>, path: string, types: string[], topLevel: boolean): void {
+    const seen = new Set<string>();
+    for (const type of types) {
+      const requirements = requirementsFor(type);
+      if (!requirements) continue;
+
+      const groups: Array<[string[], 'missing-required' | 'missing-recommended']> = [
+        ...requirements.required.map(group => [group, 'missing-required'] as [string[], 'missing-required']),
+        // Nested nodes are often brief mentions (an author, a publisher); hold them to the required set only
+        ...(topLevel ? requirements.recommended.map(group => [group, 'missing-recommended'] as [string[], 'missing-recommended']) : []),
+      ];
+
+      for (const [group, kind] of groups) {
+        const key = group.join('|');
+        if (seen.has(key) || group.some(property => hasValue(node, property))) continue;
+        seen.add(key);
+
+        const names = group.length === 1 ? `"${group[0]}"` : `one of ${group.map(p => `"${p}"`).join(', ')}`;
+        const level = kind === 'missing-required' ? 'required' : 'recommended';
+        this.report(kind, path || '@type', `${type} is missing ${names}, ${level} for rich results`, { type, property: group[0] });
+      }
+    }
+  }
+
+  private checkReferences(): void {
+    const page = documentUrl(this.pageUrl);
+    for (const ref of this.references) {
+      if (this.definedIds.has(ref.id)) continue;
+      // Nodes on other pages or sites may legitimately be described there
+      if (page && !isBlankNode(ref.id) && documentUrl(ref.id) !== page) continue;
+      this.findings.push({
+        kind: 'broken-reference',
+        syntax: ref.syntax,
+        selector: ref.selector,
+        block: ref.block,
+        path: ref.path,
+        message: `@id "${ref.id}" is referenced but no node on the page defines it`,
+      });
+    }
+  }
+
+  private resolveId(id: string): string {
+    if (isBlankNode(id)) return id;
+    try {
+      return new URL(id, this.pageUrl).href;
+    } catch {
+      return id;
+    }
+  }
+
+  private report(kind: SchemaFindingKind, path: string, message: string, extra: { type?: string; property?: string }): void {
+    this.findings.push({ kind, syntax: this.syntax, selector: this.selector, block: this.block, path, message, ...extra });
+  }
+
+  /**
+   * Source lines for JSON-LD findings: the script's position in the raw HTML plus
+   * the position of the finding's path within the block
+   */
+  private addLines(): void {
+    if (!this.html || this.findings.length === 0) return;
+
+    // Blank out comments so commented-out scripts are not counted
+    const source = this.html.replace(/<!--[\s\S]*?-->/g, match => match.replace(/[^\n]/g, ' '));
+    const openTags = /<script\b[^>]*\btype\s*=\s*["']?application\/ld\+json["']?[^>]*>/gi;
+    const starts: number[] = [];
+    for (let match = openTags.exec(source); match; match = openTags.exec(source)) {
+      starts.push(match.index + match[0].length);
+    }
+    if (starts.length !== this.$(SCRIPT_SELECTOR).length) return;
+
+    const blocks = new Map<number, Map<string, number>>();
+    for (const finding of this.findings) {
+      if (finding.syntax !== 'json-ld') continue;
+      const start = starts[finding.block];
+      let positions = blocks.get(finding.block);
+      if (!positions) {
+        const end = source.indexOf('</script', start);
+        positions = locatePaths(source.slice(start, end === -1 ? undefined : end));
+        blocks.set(finding.block, positions);
+      }
+
+      // Fall back to the nearest enclosing path that was found
+      let path = finding.path;
+      while (path && !positions.has(path)) {
+        path = path.replace(/(^|\.)[^.[\]]+$|\[\d+\]$/, '');
+      }
+      finding.line = source.slice(0, start + (positions.get(path) ?? 0)).split('\n').length;
+    }
+  }
+}
+
+/** Where a finding is, for evidence: "Block 2", "Microdata item 1" */
+export function findingSource(finding: SchemaFinding): string {
+  const source = finding.syntax === 'json-ld' ? 'Block' : finding.syntax === 'rdfa' ? 'RDFa item' : 'Microdata item';
+  return `${source} ${finding.block + 1}`;
+}
+
+// Findings per parsed document: KG-006..009 each need them for the same page
+const validated = new WeakMap<CheerioAPI, { url: string; html?: string; findings: SchemaFinding[] }>();
+
+/**
+ * Helper function to validate all structured data on a page. The findings
+ * are computed once per document (and URL), so rules can share them.
+ */
+export function validateSchemaOrg($: CheerioAPI, url: string, html?: string): SchemaFinding[] {
+  let entry = validated.get($);
+  if (!entry || entry.url !== url || entry.html !== html) {
+    entry = { url, html, findings: new SchemaOrgValidator($, url, html).validate() };
+    validated.set($, entry);
+  }
+  return entry.findings.map(finding => ({ ...finding }));
+}
+
+/**
+ * Offsets of every key and array item in a JSON document, by the paths
+ * findings use ("@graph[1].offers.price"). The text must be valid JSON.
+ */
+function locatePaths(text: string): Map<string, number> {
+  const positions = new Map<string, number>();
+  let i = 0;
+
+  const skipSpace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+  const readString = (): string => {
+    let out = '';
+    i++;
+    while (i < text.length && text[i] !== '"') {
+      if (text[i] === '\\') i++;
+      out += text[i++];
+    }
+    i++;
+    return out;
+  };
+  const readValue = (path: string): void => {
+    skipSpace();
+    if (text[i] === '{') {
+      i++;
+      skipSpace();
+      while (i < text.length && text[i] !== '}') {
+        const keyStart = i;
+        const key = readString();
+        skipSpace();
+        i++; // ':'
+        const childPath = path ? `${path}.${schemaName(key) ?? key}` : schemaName(key) ?? key;
+        if (!positions.has(childPath)) positions.set(childPath, keyStart);
+        readValue(childPath);
+        skipSpace();
+        if (text[i] === ',') i++;
+        skipSpace();
+      }
+      i++;
+    } else if (text[i] === '[') {
+      i++;
+      skipSpace();
+      for (let index = 0; i < text.length && text[i] !== ']'; index++) {
+        positions.set(`${path}[${index}]`, i);
+        readValue(`${path}[${index}]`);
+        skipSpace();
+        if (text[i] === ',') i++;
+        skipSpace();
+      }
+      i++;
+    } else if (text[i] === '"') {
+      readString();
+    } else {
+      while (i < text.length && !/[,\]}\s]/.test(text[i])) i++;
+    }
+  };
+
+  readValue('');
+  return positions;
+}
+
+/** Why a literal does not fit the range, or null when it does */
+function literalProblem(property: string, value: unknown, range: string[]): string | null {
+  const expected = describeRange(range);
+
+  if (typeof value === 'boolean') {
+    return range.includes('Boolean') ? null : `expects ${expected}, not a boolean`;
+  }
+
+  if (typeof value === 'number') {
+    if (range.includes('Integer') && Number.isInteger(value)) return null;
+    if (range.some(type => type === 'Number' || type === 'Text')) return null;
+    return `expects ${expected}, not a number`;
+  }
+
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+
+  const format = TEXT_FORMATS[property];
+  if (format && !format.pattern.test(text)) {
+    return `should be ${format.expected}, got "${truncate(text)}"`;
+  }
+
+  for (const type of range) {
+    if (type === 'Text') return null;
+    if (type === 'URL' && !/\s/.test(text)) return null;
+    if (type === 'Date' && isDate(text)) return null;
+    if (type === 'DateTime' && isDateTime(text)) return null;
+    if (type === 'Time' && TIME.test(text)) return null;
+    if (type === 'Duration' && DURATION.test(text)) return null;
+    if (type === 'Number' && NUMBER.test(text)) return null;
+    if (type === 'Integer' && /^-?\d+$/.test(text)) return null;
+    if (type === 'Boolean' && /^(true|false|https?:\/\/schema\.org\/(True|False))$/i.test(text)) return null;
+
+    const members = enumerationValues(type);
+    if (members) {
+      if (members.has(schemaName(text) ?? '')) return null;
+      continue;
+    }
+    // schema.org lets text stand in for any entity
+    if (!isDataType(type)) return null;
+  }
+
+  return `expects ${expected}, got "${truncate(text)}"`;
+}
+
+function describeRange(range: string[]): string {
+  const names = range.map(type => {
+    const members = enumerationValues(type);
+    if (members) return `a value of ${type} (${Array.from(members).slice(0, 3).join(', ')}, ...)`;
+    if (type === 'Date') return 'an ISO 8601 date';
+    if (type === 'DateTime') return 'an ISO 8601 date-time';
+    if (type === 'Duration') return 'an ISO 8601 duration such as "PT30M"';
+    return type;
+  });
+  return names.length === 1 ? names[0] : `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`;
+}
+
+function isDate(text: string): boolean {
+  // Dates with a time of day are accepted too; search engines read both
+  return DATE.test(text) || isDateTime(text);
+}
+
+function isDateTime(text: string): boolean {
+  const match = text.match(/^(\d{4}-\d{2}-\d{2})[T ](.+)$/);
+  return !!match && DATE.test(match[1]) && TIME.test(match[2]);
+}
+
+/**
+ * Bare schema.org name of a type, property or enumeration value written as a
+ * name, a schema.org IRI or a "schema:" term; null for other vocabularies
+ */
+function schemaName(value: string): string | null {
+  const match = value.match(/^(?:https?:\/\/schema\.org\/|schema:)(.+)$/);
+  if (match) return match[1];
+  if (/^[a-z][\w+.-]*:/i.test(value)) return null;
+  return value;
+}
+
+function usesSchemaOrg(context: unknown): boolean {
+  if (typeof context === 'string') return context.includes('schema.org');
+  if (Array.isArray(context)) return context.some(usesSchemaOrg);
+  if (isObject(context)) return typeof context['@vocab'] === 'string' && context['@vocab'].includes('schema.org');
+  return false;
+}
+
+/** Blank node identifiers ("_:org") name nodes within the page only */
+function isBlankNode(id: string): boolean {
+  return id.startsWith('_:');
+}
+
+function documentUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href;
+  } catch {
+    return null;
+  }
+}
+
+function hasValue(node: Record<string, any>, property: string): boolean {
+  const value = node[property] ?? node[`https://schema.org/${property}`] ?? node[`schema:${property}`];
+  if (value === undefined || value === null || value === '') return false;
+  return !Array.isArray(value) || value.length > 0;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asArray<T>(value: T | T[]): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function truncate(text: string): string {
+  return text.length > 40 ? `${text.slice(0, 40)}...` : text;
+}
@@ -0,0 +1,657 @@
+/**
+ * Bundled subset of the schema.org vocabulary, for validating structured data
+ * offline: the types and properties pages actually use, the value types each
+ * property expects, enumeration members, and the properties search engines
+ * require or recommend for rich results.
+ *
+ * Types list only the properties they add; the rest are inherited from their
+ * parents. Properties without an entry in PROPERTY_RANGES accept any value.
+ */
+
+/** Literal value types; everything else in a range is a schema.org type */
+export const DATA_TYPES = ['Text', 'URL', 'Number', 'Integer', 'Boolean', 'Date', 'DateTime', 'Time', 'Duration'] as const;
+
+export type DataType = typeof DATA_TYPES[number];
+
+// Type name: [parent types, properties], both space separated
+const TYPES: Record<string, [string, string]> = {
+  Thing: ['', 'additionalType alternateName description disambiguatingDescription identifier image mainEntityOfPage name potentialAction sameAs subjectOf url'],
+
+  // Creative works
+  CreativeWork: ['Thing', 'about abstract accessMode accessModeSufficient accessibilityAPI accessibilityControl accessibilityFeature accessibilityHazard accessibilitySummary accountablePerson acquireLicensePage aggregateRating alternativeHeadline archivedAt assesses associatedMedia audience audio author award character citation comment commentCount conditionsOfAccess contentLocation contentRating contentReferenceTime contributor copyrightHolder copyrightNotice copyrightYear correction countryOfOrigin creativeWorkStatus creator creditText dateCreated dateModified datePublished digitalSourceType discussionUrl editEIDR editor educationalAlignment educationalLevel educationalUse encoding encodingFormat exampleOfWork expires funder funding genre hasPart headline inLanguage interactionStatistic interactivityType interpretedAsClaim isAccessibleForFree isBasedOn isFamilyFriendly isPartOf keywords learningResourceType license locationCreated mainEntity maintainer material materialExtent mentions offers pattern position producer provider publication publisher publisherImprint publishingPrinciples recordedAt releasedEvent review schemaVersion sdDatePublished sdLicense sdPublisher size sourceOrganization spatial spatialCoverage sponsor teaches temporal temporalCoverage text thumbnail thumbnailUrl timeRequired translationOfWork translator typicalAgeRange usageInfo version video wordCount workExample workTranslation'],
+  Article: ['CreativeWork', 'articleBody articleSection backstory pageEnd pageStart pagination speakable'],
+  NewsArticle: ['Article', 'dateline printColumn printEdition printPage printSection'],
+  AnalysisNewsArticle: ['NewsArticle', ''],
+  OpinionNewsArticle: ['NewsArticle', ''],
+  ReportageNewsArticle: ['NewsArticle', ''],
+  ReviewNewsArticle: ['NewsArticle', ''],
+  Report: ['Article', 'reportNumber'],
+  ScholarlyArticle: ['Article', ''],
+  TechArticle: ['Article', 'dependencies proficiencyLevel'],
+  SocialMediaPosting: ['Article', 'sharedContent'],
+  BlogPosting: ['SocialMediaPosting', ''],
+  LiveBlogPosting: ['BlogPosting', 'coverageEndTime coverageStartTime liveBlogUpdate'],
+  DiscussionForumPosting: ['SocialMediaPosting', ''],
+  Blog: ['CreativeWork', 'blogPost issn'],
+  WebPage: ['CreativeWork', 'breadcrumb lastReviewed mainContentOfPage primaryImageOfPage relatedLink reviewedBy significantLink speakable specialty'],
+  AboutPage: ['WebPage', ''],
+  CheckoutPage: ['WebPage', ''],
+  CollectionPage: ['WebPage', ''],
+  ContactPage: ['WebPage', ''],
+  FAQPage: ['WebPage', ''],
+  ItemPage: ['WebPage', ''],
+  MedicalWebPage: ['WebPage', 'medicalAudience'],
+  ProfilePage: ['WebPage', ''],
+  QAPage: ['WebPage', ''],
+  RealEstateListing: ['WebPage', 'datePosted leaseLength'],
+  SearchResultsPage: ['WebPage', ''],
+  MediaGallery: ['CollectionPage', ''],
+  ImageGallery: ['MediaGallery', ''],
+  VideoGallery: ['MediaGallery', ''],
+  WebSite: ['CreativeWork', 'issn'],
+  WebPageElement: ['CreativeWork', 'cssSelector xpath'],
+  SiteNavigationElement: ['WebPageElement', ''],
+  WPHeader: ['WebPageElement', ''],
+  WPFooter: ['WebPageElement', ''],
+  WPSideBar: ['WebPageElement', ''],
+  Table: ['WebPageElement', ''],
+  MediaObject: ['CreativeWork', 'associatedArticle bitrate contentSize contentUrl duration embedUrl encodesCreativeWork endTime height ineligibleRegion interpretedAsClaim playerType productionCompany regionsAllowed requiresSubscription sha256 startTime uploadDate width'],
+  ImageObject: ['MediaObject', 'caption embeddedTextCaption exifData representativeOfPage'],
+  Photograph: ['CreativeWork', ''],
+  VideoObject: ['MediaObject', 'actor caption director embeddedTextCaption musicBy transcript videoFrameSize videoQuality'],
+  AudioObject: ['MediaObject', 'caption embeddedTextCaption transcript'],
+  Clip: ['CreativeWork', 'actor clipNumber director endOffset musicBy partOfEpisode partOfSeason partOfSeries startOffset'],
+  HowTo: ['CreativeWork', 'estimatedCost performTime prepTime step supply tool totalTime yield'],
+  Recipe: ['HowTo', 'cookTime cookingMethod nutrition recipeCategory recipeCuisine recipeIngredient recipeInstructions recipeYield suitableForDiet'],
+  HowToSection: ['CreativeWork ItemList ListItem', 'steps'],
+  HowToStep: ['CreativeWork ItemList ListItem', ''],
+  HowToDirection: ['CreativeWork ListItem', 'afterMedia beforeMedia duringMedia performTime prepTime supply tool totalTime'],
+  HowToTip: ['CreativeWork ListItem', ''],
+  Comment: ['CreativeWork', 'downvoteCount parentItem sharedContent upvoteCount'],
+  Question: ['Comment', 'acceptedAnswer answerCount eduQuestionType suggestedAnswer'],
+  Answer: ['Comment', 'answerExplanation'],
+  Review: ['CreativeWork', 'associatedClaimReview associatedMediaReview associatedReview itemReviewed negativeNotes positiveNotes reviewAspect reviewBody reviewRating'],
+  ClaimReview: ['Review', 'claimReviewed'],
+  Book: ['CreativeWork', 'abridged bookEdition bookFormat illustrator isbn numberOfPages'],
+  Course: ['CreativeWork', 'availableLanguage courseCode coursePrerequisites educationalCredentialAwarded financialAidEligible hasCourseInstance numberOfCredits occupationalCredentialAwarded syllabusSections totalHistoricalEnrollment'],
+  Dataset: ['CreativeWork', 'distribution includedInDataCatalog issn measurementMethod measurementTechnique variableMeasured'],
+  DataCatalog: ['CreativeWork', 'dataset measurementMethod measurementTechnique'],
+  DataDownload: ['MediaObject', 'measurementMethod measurementTechnique'],
+  SoftwareApplication: ['CreativeWork', 'applicationCategory applicationSubCategory applicationSuite availableOnDevice countriesNotSupported countriesSupported downloadUrl featureList fileSize installUrl memoryRequirements operatingSystem permissions processorRequirements releaseNotes screenshot softwareAddOn softwareHelp softwareRequirements softwareVersion storageRequirements supportingData'],
+  WebApplication: ['SoftwareApplication', 'browserRequirements'],
+  MobileApplication: ['SoftwareApplication', 'carrierRequirements'],
+  VideoGame: ['SoftwareApplication', 'actor cheatCode director gameEdition gamePlatform gameServer gameTip musicBy playMode trailer'],
+  SoftwareSourceCode: ['CreativeWork', 'codeRepository codeSampleType programmingLanguage runtimePlatform targetProduct'],
+  Movie: ['CreativeWork', 'actor countryOfOrigin director duration musicBy productionCompany subtitleLanguage titleEIDR trailer'],
+  MusicRecording: ['CreativeWork', 'byArtist duration inAlbum inPlaylist isrcCode recordingOf'],
+  MusicPlaylist: ['CreativeWork', 'numTracks track'],
+  MusicAlbum: ['MusicPlaylist', 'albumProductionType albumRelease albumReleaseType byArtist'],
+  CreativeWorkSeries: ['CreativeWork', 'endDate issn startDate'],
+  Podcast: ['CreativeWorkSeries', ''],
+  Episode: ['CreativeWork', 'actor director duration episodeNumber musicBy partOfSeason partOfSeries productionCompany trailer'],
+  PodcastEpisode: ['Episode', ''],
+  Menu: ['CreativeWork', 'hasMenuItem hasMenuSection'],
+  MenuSection: ['CreativeWork', 'hasMenuItem hasMenuSection'],
+  Map: ['CreativeWork', 'mapType'],
+  Guide: ['CreativeWork', 'reviewAspect'],
+  EducationalOccupationalCredential: ['CreativeWork', 'competencyRequired credentialCategory educationalLevel recognizedBy validFor validIn'],
+  SpecialAnnouncement: ['CreativeWork', 'announcementLocation category datePosted diseasePreventionInfo gettingTestedInfo governmentBenefitsInfo newsUpdatesAndGuidelines publicTransportClosuresInfo quarantineGuidelines schoolClosuresInfo travelBans'],
+
+  // Organizations and people
+  Organization: ['Thing', 'actionableFeedbackPolicy address agentInteractionStatistic aggregateRating alumni areaServed award brand contactPoint contactPoints correctionsPolicy department dissolutionDate diversityPolicy diversityStaffingReport duns email employee employees ethicsPolicy event events faxNumber founder founders foundingDate foundingLocation funder funding globalLocationNumber hasCredential hasMerchantReturnPolicy hasOfferCatalog hasPOS hasShippingService interactionStatistic isicV4 iso6523Code keywords knowsAbout knowsLanguage legalName leiCode location logo makesOffer member memberOf members naics nonprofitStatus numberOfEmployees ownershipFundingInfo owns parentOrganization publishingPrinciples review reviews seeks serviceArea slogan sponsor subOrganization taxID telephone unnamedSourcesPolicy vatID'],
+  Corporation: ['Organization', 'tickerSymbol'],
+  NGO: ['Organization', ''],
+  GovernmentOrganization: ['Organization', ''],
+  NewsMediaOrganization: ['Organization', 'masthead missionCoveragePrioritiesPolicy noBylinesPolicy ownershipFundingInfo verificationFactCheckingPolicy'],
+  MedicalOrganization: ['Organization', 'healthPlanNetworkId isAcceptingNewPatients medicalSpecialty'],
+  EducationalOrganization: ['CivicStructure Organization', 'alumni'],
+  CollegeOrUniversity: ['EducationalOrganization', ''],
+  School: ['EducationalOrganization', ''],
+  OnlineBusiness: ['Organization', ''],
+  OnlineStore: ['OnlineBusiness', ''],
+  PerformingGroup: ['Organization', ''],
+  MusicGroup: ['PerformingGroup', 'album genre track'],
+  SportsOrganization: ['Organization', 'sport'],
+  SportsTeam: ['SportsOrganization', 'athlete coach gender'],
+  Person: ['Thing', 'additionalName address affiliation agentInteractionStatistic alumniOf award birthDate birthPlace brand callSign children colleague colleagues contactPoint contactPoints deathDate deathPlace duns email familyName faxNumber follows funder funding gender givenName globalLocationNumber hasCredential hasOccupation hasOfferCatalog hasPOS height homeLocation honorificPrefix honorificSuffix interactionStatistic isicV4 jobTitle knows knowsAbout knowsLanguage makesOffer memberOf naics nationality netWorth owns parent parents performerIn publishingPrinciples relatedTo seeks sibling siblings sponsor spouse taxID telephone vatID weight workLocation worksFor'],
+
+  // Places and local businesses
+  Place: ['Thing', 'additionalProperty address aggregateRating amenityFeature branchCode containedIn containedInPlace containsPlace event events faxNumber geo geoContains geoCoveredBy geoCovers geoCrosses geoDisjoint geoEquals geoIntersects geoOverlaps geoTouches geoWithin globalLocationNumber hasDriveThroughService hasMap isAccessibleForFree isicV4 keywords latitude logo longitude maximumAttendeeCapacity openingHoursSpecification photo photos publicAccess review reviews slogan smokingAllowed specialOpeningHoursSpecification telephone tourBookingPage'],
+  AdministrativeArea: ['Place', ''],
+  Country: ['AdministrativeArea', ''],
+  State: ['AdministrativeArea', ''],
+  City: ['AdministrativeArea', ''],
+  CivicStructure: ['Place', 'openingHours'],
+  Museum: ['CivicStructure', ''],
+  Park: ['CivicStructure', ''],
+  Airport: ['CivicStructure', 'iataCode icaoCode'],
+  StadiumOrArena: ['CivicStructure', ''],
+  PerformingArtsTheater: ['CivicStructure', ''],
+  LandmarksOrHistoricalBuildings: ['Place', ''],
+  Residence: ['Place', 'accommodationFloorPlan'],
+  Accommodation: ['Place', 'accommodationCategory amenityFeature bed floorLevel floorSize leaseLength numberOfBathroomsTotal numberOfBedrooms numberOfRooms occupancy permittedUsage petsAllowed tourBookingPage yearBuilt'],
+  LocalBusiness: ['Organization Place', 'currenciesAccepted openingHours paymentAccepted priceRange'],
+  AnimalShelter: ['LocalBusiness', ''],
+  AutomotiveBusiness: ['LocalBusiness', ''],
+  AutoDealer: ['AutomotiveBusiness', ''],
+  AutoRepair: ['AutomotiveBusiness', ''],
+  ChildCare: ['LocalBusiness', ''],
+  DryCleaningOrLaundry: ['LocalBusiness', ''],
+  EmergencyService: ['LocalBusiness', ''],
+  EmploymentAgency: ['LocalBusiness', ''],
+  EntertainmentBusiness: ['LocalBusiness', ''],
+  FinancialService: ['LocalBusiness', 'feesAndCommissionsSpecification'],
+  AccountingService: ['FinancialService', ''],
+  InsuranceAgency: ['FinancialService', ''],
+  FoodEstablishment: ['LocalBusiness', 'acceptsReservations hasMenu menu servesCuisine starRating'],
+  Bakery: ['FoodEstablishment', ''],
+  BarOrPub: ['FoodEstablishment', ''],
+  CafeOrCoffeeShop: ['FoodEstablishment', ''],
+  FastFoodRestaurant: ['FoodEstablishment', ''],
+  Restaurant: ['FoodEstablishment', ''],
+  Winery: ['FoodEstablishment', ''],
+  GovernmentOffice: ['LocalBusiness', ''],
+  HealthAndBeautyBusiness: ['LocalBusiness', ''],
+  BeautySalon: ['HealthAndBeautyBusiness', ''],
+  DaySpa: ['HealthAndBeautyBusiness', ''],
+  HairSalon: ['HealthAndBeautyBusiness', ''],
+  HealthClub: ['HealthAndBeautyBusiness', ''],
+  HomeAndConstructionBusiness: ['LocalBusiness', ''],
+  Electrician: ['HomeAndConstructionBusiness', ''],
+  GeneralContractor: ['HomeAndConstructionBusiness', ''],
+  HVACBusiness: ['HomeAndConstructionBusiness', ''],
+  Plumber: ['HomeAndConstructionBusiness', ''],
+  RoofingContractor: ['HomeAndConstructionBusiness', ''],
+  LegalService: ['LocalBusiness', ''],
+  Attorney: ['LegalService', ''],
+  Notary: ['LegalService', ''],
+  LodgingBusiness: ['LocalBusiness', 'amenityFeature audience availableLanguage checkinTime checkoutTime numberOfRooms petsAllowed starRating'],
+  Hotel: ['LodgingBusiness', ''],
+  BedAndBreakfast: ['LodgingBusiness', ''],
+  Hostel: ['LodgingBusiness', ''],
+  MedicalBusiness: ['LocalBusiness', ''],
+  Dentist: ['MedicalBusiness', ''],
+  MedicalClinic: ['MedicalBusiness', ''],
+  Optician: ['MedicalBusiness', ''],
+  Pharmacy: ['MedicalBusiness', ''],
+  Physician: ['MedicalBusiness', ''],
+  ProfessionalService: ['LocalBusiness', ''],
+  RealEstateAgent: ['LocalBusiness', ''],
+  SelfStorage: ['LocalBusiness', ''],
+  SportsActivityLocation: ['LocalBusiness', ''],
+  ExerciseGym: ['SportsActivityLocation', ''],
+  Store: ['LocalBusiness', ''],
+  BookStore: ['Store', ''],
+  ClothingStore: ['Store', ''],
+  ComputerStore: ['Store', ''],
+  ElectronicsStore: ['Store', ''],
+  FurnitureStore: ['Store', ''],
+  GardenStore: ['Store', ''],
+  GroceryStore: ['Store', ''],
+  HardwareStore: ['Store', ''],
+  JewelryStore: ['Store', ''],
+  PetStore: ['Store', ''],
+  ShoeStore: ['Store', ''],
+  SportingGoodsStore: ['Store', ''],
+  ToyStore: ['Store', ''],
+  TravelAgency: ['LocalBusiness', ''],
+
+  // Products and offers
+  Product: ['Thing', 'additionalProperty aggregateRating asin audience award brand category color colorSwatch countryOfAssembly countryOfLastProcessing countryOfOrigin depth funding gtin gtin12 gtin13 gtin14 gtin8 hasAdultConsideration hasCertification hasEnergyConsumptionDetails hasMeasurement hasMerchantReturnPolicy height inProductGroupWithID isAccessoryOrSparePartFor isConsumableFor isFamilyFriendly isRelatedTo isSimilarTo isVariantOf itemCondition keywords logo manufacturer material mobileUrl model mpn negativeNotes nsn offers pattern positiveNotes productID productionDate purchaseDate releaseDate review reviews size sku slogan weight width'],
+  ProductGroup: ['Product', 'hasVariant productGroupID variesBy'],
+  ProductModel: ['Product', 'isVariantOf predecessorOf successorOf'],
+  IndividualProduct: ['Product', 'serialNumber'],
+  Vehicle: ['Product', 'bodyType fuelType mileageFromOdometer modelDate numberOfDoors vehicleConfiguration vehicleEngine vehicleIdentificationNumber vehicleInteriorColor vehicleModelDate vehicleTransmission'],
+  Car: ['Vehicle', 'acrissCode roofLoad'],
+  Intangible: ['Thing', ''],
+  Brand: ['Intangible', 'aggregateRating logo review slogan'],
+  Offer: ['Intangible', 'acceptedPaymentMethod addOn advanceBookingRequirement aggregateRating areaServed asin availability availabilityEnds availabilityStarts availableAtOrFrom availableDeliveryMethod businessFunction category checkoutPageURLTemplate deliveryLeadTime eligibleCustomerType eligibleDuration eligibleQuantity eligibleRegion eligibleTransactionVolume gtin gtin12 gtin13 gtin14 gtin8 hasAdultConsideration hasMeasurement hasMerchantReturnPolicy includesObject ineligibleRegion inventoryLevel isFamilyFriendly itemCondition itemOffered leaseLength mobileUrl mpn offeredBy price priceCurrency priceSpecification priceValidUntil review reviews seller serialNumber shippingDetails sku validFrom validThrough warranty'],
+  AggregateOffer: ['Offer', 'highPrice lowPrice offerCount offers'],
+  OfferCatalog: ['ItemList', ''],
+  Service: ['Intangible', 'aggregateRating areaServed audience availableChannel award brand broker category hasCertification hasOfferCatalog hoursAvailable isRelatedTo isSimilarTo logo offers provider providerMobility review serviceOutput serviceType slogan termsOfService'],
+  FinancialProduct: ['Service', 'annualPercentageRate feesAndCommissionsSpecification interestRate'],
+  Rating: ['Intangible', 'author bestRating ratingExplanation ratingValue reviewAspect worstRating'],
+  AggregateRating: ['Rating', 'itemReviewed ratingCount reviewCount'],
+  MerchantReturnPolicy: ['Intangible', 'additionalProperty applicableCountry customerRemorseReturnFees customerRemorseReturnLabelSource customerRemorseReturnShippingFeesAmount inStoreReturnsOffered itemCondition itemDefectReturnFees itemDefectReturnLabelSource itemDefectReturnShippingFeesAmount merchantReturnDays merchantReturnLink refundType restockingFee returnFees returnLabelSource returnMethod returnPolicyCategory returnPolicyCountry returnPolicySeasonalOverride returnShippingFeesAmount'],
+  Demand: ['Intangible', 'acceptedPaymentMethod advanceBookingRequirement areaServed availability availabilityEnds availabilityStarts availableAtOrFrom availableDeliveryMethod businessFunction deliveryLeadTime eligibleCustomerType eligibleDuration eligibleQuantity eligibleRegion eligibleTransactionVolume gtin gtin12 gtin13 gtin14 gtin8 includesObject ineligibleRegion inventoryLevel itemCondition itemOffered mpn priceSpecification seller serialNumber sku validFrom validThrough warranty'],
+
+  // Lists
+  ItemList: ['Intangible', 'itemListElement itemListOrder numberOfItems'],
+  BreadcrumbList: ['ItemList', ''],
+  ListItem: ['Intangible', 'item nextItem position previousItem'],
+  HowToItem: ['ListItem', 'requiredQuantity'],
+  HowToSupply: ['HowToItem', 'estimatedCost'],
+  HowToTool: ['HowToItem', ''],
+
+  // Events
+  Event: ['Thing', 'about actor aggregateRating attendee attendees audience composer contributor director doorTime duration endDate eventAttendanceMode eventSchedule eventStatus funder funding inLanguage isAccessibleForFree keywords location maximumAttendeeCapacity maximumPhysicalAttendeeCapacity maximumVirtualAttendeeCapacity offers organizer performer performers previousStartDate recordedIn remainingAttendeeCapacity review sponsor startDate subEvent subEvents superEvent translator typicalAgeRange workFeatured workPerformed'],
+  BusinessEvent: ['Event', ''],
+  ChildrensEvent: ['Event', ''],
+  ComedyEvent: ['Event', ''],
+  CourseInstance: ['Event', 'courseMode courseSchedule courseWorkload instructor'],
+  DanceEvent: ['Event', ''],
+  DeliveryEvent: ['Event', 'accessCode availableFrom availableThrough hasDeliveryMethod'],
+  EducationEvent: ['Event', 'assesses educationalLevel teaches'],
+  ExhibitionEvent: ['Event', ''],
+  Festival: ['Event', ''],
+  FoodEvent: ['Event', ''],
+  Hackathon: ['Event', ''],
+  LiteraryEvent: ['Event', ''],
+  MusicEvent: ['Event', ''],
+  PublicationEvent: ['Event', 'publishedBy publishedOn'],
+  SaleEvent: ['Event', ''],
+  ScreeningEvent: ['Event', 'subtitleLanguage videoFormat workPresented'],
+  SocialEvent: ['Event', ''],
+  SportsEvent: ['Event', 'awayTeam competitor homeTeam sport'],
+  TheaterEvent: ['Event', ''],
+  VisualArtsEvent: ['Event', ''],
+  VirtualLocation: ['Intangible', ''],
+  Schedule: ['Intangible', 'byDay byMonth byMonthDay byMonthWeek duration endDate endTime exceptDate repeatCount repeatFrequency scheduleTimezone startDate startTime'],
+
+  // Jobs
+  JobPosting: ['Intangible', 'applicantLocationRequirements applicationContact baseSalary datePosted directApply educationRequirements eligibilityToWorkRequirement employerOverview employmentType employmentUnit estimatedSalary experienceInPlaceOfEducation experienceRequirements hiringOrganization incentiveCompensation industry jobBenefits jobImmediateStart jobLocation jobLocationType jobStartDate occupationalCategory physicalRequirement qualifications relevantOccupation responsibilities salaryCurrency securityClearanceRequirement sensoryRequirement skills specialCommitments title totalJobOpenings validThrough workHours'],
+  Occupation: ['Intangible', 'educationRequirements estimatedSalary experienceRequirements occupationLocation occupationalCategory qualifications responsibilities skills'],
+
+  // Structured values
+  StructuredValue: ['Intangible', ''],
+  ContactPoint: ['StructuredValue', 'areaServed availableLanguage contactOption contactType email faxNumber hoursAvailable productSupported telephone'],
+  PostalAddress: ['ContactPoint', 'addressCountry addressLocality addressRegion extendedAddress postOfficeBoxNumber postalCode streetAddress'],
+  GeoCoordinates: ['StructuredValue', 'address addressCountry elevation latitude longitude postalCode'],
+  GeoShape: ['StructuredValue', 'address addressCountry box circle elevation line polygon postalCode'],
+  GeoCircle: ['GeoShape', 'geoMidpoint geoRadius'],
+  OpeningHoursSpecification: ['StructuredValue', 'closes dayOfWeek opens validFrom validThrough'],
+  PriceSpecification: ['StructuredValue', 'eligibleQuantity eligibleTransactionVolume maxPrice membershipPointsEarned minPrice price priceCurrency validForMemberTier validFrom validThrough valueAddedTaxIncluded'],
+  UnitPriceSpecification: ['PriceSpecification', 'billingDuration billingIncrement billingStart priceComponentType priceType referenceQuantity unitCode unitText'],
+  CompoundPriceSpecification: ['PriceSpecification', 'priceComponent priceType'],
+  DeliveryChargeSpecification: ['PriceSpecification', 'appliesToDeliveryMethod areaServed eligibleRegion ineligibleRegion'],
+  MonetaryAmount: ['StructuredValue', 'currency maxValue minValue validFrom validThrough value'],
+  QuantitativeValue: ['StructuredValue', 'additionalProperty maxValue minValue unitCode unitText value valueReference'],
+  PropertyValue: ['StructuredValue', 'maxValue measurementMethod measurementTechnique minValue propertyID unitCode unitText value valueReference'],
+  NutritionInformation: ['StructuredValue', 'calories carbohydrateContent cholesterolContent fatContent fiberContent proteinContent saturatedFatContent servingSize sodiumContent sugarContent transFatContent unsaturatedFatContent'],
+  OfferShippingDetails: ['StructuredValue', 'deliveryTime depth doesNotShip hasShippingService height shippingDestination shippingLabel shippingOrigin shippingRate shippingSettingsLink transitTimeLabel validForMemberTier weight width'],
+  ShippingDeliveryTime: ['StructuredValue', 'businessDays cutoffTime handlingTime transitTime'],
+  DefinedRegion: ['StructuredValue', 'addressCountry addressRegion postalCode postalCodePrefix postalCodeRange'],
+  InteractionCounter: ['StructuredValue', 'endTime interactionService interactionType location startTime userInteractionCount'],
+  EngagementValue: ['StructuredValue', ''],
+
+  // Other intangibles
+  Audience: ['Intangible', 'audienceType geographicArea'],
+  PeopleAudience: ['Audience', 'healthCondition requiredGender requiredMaxAge requiredMinAge suggestedAge suggestedGender suggestedMaxAge suggestedMinAge'],
+  Language: ['Intangible', ''],
+  DefinedTerm: ['Intangible', 'inDefinedTermSet termCode'],
+  DefinedTermSet: ['CreativeWork', 'hasDefinedTerm'],
+  SpeakableSpecification: ['Intangible', 'cssSelector xpath'],
+  EntryPoint: ['Intangible', 'actionApplication actionPlatform contentType encodingType httpMethod urlTemplate'],
+  PropertyValueSpecification: ['Intangible', 'defaultValue maxValue minValue multipleValues readonlyValue stepValue valueMaxLength valueMinLength valueName valuePattern valueRequired'],
+  ProgramMembership: ['Intangible', 'hostingOrganization member membershipNumber membershipPointsEarned program programName'],
+  Quantity: ['Intangible', ''],
+  Distance: ['Quantity', ''],
+  Energy: ['Quantity', ''],
+  Mass: ['Quantity', ''],
+  Trip: ['Intangible', 'arrivalTime departureTime itinerary offers partOfTrip provider subTrip tripOrigin'],
+  Enumeration: ['Intangible', 'supersededBy'],
+
+  // Actions
+  Action: ['Thing', 'actionProcess actionStatus agent endTime error instrument location object participant provider result startTime target'],
+  SearchAction: ['Action', 'query query-input'],
+  ReadAction: ['Action', ''],
+  ViewAction: ['Action', ''],
+  WatchAction: ['Action', ''],
+  ListenAction: ['Action', ''],
+  BuyAction: ['Action', 'seller'],
+  OrderAction: ['Action', 'deliveryMethod'],
+  ReserveAction: ['Action', 'scheduledTime'],
+  SubscribeAction: ['Action', ''],
+  CommunicateAction: ['Action', 'about inLanguage language recipient'],
+  ContactAction: ['Action', ''],
+  LikeAction: ['Action', ''],
+  CommentAction: ['Action', 'resultComment'],
+  ShareAction: ['Action', ''],
+  DownloadAction: ['Action', ''],
+  ApplyAction: ['Action', ''],
+  RegisterAction: ['Action', ''],
+};
+
+/**
+ * Members of the enumerations that structured data commonly uses, as bare
+ * names; values may also be written as full schema.org URLs
+ */
+const ENUMERATIONS: Record<string, string> = {
+  ItemAvailability: 'BackOrder Discontinued InStock InStoreOnly LimitedAvailability MadeToOrder OnlineOnly OutOfStock PreOrder PreSale Reserved SoldOut',
+  OfferItemCondition: 'DamagedCondition NewCondition RefurbishedCondition UsedCondition',
+  EventStatusType: 'EventCancelled EventMovedOnline EventPostponed EventRescheduled EventScheduled',
+  EventAttendanceModeEnumeration: 'MixedEventAttendanceMode OfflineEventAttendanceMode OnlineEventAttendanceMode',
+  DayOfWeek: 'Friday Monday PublicHolidays Saturday Sunday Thursday Tuesday Wednesday',
+  BookFormatType: 'AudiobookFormat EBook GraphicNovel Hardcover Paperback',
+  MerchantReturnEnumeration: 'MerchantReturnFiniteReturnWindow MerchantReturnNotPermitted MerchantReturnUnlimitedWindow MerchantReturnUnspecified',
+  ReturnFeesEnumeration: 'FreeReturn OriginalShippingFees RestockingFees ReturnFeesCustomerResponsibility ReturnShippingFees',
+  ReturnMethodEnumeration: 'KeepProduct ReturnAtKiosk ReturnByMail ReturnInStore',
+  ActionStatusType: 'ActiveActionStatus CompletedActionStatus FailedActionStatus PotentialActionStatus',
+  DigitalSourceType: 'AlgorithmicMediaDigitalSource CompositeCaptureDigitalSource CompositeDigitalSource CompositeSyntheticDigitalSource DigitalArtDigitalSource DigitalCaptureDigitalSource MinorHumanEditsDigitalSource MultiFrameComputationalCaptureDigitalSource NegativeFilmDigitalSource PositiveFilmDigitalSource PrintDigitalSource ScreenCaptureDigitalSource TrainedAlgorithmicMediaDigitalSource VirtualRecordingDigitalSource',
+  GenderType: 'Female Male',
+  ItemListOrderType: 'ItemListOrderAscending ItemListOrderDescending ItemListUnordered',
+  RestrictedDiet: 'DiabeticDiet GlutenFreeDiet HalalDiet HinduDiet KosherDiet LowCalorieDiet LowFatDiet LowLactoseDiet LowSaltDiet VeganDiet VegetarianDiet',
+};
+
+// Expected value types, space separated; a value matching any of them is valid
+const PROPERTY_RANGES: Record<string, string> = {
+  // Literals
+  name: 'Text', alternateName: 'Text', headline: 'Text', alternativeHeadline: 'Text', description: 'Text TextObject',
+  disambiguatingDescription: 'Text', text: 'Text', articleBody: 'Text', reviewBody: 'Text', caption: 'MediaObject Text',
+  email: 'Text', telephone: 'Text', faxNumber: 'Text', legalName: 'Text', slogan: 'Text', jobTitle: 'DefinedTerm Text',
+  givenName: 'Text', familyName: 'Text', additionalName: 'Text', honorificPrefix: 'Text', honorificSuffix: 'Text',
+  sku: 'Text', mpn: 'Text', gtin: 'Text URL', gtin8: 'Text', gtin12: 'Text', gtin13: 'Text', gtin14: 'Text', isbn: 'Text',
+  priceCurrency: 'Text', currency: 'Text', salaryCurrency: 'Text', priceRange: 'Text', currenciesAccepted: 'Text',
+  paymentAccepted: 'Text', openingHours: 'Text', servesCuisine: 'Text', streetAddress: 'Text', postalCode: 'Text',
+  addressLocality: 'Text', addressRegion: 'Text', postOfficeBoxNumber: 'Text', addressCountry: 'Country Text',
+  contactType: 'Text', recipeIngredient: 'Text', recipeCategory: 'Text', recipeCuisine: 'Text', cookingMethod: 'Text',
+  recipeYield: 'QuantitativeValue Text', articleSection: 'Text', award: 'Text', transcript: 'Text', title: 'Text',
+  softwareVersion: 'Text', operatingSystem: 'Text', applicationCategory: 'Text URL', tickerSymbol: 'Text',
+  vatID: 'Text', taxID: 'Text', duns: 'Text', leiCode: 'Text', unitCode: 'Text URL', unitText: 'Text', termCode: 'Text',
+  cssSelector: 'Text', xpath: 'Text', query: 'Text', 'query-input': 'PropertyValueSpecification Text', urlTemplate: 'Text',
+  identifier: 'PropertyValue Text URL', keywords: 'DefinedTerm Text URL', genre: 'Text URL', inLanguage: 'Language Text',
+  availableLanguage: 'Language Text', knowsLanguage: 'Language Text', employmentType: 'Text', jobLocationType: 'Text',
+
+  // URLs
+  url: 'URL', sameAs: 'URL', additionalType: 'Text URL', contentUrl: 'URL', embedUrl: 'URL', thumbnailUrl: 'URL',
+  downloadUrl: 'URL', installUrl: 'URL', discussionUrl: 'URL', codeRepository: 'URL', relatedLink: 'URL',
+  significantLink: 'URL', hasMap: 'Map URL', license: 'CreativeWork URL', mainEntityOfPage: 'CreativeWork URL',
+  image: 'ImageObject URL', logo: 'ImageObject URL', screenshot: 'ImageObject URL', photo: 'ImageObject Photograph',
+  primaryImageOfPage: 'ImageObject', thumbnail: 'ImageObject', video: 'Clip VideoObject', trailer: 'VideoObject',
+  isPartOf: 'CreativeWork URL', publishingPrinciples: 'CreativeWork URL', speakable: 'SpeakableSpecification URL',
+  target: 'EntryPoint URL', merchantReturnLink: 'URL', hasMenu: 'Menu Text URL', menu: 'Menu Text URL',
+  acceptsReservations: 'Boolean Text URL', tourBookingPage: 'URL',
+
+  // Dates and times
+  datePublished: 'Date DateTime', dateModified: 'Date DateTime', dateCreated: 'Date DateTime', uploadDate: 'Date DateTime',
+  startDate: 'Date DateTime', endDate: 'Date DateTime', previousStartDate: 'Date', doorTime: 'DateTime Time',
+  birthDate: 'Date', deathDate: 'Date', foundingDate: 'Date', dissolutionDate: 'Date', releaseDate: 'Date',
+  productionDate: 'Date', purchaseDate: 'Date', datePosted: 'Date DateTime', jobStartDate: 'Date Text',
+  validFrom: 'Date DateTime', validThrough: 'Date DateTime', priceValidUntil: 'Date', expires: 'Date DateTime',
+  availabilityStarts: 'Date DateTime Time', availabilityEnds: 'Date DateTime Time', lastReviewed: 'Date',
+  sdDatePublished: 'Date', coverageStartTime: 'DateTime', coverageEndTime: 'DateTime', startTime: 'DateTime Time',
+  endTime: 'DateTime Time', opens: 'Time', closes: 'Time', checkinTime: 'DateTime Time', checkoutTime: 'DateTime Time',
+  copyrightYear: 'Number', modelDate: 'Date', vehicleModelDate: 'Date', cutoffTime: 'Time',
+
+  // Durations
+  duration: 'Duration QuantitativeValue', totalTime: 'Duration', prepTime: 'Duration', cookTime: 'Duration',
+  performTime: 'Duration', timeRequired: 'Duration', leaseLength: 'Duration QuantitativeValue',
+  billingDuration: 'Duration Number QuantitativeValue', repeatFrequency: 'Duration Text',
+
+  // Numbers and booleans
+  price: 'Number Text', lowPrice: 'Number Text', highPrice: 'Number Text', minPrice: 'Number', maxPrice: 'Number',
+  ratingValue: 'Number Text', bestRating: 'Number Text', worstRating: 'Number Text', ratingCount: 'Integer',
+  reviewCount: 'Integer', commentCount: 'Integer', wordCount: 'Integer', numberOfPages: 'Integer', offerCount: 'Integer',
+  answerCount: 'Integer', upvoteCount: 'Integer', downvoteCount: 'Integer', userInteractionCount: 'Integer',
+  numberOfItems: 'Integer', totalJobOpenings: 'Integer', position: 'Integer Text', latitude: 'Number Text',
+  longitude: 'Number Text', minValue: 'Number', maxValue: 'Number', value: 'Boolean Number StructuredValue Text',
+  maximumAttendeeCapacity: 'Integer', remainingAttendeeCapacity: 'Integer', merchantReturnDays: 'Date DateTime Integer',
+  numberOfEmployees: 'QuantitativeValue', numberOfRooms: 'Number QuantitativeValue', episodeNumber: 'Integer Text',
+  isAccessibleForFree: 'Boolean', isFamilyFriendly: 'Boolean', directApply: 'Boolean', abridged: 'Boolean',
+  requiresSubscription: 'Boolean MediaSubscription', valueAddedTaxIncluded: 'Boolean', smokingAllowed: 'Boolean',
+  publicAccess: 'Boolean', petsAllowed: 'Boolean Text', representativeOfPage: 'Boolean', doesNotShip: 'Boolean',
+  jobImmediateStart: 'Boolean', inStoreReturnsOffered: 'Boolean',
+
+  // Enumerations
+  availability: 'ItemAvailability', itemCondition: 'OfferItemCondition', eventStatus: 'EventStatusType',
+  eventAttendanceMode: 'EventAttendanceModeEnumeration', dayOfWeek: 'DayOfWeek', bookFormat: 'BookFormatType',
+  returnPolicyCategory: 'MerchantReturnEnumeration', returnFees: 'ReturnFeesEnumeration',
+  returnMethod: 'ReturnMethodEnumeration', actionStatus: 'ActionStatusType', itemListOrder: 'ItemListOrderType Text',
+  suitableForDiet: 'RestrictedDiet', digitalSourceType: 'DigitalSourceType', gender: 'GenderType Text',
+
+  // People and organizations
+  author: 'Organization Person', creator: 'Organization Person', contributor: 'Organization Person',
+  editor: 'Person', translator: 'Organization Person', publisher: 'Organization Person', provider: 'Organization Person',
+  sponsor: 'Organization Person', funder: 'Organization Person', organizer: 'Organization Person',
+  performer: 'Organization Person', attendee: 'Organization Person', actor: 'PerformingGroup Person',
+  director: 'Person', musicBy: 'MusicGroup Person', byArtist: 'MusicGroup Person', founder: 'Organization Person',
+  founders: 'Person', employee: 'Person', member: 'Organization Person', memberOf: 'Organization ProgramMembership',
+  worksFor: 'Organization', affiliation: 'Organization', alumniOf: 'EducationalOrganization Organization',
+  parentOrganization: 'Organization', subOrganization: 'Organization', department: 'Organization',
+  brand: 'Brand Organization', manufacturer: 'Organization', seller: 'Organization Person',
+  offeredBy: 'Organization Person', hiringOrganization: 'Organization Person', reviewedBy: 'Organization Person',
+  accountablePerson: 'Person', copyrightHolder: 'Organization Person', instructor: 'Person',
+  knows: 'Person', colleague: 'Person URL', spouse: 'Person', parent: 'Person', children: 'Person', sibling: 'Person',
+
+  // Places
+  address: 'PostalAddress Text', geo: 'GeoCoordinates GeoShape', location: 'Place PostalAddress Text VirtualLocation',
+  jobLocation: 'Place', contentLocation: 'Place', locationCreated: 'Place', spatialCoverage: 'Place',
+  containedInPlace: 'Place', containsPlace: 'Place', birthPlace: 'Place', deathPlace: 'Place', homeLocation: 'ContactPoint Place',
+  workLocation: 'ContactPoint Place', foundingLocation: 'Place', areaServed: 'AdministrativeArea GeoShape Place Text',
+  applicantLocationRequirements: 'AdministrativeArea', eligibleRegion: 'GeoShape Place Text',
+  shippingDestination: 'DefinedRegion', nationality: 'Country',
+
+  // Commerce
+  offers: 'Demand Offer', itemOffered: 'AggregateOffer CreativeWork Event MenuItem Product Service Trip',
+  priceSpecification: 'PriceSpecification', aggregateRating: 'AggregateRating', review: 'Review',
+  reviewRating: 'Rating', itemReviewed: 'Thing', shippingDetails: 'OfferShippingDetails',
+  hasMerchantReturnPolicy: 'MerchantReturnPolicy', hasVariant: 'Product', isVariantOf: 'ProductGroup ProductModel',
+  baseSalary: 'MonetaryAmount Number PriceSpecification', estimatedSalary: 'MonetaryAmount MonetaryAmountDistribution Number',
+  estimatedCost: 'MonetaryAmount Text', shippingRate: 'MonetaryAmount ShippingRateSettings',
+  deliveryTime: 'ShippingDeliveryTime', additionalProperty: 'PropertyValue', hasOfferCatalog: 'OfferCatalog',
+  makesOffer: 'Offer', eligibleQuantity: 'QuantitativeValue',
+
+  // Structure
+  mainEntity: 'Thing', about: 'Thing', mentions: 'Thing', subjectOf: 'CreativeWork Event', hasPart: 'CreativeWork',
+  breadcrumb: 'BreadcrumbList Text', itemListElement: 'ListItem Text Thing', item: 'Thing', nextItem: 'ListItem',
+  previousItem: 'ListItem', acceptedAnswer: 'Answer ItemList', suggestedAnswer: 'Answer ItemList',
+  step: 'CreativeWork HowToSection HowToStep Text', supply: 'HowToSupply Text', tool: 'HowToTool Text',
+  recipeInstructions: 'CreativeWork ItemList Text', nutrition: 'NutritionInformation', potentialAction: 'Action',
+  contactPoint: 'ContactPoint', openingHoursSpecification: 'OpeningHoursSpecification',
+  specialOpeningHoursSpecification: 'OpeningHoursSpecification', subEvent: 'Event', superEvent: 'Event',
+  workFeatured: 'CreativeWork', workPerformed: 'CreativeWork', eventSchedule: 'Schedule', hasCourseInstance: 'CourseInstance',
+  interactionStatistic: 'InteractionCounter', hasOccupation: 'Occupation', comment: 'Comment',
+  associatedArticle: 'NewsArticle', encodesCreativeWork: 'CreativeWork', audience: 'Audience',
+  parentItem: 'Comment CreativeWork', sharedContent: 'CreativeWork', liveBlogUpdate: 'BlogPosting',
+  blogPost: 'BlogPosting', inDefinedTermSet: 'DefinedTermSet URL', hasDefinedTerm: 'DefinedTerm',
+};
+
+/**
+ * Rich-result requirements per type (Google Search structured data guidelines).
+ * Each entry is a list of alternatives: one of them must be present.
+ * Subtypes use the entry of their nearest listed ancestor.
+ */
+export interface TypeRequirements {
+  required: string[][];
+  recommended: string[][];
+}
+
+export const RICH_RESULT_REQUIREMENTS: Record<string, TypeRequirements> = {
+  Product: {
+    required: [['name'], ['offers', 'review', 'aggregateRating']],
+    recommended: [['image'], ['description'], ['brand'], ['sku', 'gtin', 'gtin8', 'gtin12', 'gtin13', 'gtin14', 'mpn']],
+  },
+  Offer: {
+    required: [['price', 'priceSpecification'], ['priceCurrency', 'priceSpecification']],
+    recommended: [['availability'], ['url']],
+  },
+  AggregateOffer: {
+    required: [['lowPrice'], ['priceCurrency']],
+    recommended: [['highPrice'], ['offerCount']],
+  },
+  AggregateRating: {
+    required: [['ratingValue'], ['ratingCount', 'reviewCount']],
+    recommended: [['bestRating']],
+  },
+  Review: {
+    required: [['author']],
+    recommended: [['reviewRating'], ['datePublished']],
+  },
+  Rating: {
+    required: [['ratingValue']],
+    recommended: [],
+  },
+  Article: {
+    required: [],
+    recommended: [['headline'], ['image'], ['author'], ['datePublished'], ['dateModified']],
+  },
+  FAQPage: {
+    required: [['mainEntity']],
+    recommended: [],
+  },
+  Question: {
+    required: [['name'], ['acceptedAnswer', 'suggestedAnswer']],
+    recommended: [],
+  },
+  Answer: {
+    required: [['text']],
+    recommended: [],
+  },
+  HowTo: {
+    required: [['name'], ['step']],
+    recommended: [['image'], ['totalTime'], ['supply'], ['tool'], ['estimatedCost']],
+  },
+  Recipe: {
+    required: [['name'], ['image']],
+    recommended: [['recipeIngredient'], ['recipeInstructions'], ['author'], ['datePublished'], ['totalTime'], ['nutrition']],
+  },
+  HowToSection: {
+    required: [['name'], ['itemListElement']],
+    recommended: [],
+  },
+  HowToStep: {
+    required: [['text', 'itemListElement']],
+    recommended: [['name'], ['image']],
+  },
+  HowToDirection: { required: [['text']], recommended: [] },
+  HowToTip: { required: [['text']], recommended: [] },
+  HowToItem: { required: [['name']], recommended: [] },
+  Event: {
+    required: [['name'], ['startDate'], ['location']],
+    recommended: [['description'], ['endDate'], ['eventStatus'], ['eventAttendanceMode'], ['image'], ['offers'], ['organizer'], ['performer']],
+  },
+  Organization: {
+    required: [],
+    recommended: [['name'], ['url'], ['logo'], ['sameAs'], ['description']],
+  },
+  LocalBusiness: {
+    required: [['name'], ['address']],
+    recommended: [['telephone'], ['url'], ['geo'], ['openingHoursSpecification', 'openingHours'], ['priceRange'], ['image']],
+  },
+  BreadcrumbList: {
+    required: [['itemListElement']],
+    recommended: [],
+  },
+  ListItem: {
+    required: [['position']],
+    recommended: [['name'], ['item']],
+  },
+};
+
+interface TypeDefinition {
+  parents: string[];
+  properties: Set<string>;
+}
+
+const typeDefinitions = new Map<string, TypeDefinition>(
+  Object.entries(TYPES).map(([name, [parents, properties]]) => [name, {
+    parents: parents.split(' ').filter(Boolean),
+    properties: new Set(properties.split(' ').filter(Boolean)),
+  }])
+);
+
+const enumerationMembers = new Map<string, Set<string>>(
+  Object.entries(ENUMERATIONS).map(([name, members]) => [name, new Set(members.split(' '))])
+);
+
+const allProperties = new Set<string>([
+  ...Array.from(typeDefinitions.values()).flatMap(definition => Array.from(definition.properties)),
+  ...Object.keys(PROPERTY_RANGES),
+]);
+
+const ancestorCache = new Map<string, string[]>();
+
+/** The type and all its supertypes, nearest first */
+export function typeAncestors(type: string): string[] {
+  const cached = ancestorCache.get(type);
+  if (cached) return cached;
+
+  const seen: string[] = [];
+  const queue = [type];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (seen.includes(current)) continue;
+    seen.push(current);
+    queue.push(...(typeDefinitions.get(current)?.parents ?? []));
+  }
+  ancestorCache.set(type, seen);
+  return seen;
+}
+
+export function isKnownType(type: string): boolean {
+  return typeDefinitions.has(type) || enumerationMembers.has(type);
+}
+
+export function isKnownProperty(property: string): boolean {
+  return allProperties.has(property);
+}
+
+export function isSubtypeOf(type: string, ancestor: string): boolean {
+  return typeAncestors(type).includes(ancestor);
+}
+
+/** Whether the property can be used on a node of the type (directly or inherited) */
+export function typeHasProperty(type: string, property: string): boolean {
+  return typeAncestors(type).some(ancestor => typeDefinitions.get(ancestor)?.properties.has(property));
+}
+
+/** Expected value types of a property, or null when any value is accepted */
+export function propertyRange(property: string): string[] | null {
+  return PROPERTY_RANGES[property]?.split(' ') ?? null;
+}
+
+export function isDataType(type: string): type is DataType {
+  return (DATA_TYPES as readonly string[]).includes(type);
+}
+
+/** Members of an enumeration type, or null when the type is not an enumeration */
+export function enumerationValues(type: string): Set<string> | null {
+  return enumerationMembers.get(type) ?? null;
+}
+
+/** Rich-result requirements of the nearest listed ancestor of the type */
+export function requirementsFor(type: string): TypeRequirements | null {
+  for (const ancestor of typeAncestors(type)) {
+    if (RICH_RESULT_REQUIREMENTS[ancestor]) return RICH_RESULT_REQUIREMENTS[ancestor];
+  }
+  return null;
+}
+
+/**
+ * Closest known name to a misspelt type or property (case differences or up
+ * to two edits), for "did you mean" hints
+ */
+export function suggestName(name: string, kind: 'type' | 'property'): string | undefined {
+  const candidates = kind === 'type' ? [...typeDefinitions.keys(), ...enumerationMembers.keys()] : Array.from(allProperties);
+  const lower = name.toLowerCase();
+  const exact = candidates.find(candidate => candidate.toLowerCase() === lower);
+  if (exact) return exact;
+
+  let best: string | undefined;
+  let bestDistance = 3;
+  for (const candidate of candidates) {
+    if (Math.abs(candidate.length - name.length) >= bestDistance) continue;
+    const distance = editDistance(lower, candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,57 @@
+/**
+ * Site-level audit: runs the registered site rules once over every page of a
+ * crawl, for problems no single page shows (duplicate titles and descriptions,
+ * near-duplicate content, conflicting canonicals, orphan pages)
+ */
+
+import * as cheerio from 'cheerio';
+import { Issue, ScanOptions, ScanResult } from './types.js';
+import { runSiteRules } from './rules/runner.js';
+import type { SitePage } from './rules/registry.js';
+import { extractLinks } from './crawler.js';
+import { normalizeUrl } from './urls.js';
+import { loadPlugins } from './plugins.js';
+import { applyRuleSettings } from './rule-settings.js';
+import { withFingerprints } from './fingerprint.js';
+import './rules/index.js';
+
+export interface SitePageInput {
+  url: string;
+  finalUrl?: string;     // Defaults to url
+  status?: number;       // Defaults to 200
+  depth?: number;
+  html: string;
+  links?: string[];      // Extracted from the HTML when omitted
+  result?: ScanResult;
+}
+
+/**
+ * Run the site rules over a set of pages (from crawlSite, or read from disk)
+ */
+export async function auditSite(
+  pages: SitePageInput[],
+  options: { startUrls?: string[]; scanOptions?: ScanOptions } = {}
+): Promise<Issue[]> {
+  if (options.scanOptions?.plugins?.length) await loadPlugins(options.scanOptions.plugins);
+
+  const sitePages: SitePage[] = pages.map(page => {
+    const finalUrl = normalizeUrl(page.finalUrl ?? page.url);
+    return {
+      url: page.url,
+      finalUrl,
+      status: page.status ?? 200,
+      depth: page.depth,
+      html: page.html,
+      $: cheerio.load(page.html),
+      links: page.links ?? extractLinks(page.html, finalUrl),
+      result: page.result
+    };
+  });
+
+  const { issues } = await runSiteRules({
+    pages: sitePages,
+    startUrls: options.startUrls ?? pages.slice(0, 1).map(p => p.url),
+    options: options.scanOptions
+  });
+  return withFingerprints(applyRuleSettings(issues, options.scanOptions?.rules));
+}
@@ -0,0 +1,247 @@
+/**
+ * XML sitemap discovery and parsing (https://www.sitemaps.org/protocol.html)
+ * - Finds sitemaps from robots.txt Sitemap directives, falling back to /sitemap.xml
+ * - Recursively expands sitemap index files
+ * - Decompresses gzipped sitemaps (.xml.gz), up to the protocol's 50 MB limit
+ * - Drops URLs on other hosts, which a sitemap may not list
+ * - Keeps lastmod / changefreq / priority so crawls can start with recently changed pages
+ */
+
+import * as cheerio from 'cheerio';
+import { gunzipSync } from 'zlib';
+import { fetchRobotsTxt } from './robots-txt.js';
+import { normalizeUrl } from './urls.js';
+
+// Largest uncompressed sitemap the protocol allows; also bounds gzip bombs
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+export interface SitemapEntry {
+  url: string;
+  lastmod?: string;       // ISO 8601 date as written in the sitemap
+  changefreq?: string;
+  priority?: number;      // 0.0 - 1.0
+  sitemap: string;        // Sitemap the entry was found in
+}
+
+export interface SitemapSource {
+  url: string;
+  status: number;         // 0 when the request failed
+  type: 'urlset' | 'index' | 'text' | 'invalid';
+  found: 'robots' | 'default' | 'index' | 'explicit';
+  entries: number;        // URLs (urlset/text) or child sitemaps (index)
+  error?: string;
+}
+
+export interface SitemapDiscovery {
+  entries: SitemapEntry[];
+  sitemaps: SitemapSource[];
+  truncated: boolean;     // maxUrls or maxSitemaps was reached
+  external: number;       // Entries dropped because they are on another host
+}
+
+export interface ParsedSitemap {
+  type: 'urlset' | 'index' | 'text' | 'invalid';
+  urls: Array<Omit<SitemapEntry, 'sitemap'>>;
+  sitemaps: Array<{ url: string; lastmod?: string }>;
+}
+
+/**
+ * Parse sitemap content: a <urlset>, a <sitemapindex>, or a plain-text list of URLs
+ */
+export function parseSitemap(content: string): ParsedSitemap {
+  const trimmed = content.replace(/^\uFEFF/, '').trim();
+
+  if (!trimmed.startsWith('<')) {
+    // Text sitemaps: one absolute URL per line
+    const urls = trimmed
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => /^https?:\/\//i.test(line))
+      .map(url => ({ url }));
+    return { type: urls.length ? 'text' : 'invalid', urls, sitemaps: [] };
+  }
+
+  const $ = cheerio.load(trimmed, { xmlMode: true });
+  const text = (el: any, tag: string) => $(el).children(tag).first().text().trim() || undefined;
+
+  // Children are matched by local name so namespaced extensions (image:loc, xhtml:link) are ignored
+  if ($('sitemapindex').length > 0) {
+    const sitemaps = $('sitemapindex > sitemap')
+      .map((_, el) => ({ url: text(el, 'loc'), lastmod: text(el, 'lastmod') }))
+      .get()
+      .filter((s): s is { url: string; lastmod: string | undefined } => !!s.url);
+    return { type: 'index', urls: [], sitemaps };
+  }
+
+  if ($('urlset').length > 0) {
+    const urls = $('urlset > url')
+      .map((_, el) => {
+        const priority = parseFloat(text(el, 'priority') ?? '');
+        return {
+          url: text(el, 'loc'),
+          lastmod: text(el, 'lastmod'),
+          changefreq: text(el, 'changefreq'),
+          priority: isNaN(priority) ? undefined : Math.min(Math.max(priority, 0), 1)
+        };
+      })
+      .get()
+      .filter(u => !!u.url) as ParsedSitemap['urls'];
+    return { type: 'urlset', urls, sitemaps: [] };
+  }
+
+  return { type: 'invalid', urls: [], sitemaps: [] };
+}
+
+/**
+ * Fetch a sitemap, decompressing gzip files (served as application/gzip, so
+ * fetch does not decode them)
+ */
+export async function fetchSitemap(url: string, timeoutMs = 15000): Promise<{ status: number; content?: string; error?: string }> {
+  const controller = new AbortController();
+  const id = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const res = await fetch(url, { signal: controller.signal });
+    if (res.status >= 400) {
+      return { status: res.status, error: `HTTP ${res.status}` };
+    }
+
+    const buffer = Buffer.from(await res.arrayBuffer());
+    const gzipped = buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b;
+    const tooLarge = { status: res.status, error: 'Sitemap is larger than 50 MB uncompressed' };
+    let content: Buffer;
+    try {
+      content = gzipped ? gunzipSync(buffer, { maxOutputLength: MAX_SITEMAP_BYTES }) : buffer;
+    } catch (error) {
+      // maxOutputLength exceeded (RangeError) or corrupt gzip data
+      if (error instanceof RangeError) return tooLarge;
+      return { status: res.status, error: `Invalid gzip data: ${error instanceof Error ? error.message : String(error)}` };
+    }
+    if (content.length > MAX_SITEMAP_BYTES) return tooLarge;
+    return { status: res.status, content: content.toString('utf-8') };
+  } catch (error) {
+    return { status: 0, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    clearTimeout(id);
+  }
+}
+
+/**
+ * Order entries so the most recently changed, highest-priority pages come first.
+ * Entries without lastmod sort after dated ones.
+ */
+export function sortSitemapEntries(entries: SitemapEntry[]): SitemapEntry[] {
+  return [...entries].sort((a, b) =>
+    compareTimes(lastmodTime(b.lastmod), lastmodTime(a.lastmod)) || (b.priority ?? 0.5) - (a.priority ?? 0.5)
+  );
+}
+
+function lastmodTime(lastmod?: string): number {
+  const time = lastmod ? Date.parse(lastmod) : NaN;
+  return isNaN(time) ? -Infinity : time;
+}
+
+// Subtraction of two -Infinity values is NaN, which breaks sort
+function compareTimes(a: number, b: number): number {
+  return a === b ? 0 : a - b;
+}
+
+/**
+ * Discover every page listed in a site's sitemaps. Pages on other hosts are
+ * dropped (and counted) unless followExternal is set.
+ */
+export async function discoverSitemaps(
+  siteUrl: string,
+  options: {
+    sitemapUrls?: string[];   // Explicit sitemaps (skips robots.txt / default discovery)
+    timeoutMs?: number;
+    maxSitemaps?: number;
+    maxUrls?: number;
+    followExternal?: boolean; // Keep entries on hosts other than the site's
+  } = {}
+): Promise<SitemapDiscovery> {
+  const { sitemapUrls, timeoutMs = 15000, maxSitemaps = 50, maxUrls = 50000, followExternal = false } = options;
+  const { origin, host } = new URL(siteUrl);
+
+  const queue: Array<{ url: string; found: SitemapSource['found'] }> = [];
+  if (sitemapUrls?.length) {
+    queue.push(...sitemapUrls.map(url => ({ url, found: 'explicit' as const })));
+  } else {
+    const robots = await fetchRobotsTxt(siteUrl, timeoutMs);
+    const declared = robots.robots?.sitemaps ?? [];
+    if (declared.length > 0) {
+      queue.push(...declared.map(url => ({ url: new URL(url, origin).href, found: 'robots' as const })));
+    } else {
+      queue.push({ url: `${origin}/sitemap.xml`, found: 'default' });
+    }
+  }
+
+  const visited = new Set<string>();
+  const sitemaps: SitemapSource[] = [];
+  const entries = new Map<string, SitemapEntry>();
+  let truncated = false;
+  let external = 0;
+
+  while (queue.length > 0) {
+    const { url, found } = queue.shift()!;
+    if (visited.has(url)) continue;   // Index files that list each other
+    if (visited.size >= maxSitemaps || entries.size >= maxUrls) {
+      truncated = true;
+      break;
+    }
+    visited.add(url);
+
+    const fetched = await fetchSitemap(url, timeoutMs);
+    if (fetched.content === undefined) {
+      sitemaps.push({ url, status: fetched.status, type: 'invalid', found, entries: 0, error: fetched.error });
+      continue;
+    }
+
+    const parsed = parseSitemap(fetched.content);
+    sitemaps.push({
+      url,
+      status: fetched.status,
+      type: parsed.type,
+      found,
+      entries: parsed.type === 'index' ? parsed.sitemaps.length : parsed.urls.length,
+      error: parsed.type === 'invalid' ? 'Not a sitemap (no <urlset> or <sitemapindex>)' : undefined
+    });
+
+    for (const child of parsed.sitemaps) {
+      try {
+        queue.push({ url: new URL(child.url, url).href, found: 'index' });
+      } catch {
+        // Skip malformed child sitemap URLs
+      }
+    }
+
+    for (const entry of parsed.urls) {
+      if (entries.size >= maxUrls) {
+        truncated = true;
+        break;
+      }
+      let key: string;
+      try {
+        key = normalizeUrl(new URL(entry.url, url).href);
+      } catch {
+        continue;
+      }
+      if (!followExternal && new URL(key).host !== host) {
+        external++;
+        continue;
+      }
+      // The same URL in several sitemaps keeps the most recent lastmod
+      const existing = entries.get(key);
+      if (!existing || lastmodTime(entry.lastmod) > lastmodTime(existing.lastmod)) {
+        entries.set(key, { ...entry, url: key, sitemap: url });
+      }
+    }
+  }
+
+  return {
+    entries: sortSitemapEntries(Array.from(entries.values())),
+    sitemaps,
+    truncated,
+    external
+  };
+}
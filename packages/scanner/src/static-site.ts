@@ -0,0 +1,72 @@
+/**
+ * Static site discovery for offline scans
+ * Walks a static export directory (e.g. Next.js `out/`, Astro/Hugo `dist/`)
+ * and maps each HTML file to the URL it will be served at
+ */
+
+import { readdir } from 'fs/promises';
+import { join, relative, sep } from 'path';
+import { pathToFileURL } from 'url';
+
+export interface StaticPage {
+  filePath: string;   // Absolute path on disk
+  fileUrl: string;    // file:// URL of the HTML file
+  url: string;        // Public URL the page maps to (under baseUrl)
+}
+
+const IGNORED_DIRS = new Set(['node_modules', '.git', '_next', '.next']);
+
+/**
+ * Map a file path relative to the export root to its public pathname
+ * - index.html        → /
+ * - about/index.html  → /about/
+ * - about.html        → /about
+ */
+function toPathname(relativePath: string): string {
+  const parts = relativePath.split(sep);
+  const file = parts.pop()!;
+
+  if (file === 'index.html') {
+    return '/' + parts.map(encodeURIComponent).join('/') + (parts.length ? '/' : '');
+  }
+
+  parts.push(file.replace(/\.html?$/i, ''));
+  return '/' + parts.map(encodeURIComponent).join('/');
+}
+
+/**
+ * Recursively find HTML pages in a static export directory
+ */
+export async function discoverStaticPages(
+  rootDir: string,
+  baseUrl: string,
+  options: { maxPages?: number } = {}
+): Promise<StaticPage[]> {
+  const { maxPages = Infinity } = options;
+  const pages: StaticPage[] = [];
+  // Resolve relative to the base so exports served from a sub-path keep it
+  const base = new URL(baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+
+  async function walk(dir: string): Promise<void> {
+    const entries = await readdir(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (pages.length >= maxPages) return;
+
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRS.has(entry.name)) await walk(fullPath);
+      } else if (/\.html?$/i.test(entry.name) && entry.name !== '404.html') {
+        pages.push({
+          filePath: fullPath,
+          fileUrl: pathToFileURL(fullPath).href,
+          url: new URL(toPathname(relative(rootDir, fullPath)).slice(1), base).href,
+        });
+      }
+    }
+  }
+
+  await walk(rootDir);
+  return pages;
+}
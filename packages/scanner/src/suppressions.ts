@@ -0,0 +1,146 @@
+/**
+ * Issue suppressions
+ *
+ * Inline, in the page:
+ *
+ *   <div data-ai-lighthouse-ignore="AIREAD-010">…</div>   Issues located in this element
+ *   <div data-ai-lighthouse-ignore>…</div>                 Any rule
+ *   <!-- ai-lighthouse-ignore KG-002 -->                   The next element (in <head>: the whole page)
+ *   <html data-ai-lighthouse-ignore="CRAWL">               The whole page (also on <head> / <body>)
+ *
+ * Values are rule IDs or categories separated by spaces or commas. An issue
+ * with a selector is suppressed when every element it matches is inside an
+ * ignored element; issues without a selector only by page-wide suppressions.
+ *
+ * Baseline: issues whose fingerprint is in a baseline file (see baseline.ts).
+ */
+
+import type { CheerioAPI } from 'cheerio';
+import { hasChildren, isComment, isTag } from 'domhandler';
+import type { AnyNode, Element, ParentNode } from 'domhandler';
+import { Issue } from './types.js';
+import type { IssueBaseline } from './baseline.js';
+import { issueFingerprint } from './fingerprint.js';
+
+export const IGNORE_ATTRIBUTE = 'data-ai-lighthouse-ignore';
+const IGNORE_COMMENT = /^\s*ai-lighthouse-ignore(?:\s+([\s\S]*?))?\s*$/;
+const PAGE_ELEMENTS = ['html', 'head', 'body'];
+const DIAGNOSTIC_IDS = ['MISC-ERR', 'MISC-TIMEOUT'];
+
+export type SuppressionKind = 'inline' | 'baseline';
+
+export interface SuppressedIssue extends Issue {
+  suppressedBy: SuppressionKind;
+}
+
+interface InlineSuppression {
+  rules: string[];          // Empty: every rule
+  scope: Element | null;    // Null for the whole page
+}
+
+function parseRules(value: string | undefined): string[] {
+  return (value ?? '').split(/[\s,]+/).filter(Boolean);
+}
+
+function nextElement(node: AnyNode): Element | null {
+  for (let sibling = node.next; sibling; sibling = sibling.next) {
+    if (isTag(sibling)) return sibling;
+  }
+  return null;
+}
+
+/**
+ * Collect the inline suppressions of a page
+ */
+export function findInlineSuppressions($: CheerioAPI): InlineSuppression[] {
+  const found: InlineSuppression[] = [];
+
+  $(`[${IGNORE_ATTRIBUTE}]`).each((_, el) => {
+    found.push({
+      rules: parseRules($(el).attr(IGNORE_ATTRIBUTE)),
+      scope: PAGE_ELEMENTS.includes(el.tagName.toLowerCase()) ? null : el
+    });
+  });
+
+  const walk = (node: ParentNode) => {
+    for (const child of node.children) {
+      if (isComment(child)) {
+        const match = IGNORE_COMMENT.exec(child.data);
+        if (!match) continue;
+        // Comments in <head> or outside <body> cover the page; others the next element (or their parent)
+        const parent = child.parent && isTag(child.parent) ? child.parent : null;
+        const target = nextElement(child) ?? parent;
+        const pageWide = !parent
+          || (PAGE_ELEMENTS.includes(parent.name.toLowerCase()) && parent.name.toLowerCase() !== 'body')
+          || !target || PAGE_ELEMENTS.includes(target.name.toLowerCase());
+        found.push({ rules: parseRules(match[1]), scope: pageWide ? null : target });
+      } else if (hasChildren(child)) {
+        walk(child);
+      }
+    }
+  };
+  walk($.root()[0]);
+
+  return found;
+}
+
+function appliesTo(suppression: InlineSuppression, issue: Issue): boolean {
+  return suppression.rules.length === 0
+    || suppression.rules.includes(issue.id)
+    || suppression.rules.includes(issue.category);
+}
+
+function isInside(node: AnyNode, scopes: Set<AnyNode>): boolean {
+  for (let current: AnyNode | null = node; current; current = current.parent) {
+    if (scopes.has(current)) return true;
+  }
+  return false;
+}
+
+function isInlineSuppressed(issue: Issue, $: CheerioAPI, suppressions: InlineSuppression[]): boolean {
+  const matching = suppressions.filter(s => appliesTo(s, issue));
+  if (matching.length === 0) return false;
+  if (matching.some(s => s.scope === null)) return true;
+
+  const selector = issue.location?.selector;
+  if (!selector) return false;
+
+  let elements: AnyNode[];
+  try {
+    elements = $(selector).toArray();
+  } catch {
+    return false;
+  }
+  const scopes = new Set<AnyNode>(matching.flatMap(s => (s.scope ? [s.scope] : [])));
+  return elements.length > 0 && elements.every(el => isInside(el, scopes));
+}
+
+/**
+ * Split issues into reported and suppressed ones. Inline suppressions need
+ * the page's DOM; rule errors and timeouts are never suppressed.
+ */
+export function applySuppressions(
+  issues: Issue[],
+  options: { $?: CheerioAPI; baseline?: IssueBaseline }
+): { issues: Issue[]; suppressed: SuppressedIssue[] } {
+  const inline = options.$ ? findInlineSuppressions(options.$) : [];
+  const known = new Set(options.baseline?.issues.map(entry => entry.fingerprint) ?? []);
+  if (inline.length === 0 && known.size === 0) return { issues, suppressed: [] };
+
+  const kept: Issue[] = [];
+  const suppressed: SuppressedIssue[] = [];
+
+  for (const issue of issues) {
+    if (DIAGNOSTIC_IDS.includes(issue.id)) {
+      kept.push(issue);
+    } else if (options.$ && isInlineSuppressed(issue, options.$, inline)) {
+      suppressed.push({ ...issue, suppressedBy: 'inline' });
+    } else if (known.has(issue.fingerprint ?? issueFingerprint(issue))) {
+      suppressed.push({ ...issue, suppressedBy: 'baseline' });
+    } else {
+      kept.push(issue);
+    }
+  }
+
+  return { issues: kept, suppressed };
+}
@@ -0,0 +1,277 @@
+/**
+ * Rule testing harness: run rules against an HTML fixture without network
+ * access, and compare the issues with a stored snapshot.
+ *
+ *   const result = await testRules('AIREAD-001', {
+ *     html: '<html><body><p>No heading</p></body></html>',
+ *     headers: { 'x-robots-tag': 'noai' },
+ *     robotsTxt: 'User-agent: GPTBot\nDisallow: /',
+ *     fetch: { 'https://example.com/about': 404 }
+ *   });
+ *   assert.equal(result.issues[0].id, 'AIREAD-001');
+ *   await matchRuleSnapshot(result, '__snapshots__/airead-001.json');
+ *
+ * While a fixture runs, global fetch is replaced by the fixture's responses
+ * (anything not listed answers 404), so runs are serialized.
+ */
+
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { Issue, RuleTiming, ScanOptions } from './types.js';
+import { getRegisteredRules, RuleConstructor, RuleContext, RuleMeta } from './rules/registry.js';
+import { executeRules, Runnable } from './rules/runner.js';
+import { buildAICrawlerAccessMatrix, clearRobotsTxtCache, fetchRobotsTxt } from './robots-txt.js';
+import { clearLlmsTxtCache } from './llms-txt.js';
+import { clearAIPolicyCache } from './ai-policy.js';
+import { clearLinkCheckCache } from './link-checker.js';
+import { parseHtml } from './utils.js';
+import { normalizeUrl } from './urls.js';
+import './rules/index.js';
+
+export interface FixtureResponse {
+  status?: number;                    // Default 200
+  headers?: Record<string, string>;
+  body?: string;
+  url?: string;                       // Final URL, to simulate a followed redirect
+}
+
+export interface RuleFixture {
+  html: string;
+  url?: string;                       // Default https://example.com/
+  finalUrl?: string;
+  status?: number;                    // Status of the page response (default 200)
+  headers?: Record<string, string>;   // Headers of the page response
+  robotsTxt?: string;                 // Served at /robots.txt of the page's origin
+  /** Responses for other URLs the rules fetch: a status code, a body, or a full response */
+  fetch?: Record<string, number | string | FixtureResponse>;
+  offline?: boolean;                  // Skip rules that require the network, like a file:// scan
+  options?: ScanOptions;
+}
+
+export interface RuleTestResult {
+  issues: Issue[];                    // Issues returned by the rules
+  errors: Issue[];                    // Rules that threw or timed out (MISC-ERR / MISC-TIMEOUT)
+  skipped: string[];                  // IDs of rules skipped because the fixture is offline
+  profile: RuleTiming[];
+  requests: string[];                 // "METHOD url" of every fetch the rules made
+}
+
+/** Stable subset of an issue, without timestamps */
+export interface RuleSnapshotEntry {
+  id: string;
+  title: string;
+  severity: string;
+  category: string;
+  impactScore: number;
+  confidence?: number;
+  selector?: string;
+  textSnippet?: string;
+  description: string;
+}
+
+type RuleRef = string | RuleConstructor;
+
+const DEFAULT_URL = 'https://example.com/';
+const DIAGNOSTIC_IDS = ['MISC-ERR', 'MISC-TIMEOUT'];
+
+let queue: Promise<unknown> = Promise.resolve();
+
+function resolveRules(refs: RuleRef[]): Runnable<RuleContext>[] {
+  const registered = getRegisteredRules();
+  return refs.map(ref => {
+    if (typeof ref === 'string') {
+      const found = registered.find(r => r.meta.id === ref);
+      if (!found) throw new Error(`Unknown rule "${ref}"`);
+      return found;
+    }
+    const meta = registered.find(r => r.ctor === ref)?.meta ?? (ref as { meta?: RuleMeta }).meta;
+    if (!meta?.id) throw new Error(`Rule ${ref.name} is not registered and has no static meta with an id`);
+    return { meta, ctor: ref };
+  });
+}
+
+function toResponse(entry: number | string | FixtureResponse, method: string): Response {
+  const spec: FixtureResponse = typeof entry === 'number' ? { status: entry }
+    : typeof entry === 'string' ? { body: entry }
+    : entry;
+  const response = new Response(method === 'HEAD' ? null : spec.body ?? '', {
+    status: spec.status ?? 200,
+    headers: spec.headers
+  });
+  if (spec.url) Object.defineProperty(response, 'url', { value: spec.url });
+  return response;
+}
+
+/**
+ * Fetch replacement answering from the fixture's responses, matched by exact
+ * or normalized URL
+ */
+function createFixtureFetch(fixture: RuleFixture, pageUrl: string, requests: string[]): typeof fetch {
+  const responses = new Map<string, number | string | FixtureResponse>();
+  for (const [url, entry] of Object.entries(fixture.fetch ?? {})) responses.set(url, entry);
+  if (fixture.robotsTxt !== undefined) {
+    responses.set(`${new URL(pageUrl).origin}/robots.txt`, { body: fixture.robotsTxt, headers: { 'content-type': 'text/plain' } });
+  }
+  responses.set(pageUrl, { status: fixture.status, headers: fixture.headers, body: fixture.html });
+
+  const normalized = new Map<string, number | string | FixtureResponse>();
+  for (const [url, entry] of responses) {
+    try {
+      normalized.set(normalizeUrl(url), entry);
+    } catch {
+      // Not an absolute URL: only matched exactly
+    }
+  }
+
+  return (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    requests.push(`${method} ${url}`);
+
+    let entry = responses.get(url);
+    if (entry === undefined) {
+      try {
+        entry = normalized.get(normalizeUrl(url));
+      } catch {
+        // Fall through to 404
+      }
+    }
+    return toResponse(entry ?? 404, method);
+  }) as typeof fetch;
+}
+
+function clearCaches(): void {
+  clearRobotsTxtCache();
+  clearLlmsTxtCache();
+  clearAIPolicyCache();
+  clearLinkCheckCache();
+}
+
+async function runFixture(refs: RuleRef[], fixture: RuleFixture): Promise<RuleTestResult> {
+  const url = fixture.url ?? DEFAULT_URL;
+  const finalUrl = fixture.finalUrl ?? url;
+  const requests: string[] = [];
+  const regs = resolveRules(refs);
+  const toRun = fixture.offline ? regs.filter(r => !r.meta.requiresNetwork) : regs;
+
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = createFixtureFetch(fixture, finalUrl, requests);
+  clearCaches();
+
+  try {
+    // The access matrix comes from the fixture's robots.txt, as in a real scan
+    const robotsAccess = fixture.offline ? undefined : buildAICrawlerAccessMatrix(await fetchRobotsTxt(finalUrl), finalUrl);
+    requests.length = 0;
+
+    const ctx: RuleContext = {
+      url,
+      html: fixture.html,
+      $: parseHtml(fixture.html),
+      options: fixture.options,
+      response: fixture.offline ? undefined : new Response(fixture.html, { status: fixture.status ?? 200, headers: fixture.headers }),
+      finalUrl,
+      robotsAccess,
+      offline: fixture.offline
+    };
+
+    const { issues, profile } = await executeRules(toRun, ctx, fixture.options, url);
+    return {
+      issues: issues.filter(issue => !DIAGNOSTIC_IDS.includes(issue.id)),
+      errors: issues.filter(issue => DIAGNOSTIC_IDS.includes(issue.id)),
+      skipped: regs.filter(r => !toRun.includes(r)).map(r => r.meta.id),
+      profile,
+      requests
+    };
+  } finally {
+    globalThis.fetch = realFetch;
+    clearCaches();
+  }
+}
+
+/**
+ * Run rules (registered IDs, or rule classes with a static meta) against an
+ * HTML fixture
+ */
+export function testRules(rules: RuleRef | RuleRef[], fixture: RuleFixture): Promise<RuleTestResult> {
+  const refs = Array.isArray(rules) ? rules : [rules];
+  const run = queue.then(() => runFixture(refs, fixture));
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Stable, timestamp-free form of the issues, sorted by ID, selector and title
+ */
+export function toRuleSnapshot(result: RuleTestResult | Issue[]): RuleSnapshotEntry[] {
+  const issues = Array.isArray(result) ? result : result.issues;
+  return issues
+    .map(issue => ({
+      id: issue.id,
+      title: issue.title,
+      severity: issue.severity,
+      category: issue.category,
+      impactScore: issue.impactScore,
+      confidence: issue.confidence,
+      selector: issue.location?.selector,
+      textSnippet: issue.location?.textSnippet,
+      description: issue.description
+    }))
+    .sort((a, b) =>
+      a.id.localeCompare(b.id)
+      || (a.selector ?? '').localeCompare(b.selector ?? '')
+      || a.title.localeCompare(b.title)
+    );
+}
+
+export function serializeRuleSnapshot(entries: RuleSnapshotEntry[]): string {
+  return JSON.stringify(entries, null, 2) + '\n';
+}
+
+/**
+ * Compare the issues with a snapshot file, writing it when it does not exist
+ * or update is set. Throws with the first difference on mismatch.
+ *
+ * In CI (the CI environment variable, or ci: true) a missing snapshot is an
+ * error: writing it would make the test pass without checking anything.
+ */
+export async function matchRuleSnapshot(
+  result: RuleTestResult | Issue[],
+  path: string,
+  options: { update?: boolean; ci?: boolean } = {}
+): Promise<void> {
+  const { update = false, ci = Boolean(process.env.CI) } = options;
+  const actual = serializeRuleSnapshot(toRuleSnapshot(result));
+
+  const missing = !existsSync(path);
+  if (missing && !update && ci) {
+    throw new Error(`Rule snapshot ${path} does not exist; run the tests outside CI (or with update) to write it`);
+  }
+
+  if (update || missing) {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, actual);
+    return;
+  }
+
+  const expected = await readFile(path, 'utf-8');
+  if (expected === actual) return;
+
+  let expectedCount: number | string;
+  try {
+    expectedCount = (JSON.parse(expected) as unknown[]).length;
+  } catch {
+    expectedCount = 'unreadable';
+  }
+  const actualCount = toRuleSnapshot(result).length;
+
+  const expectedLines = expected.split('\n');
+  const actualLines = actual.split('\n');
+  const line = expectedLines.findIndex((text, i) => text !== actualLines[i]);
+  const at = line === -1 ? expectedLines.length : line;
+  throw new Error(
+    `Rule snapshot mismatch in ${path} (expected ${expectedCount} issues, got ${actualCount}), first difference at line ${at + 1}:\n` +
+    `  expected: ${expectedLines[at] ?? '(end of file)'}\n` +
+    `  actual:   ${actualLines[at] ?? '(end of file)'}`
+  );
+}
@@ -0,0 +1,92 @@
+/**
+ * Tokenizers for chunk sizes and token budgets
+ * Bundled BPE encodings run offline, so counts match what models see
+ */
+
+import * as cl100k from 'gpt-tokenizer/esm/encoding/cl100k_base';
+import * as o200k from 'gpt-tokenizer/esm/encoding/o200k_base';
+import type { EncodeOptions } from 'gpt-tokenizer/esm/GptEncoding';
+import type { Llama3Tokenizer } from 'llama3-tokenizer-js';
+import { createRequire } from 'module';
+
+export interface Tokenizer {
+  name: string;          // Used in options and reports, e.g. "cl100k"
+  description: string;
+  encode(text: string): number[];
+  countTokens(text: string): number;
+}
+
+export const DEFAULT_TOKENIZER = 'cl100k';
+
+// Page text may contain strings like "<|endoftext|>"; encode them as plain text
+const PLAIN_TEXT: EncodeOptions = { disallowedSpecial: new Set() };
+
+const tokenizers = new Map<string, Tokenizer>();
+
+const require = createRequire(import.meta.url);
+let llama3: Llama3Tokenizer | undefined;
+
+/** The Llama 3 vocabulary (128k tokens) is large, so it is loaded on first use */
+function llama3Encoding(): Llama3Tokenizer {
+  llama3 ??= (require('llama3-tokenizer-js/bundle/commonjs-llama3-tokenizer-with-baked-data.cjs') as { llama3Tokenizer: Llama3Tokenizer }).llama3Tokenizer;
+  return llama3;
+}
+
+/**
+ * Register a tokenizer, replacing any with the same name
+ */
+export function registerTokenizer(tokenizer: Tokenizer): void {
+  tokenizers.set(tokenizer.name, tokenizer);
+}
+
+/**
+ * Resolve a tokenizer by name (default: cl100k). A Tokenizer object is
+ * returned as is, so callers can pass their own without registering it.
+ */
+export function getTokenizer(tokenizer?: string | Tokenizer): Tokenizer {
+  if (typeof tokenizer === 'object' && tokenizer !== null) return tokenizer;
+
+  const name = typeof tokenizer === 'string' && tokenizer ? tokenizer : DEFAULT_TOKENIZER;
+  const found = tokenizers.get(name);
+  if (!found) {
+    throw new Error(`Unknown tokenizer "${name}" (expected one of: ${listTokenizers().map(t => t.name).join(', ')})`);
+  }
+  return found;
+}
+
+export function isTokenizerName(name: string): boolean {
+  return tokenizers.has(name);
+}
+
+export function listTokenizers(): Tokenizer[] {
+  return [...tokenizers.values()];
+}
+
+/**
+ * Count tokens with the given tokenizer (default: cl100k)
+ */
+export function countTokens(text: string, tokenizer?: string | Tokenizer): number {
+  if (!text) return 0;
+  return getTokenizer(tokenizer).countTokens(text);
+}
+
+registerTokenizer({
+  name: 'cl100k',
+  description: 'cl100k_base BPE (GPT-4, GPT-3.5, text-embedding-3)',
+  encode: text => cl100k.encode(text, PLAIN_TEXT),
+  countTokens: text => cl100k.countTokens(text, PLAIN_TEXT),
+});
+
+registerTokenizer({
+  name: 'o200k',
+  description: 'o200k_base BPE (GPT-4o, GPT-4.1, o-series, GPT-5)',
+  encode: text => o200k.encode(text, PLAIN_TEXT),
+  countTokens: text => o200k.countTokens(text, PLAIN_TEXT),
+});
+
+registerTokenizer({
+  name: 'llama3',
+  description: 'Llama 3 BPE (Llama 3, 3.1, 3.2 and 3.3)',
+  encode: text => llama3Encoding().encode(text, { bos: false, eos: false }),
+  countTokens: text => llama3Encoding().encode(text, { bos: false, eos: false }).length,
+});
@@ -1,3 +1,12 @@
+import type { CloakingReport } from './cloaking.js';
+import type { RobotsAccessMatrix } from './robots-txt.js';
+import type { AIPolicyReport } from './ai-policy.js';
+import type { RuleSettings } from './rule-settings.js';
+import type { IssueBaseline } from './baseline.js';
+import type { SuppressedIssue } from './suppressions.js';
+import type { IssueFix } from './fixes.js';
+import type { Tokenizer } from './tokenizer.js';
+
 export enum SEVERITY {
   LOW = 'low',
   MEDIUM = 'medium',
@@ -33,7 +42,8 @@ export interface IssueLocation {
 }
 
 export interface Issue {
-  id: string;
+  id: string; // Rule ID, shared by every issue of the rule
+  fingerprint?: string; // Stable across runs: rule, page, selector and evidence (see fingerprint.ts)
   title: string;
   severity: SEVERITY;
   description: string;
@@ -46,18 +56,55 @@ export interface Issue {
   confidence?: number;
   timestamp?: string; // ISO timestamp
   category: CATEGORY;
+  fix?: IssueFix; // Generated markup and patch, for rules with a mechanical fix (see fixes.ts)
+}
+
+/**
+ * A registered rule that did not run for this scan (e.g. network-only rules in offline mode)
+ */
+export interface SkippedRule {
+  id: string;
+  title: string;
+  reason: string;
+}
+
+/** Time spent in one rule during a scan */
+export interface RuleTiming {
+  id: string;
+  title: string;
+  durationMs: number;
+  status: 'ok' | 'error' | 'timeout';
+  issues: number;       // Issues the rule returned (before filtering)
+}
+
+/**
+ * A single HTTP redirect followed while fetching a page
+ */
+export interface RedirectHop {
+  url: string;       // URL that was requested
+  status: number;    // 3xx status code returned
+  location: string;  // Absolute URL from the Location header
 }
 
 export interface ScanOptions {
-  html?: string;
+  html?: string; // Raw HTML to scan instead of fetching the URL (offline scan)
   timeoutMs?: number;
   maxChunkTokens?: number;
+  tokenizer?: string | Tokenizer; // Tokenizer for chunk sizes and token budgets: "cl100k" (default), "o200k", "llama3" or a custom one
   userAgent?: string;
   enableChunking?: boolean; // Enable detailed content chunking analysis
   chunkingStrategy?: 'auto' | 'heading-based' | 'paragraph-based'; // Force specific chunking strategy (default: auto)
   enableExtractability?: boolean; // Enable extractability mapping
   enableLLM?: boolean; // Enable LLM comprehension analysis
   enableHallucinationDetection?: boolean; // Enable hallucination trigger detection
+  enableCloakingDetection?: boolean; // Re-fetch as a browser and as AI crawlers and compare the responses
+  cloakingCrawlers?: string[]; // AI crawler names to compare (default: GPTBot, ClaudeBot, PerplexityBot, Google-Extended)
+  plugins?: string[]; // Rule plugins (package names or paths relative to the working directory) loaded before the scan
+  rules?: RuleSettings; // Per-rule / per-category overrides: "off", a severity, or { enabled, severity, impact }
+  ruleConcurrency?: number; // Rules executed at the same time (default: 4)
+  ruleTimeoutMs?: number; // Abandon a rule that runs longer than this (default: 30000, 0 disables)
+  baseline?: IssueBaseline | string; // Known issues (or the path of a baseline file) to suppress by fingerprint
+  keepAllIssues?: boolean; // Also return every issue before the thresholds and maxIssues as allIssues (for writing baselines)
   
   // Filtering options to reduce noise
   minImpactScore?: number; // Minimum impact score to include (default: 8)
@@ -97,6 +144,7 @@ export interface ChunkingAnalysis {
   averageTokensPerChunk: number;
   averageNoiseRatio: number;
   chunkingStrategy: string;
+  tokenizer: string;
 }
 
 export interface ExtractabilityAnalysis {
@@ -160,11 +208,26 @@ export interface ScoringResult {
 export interface ScanResult {
   // ===== METADATA =====
   url: string;
+  title?: string; // Text of the page <title>
   timestamp?: number;
   llmLimitExceeded?: boolean; // Flag if LLM rate limit was hit
+  offline?: boolean; // Scanned from raw HTML or a local file without network access
+  finalUrl?: string; // URL after following redirects
+  statusCode?: number; // HTTP status of the final response
+  redirectChain?: RedirectHop[]; // Every redirect hop between url and finalUrl
+  
+  /** Rules that were registered but not executed, with the reason */
+  skippedRules?: SkippedRule[];
+
+  /** Duration and outcome of every executed rule, in registry order */
+  ruleProfile?: RuleTiming[];
   
   // ===== ISSUES & SCORING =====
   issues: Issue[];
+  /** Issues hidden by inline suppressions or the baseline (not scored) */
+  suppressedIssues?: SuppressedIssue[];
+  /** With keepAllIssues: every fingerprinted issue, suppressed or not, before thresholds and maxIssues */
+  allIssues?: Array<Issue | SuppressedIssue>;
   scores: Record<string, number>; // Legacy category scores (for backward compatibility)
   scoring?: ScoringResult; // Comprehensive scoring system with weights and breakdowns
   
@@ -175,6 +238,15 @@ export interface ScanResult {
   /** Extractability mapping - how easily content can be parsed from HTML */
   extractability?: ExtractabilityAnalysis;
   
+  /** robots.txt allowed/blocked verdict per AI crawler for this URL */
+  robots?: RobotsAccessMatrix;
+  
+  /** Can AI systems index, train on and quote this page, with the directive behind each verdict */
+  aiPolicy?: AIPolicyReport;
+  
+  /** Browser vs. AI crawler fetch comparison (blocking, challenges, cloaking) */
+  cloaking?: CloakingReport;
+  
   // ===== AI COMPREHENSION =====
   /** High-level AI understanding and content analysis */
   llm?: {
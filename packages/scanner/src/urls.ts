@@ -0,0 +1,105 @@
+/**
+ * URL normalization and include/exclude filtering for crawling
+ */
+
+/** Query parameters that only track campaigns/clicks and never change page content */
+export const TRACKING_PARAMS = [
+  /^utm_/i,
+  /^(gclid|gbraid|wbraid|dclid|fbclid|msclkid|yclid|twclid|igshid|ttclid|li_fat_id)$/i,
+  /^(mc_cid|mc_eid|_ga|_gl|_hsenc|_hsmi|mkt_tok|oly_anon_id|oly_enc_id|vero_id)$/i
+];
+
+/**
+ * Normalize a URL for de-duplication:
+ * - drops the fragment
+ * - removes tracking parameters (utm_*, gclid, fbclid, ...)
+ * - lowercases scheme/host and drops default ports (via URL)
+ */
+export function normalizeUrl(url: string, options: { stripTrackingParams?: boolean } = {}): string {
+  const { stripTrackingParams = true } = options;
+  const parsed = new URL(url);
+  parsed.hash = '';
+
+  if (stripTrackingParams && parsed.search) {
+    for (const key of Array.from(parsed.searchParams.keys())) {
+      if (TRACKING_PARAMS.some(p => p.test(key))) parsed.searchParams.delete(key);
+    }
+  }
+
+  // URLSearchParams leaves a bare "?" behind when every parameter was removed
+  return parsed.href.replace(/\?$/, '');
+}
+
+/**
+ * Key under which the URL variants a static host serves as one page compare
+ * equal (/docs, /docs/, /docs.html and /docs/index.html)
+ */
+export function pageKey(url: string): string {
+  return normalizeUrl(url).replace(/(\/index)?\.html?(?=$|\?)/i, '').replace(/\/(?=$|\?)/, '');
+}
+
+export type UrlPattern = string | RegExp;
+
+const REGEX_LITERAL = /^\/(.+)\/([a-z]*)$/;
+// A "/.../" string without any of these is a path glob like "/docs/" or "/blog/*/", not a regex
+const REGEX_SYNTAX = /[\\^$+?()[\]{}|]/;
+
+/** Copy of a regex without the g and y flags, which make test() stateful */
+function statelessRegExp(source: string, flags: string): RegExp {
+  return new RegExp(source, flags.replace(/[gy]/g, ''));
+}
+
+/**
+ * Compile an include/exclude pattern:
+ * - RegExp objects and "/.../flags" strings are regular expressions tested
+ *   against the full URL (the g and y flags are ignored). A string only counts
+ *   as a regex when its body uses regex syntax other than "." and "*", as in
+ *   "/\.pdf$/i": "/docs/" is a path
+ * - Other strings are globs where `*` matches any characters, anchored at both
+ *   ends. Globs with a scheme ("https://example.com/docs/*") match the URL,
+ *   others the path ("/tag/*", "blog/*"); the query only when the glob
+ *   contains "?" ("/*?page=*"). A glob ending in "/" also matches everything below it
+ */
+export function compileUrlPattern(pattern: UrlPattern): (url: URL) => boolean {
+  if (pattern instanceof RegExp) {
+    const regex = statelessRegExp(pattern.source, pattern.flags);
+    return url => regex.test(url.href);
+  }
+
+  const regexLiteral = pattern.match(REGEX_LITERAL);
+  if (regexLiteral && REGEX_SYNTAX.test(regexLiteral[1])) {
+    const regex = statelessRegExp(regexLiteral[1], regexLiteral[2]);
+    return url => regex.test(url.href);
+  }
+
+  const isFullUrl = /^[a-z][a-z0-9+.-]*:\/\//i.test(pattern);
+  const glob = isFullUrl || pattern.startsWith('/') ? pattern : `/${pattern}`;
+  const source = glob
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  const regex = new RegExp(`^${source}${glob.endsWith('/') ? '.*' : ''}$`);
+
+  const withQuery = glob.includes('?');
+  return url => regex.test(`${isFullUrl ? url.origin : ''}${url.pathname}${withQuery ? url.search : ''}`);
+}
+
+/**
+ * Build a predicate that accepts URLs matching any include pattern (or all URLs
+ * when there are none) and no exclude pattern
+ */
+export function createUrlFilter(include: UrlPattern[] = [], exclude: UrlPattern[] = []): (url: string) => boolean {
+  const includes = include.map(compileUrlPattern);
+  const excludes = exclude.map(compileUrlPattern);
+
+  return (url: string) => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+    if (includes.length > 0 && !includes.some(match => match(parsed))) return false;
+    return !excludes.some(match => match(parsed));
+  };
+}
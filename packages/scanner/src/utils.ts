@@ -1,4 +1,8 @@
 import * as cheerio from 'cheerio';
+import { readFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import type { RedirectHop } from './types.js';
+import { countTokens, Tokenizer } from './tokenizer.js';
 
 function nowISO(): string {
   return new Date().toISOString();
@@ -8,26 +12,64 @@ function clamp(value: number, min: number, max: number): number {
   return Math.min(Math.max(value, min), max);
 }
 
-export function estimateTokenCount(text: string): number {
-  if (!text) return 0;
-
-  const tokens = text.trim().split(/\s+/).length;
+/**
+ * Token count of the text with the scan's tokenizer (default: cl100k)
+ */
+export function estimateTokenCount(text: string, tokenizer?: string | Tokenizer): number {
+  return countTokens(text, tokenizer);
+}
 
-  return tokens;
+/**
+ * Thrown by fetchHtml when redirects loop or exceed maxRedirects: there is no page to scan
+ */
+export class RedirectError extends Error {
+  constructor(message: string, readonly redirectChain: RedirectHop[], readonly loop: boolean) {
+    super(message);
+    this.name = 'RedirectError';
+  }
 }
 
-export async function fetchHtml(url: string, timeoutMs: number, userAgent?: string) {
+export async function fetchHtml(url: string, timeoutMs: number, userAgent?: string, maxRedirects = 10) {
   const controller = new AbortController();
   const id = setTimeout(() => controller.abort(), timeoutMs);
 
   try {
-    const response = await fetch(url, {
-      method: 'GET',
-      signal: controller.signal,
-      headers: {
-        "user-Agent": userAgent || 'ai-lighthouse-scanner/1.0 (+https://example.com)'
+    // Follow redirects manually so every hop can be recorded
+    const redirectChain: RedirectHop[] = [];
+    const visited = new Set<string>([url]);
+    let finalUrl = url;
+    let response: Response;
+
+    while (true) {
+      response = await fetch(finalUrl, {
+        method: 'GET',
+        redirect: 'manual',
+        signal: controller.signal,
+        headers: {
+          "user-Agent": userAgent || 'ai-lighthouse-scanner/1.0 (+https://example.com)'
+        }
+      });
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+
+      const nextUrl = new URL(location, finalUrl).href;
+      redirectChain.push({ url: finalUrl, status: response.status, location: nextUrl });
+
+      await response.body?.cancel();
+
+      if (visited.has(nextUrl)) {
+        const hops = [...redirectChain.map(hop => hop.url), nextUrl].join(' → ');
+        throw new RedirectError(`Redirect loop: ${hops}`, redirectChain, true);
       }
-    });
+      if (redirectChain.length >= maxRedirects) {
+        throw new RedirectError(`Too many redirects: ${url} still redirects after ${maxRedirects} hops (to ${nextUrl})`, redirectChain, false);
+      }
+
+      visited.add(nextUrl);
+      finalUrl = nextUrl;
+    }
+
     const contentType = response.headers.get('content-type') || '';
     const text = await response.text();
 
@@ -42,13 +84,79 @@ export async function fetchHtml(url: string, timeoutMs: number, userAgent?: stri
       contentType,
       status: response.status,
       headers,
-      response
+      response,
+      finalUrl,
+      redirectChain
     }
   } finally {
     clearTimeout(id);
   }
 }
 
+/**
+ * Store an entry in a time-limited module cache and drop the expired ones, so
+ * long-running processes (the API, watch mode) do not keep every URL they saw.
+ * Entries of one cache share a TTL and are kept in insertion order, so the
+ * expired ones are at the front.
+ */
+export function setCached<T extends { expires: number }>(cache: Map<string, T>, key: string, entry: T): void {
+  const now = Date.now();
+  for (const [cachedKey, cached] of cache) {
+    if (cached.expires > now) break;
+    cache.delete(cachedKey);
+  }
+  cache.delete(key);
+  cache.set(key, entry);
+}
+
+/** Result of fetchHtml, shared by the crawler and the scanner so pages are fetched once */
+export type FetchedPage = Awaited<ReturnType<typeof fetchHtml>>;
+
+export function isFileUrl(url: string): boolean {
+  return url.startsWith('file:');
+}
+
+/**
+ * Read HTML from a file:// URL (offline scans of local files and static builds)
+ */
+export async function readLocalHtml(url: string): Promise<string> {
+  return readFile(fileURLToPath(url), 'utf8');
+}
+
+/**
+ * Escape a string for use as a CSS identifier, e.g. in an #id selector
+ * (the CSS.escape algorithm from CSSOM, which is not available in Node)
+ */
+export function cssEscape(value: string): string {
+  let escaped = '';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    const code = value.charCodeAt(i);
+    const isDigit = code >= 0x30 && code <= 0x39;
+
+    if (code === 0) {
+      escaped += '\uFFFD';
+    } else if ((code >= 0x01 && code <= 0x1f) || code === 0x7f
+      || (i === 0 && isDigit) || (i === 1 && isDigit && value[0] === '-')) {
+      escaped += `\\${code.toString(16)} `;
+    } else if (i === 0 && char === '-' && value.length === 1) {
+      escaped += `\\${char}`;
+    } else if (code >= 0x80 || char === '-' || char === '_' || isDigit || /[a-zA-Z]/.test(char)) {
+      escaped += char;
+    } else {
+      escaped += `\\${char}`;
+    }
+  }
+  return escaped;
+}
+
+/**
+ * Quote a string for use as a CSS attribute value, e.g. [itemtype="..."]
+ */
+export function cssString(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&').replace(/[\n\r\f]/g, char => `\\${char.charCodeAt(0).toString(16)} `)}"`;
+}
+
 export function parseHtml(html: string) {
   const $ = cheerio.load(html);
   return $;
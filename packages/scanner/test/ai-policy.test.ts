@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { aiPolicyToIssues, analyzeAIPolicy } from '../src/ai-policy.js';
+import { parseHtml } from '../src/utils.js';
+
+const URL = 'https://example.com/guide';
+
+async function issueIds(head: string, headers?: Record<string, string>): Promise<string[]> {
+  const report = await analyzeAIPolicy(URL, parseHtml(`<html><head>${head}</head><body></body></html>`), {
+    headers: headers && new Headers(headers),
+    offline: true
+  });
+  return aiPolicyToIssues(report).map(issue => issue.id);
+}
+
+describe('aiPolicyToIssues', () => {
+  it('leaves noindex for all crawlers to CRAWL-008', async () => {
+    assert.deepEqual(await issueIds('<meta name="robots" content="noindex, nofollow">'), []);
+    assert.deepEqual(await issueIds('', { 'x-robots-tag': 'none' }), []);
+  });
+
+  it('reports noindex addressed to AI crawlers', async () => {
+    const report = await analyzeAIPolicy(URL, parseHtml('<meta name="gptbot" content="noindex">'), {
+      headers: new Headers({ 'x-robots-tag': 'perplexitybot: noindex' }),
+      offline: true
+    });
+    const [issue] = aiPolicyToIssues(report);
+
+    assert.equal(issue.id, 'AIREAD-103');
+    assert.match(issue.description, /gptbot, perplexitybot/);
+    assert.deepEqual(issue.evidence, [
+      'meta-robots (gptbot): noindex — <meta name="gptbot">',
+      'x-robots-tag (perplexitybot): noindex — X-Robots-Tag header'
+    ]);
+  });
+
+  it('reports nosnippet unless the page is not indexed', async () => {
+    assert.deepEqual(await issueIds('<meta name="robots" content="nosnippet">'), ['AIREAD-104']);
+    assert.deepEqual(await issueIds('<meta name="robots" content="noindex, nosnippet">'), []);
+  });
+});
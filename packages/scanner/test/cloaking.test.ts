@@ -0,0 +1,113 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { cloakingReportToIssues, detectCloaking } from '../src/cloaking.js';
+
+const PAGE = `<html><head><title>Pricing</title>
+<script type="application/ld+json">{"@context":"https://schema.org","@type":"Product","name":"Widget"}</script>
+</head><body><h1>Pricing</h1><h2>Plans</h2>
+<p>The widget costs twelve dollars per month and includes unlimited projects, priority support and exports.</p></body></html>`;
+
+const THIN_PAGE = `<html><head><title>Pricing</title></head><body><h1>Pricing</h1><p>Please visit us in a browser.</p></body></html>`;
+
+const CHALLENGE = `<html><head><title>Just a moment...</title></head><body><div class="cf-turnstile"></div></body></html>`;
+
+// How each path answers a crawler; browsers always get PAGE
+type Reply = (res: ServerResponse, req: IncomingMessage) => void;
+const page: Reply = res => res.writeHead(200, { 'content-type': 'text/html' }).end(PAGE);
+const routes: Record<string, Record<string, Reply>> = {
+  '/same': {},
+  '/forbidden': { GPTBot: res => res.writeHead(403, { 'content-type': 'text/html' }).end('<h1>Forbidden</h1>') },
+  '/challenge': { ClaudeBot: res => res.writeHead(403, { 'content-type': 'text/html', 'cf-mitigated': 'challenge' }).end(CHALLENGE) },
+  '/thin': { PerplexityBot: res => res.writeHead(200, { 'content-type': 'text/html' }).end(THIN_PAGE) },
+  '/dropped': { GPTBot: (_, req) => req.socket.destroy() },
+  '/loop': { ClaudeBot: (res, req) => res.writeHead(302, { location: req.url === '/loop' ? '/loop?again' : '/loop' }).end() }
+};
+
+let server: Server;
+let origin: string;
+
+before(async () => {
+  server = createServer((req, res) => {
+    const path = req.url!.split('?')[0];
+    if (path === '/down') return req.socket.destroy();
+    const crawler = Object.keys(routes[path] ?? {}).find(name => req.headers['user-agent']?.includes(`${name}/`));
+    (crawler ? routes[path][crawler] : page)(res, req);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const detect = (path: string) => detectCloaking(`${origin}${path}`, { crawlers: ['GPTBot', 'ClaudeBot', 'PerplexityBot'], timeoutMs: 5000 });
+
+describe('detectCloaking', () => {
+  it('reports nothing when every crawler gets the browser page', async () => {
+    const report = await detect('/same');
+    assert.deepEqual(report.crawlers.map(c => c.crawler), ['GPTBot', 'ClaudeBot', 'PerplexityBot']);
+    assert.deepEqual(report.summary, { blocked: [], challenged: [], differentContent: [], fetchFailed: [] });
+    assert.ok(report.crawlers.every(c => c.textSimilarity === 1));
+    assert.deepEqual(cloakingReportToIssues(report), []);
+  });
+
+  it('reports an error response to one crawler as blocking (CRAWL-019)', async () => {
+    const report = await detect('/forbidden');
+    assert.deepEqual(report.summary.blocked, ['GPTBot']);
+    assert.deepEqual(report.summary.differentContent, []);
+
+    const issues = cloakingReportToIssues(report);
+    assert.deepEqual(issues.map(issue => issue.id), ['CRAWL-019']);
+    assert.deepEqual(issues[0].evidence, ['GPTBot: HTTP 403']);
+  });
+
+  it('reports a challenge page as a challenge, not as blocking (CRAWL-020)', async () => {
+    const report = await detect('/challenge');
+    assert.deepEqual(report.summary.challenged, ['ClaudeBot']);
+    assert.deepEqual(report.summary.blocked, []);
+    assert.deepEqual(cloakingReportToIssues(report).map(issue => issue.id), ['CRAWL-020']);
+  });
+
+  it('reports missing text, headings and JSON-LD as different content (CRAWL-021)', async () => {
+    const report = await detect('/thin');
+    const perplexity = report.crawlers.find(c => c.crawler === 'PerplexityBot')!;
+    assert.ok(perplexity.textSimilarity < 0.8);
+    assert.deepEqual(perplexity.missingHeadings, ['Plans']);
+    assert.deepEqual(perplexity.missingJsonLdTypes, ['Product']);
+    assert.deepEqual(report.summary.differentContent, ['PerplexityBot']);
+    assert.deepEqual(cloakingReportToIssues(report).map(issue => issue.id), ['CRAWL-021']);
+  });
+
+  it('reports a request without a response as a failed fetch, not as blocking (CRAWL-029)', async () => {
+    const report = await detect('/dropped');
+    const gptbot = report.crawlers.find(c => c.crawler === 'GPTBot')!;
+    assert.equal(gptbot.snapshot.status, 0);
+    assert.ok(gptbot.snapshot.error);
+    assert.equal(gptbot.blocked, false);
+    assert.deepEqual(report.summary.blocked, []);
+    assert.deepEqual(report.summary.differentContent, []);
+    assert.deepEqual(report.summary.fetchFailed, ['GPTBot']);
+
+    const issues = cloakingReportToIssues(report);
+    assert.deepEqual(issues.map(issue => issue.id), ['CRAWL-029']);
+    assert.match(issues[0].evidence![0], /^GPTBot: /);
+  });
+
+  it('reports a redirect loop as a failed fetch', async () => {
+    const report = await detect('/loop');
+    assert.deepEqual(report.summary.blocked, []);
+    assert.deepEqual(report.summary.fetchFailed, ['ClaudeBot']);
+
+    const [issue] = cloakingReportToIssues(report);
+    assert.equal(issue.id, 'CRAWL-029');
+    assert.match(issue.evidence![0], /^ClaudeBot: Redirect loop: /);
+  });
+
+  it('reports nothing when the browser gets no response either', async () => {
+    const report = await detect('/down');
+    assert.ok(report.browser.error);
+    assert.ok(report.crawlers.every(c => !c.blocked && !c.fetchFailed && !c.differentContent));
+    assert.deepEqual(cloakingReportToIssues(report), []);
+  });
+});
@@ -0,0 +1,194 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { crawlSite, CrawledPage, CrawlFrontier, CrawlState } from '../src/crawler.js';
+import { clearLinkCheckCache } from '../src/link-checker.js';
+
+// Small site: the home page links to every section. The link check of /f
+// (a HEAD request) answers late, so /slow is still being scanned, after it
+// was fetched, while other pages are saved
+const LINKS: Record<string, string[]> = {
+  '/': ['/a', '/b', '/slow', '/c'],
+  '/a': ['/d'],
+  '/b': ['/a', '/e'],
+  '/c': [],
+  '/d': [],
+  '/e': [],
+  '/slow': ['/f'],
+  '/f': []
+};
+
+// Only read by crawls that respect robots.txt
+const ROBOTS_TXT = 'User-agent: *\nDisallow: /a\nDisallow: /b\n';
+
+function page(path: string): string {
+  const links = LINKS[path].map(href => `<a href="${href}">${href}</a>`).join('\n');
+  return `<html><head><title>Page ${path}</title></head><body><h1>Page ${path}</h1>${links}</body></html>`;
+}
+
+let server: Server;
+let origin: string;
+
+before(async () => {
+  server = createServer((req, res) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (path === '/robots.txt') {
+      res.writeHead(200, { 'content-type': 'text/plain' }).end(ROBOTS_TXT);
+      return;
+    }
+    if (!(path in LINKS)) {
+      res.writeHead(404, { 'content-type': 'text/plain' }).end('Not found');
+      return;
+    }
+    setTimeout(() => {
+      res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' }).end(page(path));
+    }, req.method === 'HEAD' && path === '/f' ? 300 : 5);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+interface Checkpoint {
+  frontier: CrawlFrontier;
+  page?: CrawledPage;
+}
+
+async function crawlWithCheckpoints(resumeFrom?: CrawlState) {
+  // Cached link checks would make the scan of /slow fast in later crawls
+  clearLinkCheckCache();
+  const checkpoints: Checkpoint[] = [];
+  const result = await crawlSite(`${origin}/`, {
+    maxDepth: 3,
+    respectRobots: false,
+    siteAudit: false,
+    concurrency: 3,
+    perHostConcurrency: 3,
+    resumeFrom,
+    onCheckpoint: (frontier, page) => {
+      checkpoints.push({ frontier: structuredClone(frontier), page });
+    }
+  });
+  return { result, checkpoints };
+}
+
+const paths = (urls: string[]) => urls.map(url => new URL(url).pathname).sort();
+
+describe('crawlSite checkpoints', () => {
+  it('crawls every linked page once', async () => {
+    const { result } = await crawlWithCheckpoints();
+    assert.deepEqual(paths(result.pages.map(p => p.url)), Object.keys(LINKS).sort());
+    assert.ok(result.pages.every(p => p.status === 200 && p.result));
+  });
+
+  it('lists as audited only the pages saved by that checkpoint or an earlier one', async () => {
+    const { checkpoints } = await crawlWithCheckpoints();
+    const saved = new Set<string>();
+
+    for (const { frontier, page } of checkpoints) {
+      if (page) saved.add(page.finalUrl);
+      for (const url of frontier.audited) {
+        assert.ok(saved.has(url), `${url} is audited in a checkpoint before its page was saved`);
+      }
+    }
+  });
+
+  it('keeps in-flight pages in the queue of a checkpoint', async () => {
+    const { checkpoints } = await crawlWithCheckpoints();
+    const slowSaved = checkpoints.findIndex(c => c.page?.url === `${origin}/slow`);
+    const during = checkpoints.slice(0, slowSaved).filter(c => c.frontier.seen.includes(`${origin}/slow`));
+
+    assert.ok(during.length > 0, 'no checkpoint was written while /slow was in flight');
+    for (const { frontier } of during) {
+      assert.ok(frontier.queue.some(item => item.url === `${origin}/slow`));
+      assert.ok(!frontier.audited.includes(`${origin}/slow`));
+    }
+  });
+
+  it('resumes from any checkpoint without losing or repeating pages', async () => {
+    const { checkpoints } = await crawlWithCheckpoints();
+
+    for (let i = 0; i < checkpoints.length - 1; i++) {
+      const pages = checkpoints.slice(0, i + 1).flatMap(c => (c.page ? [c.page] : []));
+      const state: CrawlState = { ...checkpoints[i].frontier, pages };
+
+      const { result } = await crawlWithCheckpoints(state);
+      assert.deepEqual(
+        paths(result.pages.map(p => p.url)),
+        Object.keys(LINKS).sort(),
+        `resuming from checkpoint ${i + 1}`
+      );
+    }
+  });
+});
+
+describe('crawlSite maxPages', () => {
+  it('counts crawled pages, not skipped URLs', async () => {
+    const result = await crawlSite(`${origin}/`, {
+      maxDepth: 3,
+      maxPages: 3,
+      audit: false,
+      siteAudit: false,
+      concurrency: 1
+    });
+
+    assert.deepEqual(paths(result.skipped.map(s => s.url)), ['/a', '/b']);
+    assert.equal(result.pages.length, 3);
+  });
+});
+
+describe('crawlSite link checks', () => {
+  // The home page links to pages that are not crawled (maxDepth 0) but checked by AIREAD-041
+  const checked = ['/p1', '/p2', '/p3', '/p4'];
+  const home = `<html><head><title>Home</title></head><body><h1>Home</h1>${
+    [...checked, '/private'].map(href => `<a href="${href}">${href}</a>`).join('\n')
+  }</body></html>`;
+  const requests: Array<{ path: string; at: number }> = [];
+  let linkServer: Server;
+  let linkOrigin: string;
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  before(async () => {
+    linkServer = createServer((req, res) => {
+      const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+      if (path === '/robots.txt') {
+        res.writeHead(200, { 'content-type': 'text/plain' }).end('User-agent: *\nDisallow: /private\n');
+        return;
+      }
+      if (path !== '/' && !checked.includes(path) && path !== '/private') {
+        res.writeHead(404).end();
+        return;
+      }
+      requests.push({ path, at: Date.now() });
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      setTimeout(() => {
+        inFlight--;
+        res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' }).end(home);
+      }, 20);
+    });
+    await new Promise<void>(resolve => linkServer.listen(0, '127.0.0.1', resolve));
+    linkOrigin = `http://127.0.0.1:${(linkServer.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>(resolve => linkServer.close(() => resolve())));
+
+  it('obeys the per-host limit, the delay and robots.txt of the crawl', async () => {
+    clearLinkCheckCache();
+    const result = await crawlSite(`${linkOrigin}/`, {
+      maxDepth: 0,
+      siteAudit: false,
+      perHostConcurrency: 1,
+      delayMs: 50
+    });
+
+    assert.equal(result.pages.length, 1);
+    assert.deepEqual(requests.map(r => r.path), ['/', ...checked]);
+    assert.equal(maxInFlight, 1);
+    for (let i = 1; i < requests.length; i++) {
+      assert.ok(requests[i].at - requests[i - 1].at >= 45, `${requests[i].path} was requested too early`);
+    }
+  });
+});
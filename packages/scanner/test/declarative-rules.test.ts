@@ -0,0 +1,150 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import {
+  compileDeclarativeRule,
+  DeclarativeRuleDefinition,
+  loadDeclarativeRules,
+  parseDeclarativeRules,
+  validateDeclarativeRule
+} from '../src/declarative-rules.js';
+import { loadPlugins } from '../src/plugins.js';
+import { scanHtml } from '../src/scanWithRules.js';
+import { testRules } from '../src/testing.js';
+import { CATEGORY, SEVERITY } from '../src/types.js';
+
+const fixtures = fileURLToPath(new URL('./fixtures/plugins/', import.meta.url));
+
+const base = { id: 'T-001', title: 'Test rule', selector: 'h1', condition: 'missing', remediation: 'Fix it.' };
+
+async function run(definition: Partial<DeclarativeRuleDefinition>, html: string, url = 'https://example.com/') {
+  const rule = compileDeclarativeRule({ ...base, ...definition } as DeclarativeRuleDefinition);
+  const { issues, errors } = await testRules(rule, { html, url, offline: true });
+  assert.deepEqual(errors, []);
+  return issues;
+}
+
+describe('parseDeclarativeRules', () => {
+  it('reads a YAML "rules" list and fills in defaults', () => {
+    const [rule] = parseDeclarativeRules([
+      'rules:',
+      '  - id: T-001',
+      '    title: Test rule',
+      '    selector: h1',
+      '    condition: missing',
+      '    remediation: Fix it.'
+    ].join('\n'));
+
+    assert.deepEqual(rule, { ...base, category: CATEGORY.MISC, severity: SEVERITY.MEDIUM, impact: 10, confidence: 1 });
+  });
+
+  it('reads a JSON list', () => {
+    const rules = parseDeclarativeRules(JSON.stringify([base, { ...base, id: 'T-002', severity: 'high', impact: 25 }]));
+
+    assert.deepEqual(rules.map(r => [r.id, r.severity, r.impact]), [['T-001', 'medium', 10], ['T-002', 'high', 25]]);
+  });
+
+  it('reports files that are not rule lists', () => {
+    assert.throws(() => parseDeclarativeRules('rules: [', 'rules.yaml'), /^Error: Invalid rule file rules\.yaml: /);
+    assert.throws(() => parseDeclarativeRules('id: T-001', 'rules.yaml'), {
+      message: 'Invalid rule file rules.yaml: expected a list of rules or a "rules" list'
+    });
+  });
+});
+
+describe('validateDeclarativeRule', () => {
+  const invalid: Array<[string, Record<string, unknown>, string]> = [
+    ['a missing field', { ...base, remediation: ' ' }, '"remediation" is required'],
+    ['an unknown condition', { ...base, condition: 'absent' }, '"condition" must be one of missing, exists, count, text-length, attribute-missing, matches, not-matches'],
+    ['an unknown category', { ...base, category: 'SEO' }, 'unknown category "SEO"'],
+    ['an unknown severity', { ...base, severity: 'urgent' }, 'unknown severity "urgent"'],
+    ['a non-numeric impact', { ...base, impact: '20' }, '"impact" must be a number'],
+    ['a range condition without bounds', { ...base, condition: 'count' }, '"count" needs "min" and/or "max"'],
+    ['attribute-missing without attribute', { ...base, condition: 'attribute-missing' }, '"attribute-missing" needs "attribute"'],
+    ['matches without pattern', { ...base, condition: 'matches' }, '"matches" needs "pattern"'],
+    ['an invalid pattern', { ...base, condition: 'matches', pattern: '(' }, 'invalid pattern: '],
+    ['an invalid selector', { ...base, selector: 'h1[' }, 'invalid selector "h1["']
+  ];
+
+  for (const [name, definition, problem] of invalid) {
+    it(`rejects ${name}`, () => {
+      assert.throws(
+        () => validateDeclarativeRule(definition, 'rules.yaml'),
+        (error: Error) => error.message.startsWith(`Invalid declarative rule T-001 in rules.yaml: ${problem}`)
+      );
+    });
+  }
+
+  it('rejects values that are not objects', () => {
+    assert.throws(() => validateDeclarativeRule('T-001'), { message: 'Invalid declarative rule (no id): expected an object' });
+  });
+});
+
+describe('compiled declarative rules', () => {
+  it('checks missing and forbidden elements', async () => {
+    assert.equal((await run({}, '<p>No heading</p>')).length, 1);
+    assert.deepEqual(await run({}, '<h1>Heading</h1>'), []);
+
+    const [issue] = await run({ selector: 'marquee', condition: 'exists' }, '<marquee>Sale</marquee>');
+    assert.deepEqual(issue.evidence, ['Matches for marquee: 1', 'Failing: Sale']);
+  });
+
+  it('checks counts and text lengths against min and max', async () => {
+    assert.equal((await run({ selector: 'h1', condition: 'count', max: 1 }, '<h1>A</h1><h1>B</h1>')).length, 1);
+    assert.deepEqual(await run({ selector: 'h1', condition: 'count', min: 1, max: 1 }, '<h1>A</h1>'), []);
+
+    const [issue] = await run(
+      { selector: 'meta[name=description]', attribute: 'content', condition: 'text-length', min: 50, message: '{length} characters: "{value}"' },
+      '<meta name="description" content="Too   short">'
+    );
+    assert.equal(issue.description, '9 characters: "Too short"');
+  });
+
+  it('checks attributes and patterns on every match', async () => {
+    const [missingAlt] = await run({ selector: 'img', condition: 'attribute-missing', attribute: 'alt' }, '<img src="a.png" alt="A"><img src="b.png" alt=" ">');
+    assert.deepEqual(missingAlt.evidence, ['Matches for img: 2', 'Failing: <img src="b.png" alt=" ">']);
+
+    const links = '<a>Click here</a><a>click here</a><a>Pricing</a>';
+    const [matches] = await run({ selector: 'a', condition: 'matches', pattern: '^click here$', flags: 'gi' }, links);
+    assert.deepEqual(matches.evidence, ['Matches for a: 3', 'Failing: Click here', 'Failing: click here']);
+
+    const [notMatches] = await run({ selector: 'a', condition: 'not-matches', pattern: 'click', flags: '' }, links);
+    assert.deepEqual(notMatches.evidence, ['Matches for a: 3', 'Failing: Click here', 'Failing: Pricing']);
+  });
+
+  it('only runs on pages matching urls and reports its settings', async () => {
+    const definition = { urls: ['/products/*'], severity: SEVERITY.HIGH, impact: 20, confidence: 0.8, tags: ['acme'], message: '{count} headings on {url}' };
+
+    assert.deepEqual(await run(definition, '<p></p>', 'https://example.com/blog/post'), []);
+    const [issue] = await run(definition, '<p></p>', 'https://example.com/products/shoe');
+    assert.equal(issue.id, 'T-001');
+    assert.equal(issue.severity, SEVERITY.HIGH);
+    assert.equal(issue.impactScore, 20);
+    assert.equal(issue.confidence, 0.8);
+    assert.deepEqual(issue.tags, ['acme']);
+    assert.equal(issue.description, '0 headings on https://example.com/products/shoe');
+  });
+
+  it('caps the evidence at five failing elements', async () => {
+    const [issue] = await run({ selector: 'li', condition: 'exists' }, '<ul>' + '<li>x</li>'.repeat(8) + '</ul>');
+    assert.equal(issue.evidence?.length, 6);
+  });
+
+  it('names the class after the rule ID', () => {
+    assert.equal(compileDeclarativeRule(base as DeclarativeRuleDefinition).name, 'DeclarativeRule(T-001)');
+  });
+});
+
+describe('declarative rule files', () => {
+  it('loads a YAML file directly and as a plugin', async () => {
+    const [rule] = await loadDeclarativeRules(`${fixtures}acme-rules.yaml`);
+    assert.equal((rule as unknown as { meta: { id: string } }).meta.id, 'ACME-010');
+
+    const [plugin] = await loadPlugins(['./acme-rules.yaml'], { baseDir: fixtures });
+    assert.deepEqual(plugin.rules, ['ACME-010']);
+
+    const result = await scanHtml('<h1>Shoe</h1>', 'https://example.com/products/shoe', { plugins: [`${fixtures}acme-rules.yaml`] });
+    const issue = result.issues.find(i => i.id === 'ACME-010');
+    assert.equal(issue?.description, 'https://example.com/products/shoe shows no price.');
+  });
+});
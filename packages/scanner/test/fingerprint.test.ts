@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CATEGORY, Issue, SEVERITY } from '../src/types.js';
+import { diffIssues, issueFingerprint, withFingerprints } from '../src/fingerprint.js';
+
+function issue(overrides: Partial<Issue> = {}): Issue {
+  return {
+    id: 'AIREAD-001',
+    title: 'Missing heading',
+    severity: SEVERITY.MEDIUM,
+    description: 'The page has no h1',
+    remediation: 'Add an h1',
+    impactScore: 5,
+    category: CATEGORY.AIREAD,
+    location: { url: 'https://example.com/docs', selector: 'main > section' },
+    evidence: ['Found 120 words in 3 paragraphs'],
+    ...overrides
+  };
+}
+
+describe('issueFingerprint', () => {
+  it('is a 16 character hex string', () => {
+    assert.match(issueFingerprint(issue()), /^[0-9a-f]{16}$/);
+  });
+
+  it('ignores text, scores and timestamps', () => {
+    assert.equal(
+      issueFingerprint(issue()),
+      issueFingerprint(issue({ title: 'Other', description: 'Other', impactScore: 9, timestamp: new Date().toISOString() }))
+    );
+  });
+
+  it('ignores measurements in the evidence', () => {
+    assert.equal(
+      issueFingerprint(issue()),
+      issueFingerprint(issue({ evidence: ['Found 98 words in 4 paragraphs'] }))
+    );
+  });
+
+  it('keeps numbers inside words, paths and URLs', () => {
+    assert.notEqual(
+      issueFingerprint(issue({ evidence: ['See /docs/v2/intro'] })),
+      issueFingerprint(issue({ evidence: ['See /docs/v3/intro'] }))
+    );
+  });
+
+  it('ignores selector formatting', () => {
+    assert.equal(
+      issueFingerprint(issue({ location: { url: 'https://example.com/docs', selector: "main>section  [data-x='1']" } })),
+      issueFingerprint(issue({ location: { url: 'https://example.com/docs', selector: 'main > section [data-x="1"]' } }))
+    );
+  });
+
+  it('treats the URL variants of a page as one page', () => {
+    assert.equal(
+      issueFingerprint(issue()),
+      issueFingerprint(issue({ location: { url: 'https://example.com/docs/index.html#intro', selector: 'main > section' } }))
+    );
+  });
+
+  it('differs by rule, page and element', () => {
+    const base = issueFingerprint(issue());
+    assert.notEqual(issueFingerprint(issue({ id: 'AIREAD-002' })), base);
+    assert.notEqual(issueFingerprint(issue({ location: { url: 'https://example.com/blog', selector: 'main > section' } })), base);
+    assert.notEqual(issueFingerprint(issue({ location: { url: 'https://example.com/docs', selector: 'aside' } })), base);
+  });
+});
+
+describe('withFingerprints', () => {
+  it('keeps fingerprints that are already set', () => {
+    const [kept, added] = withFingerprints([issue({ fingerprint: 'stored' }), issue()]);
+    assert.equal(kept.fingerprint, 'stored');
+    assert.equal(added.fingerprint, issueFingerprint(issue()));
+  });
+});
+
+describe('diffIssues', () => {
+  it('splits issues into added, fixed and unchanged', () => {
+    const [a, b, c] = withFingerprints([
+      issue(),
+      issue({ id: 'AIREAD-002' }),
+      issue({ id: 'AIREAD-003' })
+    ]);
+    const diff = diffIssues([a, b], [b, c]);
+    assert.deepEqual(diff.added, [c]);
+    assert.deepEqual(diff.fixed, [a]);
+    assert.deepEqual(diff.unchanged, [b]);
+  });
+
+  it('refuses issues without a fingerprint', () => {
+    assert.throws(() => diffIssues([issue()], []), /without a fingerprint/);
+  });
+});
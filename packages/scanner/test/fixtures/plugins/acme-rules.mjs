@@ -0,0 +1,37 @@
+// Plugin object with static-meta rules, as published to npm
+const issue = (id, url) => ({
+  id,
+  title: 'Pricing page lacks a price table',
+  severity: 'medium',
+  category: 'AIREAD',
+  description: 'No <table> on a pricing page.',
+  remediation: 'Add a price table.',
+  impactScore: 20,
+  location: { url },
+  evidence: [],
+  tags: ['acme'],
+  confidence: 1,
+  timestamp: new Date().toISOString()
+});
+
+class PricingTableRule {
+  static meta = { id: 'ACME-001', title: 'Pricing table', category: 'AIREAD', defaultSeverity: 'medium' };
+
+  async execute(ctx) {
+    return ctx.$('table').length === 0 ? issue('ACME-001', ctx.url) : null;
+  }
+}
+
+class LegalPagesRule {
+  static meta = { id: 'ACME-101', title: 'Legal pages', category: 'CRAWL', defaultSeverity: 'low' };
+
+  async execute() {
+    return null;
+  }
+}
+
+export default {
+  name: 'acme-rules',
+  rules: [PricingTableRule],
+  siteRules: [LegalPagesRule]
+};
@@ -0,0 +1,12 @@
+// Two rules of one plugin sharing an ID
+class OneRule {
+  static meta = { id: 'DUP-001', title: 'One', category: 'AIREAD', defaultSeverity: 'low' };
+  async execute() { return null; }
+}
+
+class OtherRule {
+  static meta = { id: 'DUP-001', title: 'Other', category: 'AIREAD', defaultSeverity: 'low' };
+  async execute() { return null; }
+}
+
+export default { rules: [OneRule], siteRules: [OtherRule] };
@@ -0,0 +1,6 @@
+// Rule class without the static meta plugins must provide
+class NoMetaRule {
+  async execute() { return null; }
+}
+
+export default { rules: [NoMetaRule] };
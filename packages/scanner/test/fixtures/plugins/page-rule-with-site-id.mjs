@@ -0,0 +1,7 @@
+// A page rule reusing the ID of the built-in duplicate titles site rule
+export class TitlesRule {
+  static meta = { id: 'CRAWL-023', title: 'Titles', category: 'CRAWL', defaultSeverity: 'low' };
+  async execute() { return null; }
+}
+
+export const rules = [TitlesRule];
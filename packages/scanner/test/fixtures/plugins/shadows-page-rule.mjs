@@ -0,0 +1,12 @@
+// Reuses the ID of the built-in broken link rule
+class FirstRule {
+  static meta = { id: 'SHADOW-001', title: 'First', category: 'AIREAD', defaultSeverity: 'low' };
+  async execute() { return null; }
+}
+
+class BrokenLinksRule {
+  static meta = { id: 'AIREAD-041', title: 'Broken links', category: 'AIREAD', defaultSeverity: 'low' };
+  async execute() { return null; }
+}
+
+export default { name: 'shadows-page-rule', rules: [FirstRule, BrokenLinksRule] };
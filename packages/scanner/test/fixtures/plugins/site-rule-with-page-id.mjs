@@ -0,0 +1,7 @@
+// A site rule reusing the ID of the built-in broken link page rule
+class SiteLinksRule {
+  static meta = { id: 'AIREAD-041', title: 'Links', category: 'AIREAD', defaultSeverity: 'low' };
+  async execute() { return null; }
+}
+
+export default { siteRules: [SiteLinksRule] };
@@ -0,0 +1,201 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateJsonLd, GeneratedJsonLd, jsonLdScriptTag } from '../src/json-ld-generator.js';
+import { validateSchemaOrg } from '../src/schema-validator.js';
+import { parseHtml } from '../src/utils.js';
+
+function generate(html: string, url: string): GeneratedJsonLd {
+  return generateJsonLd(parseHtml(html), url);
+}
+
+function node(result: GeneratedJsonLd, type: string): Record<string, any> {
+  const found = result.graph['@graph'].find(n => n['@type'] === type);
+  assert.ok(found, `no ${type} node`);
+  return found;
+}
+
+/** Findings for the generated graph once embedded in a page; recommendations are left out */
+function problems(result: GeneratedJsonLd, url: string): string[] {
+  const html = `<html><head>\n${jsonLdScriptTag(result.graph)}\n</head><body></body></html>`;
+  return validateSchemaOrg(parseHtml(html), url, html)
+    .filter(finding => finding.kind !== 'missing-recommended')
+    .map(finding => `${finding.kind} ${finding.path}: ${finding.message}`);
+}
+
+const guessedProperties = (result: GeneratedJsonLd) => result.guessed.map(guess => `${guess.node.split('#')[1]}.${guess.property}`);
+
+const PRODUCT_URL = 'https://shop.example/products/blue-mug';
+const PRODUCT = `<!doctype html><html lang="en"><head><title>Blue Mug | Acme Shop</title>
+<meta name="description" content="A sturdy blue mug for coffee and tea.">
+<meta property="og:site_name" content="Acme Shop">
+<meta property="og:type" content="product">
+</head><body><header><img src="/logo.png" alt="Acme logo"></header>
+<main><div itemscope itemtype="https://schema.org/Product"><h1 itemprop="name">Blue Mug</h1>
+<img src="/img/blue-mug.jpg" alt="Blue mug">
+<span class="price">$12.50</span><button>Add to cart</button>
+<p>In stock and ready to ship.</p></div></main>
+<footer><a href="https://twitter.com/acme">Twitter</a></footer></body></html>`;
+
+const ARTICLE_URL = 'https://blog.example/posts/testing-parsers';
+const ARTICLE = `<!doctype html><html lang="en"><head><title>Testing parsers - Example Blog</title>
+<meta property="og:type" content="article">
+<meta property="article:published_time" content="2024-03-01T09:00:00Z">
+<meta name="author" content="Ada Lovelace">
+</head><body><main><article><h1>Testing parsers</h1>
+<p>Parsers are easier to change when every grammar rule has a small fixture that pins its output down.</p>
+</article></main></body></html>`;
+
+const FAQ_URL = 'https://help.example/faq';
+const FAQ = `<!doctype html><html lang="en"><head><title>FAQ - Example Help</title></head>
+<body><main><h1>Frequently asked questions</h1>
+<details><summary>How do I reset my password?</summary><p>Use the link on the sign-in page.</p></details>
+<details><summary>Can I change my plan?</summary><p>Yes, from the billing settings.</p></details>
+</main></body></html>`;
+
+const HOME_URL = 'https://acme.example/';
+const HOME = `<!doctype html><html lang="en"><head><title>Acme Corporation</title>
+<meta property="og:site_name" content="Acme">
+<meta name="description" content="Acme makes anvils.">
+</head><body><header><img class="logo" src="/logo.svg" alt="Acme"></header>
+<main><h1>Anvils for every need</h1></main>
+<footer><a href="https://www.linkedin.com/company/acme">LinkedIn</a></footer></body></html>`;
+
+const DOCS_URL = 'https://docs.example/guide/install';
+const DOCS = `<!doctype html><html><head><title>Install</title></head>
+<body><nav aria-label="Breadcrumb"><ol><li><a href="/">Docs</a></li><li><a href="/guide/">Guide</a></li><li>Install</li></ol></nav>
+<main><h1>Install</h1><p>Run the installer.</p></main></body></html>`;
+
+describe('generateJsonLd', () => {
+  it('builds a Product with an offer from the page content', () => {
+    const result = generate(PRODUCT, PRODUCT_URL);
+    assert.equal(result.primaryType, 'Product');
+    assert.deepEqual(result.graph['@graph'].map(n => n['@type']), ['Organization', 'WebSite', 'WebPage', 'BreadcrumbList', 'Product']);
+
+    const product = node(result, 'Product');
+    assert.equal(product['@id'], `${PRODUCT_URL}#product`);
+    assert.equal(product.name, 'Blue Mug');
+    assert.equal(product.image, 'https://shop.example/img/blue-mug.jpg');
+    assert.deepEqual(product.offers, {
+      '@type': 'Offer',
+      url: PRODUCT_URL,
+      price: '12.50',
+      priceCurrency: 'USD',
+      availability: 'https://schema.org/InStock'
+    });
+    assert.deepEqual(node(result, 'WebPage').mainEntity, { '@id': product['@id'] });
+    assert.equal(node(result, 'Organization').name, 'Acme Shop');
+
+    // Microdata and meta tags are trusted; the rest is guessed
+    const guessed = guessedProperties(result);
+    assert.ok(guessed.includes('product.offers.price'));
+    assert.ok(guessed.includes('product.offers.priceCurrency'));
+    assert.ok(!guessed.includes('product.name'));
+    assert.ok(!guessed.includes('webpage.description'));
+    assert.deepEqual(problems(result, PRODUCT_URL), []);
+  });
+
+  it('builds an Article from meta tags and the main heading', () => {
+    const result = generate(ARTICLE, ARTICLE_URL);
+    assert.equal(result.primaryType, 'Article');
+
+    const article = node(result, 'Article');
+    assert.equal(article.headline, 'Testing parsers');
+    assert.equal(article.datePublished, '2024-03-01T09:00:00Z');
+    assert.deepEqual(article.author, { '@type': 'Person', name: 'Ada Lovelace' });
+    assert.deepEqual(article.publisher, { '@id': 'https://blog.example/#organization' });
+    assert.deepEqual(article.mainEntityOfPage, { '@id': `${ARTICLE_URL}#webpage` });
+    assert.equal(node(result, 'Organization').name, 'Example Blog');
+
+    assert.deepEqual(node(result, 'BreadcrumbList').itemListElement.map((item: any) => [item.position, item.name, item.item]), [
+      [1, 'Home', 'https://blog.example/'],
+      [2, 'Posts', 'https://blog.example/posts/'],
+      [3, 'Testing parsers', ARTICLE_URL]
+    ]);
+    assert.ok(guessedProperties(result).includes('article.headline'));
+    assert.ok(guessedProperties(result).includes('breadcrumb.itemListElement'));
+    assert.deepEqual(problems(result, ARTICLE_URL), []);
+  });
+
+  it('turns question and answer pairs into an FAQPage', () => {
+    const result = generate(FAQ, FAQ_URL);
+    assert.equal(result.primaryType, 'FAQPage');
+
+    const page = node(result, 'FAQPage');
+    assert.deepEqual(page.mainEntity, [
+      { '@type': 'Question', name: 'How do I reset my password?', acceptedAnswer: { '@type': 'Answer', text: 'Use the link on the sign-in page.' } },
+      { '@type': 'Question', name: 'Can I change my plan?', acceptedAnswer: { '@type': 'Answer', text: 'Yes, from the billing settings.' } }
+    ]);
+    assert.ok(guessedProperties(result).includes('webpage.mainEntity'));
+    assert.deepEqual(problems(result, FAQ_URL), []);
+  });
+
+  it('makes the Organization the primary entity of the home page', () => {
+    const result = generate(HOME, HOME_URL);
+    assert.equal(result.primaryType, 'Organization');
+    assert.deepEqual(result.graph['@graph'].map(n => n['@type']), ['Organization', 'WebSite', 'WebPage']);
+
+    const organization = node(result, 'Organization');
+    assert.equal(organization.name, 'Acme');
+    assert.equal(organization.logo, 'https://acme.example/logo.svg');
+    assert.deepEqual(organization.sameAs, ['https://www.linkedin.com/company/acme']);
+    assert.deepEqual(node(result, 'WebPage').about, { '@id': organization['@id'] });
+    assert.deepEqual(problems(result, HOME_URL), []);
+  });
+
+  it('keeps a plain page a WebPage, with the breadcrumb navigation', () => {
+    const result = generate(DOCS, DOCS_URL);
+    assert.equal(result.primaryType, 'WebPage');
+
+    assert.deepEqual(node(result, 'BreadcrumbList').itemListElement.map((item: any) => [item.name, item.item]), [
+      ['Docs', 'https://docs.example/'],
+      ['Guide', 'https://docs.example/guide/'],
+      ['Install', DOCS_URL]
+    ]);
+    assert.ok(!guessedProperties(result).includes('breadcrumb.itemListElement'));
+    // The title names the page, so the site falls back to its host name
+    assert.equal(node(result, 'Organization').name, 'docs.example');
+    assert.deepEqual(problems(result, DOCS_URL), []);
+  });
+
+  it('keeps existing JSON-LD values and does not list them as guesses', () => {
+    const html = PRODUCT.replace('</head>', `${jsonLdScriptTag({
+      '@context': 'https://schema.org',
+      '@type': 'Product',
+      name: 'Blue Mug, 350 ml',
+      sku: 'MUG-BLUE',
+      brand: { '@type': 'Brand', name: 'Acme' },
+      offers: { '@type': 'Offer', price: '14.00', priceCurrency: 'EUR' }
+    })}</head>`);
+    const result = generate(html, PRODUCT_URL);
+
+    const product = node(result, 'Product');
+    assert.equal(product.name, 'Blue Mug, 350 ml');
+    assert.equal(product.sku, 'MUG-BLUE');
+    assert.deepEqual(product.brand, { '@type': 'Brand', name: 'Acme' });
+    assert.deepEqual(product.offers, { '@type': 'Offer', price: '14.00', priceCurrency: 'EUR' });
+    assert.ok(!guessedProperties(result).some(property => property.startsWith('product.offers') || property === 'product.brand'));
+    assert.deepEqual(problems(result, PRODUCT_URL), []);
+  });
+
+  it('uses blank nodes and no URLs for local files', () => {
+    const url = 'file:///home/me/site/products/blue-mug.html';
+    const result = generate(PRODUCT, url);
+
+    assert.deepEqual(result.graph['@graph'].map(n => n['@id']), ['_:organization', '_:website', '_:webpage', '_:product']);
+    assert.ok(!JSON.stringify(result.graph).includes('file:'));
+    assert.equal(node(result, 'Product').url, undefined);
+    assert.deepEqual(problems(result, url), []);
+  });
+
+  it('gives the same graph on every run', () => {
+    assert.deepEqual(generate(ARTICLE, ARTICLE_URL), generate(ARTICLE, ARTICLE_URL));
+  });
+});
+
+describe('jsonLdScriptTag', () => {
+  it('escapes "<" so values cannot close the script element', () => {
+    const tag = jsonLdScriptTag({ name: '</script><script>alert(1)</script>' });
+    assert.equal(tag.match(/<\/script>/g)?.length, 1);
+    assert.deepEqual(JSON.parse(tag.replace(/^<script[^>]*>|<\/script>$/g, '')), { name: '</script><script>alert(1)</script>' });
+  });
+});
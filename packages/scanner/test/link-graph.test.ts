@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as cheerio from 'cheerio';
+import { buildLinkGraph, exportLinkGraph, LinkGraphPage } from '../src/link-graph.js';
+
+const url = (path: string) => `https://example.com${path}`;
+const page = (path: string, links: string[] = []): LinkGraphPage => ({ url: url(path), links: links.map(url) });
+
+const rankOf = (graph: ReturnType<typeof buildLinkGraph>) =>
+  Object.fromEntries(graph.nodes.map(node => [new URL(node.url).pathname, node.pageRank]));
+
+describe('buildLinkGraph PageRank', () => {
+  it('shares rank evenly on a cycle', () => {
+    const ranks = rankOf(buildLinkGraph([page('/a', ['/b']), page('/b', ['/c']), page('/c', ['/a'])]));
+
+    for (const rank of Object.values(ranks)) assert.ok(Math.abs(rank - 1 / 3) < 1e-6);
+  });
+
+  it('sums to 1 and spreads the rank of dangling pages', () => {
+    const graph = buildLinkGraph([
+      page('/', ['/a', '/b', '/c']),
+      page('/a', ['/']),
+      page('/b', ['/']),
+      page('/c')   // No outgoing links
+    ]);
+    const ranks = rankOf(graph);
+    const total = Object.values(ranks).reduce((sum, rank) => sum + rank, 0);
+
+    assert.ok(Math.abs(total - 1) < 1e-6);
+    assert.ok(ranks['/'] > ranks['/a']);
+    assert.ok(Math.abs(ranks['/a'] - ranks['/c']) < 1e-6);
+  });
+
+  it('matches the closed form of a two-page graph with a dangling page', () => {
+    // a -> b, b dangling: r_a = (1-d)/2 + d*r_b/2, r_b = r_a*d + (1-d)/2 + d*r_b/2
+    const d = 0.85;
+    const ranks = rankOf(buildLinkGraph([page('/a', ['/b']), page('/b')], { damping: d }));
+    const a = 1 / (2 + d);
+
+    assert.ok(Math.abs(ranks['/a'] - a) < 1e-6);
+    assert.ok(Math.abs(ranks['/b'] - (1 - a)) < 1e-6);
+  });
+
+  it('computes degrees and click depth, and flags buried pages', () => {
+    const graph = buildLinkGraph([
+      page('/', ['/1', '/x']),
+      page('/1', ['/2']),
+      page('/2', ['/3']),
+      page('/3', ['/4']),
+      page('/4', ['/']),
+      page('/island'),
+      page('/x', ['/x', 'https://other.example/', '/not-crawled'])
+    ], { startUrls: [url('/')], minInboundLinks: 1 });
+    const node = (path: string) => graph.nodes.find(n => n.url === url(path))!;
+
+    assert.deepEqual(graph.entryPoints, [url('/')]);
+    assert.equal(node('/4').clickDepth, 4);
+    assert.deepEqual(node('/4').flags, ['deep']);
+    assert.deepEqual(node('/island').flags, ['unreachable', 'few-inbound']);
+    assert.deepEqual(node('/').flags, []);
+    // Self links, external and uncrawled targets are not edges
+    assert.equal(node('/x').outDegree, 0);
+    assert.equal(node('/').inDegree, 1);
+    assert.equal(graph.edges.length, 6);
+  });
+
+  it('marks importantUrls and the top PageRank share as important', () => {
+    const graph = buildLinkGraph(
+      [page('/', ['/a', '/b']), page('/a', ['/']), page('/b', ['/']), page('/c', ['/'])],
+      { importantUrls: [url('/c')], topPageRankShare: 0.25 }
+    );
+
+    assert.deepEqual(graph.nodes.filter(n => n.important).map(n => n.url), [url('/'), url('/c')]);
+  });
+});
+
+describe('exportLinkGraph', () => {
+  // Characters that break XML and DOT when written unescaped
+  const tricky = 'https://example.com/search?q=a&b="c"<d>';
+  const graph = buildLinkGraph([
+    { url: url('/'), links: [tricky] },
+    { url: tricky, links: [url('/')] }
+  ], { startUrls: [url('/')] });
+
+  it('writes well-formed GraphML with escaped URLs', () => {
+    const graphml = exportLinkGraph(graph, 'graphml');
+
+    assert.ok(graphml.includes('search?q=a&amp;b=&quot;c&quot;&lt;d&gt;'));
+    const $ = cheerio.load(graphml, { xmlMode: true });
+    assert.deepEqual($('node > data[key="url"]').map((_, el) => $(el).text()).get(), [url('/'), tricky]);
+    assert.deepEqual($('edge').map((_, el) => `${$(el).attr('source')}->${$(el).attr('target')}`).get(), ['n0->n1', 'n1->n0']);
+    assert.equal($('node#n1 > data[key="clickDepth"]').text(), '1');
+  });
+
+  it('writes DOT with escaped labels', () => {
+    const dot = exportLinkGraph(graph, 'dot');
+    const labels = [...dot.matchAll(/label="((?:[^"\\]|\\.)*)"/g)].map(m => m[1].replace(/\\(.)/g, '$1'));
+
+    assert.ok(dot.startsWith('digraph site {\n'));
+    assert.deepEqual(labels, [url('/'), tricky]);
+    assert.ok(dot.includes('  n0 -> n1;\n  n1 -> n0;\n}'));
+  });
+
+  it('round-trips through JSON', () => {
+    assert.deepEqual(JSON.parse(exportLinkGraph(graph, 'json')), graph);
+  });
+});
@@ -0,0 +1,82 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { clearLlmsTxtCache, findDeadLlmsTxtLinks, LlmsTxtLink } from '../src/llms-txt.js';
+import { clearLinkCheckCache, recordLinkStatus } from '../src/link-checker.js';
+import { analyzeUrlWithRules } from '../src/scanWithRules.js';
+
+const links: LlmsTxtLink[] = [
+  { title: 'Guide', url: '/guide', line: 5 },
+  { title: 'Old', url: 'https://example.com/old', line: 6 },
+  { title: 'Home', url: 'https://example.com/', line: 7 }
+];
+
+describe('findDeadLlmsTxtLinks', () => {
+  it('checks each link once across pages', async () => {
+    clearLinkCheckCache();
+    recordLinkStatus('https://example.com/', 200);
+    const fetch = mock.method(globalThis, 'fetch', async (input: string | URL | Request) =>
+      new Response(null, { status: String(input).endsWith('/old') ? 404 : 200 })
+    );
+
+    try {
+      for (let page = 0; page < 3; page++) {
+        const dead = await findDeadLlmsTxtLinks(links, 'https://example.com/llms.txt');
+        assert.deepEqual(dead.map(d => [d.link.line, d.status]), [[6, 404]]);
+      }
+      assert.deepEqual(fetch.mock.calls.map(call => String(call.arguments[0])).sort(), [
+        'https://example.com/guide',
+        'https://example.com/old'
+      ]);
+    } finally {
+      fetch.mock.restore();
+      clearLinkCheckCache();
+    }
+  });
+
+  it('reports links that do not parse', async () => {
+    const dead = await findDeadLlmsTxtLinks([{ title: 'Bad', url: 'http://[', line: 3 }], 'https://example.com/llms.txt');
+    assert.equal(dead.length, 1);
+    assert.equal(dead[0].status, 0);
+    assert.ok(dead[0].error);
+  });
+});
+
+describe('llms-full.txt validation', () => {
+  const files: Record<string, [string, string]> = {
+    '/': ['text/html', '<html><head><title>Home</title></head><body><h1>Home</h1><a href="/">Home</a></body></html>'],
+    '/llms.txt': ['text/plain', '# Example\n\n> Example site.\n\n## Docs\n\n- [Home](/): Start here\n'],
+    '/llms-full.txt': ['text/plain', 'Full content without a title\n']
+  };
+  let server: Server;
+  let origin: string;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      const file = files[new URL(req.url ?? '/', 'http://localhost').pathname];
+      if (!file) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'content-type': `${file[0]}; charset=utf-8` }).end(req.method === 'HEAD' ? undefined : file[1]);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    clearLlmsTxtCache();
+    clearLinkCheckCache();
+    return new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it('reports an llms-full.txt without a title with the default thresholds', async () => {
+    const result = await analyzeUrlWithRules(`${origin}/`);
+    const issue = result.issues.find(i => i.title === 'llms-full.txt does not follow the llms.txt format');
+
+    assert.ok(issue, 'llms-full.txt issue was filtered out');
+    assert.equal(issue.location?.url, `${origin}/llms-full.txt`);
+    assert.deepEqual(issue.evidence, ['Missing H1 title']);
+  });
+});
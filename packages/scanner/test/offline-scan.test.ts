@@ -0,0 +1,104 @@
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { analyzeUrlWithRules, scanHtml } from '../src/scanWithRules.js';
+import { discoverStaticPages } from '../src/static-site.js';
+import { getRegisteredRules } from '../src/rules/registry.js';
+
+const page = (title: string, head = '') => `<!doctype html><html lang="en"><head><title>${title}</title>${head}</head>
+<body><main><h1>${title}</h1><p>A page of the example site, used to check offline scans.</p>
+<a href="about.html">About</a> <a href="https://example.com/contact">Contact</a></main></body></html>`;
+
+let dir: string;
+
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'offline-scan-'));
+  await mkdir(join(dir, 'about'));
+  await mkdir(join(dir, 'blog'));
+  await mkdir(join(dir, 'node_modules', 'pkg'), { recursive: true });
+  await writeFile(join(dir, 'index.html'), page('Home'));
+  await writeFile(join(dir, 'about', 'index.html'), page('About'));
+  await writeFile(join(dir, 'blog', 'first-post.html'), page('First post', '<link rel="canonical" href="first-post.html">'));
+  await writeFile(join(dir, 'blog', 'draft.html'), page('Draft', '<link rel="canonical" href="../blog/first-post.html">'));
+  await writeFile(join(dir, '404.html'), page('Not found'));
+  await writeFile(join(dir, 'node_modules', 'pkg', 'readme.html'), page('Package'));
+});
+
+after(() => rm(dir, { recursive: true, force: true }));
+
+// Any request fails the test: offline scans must not touch the network
+let fetch: ReturnType<typeof mock.method>;
+beforeEach(() => {
+  fetch = mock.method(globalThis, 'fetch', async (input: string | URL | Request) => {
+    throw new Error(`Unexpected request: ${String(input)}`);
+  });
+});
+afterEach(() => {
+  assert.deepEqual(fetch.mock.calls.map(call => String(call.arguments[0])), []);
+  fetch.mock.restore();
+});
+
+const networkRules = () => getRegisteredRules().filter(r => r.meta.requiresNetwork).map(r => r.meta.id).sort();
+
+describe('scanHtml', () => {
+  it('lists the rules that need the network as skipped', async () => {
+    const result = await scanHtml(page('Home'), 'https://example.com/');
+
+    assert.equal(result.offline, true);
+    assert.ok(networkRules().length > 0);
+    assert.deepEqual(result.skippedRules?.map(rule => rule.id).sort(), networkRules());
+    assert.ok(result.skippedRules?.every(rule => rule.reason === 'Requires network access (offline scan)'));
+    assert.equal(result.robots, undefined);
+  });
+
+  it('still runs the rules that only read the HTML', async () => {
+    const result = await scanHtml('<html><head></head><body><p>No title here</p></body></html>', 'https://example.com/', { minImpactScore: 0, minConfidence: 0, maxIssues: 100 });
+    assert.ok(result.issues.length > 0);
+    assert.ok(result.issues.every(issue => !networkRules().includes(issue.id)));
+  });
+});
+
+describe('file:// scans', () => {
+  it('read the file and resolve relative links against its location', async () => {
+    const url = pathToFileURL(join(dir, 'blog', 'first-post.html')).href;
+    const result = await analyzeUrlWithRules(url, { minImpactScore: 0, minConfidence: 0, maxIssues: 100 });
+
+    assert.equal(result.offline, true);
+    assert.equal(result.title, 'First post');
+    // "first-post.html" resolves to the file itself
+    assert.equal(result.issues.find(issue => issue.id === 'CRAWL-004'), undefined);
+  });
+
+  it('report a relative canonical to another file with its resolved URL', async () => {
+    const url = pathToFileURL(join(dir, 'blog', 'draft.html')).href;
+    const result = await analyzeUrlWithRules(url, { minImpactScore: 0, minConfidence: 0, maxIssues: 100 });
+
+    const canonical = result.issues.find(issue => issue.id === 'CRAWL-004');
+    assert.deepEqual(canonical?.evidence, [
+      `Current: ${url}`,
+      `Canonical: ${pathToFileURL(join(dir, 'blog', 'first-post.html')).href}`
+    ]);
+  });
+});
+
+describe('discoverStaticPages', () => {
+  it('maps each HTML file to the URL it is served at', async () => {
+    const pages = await discoverStaticPages(dir, 'https://example.com/docs');
+
+    assert.deepEqual(pages.map(p => [p.filePath, p.url]), [
+      [join(dir, 'about', 'index.html'), 'https://example.com/docs/about/'],
+      [join(dir, 'blog', 'draft.html'), 'https://example.com/docs/blog/draft'],
+      [join(dir, 'blog', 'first-post.html'), 'https://example.com/docs/blog/first-post'],
+      [join(dir, 'index.html'), 'https://example.com/docs/']
+    ]);
+    assert.equal(pages[0].fileUrl, pathToFileURL(join(dir, 'about', 'index.html')).href);
+  });
+
+  it('stops at maxPages', async () => {
+    const pages = await discoverStaticPages(dir, 'https://example.com/', { maxPages: 2 });
+    assert.deepEqual(pages.map(p => p.url), ['https://example.com/about/', 'https://example.com/blog/draft']);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { applyEdits, createUnifiedDiff } from '../src/patch.js';
+import { createFixPatch, generateFix, patchPathForUrl } from '../src/fixes.js';
+import { testRules } from '../src/testing.js';
+
+/** Apply a patch with git in a scratch directory and return the patched file */
+function gitApply(path: string, source: string, patch: string): string {
+  const dir = mkdtempSync(join(tmpdir(), 'ai-lighthouse-patch-'));
+  try {
+    writeFileSync(join(dir, path), source);
+    writeFileSync(join(dir, 'fix.patch'), patch);
+    execFileSync('git', ['apply', 'fix.patch'], { cwd: dir });
+    return readFileSync(join(dir, path), 'utf-8');
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+describe('applyEdits', () => {
+  it('applies edits in offset order', () => {
+    const edits = [
+      { start: 6, end: 11, text: 'there' },
+      { start: 0, end: 0, text: '> ' }
+    ];
+    assert.equal(applyEdits('hello world', edits), '> hello there');
+  });
+
+  it('drops edits overlapping an earlier one', () => {
+    const edits = [
+      { start: 0, end: 5, text: 'HELLO' },
+      { start: 3, end: 8, text: 'x' }
+    ];
+    assert.equal(applyEdits('hello world', edits), 'HELLO world');
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  const source = 'a\nb\nc\nd\ne\nf\ng\nh\n';
+
+  it('writes a hunk with three lines of context', () => {
+    assert.equal(
+      createUnifiedDiff(source, [{ start: 2, end: 3, text: 'B' }], 'page.html'),
+      [
+        '--- a/page.html',
+        '+++ b/page.html',
+        '@@ -1,5 +1,5 @@',
+        ' a',
+        '-b',
+        '+B',
+        ' c',
+        ' d',
+        ' e',
+        ''
+      ].join('\n')
+    );
+  });
+
+  it('is empty when the edits change nothing', () => {
+    assert.equal(createUnifiedDiff(source, [], 'page.html'), '');
+    assert.equal(createUnifiedDiff(source, [{ start: 2, end: 3, text: 'b' }], 'page.html'), '');
+  });
+
+  it('marks a missing newline at the end of the file', () => {
+    const diff = createUnifiedDiff('a\nb', [{ start: 3, end: 3, text: 'c' }], 'page.html');
+    assert.match(diff, /-b\n\\ No newline at end of file\n\+bc\n\\ No newline at end of file\n$/);
+  });
+
+  it('applies with git apply', () => {
+    const edits = [
+      { start: 0, end: 1, text: 'A' },
+      { start: 14, end: 15, text: 'H\ni' }
+    ];
+    const patch = createUnifiedDiff(source, edits, 'page.html');
+    assert.equal(gitApply('page.html', source, patch), applyEdits(source, edits));
+  });
+});
+
+describe('fix patches', () => {
+  const url = 'https://example.com/about';
+  const html = '<html>\n<head>\n<title>About</title>\n</head>\n<body><h1>About</h1><img src="/team-photo.png"></body>\n</html>\n';
+
+  it('names patches after the URL path', () => {
+    assert.equal(patchPathForUrl('https://example.com/'), 'index.html');
+    assert.equal(patchPathForUrl(url), 'about.html');
+  });
+
+  it('generates a fix with a patch for a fixable issue', async () => {
+    const { issues } = await testRules('AIREAD-037', { html, url, offline: true });
+    const fix = generateFix(issues[0], { url, html });
+
+    assert.equal(fix?.snippet, '<img alt="Team photo" src="/team-photo.png">');
+    assert.ok(fix?.review);
+    assert.equal(
+      gitApply('about.html', html, fix!.patch!),
+      html.replace('<img src', '<img alt="Team photo" src')
+    );
+  });
+
+  it('combines the fixes of several issues into one patch', async () => {
+    const { issues } = await testRules(['AIREAD-037', 'CRAWL-003', 'AIREAD-010'], { html, url, offline: true });
+    const patch = createFixPatch(issues, { url, html });
+    assert.ok(patch);
+
+    const patched = gitApply('about.html', html, patch);
+    assert.match(patched, /<link rel="canonical" href="https:\/\/example\.com\/about">/);
+    assert.match(patched, /<meta name="description" content="TODO: [^"]+">/);
+    assert.match(patched, /<img alt="Team photo" src="\/team-photo\.png">/);
+  });
+});
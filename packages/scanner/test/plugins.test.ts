@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import { loadPlugins } from '../src/plugins.js';
+import { BaseRule, getRegisteredRules, getRegisteredSiteRules, registerRule, registerSiteRule } from '../src/rules/registry.js';
+import { scanHtml } from '../src/scanWithRules.js';
+import { SEVERITY } from '../src/types.js';
+
+const baseDir = fileURLToPath(new URL('./fixtures/plugins/', import.meta.url));
+const ruleIds = () => getRegisteredRules().map(r => r.meta.id);
+const siteRuleIds = () => getRegisteredSiteRules().map(r => r.meta.id);
+
+describe('loadPlugins', () => {
+  it('registers the page and site rules of a plugin object once', async () => {
+    const [plugin] = await loadPlugins(['./acme-rules.mjs'], { baseDir });
+
+    assert.equal(plugin.name, 'acme-rules');
+    assert.deepEqual(plugin.rules, ['ACME-001']);
+    assert.deepEqual(plugin.siteRules, ['ACME-101']);
+    assert.ok(plugin.resolved.startsWith('file://'));
+
+    const [again] = await loadPlugins(['./acme-rules.mjs'], { baseDir });
+    assert.equal(again, plugin);
+    assert.equal(ruleIds().filter(id => id === 'ACME-001').length, 1);
+  });
+
+  it('runs plugin rules in scans', async () => {
+    const result = await scanHtml('<html><body><h1>Pricing</h1></body></html>', 'https://example.com/pricing', {
+      plugins: [`${baseDir}acme-rules.mjs`]
+    });
+
+    assert.ok(result.issues.some(issue => issue.id === 'ACME-001'));
+  });
+
+  it('rejects a plugin reusing a built-in page rule ID, without registering any of its rules', async () => {
+    await assert.rejects(
+      loadPlugins(['./shadows-page-rule.mjs'], { baseDir }),
+      {
+        message: 'Plugin "./shadows-page-rule.mjs": Rule ID collision: BrokenLinksRule uses AIREAD-041, which is already registered by BrokenInternalLinksRule'
+      }
+    );
+    assert.ok(!ruleIds().includes('SHADOW-001'));
+  });
+
+  it('rejects a page rule reusing a site rule ID and a site rule reusing a page rule ID', async () => {
+    await assert.rejects(loadPlugins(['./page-rule-with-site-id.mjs'], { baseDir }), {
+      message: 'Plugin "./page-rule-with-site-id.mjs": Rule ID collision: TitlesRule uses CRAWL-023, which is already registered by DuplicateTitlesRule'
+    });
+    await assert.rejects(loadPlugins(['./site-rule-with-page-id.mjs'], { baseDir }), {
+      message: 'Plugin "./site-rule-with-page-id.mjs": Rule ID collision: SiteLinksRule uses AIREAD-041, which is already registered by BrokenInternalLinksRule'
+    });
+  });
+
+  it('rejects rules of one plugin that share an ID', async () => {
+    await assert.rejects(loadPlugins(['./duplicate-ids.mjs'], { baseDir }), /OtherRule uses DUP-001, which is already registered by OneRule/);
+    assert.ok(!ruleIds().includes('DUP-001'));
+    assert.ok(!siteRuleIds().includes('DUP-001'));
+  });
+
+  it('rejects rules without meta and plugins that cannot be found', async () => {
+    await assert.rejects(loadPlugins(['./missing-meta.mjs'], { baseDir }), {
+      message: 'Plugin "./missing-meta.mjs": Rule NoMetaRule has no static meta with an id'
+    });
+    await assert.rejects(loadPlugins(['ai-lighthouse-plugin-that-does-not-exist'], { baseDir }), {
+      message: `Cannot find plugin "ai-lighthouse-plugin-that-does-not-exist" from ${baseDir}`
+    });
+    await assert.rejects(loadPlugins(['./missing.mjs'], { baseDir }), /^Error: Failed to load plugin "\.\/missing\.mjs"/);
+  });
+});
+
+describe('rule registry', () => {
+  class LocalRule extends BaseRule {
+    async execute() {
+      return null;
+    }
+  }
+  const meta = (id: string) => ({ id, title: id, category: 'AIREAD', defaultSeverity: SEVERITY.LOW });
+
+  it('refuses IDs used by page or site rules', () => {
+    assert.throws(() => registerRule(meta('AIREAD-041'), LocalRule), {
+      message: 'Rule ID collision: LocalRule uses AIREAD-041, which is already registered by BrokenInternalLinksRule'
+    });
+    assert.throws(() => registerSiteRule(meta('CRAWL-025'), LocalRule), /already registered by NearDuplicateContentRule/);
+    assert.throws(() => registerRule(meta('CRAWL-025'), LocalRule), /already registered by NearDuplicateContentRule/);
+  });
+
+  it('keeps rules in priority order', () => {
+    registerRule({ ...meta('LOCAL-001'), priority: 0 }, LocalRule);
+
+    assert.equal(ruleIds()[0], 'LOCAL-001');
+  });
+});
@@ -0,0 +1,178 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import {
+  applyProjectConfig,
+  findProjectConfig,
+  loadProjectConfig,
+  loadProjectConfigFile,
+  mergeProjectConfigs,
+  presetConfig
+} from '../src/project-config.js';
+import { SEVERITY } from '../src/types.js';
+
+let root: string;
+
+// Write files relative to the temporary project root
+async function files(entries: Record<string, string>): Promise<void> {
+  for (const [path, content] of Object.entries(entries)) {
+    await mkdir(dirname(join(root, path)), { recursive: true });
+    await writeFile(join(root, path), content);
+  }
+}
+
+before(async () => {
+  root = await mkdtemp(join(tmpdir(), 'ai-lighthouse-config-'));
+});
+
+after(() => rm(root, { recursive: true, force: true }));
+
+describe('loadProjectConfigFile extends', () => {
+  it('merges parents in order, then the file itself', async () => {
+    await files({
+      'merge/shared/base.yaml': [
+        'plugins: [./rules/base.yaml]',
+        'baseline: ./baseline.json',
+        'rules:',
+        '  AIREAD-041: low',
+        '  KG-002: { impact: 5 }',
+        'minImpactScore: 5',
+        'maxIssues: 30',
+        'llm: { provider: ollama, model: llama3.1 }'
+      ].join('\n'),
+      'merge/shared/team.json': JSON.stringify({ rules: { 'AIREAD-041': 'high' }, maxIssues: 40, llm: { model: 'qwen2.5' } }),
+      'merge/.ailighthouserc': [
+        'extends: [./shared/base.yaml, ./shared/team.json]',
+        'plugins: [./rules/own.yaml, acme-rules]',
+        'rules:',
+        '  KG-002: off',
+        'minImpactScore: 12'
+      ].join('\n')
+    });
+
+    const { config } = await loadProjectConfigFile(join(root, 'merge/.ailighthouserc'));
+
+    assert.deepEqual(config, {
+      plugins: [join(root, 'merge/shared/rules/base.yaml'), join(root, 'merge/rules/own.yaml'), 'acme-rules'],
+      rules: { 'AIREAD-041': 'high', 'KG-002': 'off' },
+      minImpactScore: 12,
+      maxIssues: 40,
+      baseline: join(root, 'merge/shared/baseline.json'),
+      llm: { provider: 'ollama', model: 'qwen2.5' }
+    });
+  });
+
+  it('resolves presets and packages', async () => {
+    await files({
+      'presets/node_modules/acme-config/package.json': JSON.stringify({ name: 'acme-config', main: 'config.json' }),
+      'presets/node_modules/acme-config/config.json': JSON.stringify({ rules: { CRAWL: 'on' }, maxIssues: 99 }),
+      'presets/.ailighthouserc.json': JSON.stringify({ extends: ['strict', 'acme-config'], minConfidence: 0.5 })
+    });
+
+    const { config } = await loadProjectConfigFile(join(root, 'presets/.ailighthouserc.json'));
+    const strict = presetConfig('strict');
+
+    assert.deepEqual(config.rules, { ...strict.rules, CRAWL: 'on' });
+    assert.equal(config.minImpactScore, strict.minImpactScore);
+    assert.equal(config.maxIssues, 99);
+    assert.equal(config.minConfidence, 0.5);
+  });
+
+  it('reports circular extends with the chain', async () => {
+    await files({
+      'cycle/a.yaml': 'extends: ./b.yaml',
+      'cycle/b.yaml': 'extends: [strict, ./a.yaml]',
+      'cycle/self.yaml': 'extends: ./self.yaml'
+    });
+
+    await assert.rejects(loadProjectConfigFile(join(root, 'cycle/a.yaml')), {
+      message: `Circular "extends" in config: ${join(root, 'cycle/a.yaml')} -> ${join(root, 'cycle/b.yaml')} -> ${join(root, 'cycle/a.yaml')}`
+    });
+    await assert.rejects(loadProjectConfigFile(join(root, 'cycle/self.yaml')), /^Error: Circular "extends"/);
+  });
+
+  it('loads a parent extended by two files once per branch (not a cycle)', async () => {
+    await files({
+      'diamond/common.yaml': 'minImpactScore: 3',
+      'diamond/left.yaml': 'extends: ./common.yaml\nmaxIssues: 5',
+      'diamond/right.yaml': 'extends: ./common.yaml\nminConfidence: 0.9',
+      'diamond/.ailighthouserc.yaml': 'extends: [./left.yaml, ./right.yaml]'
+    });
+
+    const { config } = await loadProjectConfigFile(join(root, 'diamond/.ailighthouserc.yaml'));
+    assert.deepEqual(config, { minImpactScore: 3, maxIssues: 5, minConfidence: 0.9 });
+  });
+
+  it('reports missing parents and invalid files', async () => {
+    await files({
+      'invalid/missing.yaml': 'extends: ./nowhere.yaml',
+      'invalid/rules.yaml': 'rules:\n  AIREAD-041: loud',
+      'invalid/list.yaml': '- strict',
+      'invalid/number.yaml': 'maxIssues: many'
+    });
+    const path = (name: string) => join(root, 'invalid', name);
+
+    await assert.rejects(loadProjectConfigFile(path('missing.yaml')), {
+      message: `Invalid config ${path('missing.yaml')}: cannot find "./nowhere.yaml" in "extends"`
+    });
+    await assert.rejects(loadProjectConfigFile(path('rules.yaml')), /rules\.AIREAD-041 must be "off", "on", a severity/);
+    await assert.rejects(loadProjectConfigFile(path('list.yaml')), { message: `Invalid config ${path('list.yaml')}: expected an object` });
+    await assert.rejects(loadProjectConfigFile(path('number.yaml')), /"maxIssues" must be a number/);
+    await assert.rejects(loadProjectConfigFile(path('none.yaml')), { message: `Config file not found: ${path('none.yaml')}` });
+  });
+});
+
+describe('findProjectConfig', () => {
+  it('finds the nearest config file from a subdirectory', async () => {
+    await files({
+      'nested/.ailighthouserc.yml': 'maxIssues: 7',
+      'nested/src/pages/index.html': ''
+    });
+
+    assert.equal(findProjectConfig(join(root, 'nested/src/pages')), join(root, 'nested/.ailighthouserc.yml'));
+    const loaded = await loadProjectConfig(join(root, 'nested/src'));
+    assert.equal(loaded?.config.maxIssues, 7);
+  });
+});
+
+describe('mergeProjectConfigs', () => {
+  it('replaces scalars, merges rules and llm by key, and de-duplicates plugins', () => {
+    assert.deepEqual(
+      mergeProjectConfigs(
+        { plugins: ['a', 'b'], rules: { KG: 'off', 'AIREAD-041': SEVERITY.LOW }, maxIssues: 5, tokenizer: 'o200k' },
+        { plugins: ['b', 'c'], rules: { KG: 'on' }, maxIssues: 9 }
+      ),
+      { plugins: ['a', 'b', 'c'], rules: { KG: 'on', 'AIREAD-041': 'low' }, maxIssues: 9, tokenizer: 'o200k' }
+    );
+    assert.deepEqual(mergeProjectConfigs({}, {}), {});
+  });
+});
+
+describe('applyProjectConfig', () => {
+  it('lets explicit scan options win over the config', () => {
+    const options = applyProjectConfig(
+      { minImpactScore: 1, rules: { 'AIREAD-041': 'off' }, plugins: ['cli-plugin'] },
+      {
+        minImpactScore: 12,
+        maxIssues: 15,
+        plugins: ['config-plugin'],
+        rules: { 'AIREAD-041': SEVERITY.HIGH, KG: 'off' },
+        llm: { enabled: true, provider: 'ollama', model: 'llama3.1' }
+      }
+    );
+
+    assert.equal(options.minImpactScore, 1);
+    assert.equal(options.maxIssues, 15);
+    assert.deepEqual(options.plugins, ['config-plugin', 'cli-plugin']);
+    assert.deepEqual(options.rules, { 'AIREAD-041': 'off', KG: 'off' });
+    assert.equal(options.enableLLM, true);
+    assert.deepEqual(options.llmConfig, { provider: 'ollama', model: 'llama3.1' });
+  });
+
+  it('leaves the options alone without a config', () => {
+    const options = { maxIssues: 3 };
+    assert.equal(applyProjectConfig(options, undefined), options);
+  });
+});
@@ -0,0 +1,53 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { analyzeUrlWithRules } from '../src/scanWithRules.js';
+import { crawlSite } from '../src/crawler.js';
+
+// /loop-a → /loop-b → /loop-a; the home page links to the loop
+let server: Server;
+let origin: string;
+
+before(async () => {
+  server = createServer((req, res) => {
+    if (req.url === '/loop-a' || req.url === '/loop-b') {
+      res.writeHead(301, { location: req.url === '/loop-a' ? '/loop-b' : '/loop-a' }).end();
+    } else if (req.url === '/') {
+      res.writeHead(200, { 'content-type': 'text/html' })
+        .end('<html><head><title>Home</title></head><body><h1>Home</h1><a href="/loop-a">Loop</a></body></html>');
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe('redirect loops', () => {
+  it('are reported as CRAWL-015 by a scan', async () => {
+    const result = await analyzeUrlWithRules(`${origin}/loop-a`);
+
+    assert.deepEqual(result.issues.map(i => i.id), ['CRAWL-015']);
+    assert.deepEqual(result.issues[0].evidence, [
+      `301 ${origin}/loop-a → ${origin}/loop-b`,
+      `301 ${origin}/loop-b → ${origin}/loop-a`
+    ]);
+    assert.equal(result.redirectChain?.length, 2);
+    assert.equal(result.statusCode, 301);
+
+    // The page was never reached, so content rules do not run on an empty body
+    const notReached = result.skippedRules?.find(r => r.reason.startsWith('Page not reached: Redirect loop'));
+    assert.ok(notReached);
+  });
+
+  it('are reported for crawled pages', async () => {
+    const result = await crawlSite(`${origin}/`, { respectRobots: false, siteAudit: false });
+    const loop = result.pages.find(p => p.url === `${origin}/loop-a`);
+
+    assert.match(loop?.error ?? '', /^Redirect loop: /);
+    assert.deepEqual(loop?.result?.issues.map(i => i.id), ['CRAWL-015']);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  buildAICrawlerAccessMatrix,
+  clearRobotsTxtCache,
+  fetchRobotsTxt,
+  findGroup,
+  isPathAllowed,
+  parseRobotsTxt,
+  type RobotsFetchResult
+} from '../src/robots-txt.js';
+
+const URL = 'https://example.com/docs/page';
+
+function allowed(content: string, agent: string, path: string): boolean {
+  return isPathAllowed(parseRobotsTxt(content), agent, path).allowed;
+}
+
+describe('isPathAllowed', () => {
+  it('lets Allow win a tie with an equally long Disallow', () => {
+    const robots = 'User-agent: *\nDisallow: /docs\nAllow: /docs\n';
+    const verdict = isPathAllowed(parseRobotsTxt(robots), 'gptbot', '/docs/page');
+
+    assert.equal(verdict.allowed, true);
+    assert.equal(verdict.rule?.type, 'allow');
+    assert.equal(verdict.rule?.line, 3);
+  });
+
+  it('lets the longest matching rule win', () => {
+    const robots = 'User-agent: *\nAllow: /docs\nDisallow: /docs/private\n';
+
+    assert.equal(allowed(robots, 'gptbot', '/docs/public'), true);
+    assert.equal(allowed(robots, 'gptbot', '/docs/private/a'), false);
+  });
+
+  it('allows only the root for Allow: /$ with Disallow: /', () => {
+    const robots = 'User-agent: *\nAllow: /$\nDisallow: /\n';
+
+    assert.equal(allowed(robots, 'gptbot', '/'), true);
+    assert.equal(allowed(robots, 'gptbot', '/page'), false);
+    assert.equal(allowed(robots, 'gptbot', '/?q=1'), false);
+  });
+
+  it('always allows robots.txt itself', () => {
+    assert.equal(allowed('User-agent: *\nDisallow: /\n', 'gptbot', '/robots.txt'), true);
+  });
+});
+
+describe('findGroup', () => {
+  it('merges groups that name the same user-agent', () => {
+    const robots = parseRobotsTxt([
+      'User-agent: GPTBot',
+      'Disallow: /a',
+      '',
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: gptbot/1.2',
+      'Crawl-delay: 2',
+      'Disallow: /b'
+    ].join('\n'));
+    const found = findGroup(robots, 'GPTBot');
+
+    assert.equal(found?.name, 'gptbot');
+    assert.deepEqual(found?.group.rules.map(rule => rule.path), ['/a', '/b']);
+    assert.equal(found?.group.crawlDelay, 2);
+    assert.equal(isPathAllowed(robots, 'gptbot', '/c').allowed, true);
+  });
+
+  it('prefers a specific agent group over * and falls back to * otherwise', () => {
+    const robots = parseRobotsTxt('User-agent: *\nDisallow: /\n\nUser-agent: ClaudeBot\nDisallow: /private\n');
+
+    assert.deepEqual(isPathAllowed(robots, 'claudebot', '/page'), {
+      allowed: true,
+      group: 'claudebot',
+      rule: undefined,
+      crawlDelay: undefined
+    });
+    const fallback = isPathAllowed(robots, 'gptbot', '/page');
+    assert.equal(fallback.allowed, false);
+    assert.equal(fallback.group, '*');
+  });
+
+  it('returns null when no group applies', () => {
+    assert.equal(findGroup(parseRobotsTxt('User-agent: ClaudeBot\nDisallow: /\n'), 'gptbot'), null);
+  });
+});
+
+describe('buildAICrawlerAccessMatrix', () => {
+  const missing = (status: number): RobotsFetchResult => ({
+    url: 'https://example.com/robots.txt',
+    status,
+    robots: null
+  });
+
+  it('allows every crawler when robots.txt is a 4xx', () => {
+    const matrix = buildAICrawlerAccessMatrix(missing(404), URL);
+
+    assert.equal(matrix.found, false);
+    assert.ok(matrix.crawlers.every(crawler => crawler.allowed && crawler.rule === undefined));
+  });
+
+  it('blocks every crawler when robots.txt is a 5xx', () => {
+    const matrix = buildAICrawlerAccessMatrix(missing(503), URL);
+
+    assert.ok(matrix.crawlers.every(crawler => !crawler.allowed));
+    assert.equal(matrix.crawlers[0].rule, 'robots.txt unreachable (HTTP 503)');
+  });
+
+  it('blocks every crawler when robots.txt could not be fetched', () => {
+    const matrix = buildAICrawlerAccessMatrix(missing(0), URL);
+
+    assert.ok(matrix.crawlers.every(crawler => !crawler.allowed));
+    assert.equal(matrix.crawlers[0].rule, 'robots.txt unreachable (network error)');
+  });
+
+  it('reports the winning rule per crawler', () => {
+    const text = 'User-agent: GPTBot\nDisallow: /docs\n\nUser-agent: *\nAllow: /\n\nSitemap: https://example.com/sitemap.xml\n';
+    const matrix = buildAICrawlerAccessMatrix({
+      url: 'https://example.com/robots.txt',
+      status: 200,
+      robots: parseRobotsTxt(text),
+      text
+    }, `${URL}?ref=1`);
+    const gptbot = matrix.crawlers.find(crawler => crawler.agent === 'gptbot');
+    const claudebot = matrix.crawlers.find(crawler => crawler.agent === 'claudebot');
+
+    assert.equal(matrix.path, '/docs/page?ref=1');
+    assert.deepEqual(matrix.sitemaps, ['https://example.com/sitemap.xml']);
+    assert.equal(gptbot?.allowed, false);
+    assert.equal(gptbot?.rule, 'Disallow: /docs (line 2)');
+    assert.equal(claudebot?.allowed, true);
+    assert.equal(claudebot?.group, '*');
+  });
+});
+
+describe('fetchRobotsTxt', () => {
+  const server = createServer((_req, res) => {
+    res.writeHead(503).end();
+  });
+
+  after(() => clearRobotsTxtCache());
+
+  it('reports status 5xx and 0 without parsing', async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const unavailable = await fetchRobotsTxt(`http://127.0.0.1:${port}/page`);
+    assert.equal(unavailable.status, 503);
+    assert.equal(unavailable.robots, null);
+
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    clearRobotsTxtCache();
+    const failed = await fetchRobotsTxt(`http://127.0.0.1:${port}/page`, 2000);
+    assert.equal(failed.status, 0);
+    assert.equal(buildAICrawlerAccessMatrix(failed, `http://127.0.0.1:${port}/page`).crawlers[0].allowed, false);
+  });
+});
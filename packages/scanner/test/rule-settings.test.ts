@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyRuleSettings, isRuleEnabled, resolveRuleSetting, RuleSettings, validateRuleSettings } from '../src/rule-settings.js';
+import { scanHtml } from '../src/scanWithRules.js';
+import { CATEGORY, Issue, SEVERITY } from '../src/types.js';
+
+const issue = (id: string, category: CATEGORY, severity = SEVERITY.MEDIUM): Issue => ({
+  id,
+  title: id,
+  severity,
+  category,
+  description: '',
+  remediation: '',
+  impactScore: 20,
+  location: {},
+  evidence: [],
+  tags: [],
+  confidence: 1,
+  timestamp: ''
+} as Issue);
+
+describe('resolveRuleSetting', () => {
+  const settings: RuleSettings = { CRAWL: 'off', 'CRAWL-015': 'on', AIREAD: SEVERITY.LOW, 'AIREAD-041': { severity: SEVERITY.HIGH, impact: 5 } };
+
+  it('lets an ID entry override its category', () => {
+    assert.deepEqual(resolveRuleSetting(settings, 'CRAWL-008', 'CRAWL'), { enabled: false });
+    assert.deepEqual(resolveRuleSetting(settings, 'CRAWL-015', 'CRAWL'), { enabled: true });
+    assert.deepEqual(resolveRuleSetting(settings, 'AIREAD-001', 'AIREAD'), { severity: SEVERITY.LOW });
+    assert.deepEqual(resolveRuleSetting(settings, 'AIREAD-041', 'AIREAD'), { severity: SEVERITY.HIGH, impact: 5 });
+  });
+
+  it('ignores category keys that are not categories', () => {
+    assert.deepEqual(resolveRuleSetting({ ACME: 'off' }, 'ACME-001', 'ACME'), {});
+    assert.deepEqual(resolveRuleSetting(undefined, 'CRAWL-008', 'CRAWL'), {});
+  });
+
+  it('decides whether a rule runs', () => {
+    assert.equal(isRuleEnabled(settings, 'CRAWL-008', 'CRAWL'), false);
+    assert.equal(isRuleEnabled(settings, 'CRAWL-015', 'CRAWL'), true);
+    assert.equal(isRuleEnabled(settings, 'KG-001', 'KG'), true);
+  });
+});
+
+describe('applyRuleSettings', () => {
+  it('drops disabled issues, overrides severity and impact, and keeps diagnostics', () => {
+    const issues = applyRuleSettings([
+      issue('CRAWL-008', CATEGORY.CRAWL),
+      issue('AIREAD-041', CATEGORY.AIREAD),
+      issue('KG-001', CATEGORY.KG),
+      issue('MISC-ERR', CATEGORY.MISC)
+    ], { CRAWL: 'off', 'AIREAD-041': { severity: SEVERITY.LOW, impact: 3 }, MISC: 'off' });
+
+    assert.deepEqual(issues.map(i => [i.id, i.severity, i.impactScore]), [
+      ['AIREAD-041', SEVERITY.LOW, 3],
+      ['KG-001', SEVERITY.MEDIUM, 20],
+      ['MISC-ERR', SEVERITY.MEDIUM, 20]
+    ]);
+  });
+});
+
+describe('validateRuleSettings', () => {
+  it('describes the first problem', () => {
+    assert.equal(validateRuleSettings({ KG: 'off', 'AIREAD-041': 'low', 'KG-002': { enabled: true, impact: 4 } }), undefined);
+    assert.equal(validateRuleSettings([]), '"rules" must be an object keyed by rule ID or category');
+    assert.match(validateRuleSettings({ KG: 'loud' })!, /^rules\.KG must be "off", "on", a severity \(low, medium, high, critical, info\) or an object$/);
+    assert.equal(validateRuleSettings({ KG: 3 }), 'rules.KG must be a string or an object');
+    assert.equal(validateRuleSettings({ KG: { enabled: 'no' } }), 'rules.KG.enabled must be a boolean');
+    assert.match(validateRuleSettings({ KG: { severity: 'loud' } })!, /^rules\.KG\.severity must be one of /);
+    assert.equal(validateRuleSettings({ KG: { impact: '5' } }), 'rules.KG.impact must be a number');
+  });
+});
+
+describe('rule settings in scans', () => {
+  it('skips disabled rules and lists them with the reason', async () => {
+    const html = '<html><head><title>T</title></head><body><p>No heading</p></body></html>';
+    const result = await scanHtml(html, 'https://example.com/', { rules: { AIREAD: 'off', 'AIREAD-041': 'on' } });
+    const disabled = result.skippedRules?.filter(rule => rule.reason === 'Disabled in configuration') ?? [];
+
+    assert.ok(disabled.length > 0);
+    assert.ok(disabled.every(rule => rule.id.startsWith('AIREAD-') && rule.id !== 'AIREAD-041'));
+    assert.ok(result.issues.every(i => i.category !== CATEGORY.AIREAD || i.id === 'AIREAD-041'));
+  });
+});
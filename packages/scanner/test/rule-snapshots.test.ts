@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { CATEGORY } from '../src/types.js';
+import { getRegisteredRules } from '../src/rules/registry.js';
+import { matchRuleSnapshot, RuleFixture, testRules } from '../src/testing.js';
+
+const SNAPSHOTS = fileURLToPath(new URL('./__snapshots__/', import.meta.url));
+const PAGES = fileURLToPath(new URL('./fixtures/pages/', import.meta.url));
+
+// One page per core category, written to trip most of the category's rules
+const CATEGORIES: Array<{ category: CATEGORY; page: string; fixture?: Omit<RuleFixture, 'html'> }> = [
+  {
+    category: CATEGORY.AIREAD,
+    page: 'airead',
+    fixture: { robotsTxt: 'User-agent: GPTBot\nDisallow: /\n' }
+  },
+  {
+    category: CATEGORY.CRAWL,
+    page: 'crawl',
+    fixture: { url: 'https://example.com/pricing', robotsTxt: 'User-agent: *\nAllow: /\n' }
+  },
+  { category: CATEGORY.KG, page: 'knowledge-graph', fixture: { url: 'https://example.com/mugs/blue' } },
+  { category: CATEGORY.TECH, page: 'tech' },
+  { category: CATEGORY.A11Y, page: 'a11y' },
+  { category: CATEGORY.CHUNK, page: 'chunk' },
+  { category: CATEGORY.EXTRACT, page: 'extract' }
+];
+
+describe('rule snapshots', () => {
+  for (const { category, page, fixture } of CATEGORIES) {
+    it(`${category} rules on fixtures/pages/${page}.html`, async () => {
+      const rules = getRegisteredRules().filter(r => r.meta.category === category).map(r => r.meta.id);
+      const result = await testRules(rules, { ...fixture, html: readFileSync(`${PAGES}${page}.html`, 'utf-8') });
+
+      assert.deepEqual(result.errors, []);
+      assert.ok(result.issues.length > 0, `no ${category} issues: the fixture no longer exercises the rules`);
+      await matchRuleSnapshot(result, `${SNAPSHOTS}${page}.json`);
+    });
+  }
+});
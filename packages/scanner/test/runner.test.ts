@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CATEGORY, Issue, SEVERITY } from '../src/types.js';
+import { BaseRule, Rule, RuleContext, RuleMeta } from '../src/rules/registry.js';
+import { executeRules } from '../src/rules/runner.js';
+import { scanHtml } from '../src/scanWithRules.js';
+import { parseHtml } from '../src/utils.js';
+
+const HTML = '<html><head><title>Test</title></head><body><h1>Test</h1><p>Text</p></body></html>';
+
+function meta(id: string): RuleMeta {
+  return { id, title: `Rule ${id}`, category: CATEGORY.AIREAD, defaultSeverity: SEVERITY.LOW };
+}
+
+class SlowRule extends BaseRule {
+  static signals: AbortSignal[] = [];
+
+  async execute(ctx: RuleContext): Promise<Issue | null> {
+    SlowRule.signals.push(ctx.signal!);
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, 1500);
+      ctx.signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+    return null;
+  }
+}
+
+class FailingRule extends BaseRule {
+  async execute(): Promise<Issue | null> {
+    throw new Error('boom');
+  }
+}
+
+Rule(meta('TEST-SLOW'))(SlowRule);
+Rule(meta('TEST-FAIL'))(FailingRule);
+
+describe('executeRules', () => {
+  it('aborts the signal of a rule that times out', async () => {
+    SlowRule.signals = [];
+    const ctx: RuleContext = { url: 'https://example.com/', html: HTML, $: parseHtml(HTML) };
+    const { issues, profile } = await executeRules([{ meta: meta('TEST-SLOW'), ctor: SlowRule }], ctx, { ruleTimeoutMs: 20 }, ctx.url);
+
+    assert.deepEqual(issues.map(i => i.id), ['MISC-TIMEOUT']);
+    assert.equal(profile[0].status, 'timeout');
+    assert.equal(SlowRule.signals.length, 1);
+    assert.equal(SlowRule.signals[0].aborted, true);
+  });
+
+  it('leaves the signal of a rule that finishes in time alone', async () => {
+    SlowRule.signals = [];
+    const ctx: RuleContext = { url: 'https://example.com/', html: HTML, $: parseHtml(HTML) };
+    await executeRules([{ meta: meta('TEST-SLOW'), ctor: SlowRule }], ctx, { ruleTimeoutMs: 5000 }, ctx.url);
+    assert.equal(SlowRule.signals[0].aborted, false);
+  });
+});
+
+describe('rule errors and timeouts in scans', () => {
+  it('are reported whatever the impact and confidence thresholds', async () => {
+    const result = await scanHtml(HTML, 'https://example.com/', {
+      ruleTimeoutMs: 1000,
+      minImpactScore: 15,
+      minConfidence: 0.9,
+      maxIssues: 1
+    });
+    const ids = result.issues.map(i => i.id);
+
+    assert.ok(ids.includes('MISC-ERR'));
+    assert.ok(ids.includes('MISC-TIMEOUT'));
+    assert.ok(result.issues.filter(i => !i.id.startsWith('MISC-')).length <= 1);
+  });
+
+  it('do not lower the score', async () => {
+    const withDiagnostics = await scanHtml(HTML, 'https://example.com/', { ruleTimeoutMs: 1000 });
+    const diagnostics = withDiagnostics.issues.filter(i => i.id.startsWith('MISC-'));
+    assert.equal(diagnostics.length, 2);
+    assert.ok(diagnostics.every(i => i.scoreImpact === 0));
+
+    const without = await scanHtml(HTML, 'https://example.com/', {
+      ruleTimeoutMs: 1000,
+      rules: { 'TEST-SLOW': 'off', 'TEST-FAIL': 'off' }
+    });
+    assert.deepEqual(withDiagnostics.scoring, without.scoring);
+  });
+});
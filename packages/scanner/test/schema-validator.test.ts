@@ -0,0 +1,144 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { findingSource, SchemaFinding, SchemaOrgValidator, validateSchemaOrg } from '../src/schema-validator.js';
+import { testRules } from '../src/testing.js';
+import { parseHtml } from '../src/utils.js';
+
+const URL = 'https://example.com/products/mug';
+
+function validate(html: string): SchemaFinding[] {
+  return validateSchemaOrg(parseHtml(html), URL, html);
+}
+
+function jsonLd(...blocks: unknown[]): string {
+  const scripts = blocks.map(block => `<script type="application/ld+json">\n${JSON.stringify(block, null, 2)}\n</script>`);
+  return `<html><head>\n${scripts.join('\n')}\n</head><body></body></html>`;
+}
+
+const summary = (findings: SchemaFinding[]) => findings.map(f => `${f.kind} ${f.path}`);
+
+describe('validateSchemaOrg', () => {
+  it('accepts a complete Product', () => {
+    const findings = validate(jsonLd({
+      '@context': 'https://schema.org',
+      '@type': 'Product',
+      name: 'Mug',
+      image: 'https://example.com/mug.jpg',
+      description: 'A mug',
+      brand: { '@type': 'Brand', name: 'Acme' },
+      sku: 'MUG-1',
+      offers: { '@type': 'Offer', price: '12.50', priceCurrency: 'USD', availability: 'https://schema.org/InStock' }
+    }));
+    assert.deepEqual(summary(findings), []);
+  });
+
+  it('reports unknown types and properties, with suggestions', () => {
+    const findings = validate(jsonLd({ '@context': 'https://schema.org', '@type': 'Prodcut', name: 'Mug' },
+      { '@context': 'https://schema.org', '@type': 'Person', name: 'Ada', colour: 'red' }));
+
+    const unknownType = findings.find(f => f.kind === 'unknown-type');
+    assert.equal(unknownType?.block, 0);
+    assert.match(unknownType!.message, /"Prodcut"/);
+
+    const unknownProperty = findings.find(f => f.kind === 'unknown-property');
+    assert.equal(unknownProperty?.block, 1);
+    assert.equal(unknownProperty?.property, 'colour');
+  });
+
+  it('reports properties used on the wrong type and invalid values', () => {
+    const findings = validate(jsonLd({
+      '@context': 'https://schema.org',
+      '@type': 'Product',
+      name: 'Mug',
+      author: 'Ada',
+      offers: { '@type': 'Offer', price: '12,50', priceCurrency: 'usd' }
+    }));
+    assert.ok(summary(findings).includes('property-not-in-domain author'));
+    assert.ok(summary(findings).includes('invalid-value offers.price'));
+    assert.ok(summary(findings).includes('invalid-value offers.priceCurrency'));
+  });
+
+  it('reports missing required and recommended properties', () => {
+    const findings = validate(jsonLd({ '@context': 'https://schema.org', '@type': 'Product' }));
+    assert.ok(findings.some(f => f.kind === 'missing-required' && f.property === 'name'));
+    assert.ok(findings.some(f => f.kind === 'missing-recommended' && f.property === 'image'));
+  });
+
+  it('resolves @id references across blocks and reports broken ones', () => {
+    const findings = validate(jsonLd(
+      { '@context': 'https://schema.org', '@type': 'Organization', '@id': '#org', name: 'Acme', logo: 'https://example.com/l.png', sameAs: 'https://x.com/acme', description: 'Acme' },
+      { '@context': 'https://schema.org', '@type': 'WebPage', name: 'Mug', publisher: { '@id': '#org' }, author: { '@id': '#nobody' } }
+    ));
+    const broken = findings.filter(f => f.kind === 'broken-reference');
+    assert.equal(broken.length, 1);
+    assert.match(broken[0].message, /https:\/\/example\.com\/products\/mug#nobody/);
+  });
+
+  it('gives the source line of JSON-LD findings', () => {
+    const html = jsonLd({ '@context': 'https://schema.org', '@type': 'Person', name: 'Ada', colour: 'red' });
+    const [finding] = validate(html).filter(f => f.kind === 'unknown-property');
+    assert.equal(html.split('\n')[finding.line! - 1].trim(), '"colour": "red"');
+  });
+
+  it('skips blocks in other vocabularies and blocks that do not parse', () => {
+    const html = '<html><head>'
+      + '<script type="application/ld+json">{"@context":"https://example.org/vocab","@type":"Widget","size":3}</script>'
+      + '<script type="application/ld+json">{ not json</script>'
+      + '</head></html>';
+    assert.deepEqual(validate(html), []);
+  });
+
+  it('checks microdata and RDFa items, tagged with their syntax', () => {
+    const findings = validate(`<html><body>
+      <div id="ada" itemscope itemtype="https://schema.org/Person"><span itemprop="name">Ada</span><span itemprop="shoeSize">9</span></div>
+      <div vocab="https://schema.org/" typeof="Product"><span property="name">Mug</span><span property="colour">red</span></div>
+    </body></html>`);
+
+    const microdata = findings.find(f => f.property === 'shoeSize');
+    assert.equal(microdata?.syntax, 'microdata');
+    assert.equal(microdata?.selector, '#ada');
+    assert.equal(findingSource(microdata!), 'Microdata item 1');
+
+    const rdfa = findings.find(f => f.property === 'colour');
+    assert.equal(rdfa?.syntax, 'rdfa');
+    assert.equal(rdfa?.selector, '[typeof="Product"]');
+    assert.equal(findingSource(rdfa!), 'RDFa item 1');
+  });
+});
+
+describe('schema.org rules (KG-006..009)', () => {
+  const html = `<html><head>
+<script type="application/ld+json">{"@context":"https://schema.org","@type":"Product","name":"Mug","colour":"red","offers":{"@type":"Offer","price":"12,50","priceCurrency":"USD"},"brand":{"@id":"#acme"}}</script>
+</head><body>
+  <div id="ada" itemscope itemtype="https://schema.org/Person"><span itemprop="name">Ada</span><span itemprop="shoeSize">9</span></div>
+  <div vocab="https://schema.org/" typeof="Event"><span property="name">Launch</span></div>
+</body></html>`;
+
+  it('validate the page once', async () => {
+    const validate = mock.method(SchemaOrgValidator.prototype, 'validate');
+    try {
+      const { issues } = await testRules(['KG-006', 'KG-007', 'KG-008', 'KG-009'], { html, url: URL, offline: true });
+      assert.deepEqual([...new Set(issues.map(i => i.id))].sort(), ['KG-006', 'KG-007', 'KG-008', 'KG-009']);
+      assert.equal(validate.mock.callCount(), 1);
+    } finally {
+      validate.mock.restore();
+    }
+  });
+
+  it('tag and locate issues by the syntax of the structured data', async () => {
+    const { issues } = await testRules(['KG-006', 'KG-008'], { html, url: URL, offline: true });
+
+    const colour = issues.find(i => i.evidence?.[1]?.includes('"colour"'));
+    assert.ok(colour?.tags?.includes('json-ld'));
+    assert.equal(colour?.evidence?.[0], 'Block 1: colour');
+
+    const shoeSize = issues.find(i => i.evidence?.[1]?.includes('"shoeSize"'));
+    assert.deepEqual(shoeSize?.tags, ['schema', 'validation', 'microdata']);
+    assert.equal(shoeSize?.location?.selector, '#ada');
+    assert.equal(shoeSize?.evidence?.[0], 'Microdata item 1: shoeSize');
+
+    const event = issues.find(i => i.id === 'KG-008' && i.tags?.includes('rdfa'));
+    assert.match(event?.evidence?.[0] ?? '', /^RDFa item 1: /);
+    assert.ok(!event?.tags?.includes('json-ld'));
+  });
+});
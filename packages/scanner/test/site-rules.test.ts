@@ -0,0 +1,197 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as cheerio from 'cheerio';
+import { runSiteRules } from '../src/rules/runner.js';
+import type { SitePage } from '../src/rules/registry.js';
+import { extractLinks } from '../src/crawler.js';
+import { normalizeUrl } from '../src/urls.js';
+import '../src/rules/index.js';
+
+const ORIGIN = 'https://example.com';
+
+interface PageFixture {
+  title?: string;
+  description?: string;
+  canonicals?: string[];
+  robots?: string;
+  links?: string[];
+  text?: string;
+  status?: number;
+  depth?: number;
+}
+
+function sitePage(path: string, fixture: PageFixture = {}): SitePage {
+  const head = [
+    fixture.title !== undefined ? `<title>${fixture.title}</title>` : '',
+    fixture.description !== undefined ? `<meta name="description" content="${fixture.description}">` : '',
+    fixture.robots ? `<meta name="robots" content="${fixture.robots}">` : '',
+    ...(fixture.canonicals ?? []).map(href => `<link rel="canonical" href="${href}">`)
+  ].join('');
+  const links = (fixture.links ?? []).map(href => `<a href="${href}">${href}</a>`).join(' ');
+  const html = `<html><head>${head}</head><body><nav>${links}</nav><main><p>${fixture.text ?? `Page ${path}`}</p></main></body></html>`;
+  const url = `${ORIGIN}${path}`;
+
+  return {
+    url,
+    finalUrl: normalizeUrl(url),
+    status: fixture.status ?? 200,
+    depth: fixture.depth,
+    html,
+    $: cheerio.load(html),
+    links: extractLinks(html, url)
+  };
+}
+
+async function siteIssues(id: string, pages: SitePage[], startUrls = [`${ORIGIN}/`]) {
+  const { issues } = await runSiteRules({ pages, startUrls });
+  return issues.filter(issue => issue.id === id);
+}
+
+// Distinct words, so every 5-word shingle is unique
+const words = (count: number, prefix = 'w') => Array.from({ length: count }, (_, i) => `${prefix}${i}`);
+
+/** Replace `changes` words spread evenly over the text */
+function edited(base: string[], changes: number): string {
+  const copy = [...base];
+  for (let k = 1; k <= changes; k++) copy[Math.floor((k * base.length) / (changes + 1))] = `changed${k}`;
+  return copy.join(' ');
+}
+
+describe('CRAWL-025 near-duplicate content', () => {
+  const base = words(300);
+
+  it('clusters pages whose main content is almost identical', async () => {
+    const issues = await siteIssues('CRAWL-025', [
+      sitePage('/a', { text: base.join(' ') }),
+      sitePage('/b', { text: edited(base, 1) }),
+      sitePage('/c', { text: edited(base, 2) }),
+      sitePage('/other', { text: words(300, 'x').join(' ') })
+    ]);
+
+    assert.equal(issues.length, 1);
+    assert.deepEqual(issues[0].evidence, [`${ORIGIN}/a`, `${ORIGIN}/b`, `${ORIGIN}/c`]);
+    assert.match(issues[0].description, /^3 pages have 9\d% or more/);
+  });
+
+  it('leaves pages below the 90% similarity threshold alone', async () => {
+    // One changed word removes 5 shingles: 6 changes leave ~82% of the shingles shared
+    const issues = await siteIssues('CRAWL-025', [
+      sitePage('/a', { text: base.join(' ') }),
+      sitePage('/b', { text: edited(base, 6) })
+    ]);
+
+    assert.deepEqual(issues, []);
+  });
+
+  it('ignores thin pages, error pages and navigation', async () => {
+    const thin = words(40).join(' ');
+    const issues = await siteIssues('CRAWL-025', [
+      sitePage('/a', { text: thin, links: ['/x', '/y'] }),
+      sitePage('/b', { text: thin, links: ['/x', '/y'] }),
+      sitePage('/gone', { text: base.join(' '), status: 404 }),
+      sitePage('/kept', { text: base.join(' ') })
+    ]);
+
+    assert.deepEqual(issues, []);
+  });
+});
+
+describe('CRAWL-026 conflicting canonicals', () => {
+  it('reports canonical loops, chains, multiple and unusable canonicals', async () => {
+    const issues = await siteIssues('CRAWL-026', [
+      sitePage('/loop-a', { canonicals: ['/loop-b'] }),
+      sitePage('/loop-b', { canonicals: ['/loop-a'] }),
+      sitePage('/chain', { canonicals: ['/middle'] }),
+      sitePage('/middle', { canonicals: ['/end'] }),
+      sitePage('/end', { canonicals: ['/end'] }),
+      sitePage('/two', { canonicals: ['/end', '/other'] }),
+      sitePage('/to-noindex', { canonicals: ['/hidden'] }),
+      sitePage('/hidden', { robots: 'noindex' }),
+      sitePage('/to-missing', { canonicals: ['/missing'] }),
+      sitePage('/missing', { status: 404 }),
+      sitePage('/fine', { canonicals: ['/end'] }),
+      sitePage('/self', { canonicals: [`${ORIGIN}/self`] })
+    ]);
+    const byPage = Object.fromEntries(issues.map(issue => [new URL(issue.location!.url!).pathname, issue.evidence]));
+
+    assert.deepEqual(byPage, {
+      '/loop-a': [`Canonical loop: ${ORIGIN}/loop-b declares ${ORIGIN}/loop-a as its canonical`],
+      '/loop-b': [`Canonical loop: ${ORIGIN}/loop-a declares ${ORIGIN}/loop-b as its canonical`],
+      '/chain': [`Canonical chain: ${ORIGIN}/middle declares ${ORIGIN}/end as its canonical`],
+      '/two': [`Page declares 2 different canonicals: ${ORIGIN}/end, ${ORIGIN}/other`],
+      '/to-noindex': [`Canonical ${ORIGIN}/hidden is marked noindex`],
+      '/to-missing': [`Canonical ${ORIGIN}/missing returns HTTP 404`]
+    });
+  });
+});
+
+describe('CRAWL-027 orphan pages', () => {
+  it('reports pages no crawled page links to', async () => {
+    const issues = await siteIssues('CRAWL-027', [
+      sitePage('/', { links: ['/linked'] }),
+      sitePage('/linked'),
+      sitePage('/orphan'),
+      sitePage('/found-by-link', { depth: 1 }),
+      sitePage('/gone', { status: 404 })
+    ]);
+
+    assert.deepEqual(issues.map(issue => issue.location?.url), [`${ORIGIN}/orphan`]);
+    assert.match(issues[0].description, /None of the 5 crawled pages link to/);
+  });
+
+  it('treats the single start URL as the entry point', async () => {
+    const issues = await siteIssues('CRAWL-027', [
+      sitePage('/docs/', { links: ['/docs/a'] }),
+      sitePage('/docs/a')
+    ], [`${ORIGIN}/docs/`]);
+
+    assert.deepEqual(issues, []);
+  });
+});
+
+describe('CRAWL-028 buried important pages', () => {
+  // The home page links to eight sections that all link to one hub, which
+  // links only to the key page: the key page collects most of the PageRank
+  // through a single inbound link
+  const sections = Array.from({ length: 8 }, (_, i) => `/section-${i}`);
+  const pages = [
+    sitePage('/', { links: sections }),
+    ...sections.map(path => sitePage(path, { links: ['/', '/hub'] })),
+    sitePage('/hub', { links: ['/key'] }),
+    sitePage('/key')
+  ];
+
+  it('reports central pages with few inbound links', async () => {
+    const issues = await siteIssues('CRAWL-028', pages);
+
+    assert.deepEqual(issues.map(issue => issue.location?.url), [`${ORIGIN}/key`]);
+    assert.match(issues[0].description, /linked from few pages/);
+    assert.ok(issues[0].evidence?.includes('Click depth: 3'));
+  });
+
+  it('needs at least 10 pages', async () => {
+    assert.deepEqual(await siteIssues('CRAWL-028', pages.slice(pages.length - 9)), []);
+  });
+});
+
+describe('CRAWL-023 / CRAWL-024 duplicate titles and descriptions', () => {
+  it('groups titles and descriptions ignoring case and whitespace', async () => {
+    const pages = [
+      sitePage('/a', { title: 'Pricing', description: 'Plans and  prices' }),
+      sitePage('/b', { title: ' pricing ', description: 'plans and prices' }),
+      sitePage('/c', { title: 'About', description: 'Who we are' }),
+      sitePage('/d', { title: 'Pricing', description: 'Plans and prices', status: 404 }),
+      sitePage('/e', { title: '', description: '' }),
+      sitePage('/f', { title: '', description: '' })
+    ];
+
+    const titles = await siteIssues('CRAWL-023', pages);
+    assert.equal(titles.length, 1);
+    assert.deepEqual(titles[0].evidence, [`${ORIGIN}/a`, `${ORIGIN}/b`]);
+    assert.equal(titles[0].description, '2 pages share the title "Pricing".');
+
+    const descriptions = await siteIssues('CRAWL-024', pages);
+    assert.equal(descriptions.length, 1);
+    assert.deepEqual(descriptions[0].evidence, [`${ORIGIN}/a`, `${ORIGIN}/b`]);
+  });
+});
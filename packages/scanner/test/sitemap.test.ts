@@ -0,0 +1,143 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { gzipSync } from 'node:zlib';
+import { discoverSitemaps, fetchSitemap, parseSitemap, sortSitemapEntries, SitemapEntry } from '../src/sitemap.js';
+import { clearRobotsTxtCache } from '../src/robots-txt.js';
+
+const urlset = (urls: string[]) =>
+  `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls.join('')}</urlset>`;
+
+let server: Server;
+let origin: string;
+let files: Record<string, string | Buffer>;
+
+before(async () => {
+  server = createServer((req, res) => {
+    const file = files[new URL(req.url ?? '/', 'http://localhost').pathname];
+    if (file === undefined) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { 'content-type': Buffer.isBuffer(file) ? 'application/gzip' : 'application/xml' }).end(file);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  files = {
+    '/robots.txt': `User-agent: *\nAllow: /\n\nSitemap: ${origin}/sitemap_index.xml\n`,
+    // The index lists itself, so recursion must stop at visited sitemaps
+    '/sitemap_index.xml': `<?xml version="1.0"?><sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+      <sitemap><loc>${origin}/pages.xml</loc></sitemap>
+      <sitemap><loc>/posts.xml.gz</loc></sitemap>
+      <sitemap><loc>${origin}/sitemap_index.xml</loc></sitemap>
+      <sitemap><loc>${origin}/missing.xml</loc></sitemap>
+    </sitemapindex>`,
+    '/pages.xml': urlset([
+      `<url><loc>${origin}/about</loc><lastmod>2024-01-01</lastmod></url>`,
+      `<url><loc>${origin}/new</loc><lastmod>2024-06-01</lastmod><priority>0.9</priority></url>`,
+      `<url><loc>${origin}/undated</loc></url>`,
+      '<url><loc>https://cdn.example.net/elsewhere</loc><lastmod>2024-07-01</lastmod></url>'
+    ]),
+    '/posts.xml.gz': gzipSync(urlset([
+      `<url><loc>${origin}/post</loc><lastmod>2024-03-01T12:00:00Z</lastmod></url>`,
+      // Also in pages.xml: the most recent lastmod wins
+      `<url><loc>${origin}/about</loc><lastmod>2024-05-01</lastmod></url>`
+    ]))
+  };
+});
+
+after(() => {
+  clearRobotsTxtCache();
+  return new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+describe('discoverSitemaps', () => {
+  it('expands sitemap indexes and gzipped sitemaps from robots.txt', async () => {
+    const discovery = await discoverSitemaps(`${origin}/`);
+
+    assert.deepEqual(discovery.sitemaps.map(s => [new URL(s.url).pathname, s.type, s.found, s.entries]), [
+      ['/sitemap_index.xml', 'index', 'robots', 4],
+      ['/pages.xml', 'urlset', 'index', 4],
+      ['/posts.xml.gz', 'urlset', 'index', 2],
+      ['/missing.xml', 'invalid', 'index', 0]
+    ]);
+    assert.equal(discovery.sitemaps[3].error, 'HTTP 404');
+    assert.equal(discovery.truncated, false);
+  });
+
+  it('sorts entries by lastmod and keeps the most recent one per URL', async () => {
+    const discovery = await discoverSitemaps(`${origin}/`);
+
+    assert.deepEqual(discovery.entries.map(e => [new URL(e.url).pathname, e.lastmod]), [
+      ['/new', '2024-06-01'],
+      ['/about', '2024-05-01'],
+      ['/post', '2024-03-01T12:00:00Z'],
+      ['/undated', undefined]
+    ]);
+    assert.equal(discovery.entries[1].sitemap, `${origin}/posts.xml.gz`);
+  });
+
+  it('drops entries on other hosts unless asked to follow them', async () => {
+    const discovery = await discoverSitemaps(`${origin}/`);
+    assert.equal(discovery.external, 1);
+    assert.ok(discovery.entries.every(e => e.url.startsWith(origin)));
+
+    const all = await discoverSitemaps(`${origin}/`, { followExternal: true });
+    assert.equal(all.external, 0);
+    assert.equal(all.entries[0].url, 'https://cdn.example.net/elsewhere');
+  });
+
+  it('stops at maxUrls', async () => {
+    const discovery = await discoverSitemaps(`${origin}/`, { sitemapUrls: [`${origin}/pages.xml`], maxUrls: 2 });
+
+    assert.equal(discovery.entries.length, 2);
+    assert.equal(discovery.truncated, true);
+    assert.equal(discovery.sitemaps[0].found, 'explicit');
+  });
+});
+
+describe('fetchSitemap', () => {
+  it('refuses gzip files that expand beyond 50 MB', async () => {
+    files['/bomb.xml.gz'] = gzipSync(Buffer.alloc(51 * 1024 * 1024, ' '));
+
+    const fetched = await fetchSitemap(`${origin}/bomb.xml.gz`);
+    assert.equal(fetched.status, 200);
+    assert.equal(fetched.content, undefined);
+    assert.equal(fetched.error, 'Sitemap is larger than 50 MB uncompressed');
+  });
+
+  it('reports corrupt gzip data', async () => {
+    files['/broken.xml.gz'] = Buffer.from([0x1f, 0x8b, 1, 2, 3]);
+
+    const fetched = await fetchSitemap(`${origin}/broken.xml.gz`);
+    assert.match(fetched.error ?? '', /^Invalid gzip data/);
+  });
+});
+
+describe('parseSitemap', () => {
+  it('reads text sitemaps and clamps priorities', () => {
+    assert.deepEqual(parseSitemap('https://example.com/a\nnot a url\nhttps://example.com/b\n').urls, [
+      { url: 'https://example.com/a' },
+      { url: 'https://example.com/b' }
+    ]);
+    assert.equal(parseSitemap(urlset(['<url><loc>https://example.com/</loc><priority>3</priority></url>'])).urls[0].priority, 1);
+    assert.equal(parseSitemap('<html></html>').type, 'invalid');
+  });
+});
+
+describe('sortSitemapEntries', () => {
+  it('puts recent pages first, then higher priorities, then undated pages', () => {
+    const entry = (url: string, lastmod?: string, priority?: number): SitemapEntry => ({ url, lastmod, priority, sitemap: 's' });
+    const sorted = sortSitemapEntries([
+      entry('undated-high', undefined, 1),
+      entry('old', '2023-01-01'),
+      entry('recent-low', '2024-01-01', 0.1),
+      entry('recent-high', '2024-01-01', 0.9),
+      entry('undated', 'not a date')
+    ]);
+
+    assert.deepEqual(sorted.map(e => e.url), ['recent-high', 'recent-low', 'old', 'undated-high', 'undated']);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractMicrodata } from '../src/microdata-extractor.js';
+import { extractRdfa } from '../src/rdfa-extractor.js';
+import { JsonLdExtractor } from '../src/json-ld-extractor.js';
+import { parseHtml } from '../src/utils.js';
+
+const URL = 'https://example.com/team/';
+
+describe('extractMicrodata', () => {
+  it('normalizes items to the JSON-LD shape', () => {
+    const items = extractMicrodata(parseHtml(`<div itemscope itemtype="https://schema.org/Person">
+      <span itemprop="name">Ada Lovelace</span>
+      <a itemprop="url" href="ada">Profile</a>
+      <img itemprop="image" src="/ada.jpg">
+      <meta itemprop="birthDate" content="1815-12-10">
+    </div>`), URL);
+
+    assert.equal(items.length, 1);
+    assert.equal(items[0].syntax, 'microdata');
+    assert.deepEqual(items[0].data, {
+      '@type': 'Person',
+      name: 'Ada Lovelace',
+      url: 'https://example.com/team/ada',
+      image: 'https://example.com/ada.jpg',
+      birthDate: '1815-12-10'
+    });
+  });
+
+  it('nests items and collects repeated properties', () => {
+    const [item] = extractMicrodata(parseHtml(`<div itemscope itemtype="https://schema.org/Organization">
+      <span itemprop="name">Acme</span>
+      <link itemprop="sameAs" href="https://x.com/acme">
+      <link itemprop="sameAs" href="https://github.com/acme">
+      <div itemprop="founder" itemscope itemtype="https://schema.org/Person"><span itemprop="name">Ada</span></div>
+    </div>`), URL);
+
+    assert.deepEqual(item.data.sameAs, ['https://x.com/acme', 'https://github.com/acme']);
+    assert.deepEqual(item.data.founder, { '@type': 'Person', name: 'Ada' });
+  });
+
+  it('locates items by id, or by type and position', () => {
+    const items = extractMicrodata(parseHtml(`
+      <div id="ada" itemscope itemtype="https://schema.org/Person"><span itemprop="name">Ada</span></div>
+      <div itemscope itemtype="https://schema.org/Person"><span itemprop="name">Grace</span></div>
+    `), URL);
+
+    assert.equal(items[0].selector, '#ada');
+    assert.ok(items[1].selector);
+  });
+
+  it('escapes ids and attribute values in selectors', () => {
+    const $ = parseHtml(`
+      <div id="1:ada" itemscope itemtype="https://schema.org/Person"><span itemprop="name">Ada</span></div>
+      <div itemscope itemtype='https://schema.org/Person"x'><span itemprop="name">Grace</span></div>
+    `);
+    const items = extractMicrodata($, URL);
+
+    assert.equal(items[0].selector, '#\\31 \\:ada');
+    assert.equal($(items[0].selector).text(), 'Ada');
+    assert.equal(items[1].selector, '[itemtype="https://schema.org/Person\\"x"]');
+    assert.equal($(items[1].selector).text(), 'Grace');
+  });
+});
+
+describe('extractRdfa', () => {
+  it('normalizes schema.org items to the JSON-LD shape', () => {
+    const items = extractRdfa(parseHtml(`<div vocab="https://schema.org/" typeof="Organization">
+      <span property="name">Acme</span>
+      <a property="url" href="/">Home</a>
+      <div property="address" typeof="PostalAddress"><span property="addressLocality">Paris</span></div>
+    </div>`), URL);
+
+    assert.equal(items.length, 1);
+    assert.equal(items[0].syntax, 'rdfa');
+    assert.deepEqual(items[0].data, {
+      '@type': 'Organization',
+      name: 'Acme',
+      url: 'https://example.com/',
+      address: { '@type': 'PostalAddress', addressLocality: 'Paris' }
+    });
+  });
+
+  it('escapes attribute values in selectors', () => {
+    const $ = parseHtml('<div vocab="https://schema.org/" typeof="Person" resource="#a\\b"><span property="name">Ada</span></div>');
+    const [item] = extractRdfa($, URL);
+    assert.equal(item.selector, '[resource="#a\\\\b"]');
+    assert.equal($(item.selector).text(), 'Ada');
+  });
+
+  it('ignores items in other vocabularies', () => {
+    const items = extractRdfa(parseHtml('<div vocab="http://xmlns.com/foaf/0.1/" typeof="Person"><span property="name">Ada</span></div>'), URL);
+    assert.deepEqual(items, []);
+  });
+});
+
+describe('JsonLdExtractor', () => {
+  it('merges JSON-LD, microdata and RDFa, and records parse errors', () => {
+    const result = new JsonLdExtractor(parseHtml(`<html><head>
+      <script type="application/ld+json">{"@context":"https://schema.org","@graph":[{"@type":"WebSite","name":"Acme"},{"@type":"BreadcrumbList","itemListElement":[]}]}</script>
+      <script type="application/ld+json">{ broken</script>
+    </head><body>
+      <div itemscope itemtype="https://schema.org/FAQPage"></div>
+      <div vocab="https://schema.org/" typeof="Organization"><span property="name">Acme</span></div>
+    </body></html>`), URL).extract();
+
+    assert.deepEqual([...result.types].sort(), ['BreadcrumbList', 'FAQPage', 'Organization', 'WebSite']);
+    assert.deepEqual([...result.syntaxes].sort(), ['json-ld', 'microdata', 'rdfa']);
+    assert.equal(result.hasBreadcrumbs, true);
+    assert.equal(result.hasFAQ, true);
+    assert.equal(result.errors.length, 1);
+    assert.equal(result.errors[0].index, 1);
+  });
+
+  it('extracts each document once', () => {
+    const $ = parseHtml('<script type="application/ld+json">{"@context":"https://schema.org","@type":"WebSite","name":"Acme"}</script>');
+    const result = new JsonLdExtractor($, URL).extract();
+
+    assert.equal(new JsonLdExtractor($, URL).extract(), result);
+    assert.notEqual(new JsonLdExtractor($, 'https://example.org/').extract(), result);
+    assert.notEqual(new JsonLdExtractor(parseHtml($.html()), URL).extract(), result);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CATEGORY, Issue, SEVERITY } from '../src/types.js';
+import { applySuppressions, findInlineSuppressions } from '../src/suppressions.js';
+import { createBaseline } from '../src/baseline.js';
+import { parseHtml } from '../src/utils.js';
+
+function issue(id: string, selector?: string, category = CATEGORY.AIREAD): Issue {
+  return {
+    id,
+    title: `Issue ${id}`,
+    severity: SEVERITY.MEDIUM,
+    description: '',
+    remediation: '',
+    impactScore: 5,
+    category,
+    location: { url: 'https://example.com/', selector }
+  };
+}
+
+const ids = (issues: Issue[]) => issues.map(i => i.id);
+
+describe('findInlineSuppressions', () => {
+  it('reads rule lists from attributes and comments', () => {
+    const $ = parseHtml(`<html><body>
+      <div data-ai-lighthouse-ignore="AIREAD-010, KG">x</div>
+      <!-- ai-lighthouse-ignore AIREAD-037 -->
+      <img src="a.png">
+    </body></html>`);
+    const found = findInlineSuppressions($);
+    assert.deepEqual(found.map(s => s.rules), [['AIREAD-010', 'KG'], ['AIREAD-037']]);
+    assert.equal(found[1].scope?.type, 'tag');
+  });
+
+  it('makes attributes on html/head/body and comments in head page-wide', () => {
+    const $ = parseHtml(`<html data-ai-lighthouse-ignore="CRAWL"><head>
+      <!-- ai-lighthouse-ignore KG-002 -->
+      <title>x</title>
+    </head><body></body></html>`);
+    assert.deepEqual(findInlineSuppressions($).map(s => s.scope), [null, null]);
+  });
+});
+
+describe('applySuppressions', () => {
+  const $ = parseHtml(`<html><body>
+    <nav data-ai-lighthouse-ignore="AIREAD-010"><a href="/">Home</a></nav>
+    <section data-ai-lighthouse-ignore><p class="x">Text</p></section>
+    <!-- ai-lighthouse-ignore A11Y -->
+    <img class="hero" src="a.png">
+    <img class="other" src="b.png">
+    <p class="x">Outside</p>
+  </body></html>`);
+
+  it('suppresses issues whose elements are all inside an ignored element', () => {
+    const { issues, suppressed } = applySuppressions([
+      issue('AIREAD-010', 'nav a'),
+      issue('AIREAD-011', 'nav a'),
+      issue('AIREAD-020', 'section p')
+    ], { $ });
+    assert.deepEqual(ids(suppressed), ['AIREAD-010', 'AIREAD-020']);
+    assert.deepEqual(ids(issues), ['AIREAD-011']);
+    assert.ok(suppressed.every(i => i.suppressedBy === 'inline'));
+  });
+
+  it('keeps issues with any element outside the ignored ones', () => {
+    const { issues } = applySuppressions([issue('AIREAD-020', 'p.x')], { $ });
+    assert.deepEqual(ids(issues), ['AIREAD-020']);
+  });
+
+  it('applies comments to the next element and matches categories', () => {
+    const { issues, suppressed } = applySuppressions([
+      issue('A11Y-001', 'img.hero', CATEGORY.A11Y),
+      issue('A11Y-001', 'img.other', CATEGORY.A11Y)
+    ], { $ });
+    assert.deepEqual(suppressed.map(i => i.location?.selector), ['img.hero']);
+    assert.deepEqual(issues.map(i => i.location?.selector), ['img.other']);
+  });
+
+  it('keeps issues without a selector unless the suppression is page-wide', () => {
+    assert.equal(applySuppressions([issue('AIREAD-020')], { $ }).issues.length, 1);
+
+    const pageWide = parseHtml('<html><head><!-- ai-lighthouse-ignore AIREAD-020 --></head><body></body></html>');
+    assert.equal(applySuppressions([issue('AIREAD-020')], { $: pageWide }).suppressed.length, 1);
+  });
+
+  it('never suppresses rule errors and timeouts', () => {
+    const everything = parseHtml('<html data-ai-lighthouse-ignore><body></body></html>');
+    const { issues } = applySuppressions([issue('MISC-ERR'), issue('MISC-TIMEOUT'), issue('AIREAD-001')], { $: everything });
+    assert.deepEqual(ids(issues), ['MISC-ERR', 'MISC-TIMEOUT']);
+  });
+
+  it('suppresses issues in the baseline', () => {
+    const known = issue('KG-001');
+    const { issues, suppressed } = applySuppressions(
+      [known, issue('KG-002')],
+      { baseline: createBaseline([known]) }
+    );
+    assert.deepEqual(ids(issues), ['KG-002']);
+    assert.deepEqual(suppressed.map(i => [i.id, i.suppressedBy]), [['KG-001', 'baseline']]);
+  });
+});
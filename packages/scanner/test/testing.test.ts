@@ -0,0 +1,124 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { CATEGORY, Issue, SEVERITY } from '../src/types.js';
+import { BaseRule, RuleMeta } from '../src/rules/registry.js';
+import { matchRuleSnapshot, serializeRuleSnapshot, testRules, toRuleSnapshot } from '../src/testing.js';
+
+const SNAPSHOTS = fileURLToPath(new URL('./__snapshots__/', import.meta.url));
+
+const LLMS_TXT = `# Example
+
+> Docs for the example product.
+
+## Docs
+
+- [Guide](https://example.com/guide): Getting started
+- [API](https://example.com/api): Reference
+- [Old](https://example.com/old): Moved away
+`;
+
+class ThrowingRule extends BaseRule {
+  static meta: RuleMeta = {
+    id: 'TEST-THROW',
+    title: 'Always throws',
+    category: CATEGORY.AIREAD,
+    defaultSeverity: SEVERITY.LOW
+  };
+
+  async execute(): Promise<Issue | null> {
+    throw new Error('boom');
+  }
+}
+
+function scratchDir(): string {
+  return mkdtempSync(join(tmpdir(), 'ai-lighthouse-snapshots-'));
+}
+
+describe('testRules', () => {
+  it('answers the rules\' requests from the fixture', async () => {
+    const result = await testRules('AIREAD-102', {
+      html: '<html><body><h1>Example</h1></body></html>',
+      fetch: {
+        'https://example.com/llms.txt': { body: LLMS_TXT, headers: { 'content-type': 'text/plain' } },
+        'https://example.com/guide': 200,
+        'https://example.com/api': { status: 200, url: 'https://example.com/api/' }
+      }
+    });
+
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.issues.length, 1);
+    assert.deepEqual(result.issues[0].evidence, ['Line 9: https://example.com/old → HTTP 404']);
+    assert.ok(result.requests.includes('GET https://example.com/llms.txt'));
+    await matchRuleSnapshot(result, join(SNAPSHOTS, 'llms-txt-dead-links.json'));
+  });
+
+  it('skips network rules offline', async () => {
+    const result = await testRules(['AIREAD-102', 'AIREAD-037'], {
+      html: '<html><body><img src="/a.png"></body></html>',
+      offline: true
+    });
+    assert.deepEqual(result.skipped, ['AIREAD-102']);
+    assert.deepEqual(result.issues.map(i => i.id), ['AIREAD-037']);
+    assert.deepEqual(result.requests, []);
+  });
+
+  it('reports rules that throw as errors', async () => {
+    const result = await testRules(ThrowingRule, { html: '<html></html>', offline: true });
+    assert.deepEqual(result.issues, []);
+    assert.deepEqual(result.errors.map(i => i.id), ['MISC-ERR']);
+  });
+
+  it('restores the global fetch', async () => {
+    const realFetch = globalThis.fetch;
+    await testRules('AIREAD-102', { html: '<html></html>' });
+    assert.equal(globalThis.fetch, realFetch);
+  });
+});
+
+describe('matchRuleSnapshot', () => {
+  const issues = [
+    { id: 'B-1', title: 'b', severity: SEVERITY.LOW, category: CATEGORY.AIREAD, description: '', remediation: '', impactScore: 1, timestamp: '2020-01-01' },
+    { id: 'A-1', title: 'a', severity: SEVERITY.LOW, category: CATEGORY.AIREAD, description: '', remediation: '', impactScore: 1 }
+  ] as Issue[];
+
+  it('sorts issues and leaves out timestamps', () => {
+    const snapshot = toRuleSnapshot(issues);
+    assert.deepEqual(snapshot.map(e => e.id), ['A-1', 'B-1']);
+    assert.ok(snapshot.every(e => !('timestamp' in e)));
+  });
+
+  it('writes a missing snapshot outside CI, then compares with it', async () => {
+    const dir = scratchDir();
+    try {
+      const path = join(dir, 'nested', 'rules.json');
+      await matchRuleSnapshot(issues, path, { ci: false });
+      assert.equal(readFileSync(path, 'utf-8'), serializeRuleSnapshot(toRuleSnapshot(issues)));
+
+      await matchRuleSnapshot(issues, path, { ci: false });
+      await assert.rejects(
+        matchRuleSnapshot(issues.slice(1), path, { ci: false }),
+        /expected 2 issues, got 1/
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('fails on a missing snapshot in CI', async () => {
+    const dir = scratchDir();
+    try {
+      const path = join(dir, 'rules.json');
+      await assert.rejects(matchRuleSnapshot(issues, path, { ci: true }), /does not exist/);
+      assert.equal(existsSync(path), false);
+
+      await matchRuleSnapshot(issues, path, { ci: true, update: true });
+      assert.equal(existsSync(path), true);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  countTokens,
+  DEFAULT_TOKENIZER,
+  getTokenizer,
+  isTokenizerName,
+  listTokenizers,
+  registerTokenizer
+} from '../src/tokenizer.js';
+
+const TEXT = 'AI Lighthouse audits how well large language models can read, chunk and cite a web page.';
+
+describe('tokenizers', () => {
+  it('bundles cl100k, o200k and llama3', () => {
+    assert.deepEqual(listTokenizers().map(t => t.name).slice(0, 3), ['cl100k', 'o200k', 'llama3']);
+    assert.equal(DEFAULT_TOKENIZER, 'cl100k');
+    assert.equal(getTokenizer().name, 'cl100k');
+  });
+
+  it('counts tokens with each vocabulary', () => {
+    const counts = ['cl100k', 'o200k', 'llama3'].map(name => countTokens(TEXT, name));
+    assert.ok(counts.every(count => count > 10 && count < TEXT.length));
+    assert.equal(countTokens('', 'llama3'), 0);
+  });
+
+  it('encodes to the counted number of tokens', () => {
+    for (const tokenizer of listTokenizers()) {
+      assert.equal(tokenizer.encode(TEXT).length, tokenizer.countTokens(TEXT), tokenizer.name);
+    }
+  });
+
+  it('uses the Llama 3 vocabulary for llama3', () => {
+    // Llama 3 extends cl100k's 100k tokens with 28k more, mostly for other languages
+    assert.deepEqual(getTokenizer('llama3').encode('Hello world'), getTokenizer('cl100k').encode('Hello world'));
+    assert.deepEqual(getTokenizer('llama3').encode('こんにちは世界'), [90115, 102616]);
+    assert.equal(countTokens('こんにちは世界', 'cl100k'), 4);
+  });
+
+  it('encodes special token strings in page text as plain text', () => {
+    for (const name of ['cl100k', 'o200k', 'llama3']) {
+      assert.ok(countTokens('before <|endoftext|> after', name) > 3, name);
+    }
+  });
+
+  it('rejects unknown names and accepts tokenizer objects', () => {
+    assert.throws(() => getTokenizer('gpt2'), /Unknown tokenizer "gpt2" \(expected one of: cl100k, o200k, llama3/);
+    assert.equal(isTokenizerName('gpt2'), false);
+
+    const words = { name: 'words', description: 'Words', encode: (text: string) => text.split(/\s+/).map((_, i) => i), countTokens: (text: string) => text.split(/\s+/).length };
+    assert.equal(countTokens('one two three', words), 3);
+  });
+
+  it('registers custom tokenizers by name', () => {
+    registerTokenizer({ name: 'chars', description: 'One token per character', encode: text => [...text].map(c => c.charCodeAt(0)), countTokens: text => text.length });
+    assert.equal(isTokenizerName('chars'), true);
+    assert.equal(countTokens('abc', 'chars'), 3);
+  });
+});
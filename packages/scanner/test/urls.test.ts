@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileUrlPattern, createUrlFilter, normalizeUrl, pageKey } from '../src/urls.js';
+
+describe('normalizeUrl', () => {
+  it('drops the fragment and tracking parameters', () => {
+    assert.equal(
+      normalizeUrl('https://Example.com:443/a?utm_source=x&id=2&fbclid=abc#top'),
+      'https://example.com/a?id=2'
+    );
+  });
+
+  it('leaves no bare "?" when every parameter was removed', () => {
+    assert.equal(normalizeUrl('https://example.com/a?utm_medium=email&gclid=1'), 'https://example.com/a');
+  });
+
+  it('keeps tracking parameters when asked to', () => {
+    assert.equal(
+      normalizeUrl('https://example.com/a?utm_source=x', { stripTrackingParams: false }),
+      'https://example.com/a?utm_source=x'
+    );
+  });
+});
+
+describe('pageKey', () => {
+  it('treats the URL variants of a static page as one', () => {
+    const key = pageKey('https://example.com/docs');
+    for (const variant of ['/docs/', '/docs.html', '/docs/index.html', '/docs/index.htm']) {
+      assert.equal(pageKey(`https://example.com${variant}`), key, variant);
+    }
+    assert.notEqual(pageKey('https://example.com/docs/intro'), key);
+  });
+});
+
+describe('createUrlFilter', () => {
+  it('accepts every URL without patterns', () => {
+    assert.equal(createUrlFilter()('https://example.com/anything'), true);
+  });
+
+  it('rejects URLs that do not parse', () => {
+    assert.equal(createUrlFilter()('not a url'), false);
+  });
+
+  it('matches globs starting with "/" against the path from its start', () => {
+    const filter = createUrlFilter([], ['/tag/*']);
+    assert.equal(filter('https://example.com/tag/news'), false);
+    assert.equal(filter('https://example.com/blog/tag/news'), true);
+  });
+
+  it('requires one include match and no exclude match', () => {
+    const filter = createUrlFilter(['/blog/*'], [/\/drafts\//]);
+    assert.equal(filter('https://example.com/blog/post'), true);
+    assert.equal(filter('https://example.com/blog/drafts/post'), false);
+    assert.equal(filter('https://example.com/about'), false);
+  });
+});
+
+describe('compileUrlPattern', () => {
+  const matches = (pattern: string | RegExp, url: string) => compileUrlPattern(pattern)(new URL(url));
+
+  it('anchors globs to the whole path', () => {
+    assert.equal(matches('/docs/*', 'https://example.com/docs/intro'), true);
+    assert.equal(matches('/docs/*', 'https://example.com/mydocs/intro'), false);
+    assert.equal(matches('/docs/*', 'https://example.com/blog?from=/docs/x'), false);
+    assert.equal(matches('docs/*', 'https://example.com/docs/intro'), true);
+  });
+
+  it('reads "/docs/" as the directory, not as a regex', () => {
+    assert.equal(matches('/docs/', 'https://example.com/docs/'), true);
+    assert.equal(matches('/docs/', 'https://example.com/docs/a/b'), true);
+    assert.equal(matches('/docs/', 'https://example.com/mydocs/'), false);
+    assert.equal(matches('/docs/', 'https://example.com/search?q=docs'), false);
+    assert.equal(matches('/blog/*/', 'https://example.com/blog/2024/post'), true);
+  });
+
+  it('matches the query only for globs containing "?"', () => {
+    assert.equal(matches('/*?page=*', 'https://example.com/blog?page=2'), true);
+    assert.equal(matches('/*?page=*', 'https://example.com/blog'), false);
+    assert.equal(matches('/about', 'https://example.com/about?ref=nav'), true);
+  });
+
+  it('matches globs with a scheme against the URL', () => {
+    assert.equal(matches('https://example.com/docs/*', 'https://example.com/docs/intro'), true);
+    assert.equal(matches('https://example.com/docs/*', 'https://docs.example.com/docs/intro'), false);
+  });
+
+  it('reads "/.../flags" strings with regex syntax as regexes on the full URL', () => {
+    assert.equal(matches('/\\.pdf$/i', 'https://example.com/files/Report.PDF'), true);
+    assert.equal(matches('/docs/.*\\.pdf$/', 'https://example.com/docs/a/b.pdf'), true);
+    assert.equal(matches('/^https:\\/\\/cdn\\./', 'https://example.com/cdn.js'), false);
+  });
+
+  it('ignores the g and y flags, which make test() stateful', () => {
+    for (const pattern of ['/(intro|guide)/g', /(intro|guide)/gy]) {
+      const match = compileUrlPattern(pattern);
+      const url = new URL('https://example.com/docs/intro');
+      assert.deepEqual([match(url), match(url), match(url)], [true, true, true], String(pattern));
+    }
+  });
+});
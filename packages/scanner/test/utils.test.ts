@@ -0,0 +1,76 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { fetchHtml, RedirectError, setCached } from '../src/utils.js';
+
+// /loop-a ⇄ /loop-b; /hop/N redirects to /hop/N-1 and /hop/0 is a page
+let server: Server;
+let origin: string;
+
+before(async () => {
+  server = createServer((req, res) => {
+    const path = req.url ?? '/';
+    const hop = path.match(/^\/hop\/(\d+)$/);
+    if (path === '/loop-a' || path === '/loop-b') {
+      res.writeHead(302, { location: path === '/loop-a' ? '/loop-b' : '/loop-a' }).end();
+    } else if (hop && hop[1] !== '0') {
+      res.writeHead(301, { location: `/hop/${Number(hop[1]) - 1}` }).end();
+    } else {
+      res.writeHead(200, { 'content-type': 'text/html' }).end('<html><body>Landed</body></html>');
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe('fetchHtml', () => {
+  it('records every redirect hop', async () => {
+    const fetched = await fetchHtml(`${origin}/hop/2`, 5000);
+    assert.equal(fetched.finalUrl, `${origin}/hop/0`);
+    assert.equal(fetched.text, '<html><body>Landed</body></html>');
+    assert.deepEqual(fetched.redirectChain.map(hop => [hop.status, hop.location]), [
+      [301, `${origin}/hop/1`],
+      [301, `${origin}/hop/0`]
+    ]);
+  });
+
+  it('throws on a redirect loop', async () => {
+    await assert.rejects(fetchHtml(`${origin}/loop-a`, 5000), (error: unknown) => {
+      assert.ok(error instanceof RedirectError);
+      assert.equal(error.loop, true);
+      assert.equal(error.message, `Redirect loop: ${origin}/loop-a → ${origin}/loop-b → ${origin}/loop-a`);
+      assert.equal(error.redirectChain.length, 2);
+      return true;
+    });
+  });
+
+  it('throws after maxRedirects hops', async () => {
+    await assert.rejects(fetchHtml(`${origin}/hop/5`, 5000, undefined, 3), (error: unknown) => {
+      assert.ok(error instanceof RedirectError);
+      assert.equal(error.loop, false);
+      assert.match(error.message, /^Too many redirects: .*\/hop\/5 still redirects after 3 hops/);
+      return true;
+    });
+  });
+});
+
+describe('setCached', () => {
+  it('drops expired entries when storing one', () => {
+    const now = mock.method(Date, 'now', () => 1000);
+    try {
+      const cache = new Map<string, { expires: number }>();
+      setCached(cache, 'a', { expires: 1500 });
+      setCached(cache, 'b', { expires: 1600 });
+      setCached(cache, 'a', { expires: 1700 });
+
+      now.mock.mockImplementation(() => 1650);
+      setCached(cache, 'c', { expires: 2650 });
+      assert.deepEqual([...cache.keys()], ['a', 'c']);
+    } finally {
+      now.mock.restore();
+    }
+  });
+});